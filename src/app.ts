@@ -12,6 +12,7 @@ import { errorHandler, notFoundHandler, defaultRateLimiter } from './middlewares
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './config/swagger';
 import { mountBullBoard } from './queues';
+import { StorageDriver } from './types/storage.types';
 
 /**
  * Create and configure Express application
@@ -92,6 +93,11 @@ const createApp = (beforeErrorHandlers?: (app: Application) => void): Applicatio
   // Static files
   app.use(express.static('public'));
 
+  // Media kept on local disk by the local storage driver
+  if (config.storage.driver === StorageDriver.LOCAL) {
+    app.use(config.storage.local.publicPath, express.static(config.storage.local.directory));
+  }
+
   // HTTP request logging
   if (config.env !== 'test') {
     app.use(
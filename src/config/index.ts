@@ -1,5 +1,9 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { OAuthProviderKind, type OAuthProviderConfig } from '../types/oauth.types';
+import { VerifiedEmailAction } from '../types/emailVerification.types';
+import { StorageDriver, type StorageQuota } from '../types/storage.types';
+import { MalwareScannerDriver } from '../types/malwareScan.types';
 
 // Load environment variables from .env file
 dotenv.config({ path: path.join(__dirname, '../../.env') });
@@ -57,6 +61,40 @@ interface Config {
     allowedVideoTypes: string[];
     allowedDocumentTypes: string[];
     tusChunkSizeMB: number;
+    stripImageMetadata: boolean; // Drop EXIF (GPS, camera) and other metadata from images
+    rejectionRetentionDays: number;
+    directUploadSweepIntervalMs: number;
+    directUploadSweepBatchSize: number;
+    malwareScan: {
+      scanner: MalwareScannerDriver;
+      clamd: {
+        socketPath: string; // Unix socket; host and port are used when empty
+        host: string;
+        port: number;
+        timeoutMs: number;
+      };
+    };
+  };
+  storage: {
+    driver: StorageDriver;
+    quotas: Record<string, StorageQuota>; // Keyed by user role
+    local: {
+      directory: string;
+      privateDirectory: string; // Quarantined files, never served
+      publicPath: string; // Path the files are served under
+      baseUrl: string; // Public URL of publicPath
+    };
+    s3: {
+      endpoint: string;
+      region: string;
+      bucket: string;
+      accessKeyId: string;
+      secretAccessKey: string;
+      forcePathStyle: boolean; // Needed for MinIO and most self-hosted services
+      publicUrl: string; // Base URL objects are read from; the bucket URL when empty
+      quarantinePrefix: string; // Key prefix of quarantined objects, never made public
+      signedUrlTtlSeconds: number;
+    };
   };
   queue: {
     concurrency: number;
@@ -66,14 +104,109 @@ interface Config {
       password: string;
     };
   };
+  chat: {
+    expiredMessageSweepIntervalMs: number;
+    expiredMessageSweepBatchSize: number;
+  };
   otp: {
     length: number;
     ttlSeconds: number;
     maxAttempts: number;
     cooldownSeconds: number;
   };
+  twoFactor: {
+    issuer: string;
+    encryptionKey: string;
+    challengeTtlSeconds: number;
+    maxAttempts: number;
+    recoveryCodeCount: number;
+  };
+  webauthn: {
+    rpId: string;
+    rpName: string;
+    origins: string[];
+    challengeTtlSeconds: number;
+  };
+  sessionCache: {
+    ttlSeconds: number;
+  };
+  emailVerification: {
+    requiredFor: VerifiedEmailAction[];
+  };
+  password: {
+    historySize: number;
+  };
+  apiKeys: {
+    maxPerUser: number;
+    lastUsedUpdateIntervalSeconds: number;
+  };
+  loginAlerts: {
+    reportUrl: string;
+    reportTokenTtlSeconds: number;
+    recentLoginCount: number;
+    historyRetentionDays: number;
+  };
+  lockout: {
+    maxAccountFailures: number;
+    accountWindowSeconds: number;
+    accountLockSeconds: number;
+    maxIpFailures: number;
+    ipWindowSeconds: number;
+    ipBlockSeconds: number;
+    delayAfterFailures: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+  };
+  oauth: {
+    redirectUri: string;
+    stateTtlSeconds: number;
+    providers: Record<string, OAuthProviderConfig>;
+  };
 }
 
+/**
+ * Build the OAuth providers that have credentials configured
+ */
+const buildOAuthProviders = (): Record<string, OAuthProviderConfig> => {
+  const providers: Record<string, OAuthProviderConfig> = {};
+
+  if (process.env.GOOGLE_CLIENT_ID) {
+    providers.google = {
+      kind: OAuthProviderKind.OIDC,
+      name: 'Google',
+      issuer: 'https://accounts.google.com',
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+      scopes: ['openid', 'email', 'profile'],
+    };
+  }
+
+  if (process.env.GITHUB_CLIENT_ID) {
+    providers.github = {
+      kind: OAuthProviderKind.GITHUB,
+      name: 'GitHub',
+      authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+      tokenEndpoint: 'https://github.com/login/oauth/access_token',
+      clientId: process.env.GITHUB_CLIENT_ID,
+      clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+      scopes: ['read:user', 'user:email'],
+    };
+  }
+
+  if (process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID) {
+    providers[process.env.OIDC_PROVIDER_ID || 'oidc'] = {
+      kind: OAuthProviderKind.OIDC,
+      name: process.env.OIDC_PROVIDER_NAME || 'Single Sign-On',
+      issuer: process.env.OIDC_ISSUER,
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+      scopes: (process.env.OIDC_SCOPES || 'openid email profile').split(' ').filter(Boolean),
+    };
+  }
+
+  return providers;
+};
+
 const config: Config = {
   env: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '3000', 10),
@@ -134,6 +267,60 @@ const config: Config = {
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     ],
     tusChunkSizeMB: parseInt(process.env.TUS_CHUNK_SIZE_MB || '5', 10),
+    stripImageMetadata: process.env.STRIP_IMAGE_METADATA !== 'false',
+    rejectionRetentionDays: parseInt(process.env.UPLOAD_REJECTION_RETENTION_DAYS || '90', 10),
+    directUploadSweepIntervalMs: parseInt(
+      process.env.DIRECT_UPLOAD_SWEEP_INTERVAL_MS || '3600000',
+      10
+    ),
+    directUploadSweepBatchSize: parseInt(process.env.DIRECT_UPLOAD_SWEEP_BATCH_SIZE || '100', 10),
+    malwareScan: {
+      scanner:
+        (process.env.MALWARE_SCANNER as MalwareScannerDriver) ||
+        (process.env.NODE_ENV === 'production'
+          ? MalwareScannerDriver.CLAMD
+          : MalwareScannerDriver.STUB),
+      clamd: {
+        socketPath: process.env.CLAMD_SOCKET || '',
+        host: process.env.CLAMD_HOST || '127.0.0.1',
+        port: parseInt(process.env.CLAMD_PORT || '3310', 10),
+        timeoutMs: parseInt(process.env.CLAMD_TIMEOUT_MS || '60000', 10),
+      },
+    },
+  },
+  storage: {
+    driver: (process.env.STORAGE_DRIVER as StorageDriver) || StorageDriver.CLOUDINARY,
+    quotas: {
+      user: {
+        maxBytes: parseInt(process.env.STORAGE_QUOTA_USER_MB || '1024', 10) * 1024 * 1024,
+        maxFiles: parseInt(process.env.STORAGE_QUOTA_USER_FILES || '1000', 10),
+      },
+      moderator: {
+        maxBytes: parseInt(process.env.STORAGE_QUOTA_MODERATOR_MB || '2048', 10) * 1024 * 1024,
+        maxFiles: parseInt(process.env.STORAGE_QUOTA_MODERATOR_FILES || '2000', 10),
+      },
+      admin: {
+        maxBytes: parseInt(process.env.STORAGE_QUOTA_ADMIN_MB || '10240', 10) * 1024 * 1024,
+        maxFiles: parseInt(process.env.STORAGE_QUOTA_ADMIN_FILES || '10000', 10),
+      },
+    },
+    local: {
+      directory: path.resolve(process.env.LOCAL_STORAGE_DIR || 'uploads/media'),
+      privateDirectory: path.resolve(process.env.LOCAL_STORAGE_PRIVATE_DIR || 'uploads/private'),
+      publicPath: process.env.LOCAL_STORAGE_PUBLIC_PATH || '/media',
+      baseUrl: process.env.LOCAL_STORAGE_BASE_URL || 'http://localhost:3000/media',
+    },
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+      publicUrl: process.env.S3_PUBLIC_URL || '',
+      quarantinePrefix: process.env.S3_QUARANTINE_PREFIX || 'quarantine',
+      signedUrlTtlSeconds: parseInt(process.env.S3_SIGNED_URL_TTL_SECONDS || '900', 10),
+    },
   },
   queue: {
     concurrency: parseInt(process.env.QUEUE_CONCURRENCY || '5', 10),
@@ -143,12 +330,86 @@ const config: Config = {
       password: process.env.QUEUE_BOARD_PASSWORD || '',
     },
   },
+  chat: {
+    expiredMessageSweepIntervalMs: parseInt(
+      process.env.CHAT_EXPIRED_MESSAGE_SWEEP_INTERVAL_MS || '60000',
+      10
+    ),
+    expiredMessageSweepBatchSize: parseInt(
+      process.env.CHAT_EXPIRED_MESSAGE_SWEEP_BATCH_SIZE || '500',
+      10
+    ),
+  },
   otp: {
     length: parseInt(process.env.OTP_LENGTH || '4', 10),
     ttlSeconds: parseInt(process.env.OTP_TTL_SECONDS || '300', 10),
     maxAttempts: parseInt(process.env.OTP_MAX_ATTEMPTS || '3', 10),
     cooldownSeconds: parseInt(process.env.OTP_COOLDOWN_SECONDS || '60', 10),
   },
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Chat App',
+    encryptionKey:
+      process.env.TWO_FACTOR_ENCRYPTION_KEY ||
+      'dev-two-factor-key-change-in-production-min-32-chars',
+    challengeTtlSeconds: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS || '300', 10),
+    maxAttempts: parseInt(process.env.TWO_FACTOR_MAX_ATTEMPTS || '5', 10),
+    recoveryCodeCount: parseInt(process.env.TWO_FACTOR_RECOVERY_CODE_COUNT || '10', 10),
+  },
+  webauthn: {
+    rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+    rpName: process.env.WEBAUTHN_RP_NAME || 'Chat App',
+    origins: (process.env.WEBAUTHN_ORIGINS || 'http://localhost:3000')
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+    challengeTtlSeconds: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL_SECONDS || '300', 10),
+  },
+  sessionCache: {
+    ttlSeconds: parseInt(process.env.SESSION_CACHE_TTL_SECONDS || '60', 10),
+  },
+  emailVerification: {
+    requiredFor: (process.env.EMAIL_VERIFICATION_REQUIRED_FOR ?? 'create_group,upload')
+      .split(',')
+      .map((action) => action.trim())
+      .filter((action): action is VerifiedEmailAction =>
+        Object.values(VerifiedEmailAction).includes(action as VerifiedEmailAction)
+      ),
+  },
+  password: {
+    historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5', 10),
+  },
+  apiKeys: {
+    maxPerUser: parseInt(process.env.API_KEYS_MAX_PER_USER || '25', 10),
+    lastUsedUpdateIntervalSeconds: parseInt(
+      process.env.API_KEYS_LAST_USED_UPDATE_INTERVAL_SECONDS || '60',
+      10
+    ),
+  },
+  loginAlerts: {
+    reportUrl: process.env.LOGIN_ALERT_REPORT_URL || 'http://localhost:3000/security/report-login',
+    reportTokenTtlSeconds: parseInt(
+      process.env.LOGIN_ALERT_REPORT_TOKEN_TTL_SECONDS || '604800',
+      10
+    ),
+    recentLoginCount: parseInt(process.env.LOGIN_ALERT_RECENT_LOGIN_COUNT || '20', 10),
+    historyRetentionDays: parseInt(process.env.LOGIN_HISTORY_RETENTION_DAYS || '90', 10),
+  },
+  lockout: {
+    maxAccountFailures: parseInt(process.env.LOCKOUT_MAX_ACCOUNT_FAILURES || '5', 10),
+    accountWindowSeconds: parseInt(process.env.LOCKOUT_ACCOUNT_WINDOW_SECONDS || '900', 10),
+    accountLockSeconds: parseInt(process.env.LOCKOUT_ACCOUNT_LOCK_SECONDS || '900', 10),
+    maxIpFailures: parseInt(process.env.LOCKOUT_MAX_IP_FAILURES || '30', 10),
+    ipWindowSeconds: parseInt(process.env.LOCKOUT_IP_WINDOW_SECONDS || '900', 10),
+    ipBlockSeconds: parseInt(process.env.LOCKOUT_IP_BLOCK_SECONDS || '1800', 10),
+    delayAfterFailures: parseInt(process.env.LOCKOUT_DELAY_AFTER_FAILURES || '2', 10),
+    baseDelayMs: parseInt(process.env.LOCKOUT_BASE_DELAY_MS || '500', 10),
+    maxDelayMs: parseInt(process.env.LOCKOUT_MAX_DELAY_MS || '8000', 10),
+  },
+  oauth: {
+    redirectUri: process.env.OAUTH_REDIRECT_URI || 'http://localhost:3000/oauth/callback',
+    stateTtlSeconds: parseInt(process.env.OAUTH_STATE_TTL_SECONDS || '600', 10),
+    providers: buildOAuthProviders(),
+  },
 };
 
 // Validate required environment variables in production
@@ -1,7 +1,7 @@
 import passport from 'passport';
 import { Strategy as JwtStrategy, ExtractJwt } from 'passport-jwt';
-import { User, Session } from '../models';
 import config from './index';
+import { sessionCacheService } from '../services/sessionCache.service';
 import logger from '../utils/logger';
 
 /**
@@ -24,32 +24,16 @@ passport.use(
           return done(null, false, { message: 'Invalid token: missing session ID' });
         }
 
-        const session = await Session.findById(payload.sessionId);
-        if (!session || session.isRevoked) {
-          return done(null, false, { message: 'Session expired or revoked' });
-        }
-
-        // Optional: Check if session belongs to user (should match)
-        if (session.userId.toString() !== payload.userId) {
-          return done(null, false, { message: 'Invalid session for user' });
+        // 2. Verify session and user (cached in Redis, invalidated on revocation)
+        const result = await sessionCacheService.check(payload.sessionId, payload.userId);
+        if (!result.valid) {
+          return done(null, false, { message: result.reason });
         }
 
         // Attach session to request
-        req.session = session;
-
-        // 2. Verify User
-        // Payload contains userId from token
-        const user = await User.findById(payload.userId).select('+isActive +isEmailVerified');
-
-        if (!user) {
-          return done(null, false, { message: 'User not found' });
-        }
-
-        if (!user.isActive) {
-          return done(null, false, { message: 'User account is deactivated' });
-        }
+        req.session = result.session;
 
-        return done(null, user);
+        return done(null, result.user);
       } catch (error) {
         logger.error('Passport JWT verification error:', error);
         return done(error, false);
@@ -14,11 +14,72 @@ export const MESSAGES = {
     REFRESH_TOKEN_REQUIRED: 'Refresh token is required',
     INVALID_SESSION: 'Invalid or expired session',
     SESSION_EXPIRED: 'Session expired',
-    TOKEN_REUSE: 'Token reuse detected. All sessions revoked.',
+    TOKEN_REUSE: 'Token reuse detected. Session revoked.',
+    TOKEN_REUSE_ALERT_TITLE: 'Suspicious sign-in activity',
+    TOKEN_REUSE_ALERT_BODY:
+      'An old sign-in token for one of your devices was used again, so that device was signed out. If this was not you, change your password.',
     NOT_AUTHENTICATED: 'Not authenticated',
     SESSION_NOT_FOUND: 'Session not found',
     USER_NOT_FOUND: 'User not found',
     USER_INACTIVE: 'User not found or inactive',
+    INVALID_PASSWORD: 'Password is incorrect',
+    TWO_FACTOR_REQUIRED: 'Two-factor verification required',
+    TWO_FACTOR_SETUP_STARTED:
+      'Scan the QR code and confirm with a code from your authenticator app',
+    TWO_FACTOR_ENABLED: 'Two-factor authentication enabled',
+    TWO_FACTOR_DISABLED: 'Two-factor authentication disabled',
+    TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already enabled',
+    TWO_FACTOR_NOT_ENABLED: 'Two-factor authentication is not enabled',
+    TWO_FACTOR_SETUP_REQUIRED: 'Start two-factor setup before enabling it',
+    TWO_FACTOR_INVALID_CODE: 'Invalid verification code',
+    TWO_FACTOR_CHALLENGE_INVALID: 'Login challenge expired or not found. Please log in again.',
+    TWO_FACTOR_TOO_MANY_ATTEMPTS: 'Too many invalid codes. Please log in again.',
+    RECOVERY_CODES_REGENERATED: 'Recovery codes regenerated',
+    PASSKEY_REGISTERED: 'Passkey registered successfully',
+    PASSKEY_UPDATED: 'Passkey renamed successfully',
+    PASSKEY_DELETED: 'Passkey deleted successfully',
+    PASSKEY_NOT_FOUND: 'Passkey not found',
+    PASSKEY_ALREADY_REGISTERED: 'This passkey is already registered',
+    PASSKEY_LIMIT_REACHED: 'Maximum number of passkeys reached',
+    PASSKEY_CHALLENGE_EXPIRED: 'Passkey challenge expired or not found. Please try again.',
+    PASSKEY_VERIFICATION_FAILED: 'Passkey verification failed',
+    ACCOUNT_LOCKED:
+      'Too many failed login attempts. Try again later or unlock your account with a code sent by email.',
+    LOGIN_IP_BLOCKED: 'Too many failed login attempts from your network. Please try again later.',
+    UNLOCK_CODE_SENT:
+      'If this account is locked, an unlock code has been sent to its email address',
+    ACCOUNT_UNLOCKED: 'Account unlocked. You can log in again.',
+    LOCKOUT_CLEARED: 'Lockout cleared',
+    LOCKOUT_NOT_FOUND: 'No active lockout found',
+    EMAIL_NOT_VERIFIED: 'Verify your email address to use this feature',
+    PASSWORD_CHANGED: 'Password changed successfully',
+    PASSWORD_REUSED: 'Choose a password you have not used recently',
+    PASSWORD_RESET_REQUIRED:
+      'A recent sign-in was reported as suspicious. Reset your password to continue.',
+    NEW_LOGIN_ALERT_TITLE: 'New sign-in to your account',
+    NEW_LOGIN_ALERT_BODY: 'Your account was signed in from {device} ({ip}). Was this you?',
+    LOGIN_REPORTED:
+      'Thanks for letting us know. All sessions were signed out and a password reset is required.',
+    LOGIN_REPORT_INVALID: 'This link is invalid or has expired',
+    API_KEY_CREATED: 'API key created. Copy it now; it will not be shown again.',
+    API_KEY_REVOKED: 'API key revoked successfully',
+    API_KEY_NOT_FOUND: 'API key not found',
+    API_KEY_INVALID: 'Invalid, expired or revoked API key',
+    API_KEY_LIMIT_REACHED: 'Maximum number of API keys reached',
+    API_KEY_SCOPE_MISSING: 'API key is missing required scopes: {scopes}',
+    PASSWORD_BREACHED:
+      'This password has appeared in a data breach and cannot be used. Choose a different one.',
+    OAUTH_PROVIDER_NOT_FOUND: 'Login provider not found',
+    OAUTH_STATE_INVALID: 'Login request expired or not found. Please try again.',
+    OAUTH_EXCHANGE_FAILED: 'Could not verify your account with the login provider',
+    OAUTH_EMAIL_NOT_VERIFIED: 'The login provider did not return a verified email address',
+    OAUTH_IDENTITY_LINKED: 'Account linked successfully',
+    OAUTH_IDENTITY_UNLINKED: 'Account unlinked successfully',
+    OAUTH_IDENTITY_NOT_FOUND: 'Linked account not found',
+    OAUTH_IDENTITY_IN_USE: 'This account is already linked to another user',
+    OAUTH_PROVIDER_ALREADY_LINKED: 'An account from this provider is already linked',
+    OAUTH_LAST_LOGIN_METHOD:
+      'Set a password or add a passkey before unlinking your last sign-in method',
   },
   USER: {
     NOT_FOUND: 'User not found',
@@ -28,6 +89,15 @@ export const MESSAGES = {
     DEACTIVATED: 'User deactivated successfully',
     ACTIVATED: 'User activated successfully',
     INVALID_ROLE: 'Invalid role. Allowed roles: {roles}',
+    USER_BLOCKED: 'User blocked successfully',
+    USER_UNBLOCKED: 'User unblocked successfully',
+    CANNOT_BLOCK_SELF: 'You cannot block yourself',
+    ALREADY_BLOCKED: 'User is already blocked',
+    BLOCK_NOT_FOUND: 'User is not blocked',
+    EMAIL_CHANGE_STARTED: 'Enter the code sent to your new email address to confirm the change',
+    EMAIL_CHANGED: 'Email address changed successfully',
+    EMAIL_UNCHANGED: 'The new email address is the same as the current one',
+    EMAIL_CHANGE_NOT_FOUND: 'Email change request expired or not found. Please start again.',
   },
   SERVER: {
     INTERNAL_ERROR: 'Internal server error',
@@ -53,6 +123,7 @@ export const MESSAGES = {
     ALREADY_PARTICIPANT: 'User is already a participant',
     CANNOT_REMOVE_ADMIN: 'Cannot remove the conversation creator',
     CANNOT_MESSAGE_SELF: 'Cannot create conversation with yourself',
+    USER_BLOCKED: 'You cannot message this user',
     GROUP_NAME_REQUIRED: 'Group name is required for group conversations',
     MIN_PARTICIPANTS: 'Group conversation requires at least 2 other participants',
     PARTICIPANT_ADDED: 'Participant added successfully',
@@ -70,6 +141,41 @@ export const MESSAGES = {
     CANNOT_DELETE_OTHERS_MESSAGE: "Cannot delete another user's message for everyone",
     MESSAGE_TOO_LONG: 'Message content is too long',
     EMPTY_MESSAGE: 'Message content cannot be empty',
+    ATTACHMENT_NOT_SCANNED: 'Attachments can only be sent once they have passed the malware scan',
+    ATTACHMENT_NOT_OWNED: 'Attachments must be files you uploaded',
+    ATTACHMENT_PUBLIC_ID_REQUIRED: 'Attachments must reference an uploaded file by its publicId',
+
+    // Threads
+    INVALID_THREAD_ROOT: 'Cannot start a thread on this message',
+    THREAD_MARKED_AS_READ: 'Thread marked as read',
+
+    // Scheduled messages
+    MESSAGE_SCHEDULED: 'Message scheduled successfully',
+    SCHEDULED_MESSAGE_UPDATED: 'Scheduled message updated successfully',
+    SCHEDULED_MESSAGE_CANCELLED: 'Scheduled message cancelled',
+    SCHEDULED_MESSAGE_NOT_FOUND: 'Scheduled message not found',
+    SCHEDULED_MESSAGE_NOT_PENDING: 'Scheduled message has already been sent or cancelled',
+    SCHEDULE_TIME_INVALID: 'Scheduled time must be in the future',
+
+    // Polls
+    NOT_A_POLL: 'Message is not a poll',
+    POLL_REQUIRED: 'Poll question and at least 2 options are required',
+    POLL_TOO_MANY_OPTIONS: 'A poll can have at most 10 options',
+    POLL_CLOSE_TIME_INVALID: 'Poll close time must be in the future',
+    POLL_CLOSED: 'This poll is closed',
+    POLL_INVALID_OPTION: 'Invalid poll option',
+    POLL_SINGLE_CHOICE: 'This poll allows only one choice',
+    POLL_CANNOT_BE_SCHEDULED: 'Polls cannot be scheduled',
+    CANNOT_CLOSE_OTHERS_POLL: "Cannot close another user's poll",
+    POLL_VOTED: 'Vote recorded',
+    POLL_VOTE_REMOVED: 'Vote removed',
+    POLL_CLOSED_SUCCESS: 'Poll closed',
+
+    // Forwarding
+    MESSAGE_FORWARDED: 'Message forwarded successfully',
+    MESSAGE_CANNOT_BE_FORWARDED: 'This message cannot be forwarded',
+    FORWARD_LIMIT_EXCEEDED:
+      'This message can be forwarded to at most {limit} conversation(s) at once',
 
     // Reactions
     REACTION_ADDED: 'Reaction added',
@@ -97,4 +203,42 @@ export const MESSAGES = {
     TYPING_STARTED: 'User started typing',
     TYPING_STOPPED: 'User stopped typing',
   },
+  MODERATION: {
+    REPORT_SUBMITTED: 'Report submitted successfully',
+    REPORT_NOT_FOUND: 'Report not found',
+    ALREADY_REPORTED: 'You have already reported this message',
+    CANNOT_REPORT_OWN_MESSAGE: 'You cannot report your own message',
+    CANNOT_REPORT_MESSAGE: 'This message cannot be reported',
+    REPORT_CLOSED: 'Report has already been closed',
+    REPORT_RESOLVED: 'Report resolved successfully',
+    REPORT_DISMISSED: 'Report dismissed successfully',
+    MESSAGE_REMOVED: 'Message removed successfully',
+    USER_WARNED: 'User warned successfully',
+    USER_DEACTIVATED: 'User deactivated successfully',
+    CANNOT_MODERATE_STAFF: 'Moderators cannot act on staff accounts',
+    WARNING_TITLE: 'Community guidelines warning',
+  },
+  MEDIA: {
+    NOT_FOUND: 'Media not found',
+    LIST_RETRIEVED: 'Media retrieved successfully',
+    STORAGE_RETRIEVED: 'Storage usage retrieved successfully',
+    STORAGE_QUOTA_UPDATED: 'Storage quota updated successfully',
+    STORAGE_QUOTA_EXCEEDED: 'This upload would exceed your storage quota',
+    FILE_QUOTA_EXCEEDED: 'You have reached the maximum number of stored files',
+    INVALID_PUBLIC_ID: 'Invalid media public ID',
+    ALREADY_EXISTS: 'A file with this public ID already exists',
+    SIGNED_UPLOAD_UNSUPPORTED: 'Direct uploads are not available with the configured storage',
+    SIGNED_UPLOAD_GENERATED: 'Signed upload URL generated',
+    DIRECT_UPLOAD_COMPLETED: 'Upload completed; the file is available once its malware scan passes',
+    DIRECT_UPLOAD_COMPLETED_ALREADY: 'This upload has already been completed',
+    DIRECT_UPLOAD_FILE_MISSING: 'The file has not been uploaded to the signed URL yet',
+    DIRECT_UPLOAD_SIZE_MISMATCH: 'The uploaded file is larger than the size it was signed for',
+    FILE_TOO_LARGE: 'Files may be at most {size} MB',
+    FILE_TYPE_NOT_ALLOWED: 'File type not allowed: {type}',
+    FILE_CONTENT_MISMATCH:
+      'File content ({detected}) does not match its declared type ({declared})',
+    FILE_CONTENT_UNRECOGNIZED: 'File content does not match any allowed file type',
+    MALWARE_FOUND_TITLE: 'Upload removed',
+    MALWARE_FOUND: 'Your file "{filename}" was removed because it contains malware ({threat})',
+  },
 };
@@ -1,5 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { authService } from '../services';
+import { twoFactorService } from '../services/twoFactor.service';
+import { passkeyService } from '../services/passkey.service';
+import { oauthService } from '../services/oauth.service';
+import { lockoutService } from '../services/lockout.service';
+import { loginAlertService } from '../services/loginAlert.service';
+import { OAuthIntent } from '../types/oauth.types';
 import { sendSuccess, sendCreated } from '../utils/response';
 import { ApiError } from '../utils/ApiError';
 import { IDeviceInfo } from '../models';
@@ -42,12 +48,619 @@ export const login = async (req: Request, res: Response, next: NextFunction): Pr
 
     const result = await authService.login({ email, password }, deviceInfo);
 
+    sendSuccess(
+      res,
+      result,
+      'twoFactorRequired' in result
+        ? MESSAGES.AUTH.TWO_FACTOR_REQUIRED
+        : MESSAGES.AUTH.LOGIN_SUCCESS
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Complete login with a second factor
+ * POST /auth/2fa/verify
+ */
+export const verifyTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { challengeToken, method, code } = req.body;
+
+    const result = await authService.verifyTwoFactorLogin(challengeToken, method, code);
+
+    sendSuccess(res, result, MESSAGES.AUTH.LOGIN_SUCCESS);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Email a login verification code for a pending challenge
+ * POST /auth/2fa/email-code
+ */
+export const sendTwoFactorEmailCode = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { challengeToken } = req.body;
+
+    const result = await twoFactorService.sendChallengeEmail(challengeToken);
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Start TOTP enrollment
+ * POST /auth/2fa/setup
+ */
+export const setupTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const result = await twoFactorService.setup(req.user.id);
+
+    sendSuccess(res, result, MESSAGES.AUTH.TWO_FACTOR_SETUP_STARTED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirm TOTP enrollment and receive recovery codes
+ * POST /auth/2fa/enable
+ */
+export const enableTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const recoveryCodes = await twoFactorService.enable(req.user.id, req.body.code);
+
+    sendSuccess(res, { recoveryCodes }, MESSAGES.AUTH.TWO_FACTOR_ENABLED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Disable two-factor authentication (requires password and a current code)
+ * POST /auth/2fa/disable
+ */
+export const disableTwoFactor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const { password, code } = req.body;
+    await twoFactorService.disable(req.user.id, password, code);
+
+    sendSuccess(res, null, MESSAGES.AUTH.TWO_FACTOR_DISABLED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Regenerate recovery codes (requires password and a current code)
+ * POST /auth/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const { password, code } = req.body;
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+      req.user.id,
+      password,
+      code
+    );
+
+    sendSuccess(res, { recoveryCodes }, MESSAGES.AUTH.RECOVERY_CODES_REGENERATED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get options to register a passkey
+ * POST /auth/passkeys/register/options
+ */
+export const passkeyRegistrationOptions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const options = await passkeyService.generateRegistrationOptions(req.user.id);
+
+    sendSuccess(res, { options });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Verify a passkey registration
+ * POST /auth/passkeys/register/verify
+ */
+export const verifyPasskeyRegistration = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const { credential, name } = req.body;
+    const passkey = await passkeyService.verifyRegistration(req.user.id, credential, name);
+
+    sendCreated(res, { passkey: passkey.toJSON() }, MESSAGES.AUTH.PASSKEY_REGISTERED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get options to log in with a passkey
+ * POST /auth/passkeys/login/options
+ */
+export const passkeyLoginOptions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const options = await passkeyService.generateAuthenticationOptions(req.body.email);
+
+    sendSuccess(res, { options });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Log in with a passkey
+ * POST /auth/passkeys/login/verify
+ */
+export const loginWithPasskey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const deviceInfo = req.deviceInfo as IDeviceInfo;
+
+    if (!deviceInfo) {
+      throw ApiError.internal(MESSAGES.AUTH.DEVICE_INFO_MISSING);
+    }
+
+    const result = await authService.loginWithPasskey(req.body.credential, deviceInfo);
+
     sendSuccess(res, result, MESSAGES.AUTH.LOGIN_SUCCESS);
   } catch (error) {
     next(error);
   }
 };
 
+/**
+ * List passkeys
+ * GET /auth/passkeys
+ */
+export const listPasskeys = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const passkeys = await passkeyService.listPasskeys(req.user.id);
+
+    sendSuccess(res, {
+      passkeys: passkeys.map((passkey) => passkey.toJSON<Record<string, unknown>>()),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rename a passkey
+ * PATCH /auth/passkeys/:passkeyId
+ */
+export const renamePasskey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const passkey = await passkeyService.renamePasskey(
+      req.user.id,
+      req.params.passkeyId,
+      req.body.name
+    );
+
+    sendSuccess(res, { passkey: passkey.toJSON() }, MESSAGES.AUTH.PASSKEY_UPDATED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a passkey
+ * DELETE /auth/passkeys/:passkeyId
+ */
+export const deletePasskey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    await passkeyService.deletePasskey(req.user.id, req.params.passkeyId);
+
+    sendSuccess(res, null, MESSAGES.AUTH.PASSKEY_DELETED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List configured social login providers
+ * GET /auth/oauth/providers
+ */
+export const listOAuthProviders = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    sendSuccess(res, { providers: oauthService.listProviders() });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Start a social login
+ * POST /auth/oauth/:provider/authorize
+ */
+export const oauthAuthorize = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await oauthService.createAuthorization(req.params.provider, OAuthIntent.LOGIN);
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Complete a social login
+ * POST /auth/oauth/:provider/callback
+ */
+export const oauthCallback = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, state } = req.body;
+    const deviceInfo = req.deviceInfo as IDeviceInfo;
+
+    if (!deviceInfo) {
+      throw ApiError.internal(MESSAGES.AUTH.DEVICE_INFO_MISSING);
+    }
+
+    const result = await authService.loginWithOAuth(req.params.provider, code, state, deviceInfo);
+
+    sendSuccess(
+      res,
+      result,
+      'twoFactorRequired' in result
+        ? MESSAGES.AUTH.TWO_FACTOR_REQUIRED
+        : MESSAGES.AUTH.LOGIN_SUCCESS
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Start linking a provider account
+ * POST /auth/oauth/:provider/link/authorize
+ */
+export const oauthLinkAuthorize = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const result = await oauthService.createAuthorization(
+      req.params.provider,
+      OAuthIntent.LINK,
+      req.user.id
+    );
+
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Complete linking a provider account
+ * POST /auth/oauth/:provider/link
+ */
+export const oauthLink = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const { code, state } = req.body;
+    const identity = await oauthService.linkIdentity(req.user.id, req.params.provider, code, state);
+
+    sendSuccess(res, { identity: identity.toJSON() }, MESSAGES.AUTH.OAUTH_IDENTITY_LINKED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List linked provider accounts
+ * GET /auth/oauth/identities
+ */
+export const listOAuthIdentities = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const identities = await oauthService.listIdentities(req.user.id);
+
+    sendSuccess(res, {
+      identities: identities.map((identity) => identity.toJSON<Record<string, unknown>>()),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Unlink a provider account
+ * DELETE /auth/oauth/identities/:identityId
+ */
+export const unlinkOAuthIdentity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    await oauthService.unlinkIdentity(req.user.id, req.params.identityId);
+
+    sendSuccess(res, null, MESSAGES.AUTH.OAUTH_IDENTITY_UNLINKED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Request a code to unlock a locked account
+ * POST /auth/unlock/request
+ */
+export const requestAccountUnlock = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await lockoutService.requestUnlock(req.body.email);
+
+    // Same response whether or not the account exists or is locked
+    sendSuccess(res, null, MESSAGES.AUTH.UNLOCK_CODE_SENT);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Unlock an account with an emailed code
+ * POST /auth/unlock/verify
+ */
+export const unlockAccount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email, otp } = req.body;
+
+    await lockoutService.unlockWithOtp(email, otp);
+
+    sendSuccess(res, null, MESSAGES.AUTH.ACCOUNT_UNLOCKED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List account locks and IP blocks (Admin only)
+ * GET /auth/lockouts
+ */
+export const listLockouts = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const lockouts = await lockoutService.listLockouts();
+
+    sendSuccess(res, lockouts);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Clear an account lock (Admin only)
+ * DELETE /auth/lockouts/accounts/:email
+ */
+export const clearAccountLockout = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const cleared = await lockoutService.clearAccountLockout(req.params.email);
+
+    if (!cleared) {
+      throw ApiError.notFound(MESSAGES.AUTH.LOCKOUT_NOT_FOUND);
+    }
+
+    sendSuccess(res, null, MESSAGES.AUTH.LOCKOUT_CLEARED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Clear an IP block (Admin only)
+ * DELETE /auth/lockouts/ips/:ip
+ */
+export const clearIpBlock = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const cleared = await lockoutService.clearIpBlock(req.params.ip);
+
+    if (!cleared) {
+      throw ApiError.notFound(MESSAGES.AUTH.LOCKOUT_NOT_FOUND);
+    }
+
+    sendSuccess(res, null, MESSAGES.AUTH.LOCKOUT_CLEARED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the current user's login history
+ * GET /auth/login-history
+ */
+export const getLoginHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const result = await loginAlertService.getHistory(req.user.id, { page, limit });
+
+    sendSuccess(res, {
+      logins: result.logins,
+      pagination: {
+        page,
+        limit,
+        total: result.total,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Report a login as not the user's, from the link in a login alert
+ * POST /auth/login-alerts/report
+ */
+export const reportLogin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await loginAlertService.reportLogin(req.body.token);
+
+    sendSuccess(res, null, MESSAGES.AUTH.LOGIN_REPORTED);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Refresh access token
  * POST /auth/refresh
@@ -56,7 +669,7 @@ export const refresh = async (req: Request, res: Response, next: NextFunction):
   try {
     const { refreshToken } = req.body;
 
-    const result = await authService.refreshAccessToken(refreshToken);
+    const result = await authService.refreshAccessToken(refreshToken, req.deviceInfo);
 
     sendSuccess(res, result, MESSAGES.AUTH.TOKEN_REFRESH_SUCCESS);
   } catch (error) {
@@ -186,8 +799,13 @@ export const verifyOtp = async (req: Request, res: Response, next: NextFunction)
     const { email, otp, purpose } = req.body;
 
     const { otpService } = await import('../services/otp.service');
+    const { OtpPurpose } = await import('../types/otp.types');
     const result = await otpService.verifyOtp(email, otp, purpose);
 
+    if (purpose === OtpPurpose.REGISTRATION || purpose === OtpPurpose.EMAIL_VERIFICATION) {
+      await authService.markEmailVerified(email);
+    }
+
     sendSuccess(res, result);
   } catch (error) {
     next(error);
@@ -268,15 +886,17 @@ export const resetPassword = async (
 
     // Find user and update password
     const { User } = await import('../models');
-    const user = await User.findOne({ email: payload.email.toLowerCase() });
+    const user = await User.findOne({ email: payload.email.toLowerCase() }).select(
+      '+password +passwordHistory'
+    );
 
     if (!user) {
       throw ApiError.notFound('User not found');
     }
 
-    // Update password
-    user.password = newPassword;
-    await user.save();
+    // Update password (rejects breached and recently used passwords)
+    const { passwordService } = await import('../services/password.service');
+    await passwordService.setPassword(user, newPassword);
 
     // Revoke all sessions for security
     await authService.logoutAllDevices(user._id.toString());
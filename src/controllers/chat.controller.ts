@@ -2,7 +2,14 @@ import { Request, Response, NextFunction } from 'express';
 import { StatusCodes } from 'http-status-codes';
 import { chatService, SendMessageOptions, CreateGroupOptions } from '../services/chat.service';
 import { socketService } from '../services/socket.service';
-import { CHAT_EVENTS_S2C } from '../services/chat.events';
+import { scheduledMessageService } from '../services/scheduledMessage.service';
+import { moderationService } from '../services/moderation.service';
+import {
+  CHAT_EVENTS_S2C,
+  emitNewMessage,
+  emitMessageUpdated,
+  emitThreadReply,
+} from '../services/chat.events';
 import { MESSAGES } from '../constants/messages';
 import { MessageType } from '../models';
 
@@ -155,12 +162,14 @@ class ChatController {
     try {
       const userId = req.user!.id;
       const { id } = req.params;
-      const { name, description, avatar } = req.body;
+      const { name, description, avatar, messageRetention, linkPreviewsEnabled } = req.body;
 
       const conversation = await chatService.updateConversation(id, userId, {
         name,
         description,
         avatar,
+        messageRetention,
+        linkPreviewsEnabled,
       });
 
       // Notify participants
@@ -299,19 +308,53 @@ class ChatController {
     try {
       const userId = req.user!.id;
       const { id } = req.params;
-      const { content, type, attachments, replyTo, mentions } = req.body;
+      const { content, type, attachments, replyTo, mentions, threadRootId, scheduledAt, poll } =
+        req.body;
 
       const options: SendMessageOptions = {
         type: type as MessageType,
         attachments,
         replyTo,
         mentions,
+        threadRootId,
+        poll: poll && {
+          ...poll,
+          closesAt: poll.closesAt ? new Date(poll.closesAt) : undefined,
+        },
       };
 
+      if (scheduledAt) {
+        const scheduledMessage = await scheduledMessageService.scheduleMessage(
+          id,
+          userId,
+          content,
+          { ...options, scheduledAt: new Date(scheduledAt) }
+        );
+
+        res.status(StatusCodes.ACCEPTED).json({
+          success: true,
+          message: MESSAGES.CHAT.MESSAGE_SCHEDULED,
+          data: { scheduledMessage },
+        });
+        return;
+      }
+
       const message = await chatService.sendMessage(id, userId, content, options);
 
-      // Broadcast via socket
+      // Thread replies are broadcast to the thread only, not the main timeline
       const io = socketService.getIO();
+      if (message.threadRootId) {
+        await emitThreadReply(io, message);
+
+        res.status(StatusCodes.CREATED).json({
+          success: true,
+          message: MESSAGES.CHAT.MESSAGE_SENT,
+          data: { message },
+        });
+        return;
+      }
+
+      // Broadcast via socket
       io.to(`conversation:${id}`).emit(CHAT_EVENTS_S2C.MESSAGE_NEW, {
         conversationId: id,
         message,
@@ -341,6 +384,26 @@ class ChatController {
     }
   }
 
+  /**
+   * Get the edit history of a message
+   * GET /api/chat/messages/:id/history
+   */
+  async getMessageHistory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      const history = await chatService.getMessageHistory(id, userId);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: { history },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Edit a message
    * PATCH /api/chat/messages/:id
@@ -413,6 +476,325 @@ class ChatController {
     }
   }
 
+  /**
+   * Report a message to moderators
+   * POST /api/chat/messages/:id/report
+   */
+  async reportMessage(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      const { reason, details } = req.body;
+
+      const report = await moderationService.reportMessage(id, userId, reason, details);
+
+      res.status(StatusCodes.CREATED).json({
+        success: true,
+        message: MESSAGES.MODERATION.REPORT_SUBMITTED,
+        data: { reportId: report._id.toString() },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // =====================
+  // SCHEDULED MESSAGES
+  // =====================
+
+  /**
+   * List the user's pending scheduled messages
+   * GET /api/chat/scheduled
+   */
+  async getScheduledMessages(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const conversationId = req.query.conversationId as string | undefined;
+
+      const scheduledMessages = await scheduledMessageService.getScheduledMessages(
+        userId,
+        conversationId
+      );
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: { scheduledMessages },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Edit a pending scheduled message
+   * PATCH /api/chat/scheduled/:id
+   */
+  async updateScheduledMessage(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      const { content, attachments, mentions, scheduledAt } = req.body;
+
+      const scheduledMessage = await scheduledMessageService.updateScheduledMessage(id, userId, {
+        content,
+        attachments,
+        mentions,
+        scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: MESSAGES.CHAT.SCHEDULED_MESSAGE_UPDATED,
+        data: { scheduledMessage },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel a pending scheduled message
+   * DELETE /api/chat/scheduled/:id
+   */
+  async cancelScheduledMessage(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      await scheduledMessageService.cancelScheduledMessage(id, userId);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: MESSAGES.CHAT.SCHEDULED_MESSAGE_CANCELLED,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Forward a message to other conversations
+   * POST /api/chat/messages/:id/forward
+   */
+  async forwardMessage(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      const { conversationIds } = req.body;
+
+      const messages = await chatService.forwardMessage(id, userId, conversationIds);
+
+      const io = socketService.getIO();
+      for (const message of messages) {
+        await emitNewMessage(io, message);
+      }
+
+      res.status(StatusCodes.CREATED).json({
+        success: true,
+        message: MESSAGES.CHAT.MESSAGE_FORWARDED,
+        data: { messages },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // =====================
+  // POLLS
+  // =====================
+
+  /**
+   * Get poll results
+   * GET /api/chat/messages/:id/poll
+   */
+  async getPollResults(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      const poll = await chatService.getPollResults(id, userId);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: { poll },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Vote on a poll
+   * POST /api/chat/messages/:id/poll/vote
+   */
+  async votePoll(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      const { optionIds } = req.body;
+
+      const message = await chatService.votePoll(id, userId, optionIds);
+      emitMessageUpdated(socketService.getIO(), message);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: MESSAGES.CHAT.POLL_VOTED,
+        data: { message },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove votes from a poll
+   * DELETE /api/chat/messages/:id/poll/vote
+   */
+  async unvotePoll(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      const { optionIds } = req.body;
+
+      const message = await chatService.unvotePoll(id, userId, optionIds);
+      emitMessageUpdated(socketService.getIO(), message);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: MESSAGES.CHAT.POLL_VOTE_REMOVED,
+        data: { message },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Close a poll early
+   * POST /api/chat/messages/:id/poll/close
+   */
+  async closePoll(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      const message = await chatService.closePoll(id, userId);
+      emitMessageUpdated(socketService.getIO(), message);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: MESSAGES.CHAT.POLL_CLOSED_SUCCESS,
+        data: { message },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // =====================
+  // THREADS
+  // =====================
+
+  /**
+   * Get replies in a message thread
+   * GET /api/chat/messages/:id/thread
+   */
+  async getThread(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const cursor = req.query.cursor as string | undefined;
+
+      const { root, replies, unreadCount, hasMore, nextCursor } =
+        await chatService.getThreadReplies(id, userId, { limit, cursor });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: {
+          root,
+          replies,
+          unreadCount,
+          pagination: {
+            limit,
+            hasMore,
+            nextCursor,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Mark a thread as read
+   * POST /api/chat/messages/:id/thread/read
+   */
+  async markThreadAsRead(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { id } = req.params;
+
+      const receipt = await chatService.markThreadAsRead(id, userId);
+
+      // Sync the user's other devices
+      const io = socketService.getIO();
+      io.to(`user:${userId}`).emit(CHAT_EVENTS_S2C.THREAD_READ_RECEIPT, {
+        ...receipt,
+        userId,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: MESSAGES.CHAT.THREAD_MARKED_AS_READ,
+        data: receipt,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // =====================
+  // SEARCH
+  // =====================
+
+  /**
+   * Search messages across the user's conversations
+   * GET /api/chat/search
+   */
+  async searchMessages(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const { results, hasMore, nextCursor } = await chatService.searchMessages(userId, {
+        query: req.query.q as string,
+        conversationId: req.query.conversationId as string | undefined,
+        senderId: req.query.senderId as string | undefined,
+        type: req.query.type as MessageType | undefined,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+        cursor: req.query.cursor as string | undefined,
+        limit,
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: {
+          results,
+          pagination: {
+            limit,
+            hasMore,
+            nextCursor,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // =====================
   // REACTIONS
   // =====================
@@ -705,9 +1087,9 @@ class ChatController {
    * Get online users
    * GET /api/chat/presence/online
    */
-  async getOnlineUsers(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+  async getOnlineUsers(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const onlineUsers = await chatService.getOnlineUsers();
+      const onlineUsers = await chatService.getOnlineUsers(req.user!.id);
 
       res.status(StatusCodes.OK).json({
         success: true,
@@ -0,0 +1,254 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { ModerationAction, ReportReason, ReportStatus } from '../models';
+import { moderationService, ModeratorContext } from '../services/moderation.service';
+import { socketService } from '../services/socket.service';
+import { CHAT_EVENTS_S2C } from '../services/chat.events';
+import { sendSuccess } from '../utils/response';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+
+/**
+ * Build the audit context for the requesting moderator
+ */
+const getModerator = (req: AuthenticatedRequest): ModeratorContext => {
+  if (!req.user) {
+    throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+  }
+
+  return { moderatorId: req.user.id, ipAddress: req.deviceInfo?.ip };
+};
+
+/**
+ * List reports
+ * GET /moderation/reports
+ */
+export const listReports = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { reports, total } = await moderationService.listReports({
+      status: req.query.status as ReportStatus | undefined,
+      reason: req.query.reason as ReportReason | undefined,
+      reportedUserId: req.query.reportedUserId as string | undefined,
+      page,
+      limit,
+    });
+
+    sendSuccess(res, { reports }, undefined, 200, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a report
+ * GET /moderation/reports/:id
+ */
+export const getReport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const report = await moderationService.getReport(req.params.id);
+
+    sendSuccess(res, { report });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Resolve or dismiss a report
+ * POST /moderation/reports/:id/resolve
+ */
+export const closeReport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { status, note } = req.body;
+
+    const report = await moderationService.closeReport(
+      req.params.id,
+      status,
+      getModerator(req),
+      note
+    );
+
+    sendSuccess(
+      res,
+      { report: report.toJSON() },
+      status === ReportStatus.RESOLVED
+        ? MESSAGES.MODERATION.REPORT_RESOLVED
+        : MESSAGES.MODERATION.REPORT_DISMISSED
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * View the conversation around a message
+ * GET /moderation/messages/:id/context
+ */
+export const getMessageContext = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const size = parseInt(req.query.size as string) || 10;
+
+    const context = await moderationService.getMessageContext(
+      req.params.id,
+      getModerator(req),
+      size,
+      req.query.reportId as string | undefined
+    );
+
+    sendSuccess(res, context);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * View the edit history of a message, including deleted content
+ * GET /moderation/messages/:id/history
+ */
+export const getMessageHistory = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const history = await moderationService.getMessageHistory(
+      req.params.id,
+      getModerator(req),
+      req.query.reportId as string | undefined
+    );
+
+    sendSuccess(res, { history });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove a message for everyone
+ * POST /moderation/messages/:id/remove
+ */
+export const removeMessage = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const moderator = getModerator(req);
+    const { reportId, note } = req.body;
+
+    const message = await moderationService.removeMessage(req.params.id, moderator, {
+      reportId,
+      note,
+    });
+
+    const io = socketService.getIO();
+    io.to(`conversation:${message.conversationId}`).emit(CHAT_EVENTS_S2C.MESSAGE_DELETED, {
+      conversationId: message.conversationId.toString(),
+      messageId: message._id.toString(),
+      moderated: true,
+    });
+
+    sendSuccess(res, null, MESSAGES.MODERATION.MESSAGE_REMOVED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Warn a user
+ * POST /moderation/users/:id/warn
+ */
+export const warnUser = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { reportId, note } = req.body;
+
+    await moderationService.warnUser(req.params.id, getModerator(req), note, reportId);
+
+    sendSuccess(res, null, MESSAGES.MODERATION.USER_WARNED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deactivate a user
+ * POST /moderation/users/:id/deactivate
+ */
+export const deactivateUser = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { reportId, note } = req.body;
+
+    await moderationService.deactivateUser(req.params.id, getModerator(req), {
+      reportId,
+      note,
+    });
+
+    sendSuccess(res, null, MESSAGES.MODERATION.USER_DEACTIVATED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List the moderation audit log
+ * GET /moderation/audit-log
+ */
+export const listAuditLog = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    const { entries, total } = await moderationService.listAuditLog({
+      moderatorId: req.query.moderatorId as string | undefined,
+      targetUserId: req.query.targetUserId as string | undefined,
+      action: req.query.action as ModerationAction | undefined,
+      page,
+      limit,
+    });
+
+    sendSuccess(res, { entries }, undefined, 200, {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
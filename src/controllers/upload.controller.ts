@@ -1,13 +1,33 @@
 import { Request, Response, NextFunction } from 'express';
+import fs from 'fs';
 import { StatusCodes } from 'http-status-codes';
-import cloudinaryService, { UploadOptions } from '../services/cloudinary.service';
+import storageService from '../services/storage.service';
 import compressionService from '../services/compression.service';
 import tusService from '../services/tus.service';
+import mediaService from '../services/media.service';
+import { MediaSource, MediaScanStatus, UserRole } from '../models';
+import uploadInspectionService from '../services/uploadInspection.service';
+import storageQuotaService from '../services/storageQuota.service';
+import type { StorageResourceType, UploadOptions, UploadResult } from '../types/storage.types';
 import { cleanupTempFiles } from '../middlewares/upload.middleware';
+import { normalizeMimeType, readStreamSample } from '../utils/fileType';
+import { resolveResourceType } from '../utils/storage';
 import { sendSuccess, sendError } from '../utils/response';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
 import logger from '../utils/logger';
 import config from '../config';
 
+// How long after its signature expires a direct upload can still be completed
+const DIRECT_UPLOAD_GRACE_SECONDS = 24 * 60 * 60;
+
+// Every type a direct upload may contain
+const directUploadTypes = (): string[] => [
+  ...config.upload.allowedImageTypes,
+  ...config.upload.allowedVideoTypes,
+  ...config.upload.allowedDocumentTypes,
+];
+
 /**
  * Upload single image with optional compression
  */
@@ -17,6 +37,10 @@ export const uploadImage = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
     if (!req.file) {
       sendError(res, 'No image file provided', StatusCodes.BAD_REQUEST);
       return;
@@ -35,23 +59,36 @@ export const uploadImage = async (
         maxWidth: maxWidth ? parseInt(maxWidth, 10) : undefined,
         maxHeight: maxHeight ? parseInt(maxHeight, 10) : undefined,
         format: format || 'jpeg',
+        preserveMetadata: !config.upload.stripImageMetadata,
       };
 
       compressionResult = await compressionService.compressImage(fileBuffer, compressionOptions);
       fileBuffer = compressionResult.buffer;
+    } else if (config.upload.stripImageMetadata) {
+      fileBuffer = await compressionService.stripMetadata(fileBuffer);
     }
 
-    // Upload to Cloudinary
+    // Upload to the configured storage
     const uploadOptions: UploadOptions = {
       folder: folder || 'images',
+      resourceType: 'image',
+      contentType: compressionResult ? `image/${compressionResult.format}` : req.file.mimetype,
+      filename: req.file.originalname,
+      access: 'private',
     };
 
-    const result = await cloudinaryService.uploadImage(fileBuffer, uploadOptions);
+    const result = await storageService.upload(fileBuffer, uploadOptions);
+
+    const media = await mediaService.record(req.user.id, result, {
+      mimeType: uploadOptions.contentType as string,
+      source: MediaSource.MULTIPART,
+      originalFilename: req.file.originalname,
+    });
 
     sendSuccess(
       res,
       {
-        ...result,
+        ...mediaService.toClientResult(result, media),
         compression: compressionResult
           ? {
               originalSize: compressionResult.originalSize,
@@ -77,6 +114,10 @@ export const uploadMultipleImages = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
     const files = req.files as Express.Multer.File[];
 
     if (!files || files.length === 0) {
@@ -95,16 +136,30 @@ export const uploadMultipleImages = async (
       if (shouldCompress) {
         compressionResult = await compressionService.compressImage(fileBuffer, {
           quality: config.upload.compressionQuality,
+          preserveMetadata: !config.upload.stripImageMetadata,
         });
         fileBuffer = compressionResult.buffer;
+      } else if (config.upload.stripImageMetadata) {
+        fileBuffer = await compressionService.stripMetadata(fileBuffer);
       }
 
-      const result = await cloudinaryService.uploadImage(fileBuffer, {
+      const mimeType = compressionResult ? `image/${compressionResult.format}` : file.mimetype;
+      const result = await storageService.upload(fileBuffer, {
         folder: folder || 'images',
+        resourceType: 'image',
+        contentType: mimeType,
+        filename: file.originalname,
+        access: 'private',
+      });
+
+      const media = await mediaService.record(req.user.id, result, {
+        mimeType,
+        source: MediaSource.MULTIPART,
+        originalFilename: file.originalname,
       });
 
       results.push({
-        ...result,
+        ...mediaService.toClientResult(result, media),
         originalFilename: file.originalname,
         compression: compressionResult
           ? {
@@ -134,6 +189,10 @@ export const uploadVideo = async (
   const tempFilePath = req.file?.path;
 
   try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
     if (!req.file) {
       sendError(res, 'No video file provided', StatusCodes.BAD_REQUEST);
       return;
@@ -145,16 +204,19 @@ export const uploadVideo = async (
     const fileSizeMB = req.file.size / (1024 * 1024);
     let result;
 
+    const uploadOptions: UploadOptions = {
+      folder: folder || 'videos',
+      resourceType: 'video',
+      contentType: req.file.mimetype,
+      filename: req.file.originalname,
+      access: 'private',
+    };
+
     if (fileSizeMB > 100) {
       // Use large file upload for videos > 100MB
-      result = await cloudinaryService.uploadLargeFile(req.file.path, {
-        folder: folder || 'videos',
-        resourceType: 'video',
-      });
+      result = await storageService.uploadLargeFile(req.file.path, uploadOptions);
     } else {
-      result = await cloudinaryService.uploadVideo(req.file.path, {
-        folder: folder || 'videos',
-      });
+      result = await storageService.upload(req.file.path, uploadOptions);
     }
 
     // Cleanup temp file
@@ -162,10 +224,16 @@ export const uploadVideo = async (
       await cleanupTempFiles([tempFilePath]);
     }
 
+    const media = await mediaService.record(req.user.id, result, {
+      mimeType: req.file.mimetype,
+      source: MediaSource.MULTIPART,
+      originalFilename: req.file.originalname,
+    });
+
     sendSuccess(
       res,
       {
-        ...result,
+        ...mediaService.toClientResult(result, media),
         originalFilename: req.file.originalname,
         originalSize: req.file.size,
       },
@@ -190,22 +258,35 @@ export const uploadDocument = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
     if (!req.file) {
       sendError(res, 'No document file provided', StatusCodes.BAD_REQUEST);
       return;
     }
 
-    const { folder } = req.body;
+    // The storage key is generated server-side so one upload can never replace another
+    const result = await storageService.upload(req.file.buffer, {
+      folder: 'documents',
+      resourceType: 'raw',
+      contentType: req.file.mimetype,
+      filename: req.file.originalname,
+      overwrite: false,
+      access: 'private',
+    });
 
-    const result = await cloudinaryService.uploadRaw(req.file.buffer, {
-      folder: folder || 'documents',
-      publicId: req.file.originalname.replace(/\.[^/.]+$/, ''), // Remove extension
+    const media = await mediaService.record(req.user.id, result, {
+      mimeType: req.file.mimetype,
+      source: MediaSource.MULTIPART,
+      originalFilename: req.file.originalname,
     });
 
     sendSuccess(
       res,
       {
-        ...result,
+        ...mediaService.toClientResult(result, media),
         originalFilename: req.file.originalname,
         originalSize: req.file.size,
       },
@@ -228,6 +309,10 @@ export const uploadLargeFile = async (
   const tempFilePath = req.file?.path;
 
   try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
     if (!req.file) {
       sendError(res, 'No file provided', StatusCodes.BAD_REQUEST);
       return;
@@ -235,9 +320,19 @@ export const uploadLargeFile = async (
 
     const { folder, resourceType } = req.body;
 
-    const result = await cloudinaryService.uploadLargeFile(req.file.path, {
+    if (config.upload.stripImageMetadata && req.file.mimetype.startsWith('image/')) {
+      await fs.promises.writeFile(
+        req.file.path,
+        await compressionService.stripMetadata(req.file.path)
+      );
+    }
+
+    const result = await storageService.uploadLargeFile(req.file.path, {
       folder: folder || 'large-files',
       resourceType: resourceType || 'auto',
+      contentType: req.file.mimetype,
+      filename: req.file.originalname,
+      access: 'private',
     });
 
     // Cleanup temp file
@@ -245,10 +340,16 @@ export const uploadLargeFile = async (
       await cleanupTempFiles([tempFilePath]);
     }
 
+    const media = await mediaService.record(req.user.id, result, {
+      mimeType: req.file.mimetype,
+      source: MediaSource.MULTIPART,
+      originalFilename: req.file.originalname,
+    });
+
     sendSuccess(
       res,
       {
-        ...result,
+        ...mediaService.toClientResult(result, media),
         originalFilename: req.file.originalname,
         originalSize: req.file.size,
       },
@@ -265,7 +366,7 @@ export const uploadLargeFile = async (
 };
 
 /**
- * Delete media from Cloudinary
+ * Delete media from storage (owner or admin)
  */
 export const deleteMedia = async (
   req: Request,
@@ -273,10 +374,25 @@ export const deleteMedia = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
     const { publicId } = req.params;
-    const resourceType = (req.query.resourceType as 'image' | 'video' | 'raw') || 'image';
+    const media = await mediaService.findForUser(publicId, req.user);
+    const resourceType =
+      media?.resourceType || (req.query.resourceType as StorageResourceType) || 'image';
+
+    const result = await storageService.deleteMedia(
+      publicId,
+      resourceType,
+      mediaService.getAccess(media)
+    );
 
-    const result = await cloudinaryService.deleteMedia(publicId, resourceType);
+    // A record whose asset is already gone is stale either way
+    if (result.success || result.result === 'not found') {
+      await mediaService.remove(publicId);
+    }
 
     if (result.success) {
       sendSuccess(res, result, 'Media deleted successfully');
@@ -290,7 +406,7 @@ export const deleteMedia = async (
 };
 
 /**
- * Get media information
+ * Get media information (owner or admin)
  */
 export const getMediaInfo = async (
   req: Request,
@@ -298,18 +414,71 @@ export const getMediaInfo = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
     const { publicId } = req.params;
-    const resourceType = (req.query.resourceType as 'image' | 'video' | 'raw') || 'image';
+    const media = await mediaService.findForUser(publicId, req.user);
+    const resourceType =
+      media?.resourceType || (req.query.resourceType as StorageResourceType) || 'image';
 
-    const result = await cloudinaryService.getMediaInfo(publicId, resourceType);
+    // Infected files are deleted by the scan; only their record is left
+    if (media?.scanStatus === MediaScanStatus.INFECTED) {
+      sendSuccess(res, media, 'Media info retrieved');
+      return;
+    }
 
-    sendSuccess(res, result, 'Media info retrieved');
+    const result = await storageService.getMediaInfo(
+      publicId,
+      resourceType,
+      mediaService.getAccess(media)
+    );
+
+    sendSuccess(res, mediaService.toClientResult(result, media), 'Media info retrieved');
   } catch (error) {
     logger.error('Get media info failed:', error);
     next(error);
   }
 };
 
+/**
+ * List the current user's uploads
+ */
+export const getMyMedia = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const { media, total } = await mediaService.listByOwner(req.user.id, { page, limit });
+
+    sendSuccess(
+      res,
+      {
+        media,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+      MESSAGES.MEDIA.LIST_RETRIEVED
+    );
+  } catch (error) {
+    logger.error('List media failed:', error);
+    next(error);
+  }
+};
+
 /**
  * Get resumable upload endpoint info
  */
@@ -347,9 +516,14 @@ export const getUploadStatus = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
     const { uploadId } = req.params;
+    const ownerId = req.user.role === UserRole.ADMIN ? undefined : req.user.id;
 
-    const result = await tusService.getUploadResult(uploadId, true);
+    const result = await tusService.getUploadResult(uploadId, true, ownerId);
 
     if (result.status === 'not_found') {
       sendError(res, 'Upload not found', StatusCodes.NOT_FOUND);
@@ -364,7 +538,8 @@ export const getUploadStatus = async (
 };
 
 /**
- * Generate signed upload URL for client-side uploads
+ * Generate signed upload URL for client-side uploads.
+ * The file lands in quarantine; completeSignedUpload checks it and queues its scan.
  */
 export const getSignedUploadUrl = async (
   req: Request,
@@ -372,21 +547,133 @@ export const getSignedUploadUrl = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { folder, resourceType, maxFileSize } = req.query;
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const folder = req.query.folder as string | undefined;
+    const filename = req.query.filename as string | undefined;
+    const mimeType = normalizeMimeType(req.query.contentType as string);
+    const size = parseInt(req.query.size as string, 10);
+
+    if (size > config.upload.maxFileSizeMB * 1024 * 1024) {
+      throw new ApiError(
+        StatusCodes.REQUEST_TOO_LONG,
+        MESSAGES.MEDIA.FILE_TOO_LARGE.replace('{size}', config.upload.maxFileSizeMB.toString())
+      );
+    }
+
+    if (!directUploadTypes().includes(mimeType)) {
+      throw new ApiError(
+        StatusCodes.UNSUPPORTED_MEDIA_TYPE,
+        MESSAGES.MEDIA.FILE_TYPE_NOT_ALLOWED.replace('{type}', mimeType)
+      );
+    }
 
-    const signedData = cloudinaryService.generateSignedUploadUrl({
-      folder: folder as string,
-      resourceType: resourceType as 'image' | 'video' | 'raw' | 'auto',
-      maxFileSize: maxFileSize ? parseInt(maxFileSize as string, 10) : undefined,
+    const resourceType = resolveResourceType({
+      resourceType: req.query.resourceType as StorageResourceType | 'auto' | undefined,
+      contentType: mimeType,
+      filename,
     });
 
-    sendSuccess(res, signedData, 'Signed upload URL generated');
+    // The declared size is reserved until the upload is completed or swept
+    await storageQuotaService.assertCanStore(req.user.id, size, 1);
+
+    const signedData = storageService.generateSignedUploadUrl({
+      folder,
+      resourceType,
+      contentType: mimeType,
+      filename,
+      bytes: size,
+      access: 'private',
+    });
+
+    await mediaService.reserveDirectUpload(req.user.id, {
+      publicId: signedData.publicId,
+      resourceType,
+      mimeType,
+      bytes: size,
+      originalFilename: filename,
+      expiresAt: new Date(
+        ((signedData.expiresAt ?? Math.round(Date.now() / 1000)) + DIRECT_UPLOAD_GRACE_SECONDS) *
+          1000
+      ),
+    });
+
+    sendSuccess(res, signedData, MESSAGES.MEDIA.SIGNED_UPLOAD_GENERATED);
   } catch (error) {
     logger.error('Generate signed URL failed:', error);
     next(error);
   }
 };
 
+/**
+ * Complete a direct upload: check the stored file's size and content against what was
+ * signed, then count it and queue its malware scan
+ */
+export const completeSignedUpload = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const { publicId } = req.body as { publicId: string };
+    const media = await mediaService.findAwaitingUpload(publicId, req.user.id);
+    const resourceType = media.resourceType as StorageResourceType;
+
+    let result: UploadResult;
+    let sample: Buffer;
+    try {
+      result = await storageService.getMediaInfo(publicId, resourceType, 'private');
+      sample = await readStreamSample(
+        await storageService.downloadMedia(publicId, resourceType, 'private')
+      );
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === (StatusCodes.NOT_FOUND as number)) {
+        throw ApiError.badRequest(MESSAGES.MEDIA.DIRECT_UPLOAD_FILE_MISSING);
+      }
+      throw error;
+    }
+
+    let mimeType: string;
+    try {
+      if (result.bytes > media.bytes) {
+        throw new ApiError(
+          StatusCodes.REQUEST_TOO_LONG,
+          MESSAGES.MEDIA.DIRECT_UPLOAD_SIZE_MISMATCH
+        );
+      }
+      mimeType = await uploadInspectionService.inspectContent(sample, {
+        userId: req.user.id,
+        filename: media.originalFilename,
+        declaredType: media.mimeType,
+        source: MediaSource.DIRECT,
+        allowedTypes: directUploadTypes(),
+      });
+    } catch (error) {
+      // Refused files never leave quarantine
+      await storageService.deleteMedia(publicId, resourceType, 'private');
+      await mediaService.discardDirectUpload(publicId);
+      throw error;
+    }
+
+    const completed = await mediaService.completeDirectUpload(media, result, mimeType);
+
+    sendSuccess(
+      res,
+      mediaService.toClientResult(result, completed),
+      MESSAGES.MEDIA.DIRECT_UPLOAD_COMPLETED
+    );
+  } catch (error) {
+    logger.error('Complete signed upload failed:', error);
+    next(error);
+  }
+};
+
 export default {
   uploadImage,
   uploadMultipleImages,
@@ -395,7 +682,9 @@ export default {
   uploadLargeFile,
   deleteMedia,
   getMediaInfo,
+  getMyMedia,
   getResumableUploadInfo,
   getUploadStatus,
   getSignedUploadUrl,
+  completeSignedUpload,
 };
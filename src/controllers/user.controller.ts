@@ -1,6 +1,14 @@
 import { Response, NextFunction, Request } from 'express';
+import { StatusCodes } from 'http-status-codes';
 import { AuthenticatedRequest } from '../types';
 import { User, UserRole } from '../models';
+import { userBlockService } from '../services/userBlock.service';
+import { sessionCacheService } from '../services/sessionCache.service';
+import { emailChangeService } from '../services/emailChange.service';
+import { passwordService } from '../services/password.service';
+import { apiKeyService } from '../services/apiKey.service';
+import { storageQuotaService } from '../services/storageQuota.service';
+import { logoutAllDevices } from '../services/auth.service';
 import { sendSuccess } from '../utils/response';
 import { ApiError } from '../utils/ApiError';
 import { MESSAGES } from '../constants/messages';
@@ -73,6 +81,285 @@ export const updateMe = async (
   }
 };
 
+/**
+ * Start changing the current user's email address
+ * POST /users/me/email
+ */
+export const requestEmailChange = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const { newEmail, currentPassword } = req.body;
+
+    const result = await emailChangeService.requestChange(req.user.id, newEmail, currentPassword);
+
+    sendSuccess(res, result, MESSAGES.USER.EMAIL_CHANGE_STARTED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirm an email change with the code sent to the new address
+ * POST /users/me/email/verify
+ */
+export const confirmEmailChange = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const user = await emailChangeService.confirmChange(
+      req.user.id,
+      req.body.otp,
+      req.session?._id.toString()
+    );
+
+    sendSuccess(res, { user: user.toJSON() }, MESSAGES.USER.EMAIL_CHANGED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change the current user's password
+ * POST /users/me/password
+ */
+export const changePassword = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const { currentPassword, newPassword } = req.body;
+
+    await passwordService.changePassword(
+      req.user.id,
+      currentPassword,
+      newPassword,
+      req.session?._id.toString()
+    );
+
+    sendSuccess(res, null, MESSAGES.AUTH.PASSWORD_CHANGED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List API keys of the current user, or of any user for admins
+ * GET /users/me/api-keys
+ * GET /users/:id/api-keys
+ */
+export const listApiKeys = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const userId = (req.params.id as string | undefined) ?? req.user.id;
+    const apiKeys = await apiKeyService.list(userId);
+
+    sendSuccess(res, { apiKeys });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create an API key for the current user, or for any user for admins
+ * POST /users/me/api-keys
+ * POST /users/:id/api-keys
+ */
+export const createApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const userId = (req.params.id as string | undefined) ?? req.user.id;
+    const { name, scopes, expiresAt } = req.body;
+
+    const { apiKey, key } = await apiKeyService.create(userId, req.user.id, {
+      name,
+      scopes,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    });
+
+    sendSuccess(
+      res,
+      { apiKey: apiKey.toJSON(), key },
+      MESSAGES.AUTH.API_KEY_CREATED,
+      StatusCodes.CREATED
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revoke an API key of the current user, or of any user for admins
+ * DELETE /users/me/api-keys/:keyId
+ * DELETE /users/:id/api-keys/:keyId
+ */
+export const revokeApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const userId = (req.params.id as string | undefined) ?? req.user.id;
+    const revoked = await apiKeyService.revoke(userId, req.params.keyId);
+
+    if (!revoked) {
+      throw ApiError.notFound(MESSAGES.AUTH.API_KEY_NOT_FOUND);
+    }
+
+    sendSuccess(res, null, MESSAGES.AUTH.API_KEY_REVOKED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get media storage usage of the current user, or of any user for admins
+ * GET /users/me/storage
+ * GET /users/:id/storage
+ */
+export const getStorageUsage = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const userId = (req.params.id as string | undefined) ?? req.user.id;
+    const storage = await storageQuotaService.getUsage(userId);
+
+    sendSuccess(res, { storage }, MESSAGES.MEDIA.STORAGE_RETRIEVED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Override a user's storage quota (admin)
+ * PATCH /users/:id/storage
+ */
+export const setStorageQuota = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { maxBytes, maxFiles } = req.body;
+    const storage = await storageQuotaService.setOverride(req.params.id, {
+      maxBytes,
+      maxFiles,
+    });
+
+    sendSuccess(res, { storage }, MESSAGES.MEDIA.STORAGE_QUOTA_UPDATED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List users blocked by the current user
+ * GET /users/me/blocks
+ */
+export const listBlocks = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const blocks = await userBlockService.listBlocks(req.user.id);
+
+    sendSuccess(res, { blocks });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Block a user
+ * POST /users/me/blocks
+ */
+export const blockUser = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    const { userId, reason } = req.body;
+    const block = await userBlockService.blockUser(req.user.id, userId, reason);
+
+    sendSuccess(res, { block: block.toJSON() }, MESSAGES.USER.USER_BLOCKED, StatusCodes.CREATED);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Unblock a user
+ * DELETE /users/me/blocks/:userId
+ */
+export const unblockUser = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED);
+    }
+
+    await userBlockService.unblockUser(req.user.id, req.params.userId);
+
+    sendSuccess(res, null, MESSAGES.USER.USER_UNBLOCKED);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * List all users (Admin only)
  * GET /users
@@ -149,6 +436,9 @@ export const updateUserRole = async (
       throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
     }
 
+    // Cached session checks carry the old role
+    await sessionCacheService.invalidateUser(user._id.toString());
+
     sendSuccess(res, { user: user.toJSON() }, MESSAGES.USER.ROLE_UPDATED);
   } catch (error) {
     next(error);
@@ -171,6 +461,8 @@ export const deactivateUser = async (
       throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
     }
 
+    await logoutAllDevices(user._id.toString());
+
     sendSuccess(res, { user: user.toJSON() }, MESSAGES.USER.DEACTIVATED);
   } catch (error) {
     next(error);
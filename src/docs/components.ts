@@ -157,5 +157,41 @@
  *                 expires:
  *                   type: string
  *                   format: date-time
+ *
+ *     ApiKeyInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - scopes
+ *       properties:
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [chat:read, chat:write, upload:write]
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *     StorageUsage:
+ *       type: object
+ *       properties:
+ *         usedBytes:
+ *           type: integer
+ *         fileCount:
+ *           type: integer
+ *         maxBytes:
+ *           type: integer
+ *         maxFiles:
+ *           type: integer
+ *         remainingBytes:
+ *           type: integer
+ *         remainingFiles:
+ *           type: integer
+ *         isOverridden:
+ *           type: boolean
+ *           description: Whether an admin has overridden the role's quota
  */
 export {};
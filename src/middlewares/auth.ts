@@ -1,8 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import passport from 'passport';
 import { ApiError } from '../utils/ApiError';
-import { UserRole } from '../models';
+import { UserRole, ApiKeyScope } from '../models';
 import { MESSAGES } from '../constants/messages';
+import config from '../config';
+import { VerifiedEmailAction } from '../types/emailVerification.types';
+import { apiKeyService } from '../services/apiKey.service';
 
 /**
  * Passport JWT authentication middleware
@@ -13,6 +16,39 @@ export const authenticate = passport.authenticate('jwt', {
   failWithError: true,
 });
 
+/**
+ * API key authentication middleware factory
+ * Accepts an API key in the X-API-Key header and requires the given scopes.
+ * Requests without the header fall back to JWT authentication, which carries every scope.
+ */
+export const authenticateApiKey = (...requiredScopes: ApiKeyScope[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.headers['x-api-key'];
+
+    if (typeof key !== 'string' || !key) {
+      authenticate(req, res, next);
+      return;
+    }
+
+    try {
+      const { apiKey, user } = await apiKeyService.authenticate(key, req.ip);
+
+      const missingScopes = requiredScopes.filter((scope) => !apiKey.scopes.includes(scope));
+      if (missingScopes.length > 0) {
+        throw ApiError.forbidden(
+          MESSAGES.AUTH.API_KEY_SCOPE_MISSING.replace('{scopes}', missingScopes.join(', '))
+        );
+      }
+
+      req.user = user;
+      req.apiKey = apiKey;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
 /**
  * Custom authentication middleware wrapper
  * Handles passport errors and converts them to ApiError
@@ -46,6 +82,7 @@ export const authMiddleware = async (
           email: user.email,
           role: user.role,
           isActive: user.isActive,
+          isEmailVerified: user.isEmailVerified,
         };
 
         next();
@@ -80,6 +117,24 @@ export const authorize = (...allowedRoles: UserRole[]) => {
   };
 };
 
+/**
+ * Email verification middleware factory
+ * Blocks unverified accounts from actions the verification policy restricts
+ */
+export const requireVerifiedEmail = (action: VerifiedEmailAction) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      return next(ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED));
+    }
+
+    if (config.emailVerification.requiredFor.includes(action) && !req.user.isEmailVerified) {
+      return next(ApiError.forbidden(MESSAGES.AUTH.EMAIL_NOT_VERIFIED));
+    }
+
+    next();
+  };
+};
+
 /**
  * Optional authentication middleware
  * Attaches user if token is present, but doesn't require it
@@ -100,6 +155,7 @@ export const optionalAuth = async (
             email: user.email,
             role: user.role,
             isActive: user.isActive,
+            isEmailVerified: user.isEmailVerified,
           };
         }
       }
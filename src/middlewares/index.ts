@@ -2,5 +2,12 @@ export { asyncHandler } from './asyncHandler';
 export { errorHandler, notFoundHandler } from './errorHandler';
 export { defaultRateLimiter, strictRateLimiter } from './rateLimiter';
 export { validate } from './validate';
-export { authenticate, authorize, optionalAuth, authenticateRefreshToken } from './auth';
+export {
+  authenticate,
+  authenticateApiKey,
+  authorize,
+  requireVerifiedEmail,
+  optionalAuth,
+  authenticateRefreshToken,
+} from './auth';
 export { extractDeviceInfo } from './deviceInfo';
@@ -1,9 +1,14 @@
 import multer, { FileFilterCallback } from 'multer';
-import { Request, RequestHandler } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import path from 'path';
 import fs from 'fs';
 import config from '../config';
+import { storageQuotaService } from '../services/storageQuota.service';
+import { uploadInspectionService } from '../services/uploadInspection.service';
+import { MediaSource, UploadRejectionReason } from '../models';
+import { FILE_SAMPLE_BYTES, normalizeMimeType, readFileSample } from '../utils/fileType';
 import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
 import { StatusCodes } from 'http-status-codes';
 
 // Ensure temp upload directory exists
@@ -12,12 +17,19 @@ if (!fs.existsSync(tempUploadDir)) {
   fs.mkdirSync(tempUploadDir, { recursive: true });
 }
 
-// File filter for validation
+// File filter for validation of the declared type; content is checked once parsed
 const createFileFilter = (allowedTypes: string[]) => {
-  return (_req: Request, file: Express.Multer.File, callback: FileFilterCallback): void => {
-    if (allowedTypes.includes(file.mimetype)) {
+  return (req: Request, file: Express.Multer.File, callback: FileFilterCallback): void => {
+    if (allowedTypes.includes(normalizeMimeType(file.mimetype))) {
       callback(null, true);
     } else {
+      void uploadInspectionService.recordRejection({
+        userId: req.user?.id,
+        reason: UploadRejectionReason.TYPE_NOT_ALLOWED,
+        filename: file.originalname,
+        declaredType: file.mimetype,
+        source: MediaSource.MULTIPART,
+      });
       callback(
         new ApiError(
           StatusCodes.UNSUPPORTED_MEDIA_TYPE,
@@ -43,45 +55,138 @@ const diskStorage = multer.diskStorage({
   },
 });
 
-// Image upload middleware (memory storage for compression)
-export const uploadImage = multer({
-  storage: memoryStorage,
-  limits: {
-    fileSize: config.upload.maxImageSizeMB * 1024 * 1024,
-  },
-  fileFilter: createFileFilter(config.upload.allowedImageTypes),
+// Files multer parsed into the request, whichever method was used
+const getParsedFiles = (req: Request): Express.Multer.File[] => {
+  if (req.file) {
+    return [req.file];
+  }
+  if (Array.isArray(req.files)) {
+    return req.files;
+  }
+  return req.files ? Object.values(req.files).flat() : [];
+};
+
+// Check a parsed file's content against the allowed types and its declared type,
+// then carry the detected type forward in place of the client's
+const inspectParsedFile = async (
+  file: Express.Multer.File,
+  userId: string,
+  allowedTypes: string[]
+): Promise<void> => {
+  const sample = file.buffer
+    ? file.buffer.subarray(0, FILE_SAMPLE_BYTES)
+    : await readFileSample(file.path);
+
+  file.mimetype = await uploadInspectionService.inspectContent(sample, {
+    userId,
+    filename: file.originalname,
+    declaredType: file.mimetype,
+    source: MediaSource.MULTIPART,
+    allowedTypes,
+  });
+};
+
+// Check the user's storage quota around a multer handler: against the request's
+// Content-Length before any data is read, then against the parsed files themselves.
+// Parsed files must also pass content type detection.
+const enforceUploadChecks = (handler: RequestHandler, allowedTypes: string[]): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      return next(ApiError.unauthorized(MESSAGES.AUTH.NOT_AUTHENTICATED));
+    }
+
+    const userId = req.user.id;
+    try {
+      const contentLength = parseInt(req.headers['content-length'] || '0', 10) || 0;
+      await storageQuotaService.assertCanStore(userId, contentLength, 1);
+    } catch (error) {
+      return next(error);
+    }
+
+    handler(req, res, async (error?: unknown) => {
+      if (error) {
+        return next(error);
+      }
+
+      const files = getParsedFiles(req);
+      try {
+        const bytes = files.reduce((total, file) => total + file.size, 0);
+        await storageQuotaService.assertCanStore(userId, bytes, files.length);
+        for (const file of files) {
+          await inspectParsedFile(file, userId, allowedTypes);
+        }
+        next();
+      } catch (checkError) {
+        await cleanupTempFiles(files.map((file) => file.path).filter(Boolean));
+        next(checkError);
+      }
+    });
+  };
+};
+
+// Apply the storage quota and content checks to every handler a multer instance creates
+const withUploadChecks = (upload: multer.Multer, allowedTypes: string[]): multer.Multer => ({
+  single: (fieldName) => enforceUploadChecks(upload.single(fieldName), allowedTypes),
+  array: (fieldName, maxCount) =>
+    enforceUploadChecks(upload.array(fieldName, maxCount), allowedTypes),
+  fields: (fields) => enforceUploadChecks(upload.fields(fields), allowedTypes),
+  any: () => enforceUploadChecks(upload.any(), allowedTypes),
+  none: () => upload.none(),
 });
 
+const allowedAnyTypes = [
+  ...config.upload.allowedImageTypes,
+  ...config.upload.allowedVideoTypes,
+  ...config.upload.allowedDocumentTypes,
+];
+
+// Image upload middleware (memory storage for compression)
+export const uploadImage = withUploadChecks(
+  multer({
+    storage: memoryStorage,
+    limits: {
+      fileSize: config.upload.maxImageSizeMB * 1024 * 1024,
+    },
+    fileFilter: createFileFilter(config.upload.allowedImageTypes),
+  }),
+  config.upload.allowedImageTypes
+);
+
 // Video upload middleware (disk storage for large files)
-export const uploadVideo = multer({
-  storage: diskStorage,
-  limits: {
-    fileSize: config.upload.maxVideoSizeMB * 1024 * 1024,
-  },
-  fileFilter: createFileFilter(config.upload.allowedVideoTypes),
-});
+export const uploadVideo = withUploadChecks(
+  multer({
+    storage: diskStorage,
+    limits: {
+      fileSize: config.upload.maxVideoSizeMB * 1024 * 1024,
+    },
+    fileFilter: createFileFilter(config.upload.allowedVideoTypes),
+  }),
+  config.upload.allowedVideoTypes
+);
 
 // Document upload middleware
-export const uploadDocument = multer({
-  storage: memoryStorage,
-  limits: {
-    fileSize: config.upload.maxFileSizeMB * 1024 * 1024,
-  },
-  fileFilter: createFileFilter(config.upload.allowedDocumentTypes),
-});
+export const uploadDocument = withUploadChecks(
+  multer({
+    storage: memoryStorage,
+    limits: {
+      fileSize: config.upload.maxFileSizeMB * 1024 * 1024,
+    },
+    fileFilter: createFileFilter(config.upload.allowedDocumentTypes),
+  }),
+  config.upload.allowedDocumentTypes
+);
 
 // Any file type (with size limit)
-export const uploadAny = multer({
-  storage: diskStorage,
-  limits: {
-    fileSize: config.upload.maxFileSizeMB * 1024 * 1024,
-  },
-  fileFilter: createFileFilter([
-    ...config.upload.allowedImageTypes,
-    ...config.upload.allowedVideoTypes,
-    ...config.upload.allowedDocumentTypes,
-  ]),
-});
+export const uploadAny = withUploadChecks(
+  multer({
+    storage: diskStorage,
+    limits: {
+      fileSize: config.upload.maxFileSizeMB * 1024 * 1024,
+    },
+    fileFilter: createFileFilter(allowedAnyTypes),
+  }),
+  allowedAnyTypes
+);
 
 // Single image upload
 export const singleImage: RequestHandler = uploadImage.single('image');
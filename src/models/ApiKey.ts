@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Permissions an API key can be granted
+ */
+export enum ApiKeyScope {
+  CHAT_READ = 'chat:read',
+  CHAT_WRITE = 'chat:write',
+  UPLOAD_WRITE = 'upload:write',
+}
+
+/**
+ * API key document interface
+ */
+export interface IApiKey extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId; // Owner the key acts as
+  createdBy: mongoose.Types.ObjectId; // Owner, or the admin who issued it
+  name: string;
+  prefix: string; // Leading characters of the key, shown to identify it
+  keyHash: string; // SHA-256 of the full key
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * API key schema definition
+ */
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [100, 'API key name cannot exceed 100 characters'],
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    scopes: {
+      type: [String],
+      enum: Object.values(ApiKeyScope),
+      default: [],
+    },
+    expiresAt: Date,
+    lastUsedAt: Date,
+    lastUsedIp: String,
+    revokedAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.__v = undefined;
+        ret.keyHash = undefined;
+        ret.id = ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * API key model
+ */
+const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
+
+export default ApiKey;
@@ -8,6 +8,16 @@ export enum ConversationType {
   GROUP = 'group',
 }
 
+/**
+ * Disappearing message retention settings
+ */
+export enum MessageRetention {
+  OFF = 'off',
+  ONE_DAY = '24h',
+  SEVEN_DAYS = '7d',
+  NINETY_DAYS = '90d',
+}
+
 /**
  * Conversation metadata interface
  */
@@ -31,6 +41,8 @@ export interface IConversation extends Document {
   lastMessage?: mongoose.Types.ObjectId;
   lastMessageAt?: Date;
   lastMessagePreview?: string;
+  messageRetention: MessageRetention;
+  linkPreviewsEnabled: boolean;
   metadata: IConversationMetadata;
   isActive: boolean;
   createdAt: Date;
@@ -92,6 +104,15 @@ const conversationSchema = new Schema<IConversation>(
       type: String,
       maxlength: 100,
     },
+    messageRetention: {
+      type: String,
+      enum: Object.values(MessageRetention),
+      default: MessageRetention.OFF,
+    },
+    linkPreviewsEnabled: {
+      type: Boolean,
+      default: true,
+    },
     metadata: {
       totalMessages: {
         type: Number,
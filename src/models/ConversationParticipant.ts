@@ -17,6 +17,15 @@ export interface INotificationSettings {
   preview: boolean;
 }
 
+/**
+ * Per-thread read state interface
+ */
+export interface IThreadReadState {
+  threadRootId: mongoose.Types.ObjectId;
+  unreadCount: number;
+  lastReadAt?: Date;
+}
+
 /**
  * Conversation participant document interface
  */
@@ -31,6 +40,7 @@ export interface IConversationParticipant extends Document {
   unreadCount: number;
   lastReadAt?: Date;
   lastReadMessageId?: mongoose.Types.ObjectId;
+  threadReads: IThreadReadState[];
   notifications: INotificationSettings;
   isArchived: boolean;
   isPinned: boolean;
@@ -66,6 +76,28 @@ const notificationSettingsSchema = new Schema<INotificationSettings>(
   { _id: false }
 );
 
+/**
+ * Thread read state schema
+ */
+const threadReadStateSchema = new Schema<IThreadReadState>(
+  {
+    threadRootId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+      required: true,
+    },
+    unreadCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastReadAt: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Conversation participant schema definition
  */
@@ -112,6 +144,7 @@ const conversationParticipantSchema = new Schema<IConversationParticipant>(
       type: Schema.Types.ObjectId,
       ref: 'Message',
     },
+    threadReads: [threadReadStateSchema],
     notifications: {
       type: notificationSettingsSchema,
       default: () => ({
@@ -175,6 +208,7 @@ conversationParticipantSchema.index({ conversationId: 1, userId: 1 }, { unique:
 conversationParticipantSchema.index({ userId: 1, isActive: 1, isPinned: -1 });
 conversationParticipantSchema.index({ userId: 1, isArchived: 1 });
 conversationParticipantSchema.index({ conversationId: 1, isActive: 1 });
+conversationParticipantSchema.index({ conversationId: 1, 'threadReads.threadRootId': 1 });
 
 /**
  * Check if mute has expired and auto-unmute
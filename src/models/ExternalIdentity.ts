@@ -0,0 +1,76 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * External identity (OAuth / OIDC account linked to a user) document interface
+ */
+export interface IExternalIdentity extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  provider: string; // Configured provider ID (e.g. google, github)
+  subject: string; // Provider-side user ID
+  email?: string;
+  emailVerified: boolean;
+  displayName?: string;
+  avatarUrl?: string;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * External identity schema definition
+ */
+const externalIdentitySchema = new Schema<IExternalIdentity>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+    },
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    displayName: String,
+    avatarUrl: String,
+    lastLoginAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.__v = undefined;
+        ret.id = ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+// A provider account belongs to one user, and a user links each provider once
+externalIdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+externalIdentitySchema.index({ userId: 1, provider: 1 }, { unique: true });
+
+/**
+ * External identity model
+ */
+const ExternalIdentity = mongoose.model<IExternalIdentity>(
+  'ExternalIdentity',
+  externalIdentitySchema
+);
+
+export default ExternalIdentity;
@@ -0,0 +1,111 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IDeviceInfo, deviceInfoSchema } from './Session';
+
+/**
+ * How the user authenticated
+ */
+export enum LoginMethod {
+  REGISTRATION = 'registration',
+  PASSWORD = 'password',
+  TWO_FACTOR = 'two_factor',
+  PASSKEY = 'passkey',
+  OAUTH = 'oauth',
+}
+
+/**
+ * Login event (login history entry) document interface
+ */
+export interface ILoginEvent extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  sessionId: mongoose.Types.ObjectId;
+  method: LoginMethod;
+  deviceInfo: IDeviceInfo;
+  isNewDevice: boolean; // Device ID not seen in earlier logins
+  isUnusualIp: boolean; // IP outside the networks of recent logins
+  alertSent: boolean;
+  reportTokenHash?: string; // Hash of the "this wasn't me" token
+  reportTokenExpiresAt?: Date;
+  reportedAt?: Date; // When the user reported this login as not theirs
+  expiresAt: Date; // Retention limit
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Login event schema definition
+ */
+const loginEventSchema = new Schema<ILoginEvent>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: true,
+    },
+    method: {
+      type: String,
+      enum: Object.values(LoginMethod),
+      required: true,
+    },
+    deviceInfo: {
+      type: deviceInfoSchema,
+      required: true,
+    },
+    isNewDevice: {
+      type: Boolean,
+      default: false,
+    },
+    isUnusualIp: {
+      type: Boolean,
+      default: false,
+    },
+    alertSent: {
+      type: Boolean,
+      default: false,
+    },
+    reportTokenHash: {
+      type: String,
+      select: false,
+      index: { unique: true, sparse: true },
+    },
+    reportTokenExpiresAt: {
+      type: Date,
+      select: false,
+    },
+    reportedAt: Date,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.__v = undefined;
+        ret.reportTokenHash = undefined;
+        ret.reportTokenExpiresAt = undefined;
+        ret.id = ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+// Login history, newest first
+loginEventSchema.index({ userId: 1, createdAt: -1 });
+
+// TTL index to drop events past the retention period
+loginEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Login event model
+ */
+const LoginEvent = mongoose.model<ILoginEvent>('LoginEvent', loginEventSchema);
+
+export default LoginEvent;
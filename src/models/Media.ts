@@ -0,0 +1,152 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Cloudinary resource types media can be stored as
+ */
+export enum MediaResourceType {
+  IMAGE = 'image',
+  VIDEO = 'video',
+  RAW = 'raw',
+}
+
+/**
+ * How the file reached the server
+ */
+export enum MediaSource {
+  MULTIPART = 'multipart',
+  RESUMABLE = 'resumable',
+  DIRECT = 'direct', // Sent straight to storage with a signed upload URL
+}
+
+/**
+ * Malware scan state. Media is quarantined (not usable in chat) until it is clean.
+ */
+export enum MediaScanStatus {
+  AWAITING_UPLOAD = 'awaiting_upload', // Signed for a direct upload that is not completed yet
+  PENDING = 'pending',
+  CLEAN = 'clean',
+  INFECTED = 'infected', // File deleted; the record is kept so the owner can see why
+  FAILED = 'failed', // Scanner gave no verdict after every retry
+}
+
+/**
+ * Media document interface
+ */
+export interface IMedia extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId; // Uploader
+  publicId: string; // Cloudinary public ID
+  resourceType: MediaResourceType;
+  format?: string;
+  mimeType: string;
+  bytes: number;
+  width?: number;
+  height?: number;
+  duration?: number; // Seconds, for video and audio
+  url: string;
+  secureUrl: string;
+  originalFilename?: string;
+  source: MediaSource;
+  scanStatus: MediaScanStatus;
+  scanThreat?: string; // Signature found in infected files
+  scanError?: string;
+  scannedAt?: Date;
+  uploadExpiresAt?: Date; // Awaiting direct uploads are swept after this
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function isUploaded(this: IMedia): boolean {
+  return this.scanStatus !== MediaScanStatus.AWAITING_UPLOAD;
+}
+
+/**
+ * Media schema definition
+ */
+const mediaSchema = new Schema<IMedia>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    publicId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    resourceType: {
+      type: String,
+      enum: Object.values(MediaResourceType),
+      required: true,
+    },
+    format: String,
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    bytes: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    width: Number,
+    height: Number,
+    duration: Number,
+    // Unknown until a direct upload is completed
+    url: {
+      type: String,
+      required: isUploaded,
+    },
+    secureUrl: {
+      type: String,
+      required: isUploaded,
+    },
+    originalFilename: String,
+    source: {
+      type: String,
+      enum: Object.values(MediaSource),
+      required: true,
+    },
+    scanStatus: {
+      type: String,
+      enum: Object.values(MediaScanStatus),
+      default: MediaScanStatus.PENDING,
+    },
+    scanThreat: String,
+    scanError: String,
+    scannedAt: Date,
+    uploadExpiresAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.__v = undefined;
+        ret.id = ret._id;
+        // Quarantined files are not served
+        if (ret.scanStatus !== MediaScanStatus.CLEAN) {
+          ret.url = undefined;
+          ret.secureUrl = undefined;
+        }
+        return ret;
+      },
+    },
+  }
+);
+
+// Owner's library, newest first
+mediaSchema.index({ userId: 1, createdAt: -1 });
+// Direct uploads never completed are removed by the media queue sweeper, not a TTL index,
+// so their files are deleted and their reserved storage released as well
+mediaSchema.index(
+  { uploadExpiresAt: 1 },
+  { partialFilterExpression: { uploadExpiresAt: { $exists: true } } }
+);
+
+/**
+ * Media model
+ */
+const Media = mongoose.model<IMedia>('Media', mediaSchema);
+
+export default Media;
@@ -10,6 +10,7 @@ export enum MessageType {
   FILE = 'file',
   AUDIO = 'audio',
   LOCATION = 'location',
+  POLL = 'poll',
   SYSTEM = 'system',
 }
 
@@ -74,6 +75,69 @@ export interface ILocation {
   address?: string;
 }
 
+/**
+ * Poll option interface
+ */
+export interface IPollOption {
+  _id: mongoose.Types.ObjectId;
+  text: string;
+  voteCount: number;
+}
+
+/**
+ * Poll vote interface
+ */
+export interface IPollVote {
+  userId: mongoose.Types.ObjectId;
+  optionId: mongoose.Types.ObjectId;
+  votedAt: Date;
+}
+
+/**
+ * Poll interface
+ */
+export interface IPoll {
+  question: string;
+  options: IPollOption[];
+  allowMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt?: Date;
+  closedAt?: Date;
+  closedBy?: mongoose.Types.ObjectId;
+  votes: IPollVote[];
+}
+
+/**
+ * Origin of a forwarded message
+ */
+export interface IForwardedFrom {
+  messageId: mongoose.Types.ObjectId;
+  conversationId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  forwardedAt: Date;
+}
+
+/**
+ * Link preview interface (OpenGraph/oEmbed metadata)
+ */
+export interface ILinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+  fetchedAt: Date;
+}
+
+/**
+ * Prior version of an edited message
+ */
+export interface IMessageRevision {
+  content: string;
+  createdAt: Date; // When this version was written
+  replacedAt: Date; // When it was superseded by an edit
+}
+
 /**
  * Message document interface
  */
@@ -85,19 +149,33 @@ export interface IMessage extends Document {
   type: MessageType;
   attachments: IAttachment[];
   replyTo?: mongoose.Types.ObjectId;
+  threadRootId?: mongoose.Types.ObjectId;
+  replyCount: number;
+  lastReplyAt?: Date;
+  lastReplyBy?: mongoose.Types.ObjectId;
+  threadParticipants: mongoose.Types.ObjectId[];
   mentions: mongoose.Types.ObjectId[];
   reactions: IReaction[];
   deliveredTo: IDeliveryStatus[];
   readBy: IReadStatus[];
   location?: ILocation;
+  poll?: IPoll;
+  forwardedFrom?: IForwardedFrom;
+  forwardCount: number;
+  linkPreviews: ILinkPreview[];
   isEdited: boolean;
   editedAt?: Date;
+  editHistory: IMessageRevision[];
   isDeleted: boolean;
   deletedAt?: Date;
+  deletedBy?: mongoose.Types.ObjectId;
+  deletedContent?: string;
+  deletedAttachments?: IAttachment[];
   deletedFor: mongoose.Types.ObjectId[];
   isPinned: boolean;
   pinnedAt?: Date;
   pinnedBy?: mongoose.Types.ObjectId;
+  expiresAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -105,7 +183,7 @@ export interface IMessage extends Document {
 /**
  * Attachment schema
  */
-const attachmentSchema = new Schema<IAttachment>(
+export const attachmentSchema = new Schema<IAttachment>(
   {
     type: {
       type: String,
@@ -133,6 +211,27 @@ const attachmentSchema = new Schema<IAttachment>(
   { _id: false }
 );
 
+/**
+ * Message revision schema
+ */
+const messageRevisionSchema = new Schema<IMessageRevision>(
+  {
+    content: {
+      type: String,
+      default: '',
+    },
+    createdAt: {
+      type: Date,
+      required: true,
+    },
+    replacedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Reaction schema
  */
@@ -210,6 +309,129 @@ const locationSchema = new Schema<ILocation>(
   { _id: false }
 );
 
+/**
+ * Poll option schema (keeps _id so votes can reference options)
+ */
+const pollOptionSchema = new Schema<IPollOption>({
+  text: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200,
+  },
+  voteCount: {
+    type: Number,
+    default: 0,
+  },
+});
+
+/**
+ * Poll vote schema
+ */
+const pollVoteSchema = new Schema<IPollVote>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    optionId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    votedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Poll schema
+ */
+const pollSchema = new Schema<IPoll>(
+  {
+    question: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 300,
+    },
+    options: [pollOptionSchema],
+    allowMultiple: {
+      type: Boolean,
+      default: false,
+    },
+    isAnonymous: {
+      type: Boolean,
+      default: false,
+    },
+    closesAt: Date,
+    closedAt: Date,
+    closedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    // Individual ballots - tallies live on the options, voters are revealed per poll settings
+    votes: {
+      type: [pollVoteSchema],
+      default: [],
+      select: false,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Forwarded-from schema
+ */
+const forwardedFromSchema = new Schema<IForwardedFrom>(
+  {
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+      required: true,
+    },
+    conversationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Conversation',
+      required: true,
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    forwardedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Link preview schema
+ */
+const linkPreviewSchema = new Schema<ILinkPreview>(
+  {
+    url: {
+      type: String,
+      required: true,
+    },
+    title: String,
+    description: String,
+    image: String,
+    siteName: String,
+    fetchedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 /**
  * Message schema definition
  */
@@ -243,6 +465,26 @@ const messageSchema = new Schema<IMessage>(
       type: Schema.Types.ObjectId,
       ref: 'Message',
     },
+    threadRootId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    replyCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastReplyAt: Date,
+    lastReplyBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    threadParticipants: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
     mentions: [
       {
         type: Schema.Types.ObjectId,
@@ -253,17 +495,43 @@ const messageSchema = new Schema<IMessage>(
     deliveredTo: [deliveryStatusSchema],
     readBy: [readStatusSchema],
     location: locationSchema,
+    poll: pollSchema,
+    forwardedFrom: forwardedFromSchema,
+    forwardCount: {
+      type: Number,
+      default: 0,
+    },
+    linkPreviews: [linkPreviewSchema],
     isEdited: {
       type: Boolean,
       default: false,
     },
     editedAt: Date,
+    // Audit trail - excluded from queries unless explicitly selected
+    editHistory: {
+      type: [messageRevisionSchema],
+      default: [],
+      select: false,
+    },
     isDeleted: {
       type: Boolean,
       default: false,
       index: true,
     },
     deletedAt: Date,
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    deletedContent: {
+      type: String,
+      select: false,
+    },
+    deletedAttachments: {
+      type: [attachmentSchema],
+      default: undefined,
+      select: false,
+    },
     deletedFor: [
       {
         type: Schema.Types.ObjectId,
@@ -279,6 +547,7 @@ const messageSchema = new Schema<IMessage>(
       type: Schema.Types.ObjectId,
       ref: 'User',
     },
+    expiresAt: Date,
   },
   {
     timestamps: true,
@@ -299,10 +568,19 @@ messageSchema.index({ senderId: 1, createdAt: -1 });
 messageSchema.index({ mentions: 1, createdAt: -1 });
 messageSchema.index({ 'reactions.userId': 1 });
 messageSchema.index({ replyTo: 1 });
+messageSchema.index({ threadRootId: 1, _id: 1 });
 messageSchema.index({ conversationId: 1, isPinned: 1 });
 
+// Disappearing messages are removed by the chat queue sweeper, not a TTL index,
+// so their attachments can be cleaned up as well
+messageSchema.index(
+  { expiresAt: 1 },
+  { partialFilterExpression: { expiresAt: { $exists: true } } }
+);
+
 // Text index for message search
 messageSchema.index({ content: 'text' });
+messageSchema.index({ 'attachments.filename': 1 });
 
 /**
  * Pre-save middleware to update edited timestamp
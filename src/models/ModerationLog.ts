@@ -0,0 +1,87 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Moderator actions recorded in the audit log
+ */
+export enum ModerationAction {
+  VIEW_CONTEXT = 'view_context',
+  VIEW_HISTORY = 'view_history',
+  REMOVE_MESSAGE = 'remove_message',
+  WARN_USER = 'warn_user',
+  DEACTIVATE_USER = 'deactivate_user',
+  RESOLVE_REPORT = 'resolve_report',
+  DISMISS_REPORT = 'dismiss_report',
+}
+
+/**
+ * Moderation log document interface (append-only audit entry)
+ */
+export interface IModerationLog extends Document {
+  _id: mongoose.Types.ObjectId;
+  moderatorId: mongoose.Types.ObjectId;
+  action: ModerationAction;
+  reportId?: mongoose.Types.ObjectId;
+  messageId?: mongoose.Types.ObjectId;
+  targetUserId?: mongoose.Types.ObjectId;
+  note?: string;
+  ipAddress?: string;
+  createdAt: Date;
+}
+
+/**
+ * Moderation log schema definition
+ */
+const moderationLogSchema = new Schema<IModerationLog>(
+  {
+    moderatorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(ModerationAction),
+      required: true,
+    },
+    reportId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Report',
+      index: true,
+    },
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    targetUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Note cannot exceed 1000 characters'],
+    },
+    ipAddress: String,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.__v = undefined;
+        ret.id = ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+moderationLogSchema.index({ createdAt: -1 });
+
+/**
+ * Moderation log model
+ */
+const ModerationLog = mongoose.model<IModerationLog>('ModerationLog', moderationLogSchema);
+
+export default ModerationLog;
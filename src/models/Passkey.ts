@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Passkey (WebAuthn credential) document interface
+ */
+export interface IPasskey extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  credentialId: string; // base64url credential ID
+  publicKey: Buffer; // COSE-encoded public key
+  algorithm: number; // COSE algorithm identifier
+  signCount: number;
+  transports: string[];
+  aaguid?: string;
+  backupEligible: boolean;
+  backedUp: boolean;
+  name: string;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Passkey schema definition
+ */
+const passkeySchema = new Schema<IPasskey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    credentialId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    publicKey: {
+      type: Buffer,
+      required: true,
+    },
+    algorithm: {
+      type: Number,
+      required: true,
+    },
+    signCount: {
+      type: Number,
+      default: 0,
+    },
+    transports: {
+      type: [String],
+      default: [],
+    },
+    aaguid: String,
+    backupEligible: {
+      type: Boolean,
+      default: false,
+    },
+    backedUp: {
+      type: Boolean,
+      default: false,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [100, 'Passkey name cannot exceed 100 characters'],
+    },
+    lastUsedAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.publicKey = undefined;
+        ret.__v = undefined;
+        ret.id = ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+/**
+ * Passkey model
+ */
+const Passkey = mongoose.model<IPasskey>('Passkey', passkeySchema);
+
+export default Passkey;
@@ -0,0 +1,162 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { MessageType, IAttachment, attachmentSchema } from './Message';
+
+/**
+ * Report reason categories
+ */
+export enum ReportReason {
+  SPAM = 'spam',
+  HARASSMENT = 'harassment',
+  HATE_SPEECH = 'hate_speech',
+  VIOLENCE = 'violence',
+  SEXUAL_CONTENT = 'sexual_content',
+  SELF_HARM = 'self_harm',
+  MISINFORMATION = 'misinformation',
+  OTHER = 'other',
+}
+
+/**
+ * Report status
+ */
+export enum ReportStatus {
+  OPEN = 'open',
+  RESOLVED = 'resolved',
+  DISMISSED = 'dismissed',
+}
+
+/**
+ * Copy of the reported message taken when the report is filed, so edits or
+ * deletion by the sender cannot hide what was reported
+ */
+export interface IReportSnapshot {
+  content: string;
+  type: MessageType;
+  attachments: IAttachment[];
+  sentAt: Date;
+  editedAt?: Date;
+}
+
+/**
+ * Report document interface
+ */
+export interface IReport extends Document {
+  _id: mongoose.Types.ObjectId;
+  messageId: mongoose.Types.ObjectId;
+  conversationId: mongoose.Types.ObjectId;
+  reporterId: mongoose.Types.ObjectId;
+  reportedUserId: mongoose.Types.ObjectId;
+  reason: ReportReason;
+  details?: string;
+  snapshot: IReportSnapshot;
+  status: ReportStatus;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  resolutionNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Message snapshot schema
+ */
+const reportSnapshotSchema = new Schema<IReportSnapshot>(
+  {
+    content: {
+      type: String,
+      default: '',
+    },
+    type: {
+      type: String,
+      enum: Object.values(MessageType),
+      required: true,
+    },
+    attachments: [attachmentSchema],
+    sentAt: {
+      type: Date,
+      required: true,
+    },
+    editedAt: Date,
+  },
+  { _id: false }
+);
+
+/**
+ * Report schema definition
+ */
+const reportSchema = new Schema<IReport>(
+  {
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+      required: true,
+      index: true,
+    },
+    conversationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Conversation',
+      required: true,
+    },
+    reporterId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    reportedUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    reason: {
+      type: String,
+      enum: Object.values(ReportReason),
+      required: true,
+    },
+    details: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Details cannot exceed 1000 characters'],
+    },
+    snapshot: {
+      type: reportSnapshotSchema,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(ReportStatus),
+      default: ReportStatus.OPEN,
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    resolvedAt: Date,
+    resolutionNote: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Resolution note cannot exceed 1000 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.__v = undefined;
+        ret.id = ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+// A user can report a message once; the queue is listed by status, newest first
+reportSchema.index({ messageId: 1, reporterId: 1 }, { unique: true });
+reportSchema.index({ status: 1, createdAt: -1 });
+reportSchema.index({ reason: 1, status: 1, createdAt: -1 });
+
+/**
+ * Report model
+ */
+const Report = mongoose.model<IReport>('Report', reportSchema);
+
+export default Report;
@@ -0,0 +1,124 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { MessageType, IAttachment, attachmentSchema } from './Message';
+
+/**
+ * Scheduled message status
+ */
+export enum ScheduledMessageStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  CANCELLED = 'cancelled',
+  SKIPPED = 'skipped',
+  FAILED = 'failed',
+}
+
+/**
+ * Scheduled message document interface
+ */
+export interface IScheduledMessage extends Document {
+  _id: mongoose.Types.ObjectId;
+  conversationId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  content: string;
+  type: MessageType;
+  attachments: IAttachment[];
+  replyTo?: mongoose.Types.ObjectId;
+  mentions: mongoose.Types.ObjectId[];
+  threadRootId?: mongoose.Types.ObjectId;
+  scheduledAt: Date;
+  status: ScheduledMessageStatus;
+  jobId?: string;
+  sentMessageId?: mongoose.Types.ObjectId;
+  sentAt?: Date;
+  cancelledAt?: Date;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Scheduled message schema definition
+ */
+const scheduledMessageSchema = new Schema<IScheduledMessage>(
+  {
+    conversationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Conversation',
+      required: true,
+      index: true,
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    content: {
+      type: String,
+      maxlength: [10000, 'Message content cannot exceed 10000 characters'],
+      default: '',
+    },
+    type: {
+      type: String,
+      enum: Object.values(MessageType),
+      default: MessageType.TEXT,
+    },
+    attachments: [attachmentSchema],
+    replyTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    mentions: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
+    threadRootId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    scheduledAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(ScheduledMessageStatus),
+      default: ScheduledMessageStatus.PENDING,
+      index: true,
+    },
+    jobId: String,
+    sentMessageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    sentAt: Date,
+    cancelledAt: Date,
+    failureReason: String,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.__v = undefined;
+        ret.id = ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+// Listing a user's pending messages, optionally per conversation
+scheduledMessageSchema.index({ senderId: 1, status: 1, scheduledAt: 1 });
+scheduledMessageSchema.index({ conversationId: 1, senderId: 1, status: 1 });
+
+/**
+ * Scheduled message model
+ */
+const ScheduledMessage = mongoose.model<IScheduledMessage>(
+  'ScheduledMessage',
+  scheduledMessageSchema
+);
+
+export default ScheduledMessage;
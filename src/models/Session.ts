@@ -20,6 +20,7 @@ export interface ISession extends Document {
   userId: mongoose.Types.ObjectId;
   id: string;
   refreshTokenHash: string;
+  previousRefreshTokenHashes: string[]; // Hashes of rotated refresh tokens (reuse detection)
   deviceInfo: IDeviceInfo;
   pushToken?: string; // OneSignal player ID for push notifications
   socketId?: string; // Current socket connection ID
@@ -33,7 +34,7 @@ export interface ISession extends Document {
 /**
  * Device info sub-schema
  */
-const deviceInfoSchema = new Schema<IDeviceInfo>(
+export const deviceInfoSchema = new Schema<IDeviceInfo>(
   {
     deviceId: { type: String, required: true },
     deviceName: {
@@ -75,6 +76,11 @@ const sessionSchema = new Schema<ISession>(
       type: String,
       default: null,
     },
+    previousRefreshTokenHashes: {
+      type: [String],
+      select: false,
+      default: [],
+    },
     deviceInfo: {
       type: deviceInfoSchema,
       required: true,
@@ -106,6 +112,7 @@ const sessionSchema = new Schema<ISession>(
       transform(_doc, ret: Record<string, unknown>) {
         ret.__v = undefined;
         ret.refreshTokenHash = undefined;
+        ret.previousRefreshTokenHashes = undefined;
         ret.id = ret._id;
         return ret;
       },
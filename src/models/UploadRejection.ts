@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { MediaSource } from './Media';
+
+/**
+ * Why an upload was refused
+ */
+export enum UploadRejectionReason {
+  TYPE_NOT_ALLOWED = 'type_not_allowed', // Declared or detected type is not accepted
+  CONTENT_MISMATCH = 'content_mismatch', // Content is a different type than declared
+  UNRECOGNIZED_CONTENT = 'unrecognized_content', // Content matches no known file signature
+}
+
+/**
+ * Upload rejection document interface
+ */
+export interface IUploadRejection extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  reason: UploadRejectionReason;
+  filename?: string;
+  declaredType?: string; // MIME type the client sent
+  detectedType?: string; // MIME type found from the content
+  source: MediaSource;
+  expiresAt: Date; // Retention limit
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Upload rejection schema definition
+ */
+const uploadRejectionSchema = new Schema<IUploadRejection>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: Object.values(UploadRejectionReason),
+      required: true,
+    },
+    filename: String,
+    declaredType: String,
+    detectedType: String,
+    source: {
+      type: String,
+      enum: Object.values(MediaSource),
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.__v = undefined;
+        ret.id = ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+// A user's rejected uploads, newest first
+uploadRejectionSchema.index({ userId: 1, createdAt: -1 });
+
+// TTL index to drop rejections past the retention period
+uploadRejectionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Upload rejection model
+ */
+const UploadRejection = mongoose.model<IUploadRejection>('UploadRejection', uploadRejectionSchema);
+
+export default UploadRejection;
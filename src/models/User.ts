@@ -20,12 +20,25 @@ export interface IUser extends Document {
   slug: string;
   email: string;
   password: string;
+  passwordHistory: string[]; // Previous password hashes, newest first
+  hasPassword: boolean; // False for accounts created through social login
+  passwordResetRequired: boolean; // Set when a login is reported as not the user's
   firstName: string;
   lastName: string;
   role: UserRole;
   isActive: boolean;
   isEmailVerified: boolean;
   lastLoginAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: Date;
+  twoFactorSecret?: string; // Encrypted TOTP secret
+  twoFactorPendingSecret?: string; // Encrypted secret awaiting confirmation
+  twoFactorRecoveryCodes: string[]; // Hashed one-time recovery codes
+  twoFactorLastUsedStep?: number; // Last accepted TOTP time step (replay protection)
+  storageUsedBytes: number; // Bytes of media currently stored
+  storageFileCount: number; // Media files currently stored
+  storageQuotaBytes?: number; // Admin override of the role's byte quota
+  storageQuotaFiles?: number; // Admin override of the role's file quota
   createdAt: Date;
   updatedAt: Date;
 
@@ -53,6 +66,19 @@ const userSchema = new Schema<IUser>(
       minlength: [8, 'Password must be at least 8 characters'],
       select: false, // Don't include password in queries by default
     },
+    passwordHistory: {
+      type: [String],
+      select: false,
+      default: [],
+    },
+    hasPassword: {
+      type: Boolean,
+      default: true,
+    },
+    passwordResetRequired: {
+      type: Boolean,
+      default: false,
+    },
     firstName: {
       type: String,
       required: [true, 'First name is required'],
@@ -81,12 +107,57 @@ const userSchema = new Schema<IUser>(
     lastLoginAt: {
       type: Date,
     },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorEnabledAt: {
+      type: Date,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: [],
+    },
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    storageUsedBytes: {
+      type: Number,
+      default: 0,
+    },
+    storageFileCount: {
+      type: Number,
+      default: 0,
+    },
+    storageQuotaBytes: {
+      type: Number,
+      min: 0,
+    },
+    storageQuotaFiles: {
+      type: Number,
+      min: 0,
+    },
   },
   {
     timestamps: true,
     toJSON: {
       transform(_doc, ret: Record<string, unknown>) {
         ret.password = undefined;
+        ret.passwordHistory = undefined;
+        ret.twoFactorSecret = undefined;
+        ret.twoFactorPendingSecret = undefined;
+        ret.twoFactorRecoveryCodes = undefined;
+        ret.twoFactorLastUsedStep = undefined;
         ret.__v = undefined;
         ret.id = ret._id;
         return ret;
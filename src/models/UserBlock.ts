@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * User block document interface
+ */
+export interface IUserBlock extends Document {
+  _id: mongoose.Types.ObjectId;
+  blockerId: mongoose.Types.ObjectId;
+  blockedId: mongoose.Types.ObjectId;
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * User block schema definition
+ */
+const userBlockSchema = new Schema<IUserBlock>(
+  {
+    blockerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    blockedId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform(_doc, ret: Record<string, unknown>) {
+        ret.__v = undefined;
+        ret.id = ret._id;
+        return ret;
+      },
+    },
+  }
+);
+
+// One block per pair, listed newest first
+userBlockSchema.index({ blockerId: 1, blockedId: 1 }, { unique: true });
+userBlockSchema.index({ blockerId: 1, createdAt: -1 });
+
+/**
+ * User block model
+ */
+const UserBlock = mongoose.model<IUserBlock>('UserBlock', userBlockSchema);
+
+export default UserBlock;
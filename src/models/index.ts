@@ -11,6 +11,7 @@ export {
   IConversation,
   ConversationType,
   IConversationMetadata,
+  MessageRetention,
 } from './Conversation';
 export {
   default as Message,
@@ -22,10 +23,35 @@ export {
   IDeliveryStatus,
   IReadStatus,
   ILocation,
+  IMessageRevision,
+  IPoll,
+  IPollOption,
+  IPollVote,
+  IForwardedFrom,
+  ILinkPreview,
 } from './Message';
 export {
   default as ConversationParticipant,
   IConversationParticipant,
   ParticipantRole,
   INotificationSettings,
+  IThreadReadState,
 } from './ConversationParticipant';
+export {
+  default as ScheduledMessage,
+  IScheduledMessage,
+  ScheduledMessageStatus,
+} from './ScheduledMessage';
+export { default as UserBlock, IUserBlock } from './UserBlock';
+export { default as Report, IReport, IReportSnapshot, ReportReason, ReportStatus } from './Report';
+export { default as ModerationLog, IModerationLog, ModerationAction } from './ModerationLog';
+export { default as Passkey, IPasskey } from './Passkey';
+export { default as ExternalIdentity, IExternalIdentity } from './ExternalIdentity';
+export { default as LoginEvent, ILoginEvent, LoginMethod } from './LoginEvent';
+export { default as ApiKey, IApiKey, ApiKeyScope } from './ApiKey';
+export { default as Media, IMedia, MediaResourceType, MediaSource, MediaScanStatus } from './Media';
+export {
+  default as UploadRejection,
+  IUploadRejection,
+  UploadRejectionReason,
+} from './UploadRejection';
@@ -0,0 +1,29 @@
+// ============================================================================
+// Chat DTOs
+// ============================================================================
+
+/**
+ * Deliver a scheduled chat message
+ */
+export interface SendScheduledMessageDto {
+  /** ScheduledMessage document ID */
+  scheduledMessageId: string;
+}
+
+/**
+ * Fetch link previews for URLs in a message
+ */
+export interface FetchLinkPreviewsDto {
+  /** Message document ID */
+  messageId: string;
+  /** URLs found in the message content */
+  urls: string[];
+}
+
+/**
+ * Hard-delete expired disappearing messages
+ */
+export interface SweepExpiredMessagesDto {
+  /** Maximum number of messages removed per run */
+  batchSize?: number;
+}
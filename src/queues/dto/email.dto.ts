@@ -139,11 +139,67 @@ export interface SendOtpEmailDto extends BaseEmailDto {
   /** OTP expiry time in minutes */
   expiresInMinutes: number;
   /** Purpose of the OTP */
-  purpose: 'login' | 'password_reset' | 'email_verification' | 'transaction' | 'other';
+  purpose:
+    | 'login'
+    | 'password_reset'
+    | 'email_verification'
+    | 'account_unlock'
+    | 'email_change'
+    | 'transaction'
+    | 'other';
   /** Additional context for the OTP */
   context?: string;
 }
 
+/**
+ * Account locked after repeated failed logins
+ */
+export interface SendAccountLockedEmailDto extends BaseEmailDto {
+  /** User's email address */
+  to: string;
+  /** User's display name */
+  userName: string;
+  /** When the lock expires */
+  lockedUntil: Date;
+  /** Number of failed attempts that triggered the lock */
+  failedAttempts: number;
+  /** IP address of the attempt that triggered the lock */
+  ipAddress?: string;
+}
+
+/**
+ * Notice to the current address that an email change was requested
+ */
+export interface SendEmailChangeNoticeDto extends BaseEmailDto {
+  /** Current (old) email address */
+  to: string;
+  /** User's display name */
+  userName: string;
+  /** Address the account is being moved to */
+  newEmail: string;
+}
+
+/**
+ * Sign-in from a new device or unusual network
+ */
+export interface SendLoginAlertEmailDto extends BaseEmailDto {
+  /** User's email address */
+  to: string;
+  /** User's display name */
+  userName: string;
+  /** Device details of the sign-in */
+  deviceName: string;
+  browser: string;
+  os: string;
+  ipAddress: string;
+  /** When the sign-in happened */
+  loggedInAt: Date;
+  /** Why the sign-in was flagged */
+  reasons: string[];
+  /** One-click "this wasn't me" link */
+  reportUrl: string;
+}
+
 /**
  * Generic transactional email
  */
@@ -4,3 +4,5 @@
 export * from './email.dto';
 export * from './sms.dto';
 export * from './notification.dto';
+export * from './chat.dto';
+export * from './media.dto';
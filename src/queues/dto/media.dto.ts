@@ -0,0 +1,19 @@
+// ============================================================================
+// Media DTOs
+// ============================================================================
+
+/**
+ * Scan an uploaded file for malware
+ */
+export interface ScanMediaDto {
+  /** Public ID of the stored file */
+  publicId: string;
+}
+
+/**
+ * Delete signed direct uploads that were never completed
+ */
+export interface SweepExpiredDirectUploadsDto {
+  /** Maximum number of uploads removed per run */
+  batchSize?: number;
+}
@@ -41,6 +41,8 @@ export {
   isEmailQueueJob,
   isSmsQueueJob,
   isNotificationQueueJob,
+  isChatQueueJob,
+  isMediaQueueJob,
 } from './queue.types';
 
 // DTOs
@@ -57,5 +59,7 @@ export {
   createEmailWorker,
   createSmsWorker,
   createNotificationWorker,
+  createChatWorker,
+  createMediaWorker,
   registerSmsProvider,
 } from './processors';
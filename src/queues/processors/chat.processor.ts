@@ -0,0 +1,185 @@
+import { Worker, Job, type Processor } from 'bullmq';
+import { redisService } from '../../services/redis.service';
+import { scheduledMessageService } from '../../services/scheduledMessage.service';
+import { socketService } from '../../services/socket.service';
+import { chatService } from '../../services/chat.service';
+import {
+  emitNewMessage,
+  emitExpiredMessages,
+  emitMessageUpdated,
+} from '../../services/chat.events';
+import { ScheduledMessageStatus } from '../../models';
+import logger from '../../utils/logger';
+import { Queues } from '../queue.constants';
+import type { JobResult } from '../queue.types';
+import type {
+  SendScheduledMessageDto,
+  SweepExpiredMessagesDto,
+  FetchLinkPreviewsDto,
+} from '../dto';
+
+// Type for all chat job data
+type ChatJobData = SendScheduledMessageDto | SweepExpiredMessagesDto | FetchLinkPreviewsDto;
+
+/**
+ * Chat Queue Processor
+ * Handles deferred chat operations such as scheduled messages
+ */
+const chatProcessor: Processor<ChatJobData, JobResult> = async (job: Job<ChatJobData>) => {
+  const startTime = Date.now();
+  logger.info(`Processing chat job: ${job.name} (ID: ${job.id})`);
+
+  try {
+    switch (job.name) {
+      case 'send:scheduled-message':
+        return await handleSendScheduledMessage(job as Job<SendScheduledMessageDto>);
+
+      case 'sweep:expired-messages':
+        return await handleSweepExpiredMessages(job as Job<SweepExpiredMessagesDto>);
+
+      case 'fetch:link-previews':
+        return await handleFetchLinkPreviews(job as Job<FetchLinkPreviewsDto>);
+
+      default:
+        throw new Error(`Unknown chat job type: ${job.name}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Chat job ${job.name} failed:`, error);
+
+    return {
+      success: false,
+      error: errorMessage,
+      timestamp: new Date(),
+      data: {
+        jobId: job.id,
+        duration: Date.now() - startTime,
+      },
+    };
+  }
+};
+
+/**
+ * Handle delivery of a scheduled message
+ */
+async function handleSendScheduledMessage(job: Job<SendScheduledMessageDto>): Promise<JobResult> {
+  const { scheduledMessageId } = job.data;
+
+  const result = await scheduledMessageService.deliverScheduledMessage(scheduledMessageId);
+
+  if (result.status === ScheduledMessageStatus.SENT && result.message) {
+    try {
+      await emitNewMessage(socketService.getIO(), result.message);
+    } catch (error) {
+      // The message is persisted; clients will pick it up on their next fetch
+      logger.warn(`Failed to broadcast scheduled message ${scheduledMessageId}:`, error);
+    }
+  }
+
+  return {
+    success: result.status !== ScheduledMessageStatus.FAILED,
+    message: result.reason ?? `Scheduled message ${scheduledMessageId} ${result.status}`,
+    timestamp: new Date(),
+    data: {
+      scheduledMessageId,
+      status: result.status,
+      messageId: result.message?._id?.toString(),
+    },
+  };
+}
+
+/**
+ * Handle removal of expired disappearing messages
+ */
+async function handleSweepExpiredMessages(job: Job<SweepExpiredMessagesDto>): Promise<JobResult> {
+  const { batchSize } = job.data;
+
+  const batches = await chatService.deleteExpiredMessages(batchSize);
+  const deletedCount = batches.reduce((total, batch) => total + batch.messageIds.length, 0);
+
+  if (batches.length > 0) {
+    try {
+      emitExpiredMessages(socketService.getIO(), batches);
+    } catch (error) {
+      logger.warn('Failed to broadcast expired message deletions:', error);
+    }
+  }
+
+  return {
+    success: true,
+    message: `Deleted ${deletedCount} expired message(s)`,
+    timestamp: new Date(),
+    data: {
+      deletedCount,
+      conversations: batches.length,
+    },
+  };
+}
+
+/**
+ * Handle fetching link previews for a message
+ */
+async function handleFetchLinkPreviews(job: Job<FetchLinkPreviewsDto>): Promise<JobResult> {
+  const { messageId, urls } = job.data;
+
+  const message = await chatService.refreshLinkPreviews(messageId, urls);
+
+  if (message) {
+    try {
+      emitMessageUpdated(socketService.getIO(), message);
+    } catch (error) {
+      logger.warn(`Failed to broadcast link previews for message ${messageId}:`, error);
+    }
+  }
+
+  return {
+    success: true,
+    message: message
+      ? `Stored ${message.linkPreviews.length} link preview(s)`
+      : 'No link previews to store',
+    timestamp: new Date(),
+    data: {
+      messageId,
+      previews: message?.linkPreviews.length ?? 0,
+    },
+  };
+}
+
+/**
+ * Create and start the chat worker
+ */
+export function createChatWorker(concurrency = 5): Worker<ChatJobData, JobResult> {
+  const worker = new Worker<ChatJobData, JobResult>(Queues.QUEUE__CHAT.name, chatProcessor, {
+    connection: redisService.getClient().duplicate(),
+    concurrency,
+  });
+
+  // Event handlers
+  worker.on('completed', (job, result) => {
+    logger.info(`Chat job completed: ${job.name} (ID: ${job.id})`, {
+      success: result.success,
+      message: result.message,
+    });
+  });
+
+  worker.on('failed', (job, error) => {
+    logger.error(`Chat job failed: ${job?.name} (ID: ${job?.id})`, {
+      error: error.message,
+      attemptsMade: job?.attemptsMade,
+    });
+  });
+
+  worker.on('error', (error) => {
+    logger.error('Chat worker error:', error);
+  });
+
+  worker.on('stalled', (jobId) => {
+    logger.warn(`Chat job stalled: ${jobId}`);
+  });
+
+  logger.info(`Chat worker started with concurrency: ${concurrency}`);
+
+  return worker;
+}
+
+export default createChatWorker;
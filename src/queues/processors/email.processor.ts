@@ -11,6 +11,9 @@ import type {
   SendPasswordResetDto,
   SendEmailVerificationDto,
   SendOtpEmailDto,
+  SendAccountLockedEmailDto,
+  SendEmailChangeNoticeDto,
+  SendLoginAlertEmailDto,
   SendTransactionalEmailDto,
 } from '../dto';
 
@@ -22,6 +25,9 @@ type EmailJobData =
   | SendPasswordResetDto
   | SendEmailVerificationDto
   | SendOtpEmailDto
+  | SendAccountLockedEmailDto
+  | SendEmailChangeNoticeDto
+  | SendLoginAlertEmailDto
   | SendTransactionalEmailDto;
 
 /**
@@ -52,6 +58,15 @@ const emailProcessor: Processor<EmailJobData, JobResult> = async (job: Job<Email
       case 'send:otp-email':
         return await handleSendOtpEmail(job as Job<SendOtpEmailDto>);
 
+      case 'send:account-locked-email':
+        return await handleSendAccountLockedEmail(job as Job<SendAccountLockedEmailDto>);
+
+      case 'send:email-change-notice':
+        return await handleSendEmailChangeNotice(job as Job<SendEmailChangeNoticeDto>);
+
+      case 'send:login-alert-email':
+        return await handleSendLoginAlertEmail(job as Job<SendLoginAlertEmailDto>);
+
       case 'send:transactional-email':
         return await handleSendTransactionalEmail(job as Job<SendTransactionalEmailDto>);
 
@@ -262,6 +277,8 @@ async function handleSendOtpEmail(job: Job<SendOtpEmailDto>): Promise<JobResult>
     login: 'Login Verification',
     password_reset: 'Password Reset',
     email_verification: 'Email Verification',
+    account_unlock: 'Account Unlock',
+    email_change: 'Email Change',
     transaction: 'Transaction Verification',
     other: 'Verification',
   };
@@ -288,6 +305,100 @@ async function handleSendOtpEmail(job: Job<SendOtpEmailDto>): Promise<JobResult>
   };
 }
 
+/**
+ * Handle account locked email
+ */
+async function handleSendAccountLockedEmail(
+  job: Job<SendAccountLockedEmailDto>
+): Promise<JobResult> {
+  const { to, userName, lockedUntil, failedAttempts, ipAddress } = job.data;
+
+  await job.updateProgress(10);
+
+  const success = await emailService.sendEmail({
+    to,
+    subject: 'Your account has been temporarily locked',
+    template: 'account-locked.ejs',
+    templateData: {
+      userName,
+      // Job data is serialized, so the date arrives as a string
+      lockedUntil: new Date(lockedUntil).toUTCString(),
+      failedAttempts,
+      ipAddress,
+    },
+  });
+
+  await job.updateProgress(100);
+
+  return {
+    success,
+    message: success ? `Account locked email sent to ${to}` : 'Failed to send account locked email',
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Handle email change notice to the old address
+ */
+async function handleSendEmailChangeNotice(job: Job<SendEmailChangeNoticeDto>): Promise<JobResult> {
+  const { to, userName, newEmail } = job.data;
+
+  await job.updateProgress(10);
+
+  const success = await emailService.sendEmail({
+    to,
+    subject: 'A change to your email address was requested',
+    template: 'email-change-notice.ejs',
+    templateData: {
+      userName,
+      newEmail,
+    },
+  });
+
+  await job.updateProgress(100);
+
+  return {
+    success,
+    message: success ? `Email change notice sent to ${to}` : 'Failed to send email change notice',
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Handle new sign-in alert email
+ */
+async function handleSendLoginAlertEmail(job: Job<SendLoginAlertEmailDto>): Promise<JobResult> {
+  const { to, userName, deviceName, browser, os, ipAddress, loggedInAt, reasons, reportUrl } =
+    job.data;
+
+  await job.updateProgress(10);
+
+  const success = await emailService.sendEmail({
+    to,
+    subject: 'New sign-in to your account',
+    template: 'login-alert.ejs',
+    templateData: {
+      userName,
+      deviceName,
+      browser,
+      os,
+      ipAddress,
+      // Job data is serialized, so the date arrives as a string
+      loggedInAt: new Date(loggedInAt).toUTCString(),
+      reasons,
+      reportUrl,
+    },
+  });
+
+  await job.updateProgress(100);
+
+  return {
+    success,
+    message: success ? `Login alert email sent to ${to}` : 'Failed to send login alert email',
+    timestamp: new Date(),
+  };
+}
+
 /**
  * Handle transactional email with SendGrid template
  */
@@ -2,6 +2,8 @@ import type { Worker } from 'bullmq';
 import { createEmailWorker } from './email.processor';
 import { createSmsWorker } from './sms.processor';
 import { createNotificationWorker } from './notification.processor';
+import { createChatWorker } from './chat.processor';
+import { createMediaWorker } from './media.processor';
 import logger from '../../utils/logger';
 import type { JobResult } from '../queue.types';
 
@@ -13,6 +15,8 @@ interface WorkerConfig {
   emailConcurrency?: number;
   smsConcurrency?: number;
   notificationConcurrency?: number;
+  chatConcurrency?: number;
+  mediaConcurrency?: number;
 }
 
 /**
@@ -20,12 +24,20 @@ interface WorkerConfig {
  * @param config - Worker concurrency configuration
  */
 export function initializeWorkers(config: WorkerConfig = {}): void {
-  const { emailConcurrency = 5, smsConcurrency = 3, notificationConcurrency = 5 } = config;
+  const {
+    emailConcurrency = 5,
+    smsConcurrency = 3,
+    notificationConcurrency = 5,
+    chatConcurrency = 5,
+    mediaConcurrency = 2,
+  } = config;
 
   // Create and store workers
   workers.push(createEmailWorker(emailConcurrency));
   workers.push(createSmsWorker(smsConcurrency));
   workers.push(createNotificationWorker(notificationConcurrency));
+  workers.push(createChatWorker(chatConcurrency));
+  workers.push(createMediaWorker(mediaConcurrency));
 
   logger.info(`All queue workers initialized (${workers.length} workers)`);
 }
@@ -61,3 +73,5 @@ export async function closeWorkers(): Promise<void> {
 export { createEmailWorker } from './email.processor';
 export { createSmsWorker, registerSmsProvider } from './sms.processor';
 export { createNotificationWorker } from './notification.processor';
+export { createChatWorker } from './chat.processor';
+export { createMediaWorker } from './media.processor';
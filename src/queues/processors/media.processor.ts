@@ -0,0 +1,134 @@
+import { Worker, Job, type Processor } from 'bullmq';
+import { redisService } from '../../services/redis.service';
+import { malwareScanService } from '../../services/malwareScan.service';
+import { mediaService } from '../../services/media.service';
+import logger from '../../utils/logger';
+import { Queues } from '../queue.constants';
+import type { JobResult } from '../queue.types';
+import type { ScanMediaDto, SweepExpiredDirectUploadsDto } from '../dto';
+
+// Type for all media job data
+type MediaJobData = ScanMediaDto | SweepExpiredDirectUploadsDto;
+
+/**
+ * Media Queue Processor
+ * Handles processing of uploaded media such as malware scans, and upload cleanup
+ */
+const mediaProcessor: Processor<MediaJobData, JobResult> = async (job: Job<MediaJobData>) => {
+  const startTime = Date.now();
+  logger.info(`Processing media job: ${job.name} (ID: ${job.id})`);
+
+  try {
+    switch (job.name) {
+      case 'scan:media':
+        return await handleScanMedia(job as Job<ScanMediaDto>);
+
+      case 'sweep:expired-direct-uploads':
+        return await handleSweepExpiredDirectUploads(job as Job<SweepExpiredDirectUploadsDto>);
+
+      default:
+        throw new Error(`Unknown media job type: ${job.name}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    // Scanner and storage outages are usually brief: let BullMQ retry while attempts remain
+    if (job.attemptsMade + 1 < (job.opts.attempts ?? 1)) {
+      throw error;
+    }
+
+    logger.error(`Media job ${job.name} failed:`, error);
+
+    if (job.name === 'scan:media') {
+      await malwareScanService.markFailed((job.data as ScanMediaDto).publicId, errorMessage);
+    }
+
+    return {
+      success: false,
+      error: errorMessage,
+      timestamp: new Date(),
+      data: {
+        jobId: job.id,
+        duration: Date.now() - startTime,
+      },
+    };
+  }
+};
+
+/**
+ * Handle a malware scan of an uploaded file
+ */
+async function handleScanMedia(job: Job<ScanMediaDto>): Promise<JobResult> {
+  const { publicId } = job.data;
+
+  const outcome = await malwareScanService.scanMedia(publicId);
+
+  return {
+    success: true,
+    message: `Media ${publicId} scan ${outcome}`,
+    timestamp: new Date(),
+    data: {
+      publicId,
+      outcome,
+    },
+  };
+}
+
+/**
+ * Handle removal of signed direct uploads that were never completed
+ */
+async function handleSweepExpiredDirectUploads(
+  job: Job<SweepExpiredDirectUploadsDto>
+): Promise<JobResult> {
+  const { batchSize } = job.data;
+
+  const deletedCount = await mediaService.deleteExpiredDirectUploads(batchSize);
+
+  return {
+    success: true,
+    message: `Deleted ${deletedCount} expired direct upload(s)`,
+    timestamp: new Date(),
+    data: {
+      deletedCount,
+    },
+  };
+}
+
+/**
+ * Create and start the media worker
+ */
+export function createMediaWorker(concurrency = 2): Worker<MediaJobData, JobResult> {
+  const worker = new Worker<MediaJobData, JobResult>(Queues.QUEUE__MEDIA.name, mediaProcessor, {
+    connection: redisService.getClient().duplicate(),
+    concurrency,
+  });
+
+  // Event handlers
+  worker.on('completed', (job, result) => {
+    logger.info(`Media job completed: ${job.name} (ID: ${job.id})`, {
+      success: result.success,
+      message: result.message,
+    });
+  });
+
+  worker.on('failed', (job, error) => {
+    logger.error(`Media job failed: ${job?.name} (ID: ${job?.id})`, {
+      error: error.message,
+      attemptsMade: job?.attemptsMade,
+    });
+  });
+
+  worker.on('error', (error) => {
+    logger.error('Media worker error:', error);
+  });
+
+  worker.on('stalled', (jobId) => {
+    logger.warn(`Media job stalled: ${jobId}`);
+  });
+
+  logger.info(`Media worker started with concurrency: ${concurrency}`);
+
+  return worker;
+}
+
+export default createMediaWorker;
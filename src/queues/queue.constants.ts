@@ -15,6 +15,9 @@ export const Queues = {
       SEND_PASSWORD_RESET: { name: 'send:password-reset' },
       SEND_EMAIL_VERIFICATION: { name: 'send:email-verification' },
       SEND_OTP_EMAIL: { name: 'send:otp-email' },
+      SEND_ACCOUNT_LOCKED_EMAIL: { name: 'send:account-locked-email' },
+      SEND_EMAIL_CHANGE_NOTICE: { name: 'send:email-change-notice' },
+      SEND_LOGIN_ALERT_EMAIL: { name: 'send:login-alert-email' },
       SEND_TRANSACTIONAL_EMAIL: { name: 'send:transactional-email' },
     },
     options: {
@@ -63,6 +66,39 @@ export const Queues = {
       } satisfies DefaultJobOptions,
     },
   },
+  QUEUE__CHAT: {
+    name: 'chat-queue',
+    description: 'Queue for deferred chat operations',
+    jobs: {
+      SEND_SCHEDULED_MESSAGE: { name: 'send:scheduled-message' },
+      SWEEP_EXPIRED_MESSAGES: { name: 'sweep:expired-messages' },
+      FETCH_LINK_PREVIEWS: { name: 'fetch:link-previews' },
+    },
+    options: {
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: { count: 200 },
+        removeOnFail: { count: 500 },
+      } satisfies DefaultJobOptions,
+    },
+  },
+  QUEUE__MEDIA: {
+    name: 'media-queue',
+    description: 'Queue for processing uploaded media',
+    jobs: {
+      SCAN_MEDIA: { name: 'scan:media' },
+      SWEEP_EXPIRED_DIRECT_UPLOADS: { name: 'sweep:expired-direct-uploads' },
+    },
+    options: {
+      defaultJobOptions: {
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 10000 },
+        removeOnComplete: { count: 200 },
+        removeOnFail: { count: 500 },
+      } satisfies DefaultJobOptions,
+    },
+  },
 } as const;
 
 // ============================================================================
@@ -6,6 +6,9 @@ import type {
   SendPasswordResetDto,
   SendEmailVerificationDto,
   SendOtpEmailDto,
+  SendAccountLockedEmailDto,
+  SendEmailChangeNoticeDto,
+  SendLoginAlertEmailDto,
   SendTransactionalEmailDto,
   SendSmsDto,
   SendBulkSmsDto,
@@ -16,6 +19,11 @@ import type {
   SendInAppDto,
   SendBroadcastDto,
   SendTopicNotificationDto,
+  SendScheduledMessageDto,
+  SweepExpiredMessagesDto,
+  FetchLinkPreviewsDto,
+  ScanMediaDto,
+  SweepExpiredDirectUploadsDto,
 } from './dto';
 
 // ============================================================================
@@ -34,6 +42,9 @@ export type JobPayloadMap = {
     SEND_PASSWORD_RESET: SendPasswordResetDto;
     SEND_EMAIL_VERIFICATION: SendEmailVerificationDto;
     SEND_OTP_EMAIL: SendOtpEmailDto;
+    SEND_ACCOUNT_LOCKED_EMAIL: SendAccountLockedEmailDto;
+    SEND_EMAIL_CHANGE_NOTICE: SendEmailChangeNoticeDto;
+    SEND_LOGIN_ALERT_EMAIL: SendLoginAlertEmailDto;
     SEND_TRANSACTIONAL_EMAIL: SendTransactionalEmailDto;
   };
   QUEUE__SMS: {
@@ -49,6 +60,15 @@ export type JobPayloadMap = {
     SEND_BROADCAST: SendBroadcastDto;
     SEND_TOPIC_NOTIFICATION: SendTopicNotificationDto;
   };
+  QUEUE__CHAT: {
+    SEND_SCHEDULED_MESSAGE: SendScheduledMessageDto;
+    SWEEP_EXPIRED_MESSAGES: SweepExpiredMessagesDto;
+    FETCH_LINK_PREVIEWS: FetchLinkPreviewsDto;
+  };
+  QUEUE__MEDIA: {
+    SCAN_MEDIA: ScanMediaDto;
+    SWEEP_EXPIRED_DIRECT_UPLOADS: SweepExpiredDirectUploadsDto;
+  };
 };
 
 // ============================================================================
@@ -184,7 +204,13 @@ export interface AllQueueStats {
  * Type guard to check if a value is a valid queue key
  */
 export function isValidQueueKey(key: string): key is keyof JobPayloadMap {
-  return ['QUEUE__EMAIL', 'QUEUE__SMS', 'QUEUE__NOTIFICATION'].includes(key);
+  return [
+    'QUEUE__EMAIL',
+    'QUEUE__SMS',
+    'QUEUE__NOTIFICATION',
+    'QUEUE__CHAT',
+    'QUEUE__MEDIA',
+  ].includes(key);
 }
 
 /**
@@ -207,6 +233,9 @@ export function isEmailQueueJob(queueKey: string, jobKey: string): queueKey is '
       'SEND_PASSWORD_RESET',
       'SEND_EMAIL_VERIFICATION',
       'SEND_OTP_EMAIL',
+      'SEND_ACCOUNT_LOCKED_EMAIL',
+      'SEND_EMAIL_CHANGE_NOTICE',
+      'SEND_LOGIN_ALERT_EMAIL',
       'SEND_TRANSACTIONAL_EMAIL',
     ].includes(jobKey)
   );
@@ -240,3 +269,22 @@ export function isNotificationQueueJob(
     ].includes(jobKey)
   );
 }
+
+/**
+ * Type guard for chat queue jobs
+ */
+export function isChatQueueJob(queueKey: string, jobKey: string): queueKey is 'QUEUE__CHAT' {
+  return (
+    queueKey === 'QUEUE__CHAT' &&
+    ['SEND_SCHEDULED_MESSAGE', 'SWEEP_EXPIRED_MESSAGES', 'FETCH_LINK_PREVIEWS'].includes(jobKey)
+  );
+}
+
+/**
+ * Type guard for media queue jobs
+ */
+export function isMediaQueueJob(queueKey: string, jobKey: string): queueKey is 'QUEUE__MEDIA' {
+  return (
+    queueKey === 'QUEUE__MEDIA' && ['SCAN_MEDIA', 'SWEEP_EXPIRED_DIRECT_UPLOADS'].includes(jobKey)
+  );
+}
@@ -1,6 +1,7 @@
 import { Router, type Router as RouterType } from 'express';
 import * as authController from '../controllers/auth.controller';
-import { extractDeviceInfo, validate, authenticate } from '../middlewares';
+import { extractDeviceInfo, validate, authenticate, authorize } from '../middlewares';
+import { UserRole } from '../models';
 import {
   registerValidator,
   loginValidator,
@@ -9,6 +10,24 @@ import {
   verifyOtpValidator,
   forgotPasswordValidator,
   resetPasswordValidator,
+  verifyTwoFactorValidator,
+  twoFactorChallengeValidator,
+  enableTwoFactorValidator,
+  twoFactorReauthValidator,
+  passkeyRegistrationValidator,
+  passkeyLoginOptionsValidator,
+  passkeyLoginValidator,
+  renamePasskeyValidator,
+  passkeyIdValidator,
+  oauthProviderValidator,
+  oauthCallbackValidator,
+  oauthIdentityIdValidator,
+  requestUnlockValidator,
+  unlockAccountValidator,
+  clearAccountLockoutValidator,
+  clearIpBlockValidator,
+  loginHistoryValidator,
+  reportLoginValidator,
 } from '../validators/auth.validators';
 
 const router: RouterType = Router();
@@ -65,9 +84,581 @@ router.post('/register', extractDeviceInfo, validate(registerValidator), authCon
  *               $ref: '#/components/schemas/AuthResponse'
  *       401:
  *         description: Invalid credentials
+ *       403:
+ *         description: Account deactivated or password reset required
+ *       429:
+ *         description: Account locked or too many failed attempts from this IP
  */
 router.post('/login', extractDeviceInfo, validate(loginValidator), authController.login);
 
+/**
+ * @swagger
+ * /auth/2fa/verify:
+ *   post:
+ *     summary: Complete login with a second factor
+ *     description: >
+ *       When two-factor authentication is enabled, /auth/login returns a short-lived
+ *       challengeToken instead of a session. Exchange it here with a TOTP code,
+ *       a recovery code or an emailed code.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - method
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               method:
+ *                 type: string
+ *                 enum: [totp, recovery_code, email_otp]
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       401:
+ *         description: Invalid code or expired challenge
+ */
+router.post('/2fa/verify', validate(verifyTwoFactorValidator), authController.verifyTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/email-code:
+ *   post:
+ *     summary: Email a login verification code
+ *     description: Sends a LOGIN_VERIFICATION OTP for a pending two-factor challenge.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: OTP sent successfully
+ *       401:
+ *         description: Expired challenge
+ *       409:
+ *         description: Cooldown active
+ */
+router.post(
+  '/2fa/email-code',
+  validate(twoFactorChallengeValidator),
+  authController.sendTwoFactorEmailCode
+);
+
+/**
+ * @swagger
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Start TOTP enrollment
+ *     description: Returns a secret and an otpauth:// URI to render as a QR code.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending secret created
+ *       409:
+ *         description: Two-factor already enabled
+ */
+router.post('/2fa/setup', authenticate, authController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Confirm TOTP enrollment
+ *     description: Enables two-factor authentication and returns one-time recovery codes. They are not shown again.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled
+ *       400:
+ *         description: Invalid code or setup not started
+ */
+router.post(
+  '/2fa/enable',
+  authenticate,
+  validate(enableTwoFactorValidator),
+  authController.enableTwoFactor
+);
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     description: Requires the account password and a current TOTP or recovery code.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor disabled
+ *       401:
+ *         description: Re-authentication failed
+ */
+router.post(
+  '/2fa/disable',
+  authenticate,
+  validate(twoFactorReauthValidator),
+  authController.disableTwoFactor
+);
+
+/**
+ * @swagger
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes. Requires the account password and a current TOTP or recovery code.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       401:
+ *         description: Re-authentication failed
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  validate(twoFactorReauthValidator),
+  authController.regenerateRecoveryCodes
+);
+
+/**
+ * @swagger
+ * /auth/passkeys/register/options:
+ *   post:
+ *     summary: Get WebAuthn options to register a passkey
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Options for navigator.credentials.create()
+ *       400:
+ *         description: Passkey limit reached
+ */
+router.post('/passkeys/register/options', authenticate, authController.passkeyRegistrationOptions);
+
+/**
+ * @swagger
+ * /auth/passkeys/register/verify:
+ *   post:
+ *     summary: Verify a passkey registration and store the passkey
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - credential
+ *             properties:
+ *               credential:
+ *                 type: object
+ *                 description: PublicKeyCredential.toJSON() output
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       201:
+ *         description: Passkey registered
+ *       400:
+ *         description: Challenge expired or verification failed
+ *       409:
+ *         description: Passkey already registered
+ */
+router.post(
+  '/passkeys/register/verify',
+  authenticate,
+  validate(passkeyRegistrationValidator),
+  authController.verifyPasskeyRegistration
+);
+
+/**
+ * @swagger
+ * /auth/passkeys/login/options:
+ *   post:
+ *     summary: Get WebAuthn options to log in with a passkey
+ *     tags: [Auth]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 description: Omit to let the browser offer any discoverable passkey
+ *     responses:
+ *       200:
+ *         description: Options for navigator.credentials.get()
+ */
+router.post(
+  '/passkeys/login/options',
+  validate(passkeyLoginOptionsValidator),
+  authController.passkeyLoginOptions
+);
+
+/**
+ * @swagger
+ * /auth/passkeys/login/verify:
+ *   post:
+ *     summary: Log in with a passkey
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - credential
+ *             properties:
+ *               credential:
+ *                 type: object
+ *                 description: PublicKeyCredential.toJSON() output
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Challenge expired or verification failed
+ *       403:
+ *         description: Account deactivated
+ */
+router.post(
+  '/passkeys/login/verify',
+  extractDeviceInfo,
+  validate(passkeyLoginValidator),
+  authController.loginWithPasskey
+);
+
+/**
+ * @swagger
+ * /auth/passkeys:
+ *   get:
+ *     summary: List passkeys
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Passkeys of the current user
+ */
+router.get('/passkeys', authenticate, authController.listPasskeys);
+
+/**
+ * @swagger
+ * /auth/passkeys/{passkeyId}:
+ *   patch:
+ *     summary: Rename a passkey
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: passkeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       200:
+ *         description: Passkey renamed
+ *       404:
+ *         description: Passkey not found
+ *   delete:
+ *     summary: Delete a passkey
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: passkeyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Passkey deleted
+ *       404:
+ *         description: Passkey not found
+ */
+router.patch(
+  '/passkeys/:passkeyId',
+  authenticate,
+  validate(renamePasskeyValidator),
+  authController.renamePasskey
+);
+router.delete(
+  '/passkeys/:passkeyId',
+  authenticate,
+  validate(passkeyIdValidator),
+  authController.deletePasskey
+);
+
+/**
+ * @swagger
+ * /auth/oauth/providers:
+ *   get:
+ *     summary: List configured social login providers
+ *     tags: [Auth]
+ *     responses:
+ *       200:
+ *         description: Provider IDs and display names
+ */
+router.get('/oauth/providers', authController.listOAuthProviders);
+
+/**
+ * @swagger
+ * /auth/oauth/identities:
+ *   get:
+ *     summary: List linked provider accounts
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Linked provider accounts
+ */
+router.get('/oauth/identities', authenticate, authController.listOAuthIdentities);
+
+/**
+ * @swagger
+ * /auth/oauth/identities/{identityId}:
+ *   delete:
+ *     summary: Unlink a provider account
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: identityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlinked
+ *       400:
+ *         description: Last remaining sign-in method
+ *       404:
+ *         description: Linked account not found
+ */
+router.delete(
+  '/oauth/identities/:identityId',
+  authenticate,
+  validate(oauthIdentityIdValidator),
+  authController.unlinkOAuthIdentity
+);
+
+/**
+ * @swagger
+ * /auth/oauth/{provider}/authorize:
+ *   post:
+ *     summary: Start a social login (authorization code with PKCE)
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Authorization URL to open and the state to send back
+ *       404:
+ *         description: Provider not found
+ */
+router.post(
+  '/oauth/:provider/authorize',
+  validate(oauthProviderValidator),
+  authController.oauthAuthorize
+);
+
+/**
+ * @swagger
+ * /auth/oauth/{provider}/callback:
+ *   post:
+ *     summary: Complete a social login with the code and state from the redirect
+ *     tags: [Auth]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - state
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful, or a two-factor challenge
+ *       400:
+ *         description: State expired or provider email not verified
+ *       401:
+ *         description: Provider verification failed
+ */
+router.post(
+  '/oauth/:provider/callback',
+  extractDeviceInfo,
+  validate(oauthCallbackValidator),
+  authController.oauthCallback
+);
+
+/**
+ * @swagger
+ * /auth/oauth/{provider}/link/authorize:
+ *   post:
+ *     summary: Start linking a provider account to the current user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Authorization URL to open and the state to send back
+ */
+router.post(
+  '/oauth/:provider/link/authorize',
+  authenticate,
+  validate(oauthProviderValidator),
+  authController.oauthLinkAuthorize
+);
+
+/**
+ * @swagger
+ * /auth/oauth/{provider}/link:
+ *   post:
+ *     summary: Complete linking a provider account
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - state
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account linked
+ *       409:
+ *         description: Provider account linked elsewhere or provider already linked
+ */
+router.post(
+  '/oauth/:provider/link',
+  authenticate,
+  validate(oauthCallbackValidator),
+  authController.oauthLink
+);
+
 /**
  * @swagger
  * /auth/send-otp:
@@ -218,11 +809,149 @@ router.post('/forgot-password', validate(forgotPasswordValidator), authControlle
  */
 router.post('/reset-password', validate(resetPasswordValidator), authController.resetPassword);
 
+/**
+ * @swagger
+ * /auth/unlock/request:
+ *   post:
+ *     summary: Request a code to unlock a locked account
+ *     description: Responds the same way whether or not the account exists or is locked.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Unlock code sent if the account is locked
+ */
+router.post(
+  '/unlock/request',
+  validate(requestUnlockValidator),
+  authController.requestAccountUnlock
+);
+
+/**
+ * @swagger
+ * /auth/unlock/verify:
+ *   post:
+ *     summary: Unlock an account with an emailed code
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - otp
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               otp:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       400:
+ *         description: Invalid or expired code
+ */
+router.post('/unlock/verify', validate(unlockAccountValidator), authController.unlockAccount);
+
+/**
+ * @swagger
+ * /auth/lockouts:
+ *   get:
+ *     summary: List locked accounts and blocked IPs (Admin only)
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current account locks and IP blocks
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ */
+router.get('/lockouts', authenticate, authorize(UserRole.ADMIN), authController.listLockouts);
+
+/**
+ * @swagger
+ * /auth/lockouts/accounts/{email}:
+ *   delete:
+ *     summary: Clear an account lock (Admin only)
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: email
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: email
+ *     responses:
+ *       200:
+ *         description: Lock cleared
+ *       403:
+ *         description: Forbidden - Admin only
+ *       404:
+ *         description: No lock for this account
+ */
+router.delete(
+  '/lockouts/accounts/:email',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validate(clearAccountLockoutValidator),
+  authController.clearAccountLockout
+);
+
+/**
+ * @swagger
+ * /auth/lockouts/ips/{ip}:
+ *   delete:
+ *     summary: Clear an IP block (Admin only)
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: ip
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Block cleared
+ *       403:
+ *         description: Forbidden - Admin only
+ *       404:
+ *         description: No block for this IP
+ */
+router.delete(
+  '/lockouts/ips/:ip',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validate(clearIpBlockValidator),
+  authController.clearIpBlock
+);
+
 /**
  * @swagger
  * /auth/refresh:
  *   post:
  *     summary: Refresh access token
+ *     description: Returns a new refresh token on every use. Presenting an already rotated refresh token revokes the session.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -238,9 +967,9 @@ router.post('/reset-password', validate(resetPasswordValidator), authController.
  *             schema:
  *               $ref: '#/components/schemas/AuthResponse'
  *       401:
- *         description: Invalid or expired refresh token
+ *         description: Invalid or expired refresh token, or refresh token reuse
  */
-router.post('/refresh', validate(refreshTokenValidator), authController.refresh);
+router.post('/refresh', extractDeviceInfo, validate(refreshTokenValidator), authController.refresh);
 
 /**
  * @swagger
@@ -328,4 +1057,66 @@ router.get('/sessions', authenticate, authController.getSessions);
  */
 router.delete('/sessions/:sessionId', authenticate, authController.revokeSession);
 
+/**
+ * @swagger
+ * /auth/login-history:
+ *   get:
+ *     summary: Get recent login history
+ *     description: Logins of the authenticated user, newest first, with device details and alert flags.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Login history
+ *       401:
+ *         description: Unauthorized
+ */
+router.get(
+  '/login-history',
+  authenticate,
+  validate(loginHistoryValidator),
+  authController.getLoginHistory
+);
+
+/**
+ * @swagger
+ * /auth/login-alerts/report:
+ *   post:
+ *     summary: Report a login as not yours
+ *     description: >
+ *       Uses the single-use token from a login alert. Signs out every session and
+ *       requires a password reset before the next password login.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login reported, sessions revoked
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post('/login-alerts/report', validate(reportLoginValidator), authController.reportLogin);
+
 export default router;
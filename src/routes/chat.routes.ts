@@ -1,7 +1,9 @@
 import { Router, type Router as RouterType } from 'express';
 import { chatController } from '../controllers/chat.controller';
-import { authenticate } from '../middlewares';
+import { authenticateApiKey, requireVerifiedEmail } from '../middlewares';
+import { ApiKeyScope } from '../models';
 import { validate } from '../middlewares/validate';
+import { VerifiedEmailAction } from '../types/emailVerification.types';
 import {
   createDirectConversationValidator,
   createGroupConversationValidator,
@@ -10,6 +12,7 @@ import {
   sendMessageValidator,
   editMessageValidator,
   deleteMessageValidator,
+  reportMessageValidator,
   getMessagesValidator,
   addParticipantsValidator,
   removeParticipantValidator,
@@ -19,6 +22,14 @@ import {
   muteConversationValidator,
   markAsReadValidator,
   getConversationsValidator,
+  getThreadValidator,
+  searchMessagesValidator,
+  scheduledMessageIdValidator,
+  getScheduledMessagesValidator,
+  updateScheduledMessageValidator,
+  pollVoteValidator,
+  forwardMessageValidator,
+  pollUnvoteValidator,
 } from '../validators/chat.validators';
 
 const router: RouterType = Router();
@@ -27,7 +38,9 @@ const router: RouterType = Router();
  * @swagger
  * tags:
  *   name: Chat
- *   description: Real-time chat API endpoints
+ *   description: >
+ *     Real-time chat API endpoints. Also accept an API key in the X-API-Key header
+ *     with the chat:read scope (GET) or chat:write scope (all other methods).
  */
 
 /**
@@ -66,7 +79,26 @@ const router: RouterType = Router();
  *           type: string
  *         type:
  *           type: string
- *           enum: [text, image, video, file, audio, location, system]
+ *           enum: [text, image, video, file, audio, location, poll, system]
+ *         poll:
+ *           type: object
+ *           description: Present on poll messages; per-option tallies in options[].voteCount
+ *         forwardedFrom:
+ *           type: object
+ *           description: Original message, conversation and sender when this is a forwarded copy
+ *         forwardCount:
+ *           type: integer
+ *         linkPreviews:
+ *           type: array
+ *           description: OpenGraph/oEmbed metadata (url, title, description, image, siteName), filled in asynchronously
+ *         threadRootId:
+ *           type: string
+ *           description: Root message ID when this message is a thread reply
+ *         replyCount:
+ *           type: integer
+ *         lastReplyAt:
+ *           type: string
+ *           format: date-time
  *         attachments:
  *           type: array
  *           items:
@@ -109,7 +141,7 @@ const router: RouterType = Router();
  */
 router.get(
   '/conversations',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
   validate(getConversationsValidator),
   chatController.getConversations.bind(chatController)
 );
@@ -139,7 +171,7 @@ router.get(
  */
 router.post(
   '/conversations/direct',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(createDirectConversationValidator),
   chatController.createDirectConversation.bind(chatController)
 );
@@ -175,10 +207,13 @@ router.post(
  *     responses:
  *       201:
  *         description: Group created
+ *       403:
+ *         description: Email address not verified
  */
 router.post(
   '/conversations/group',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
+  requireVerifiedEmail(VerifiedEmailAction.CREATE_GROUP),
   validate(createGroupConversationValidator),
   chatController.createGroupConversation.bind(chatController)
 );
@@ -203,7 +238,7 @@ router.post(
  */
 router.get(
   '/conversations/:id',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
   validate(conversationIdValidator),
   chatController.getConversation.bind(chatController)
 );
@@ -212,7 +247,8 @@ router.get(
  * @swagger
  * /api/chat/conversations/{id}:
  *   patch:
- *     summary: Update a conversation (group only)
+ *     summary: Update a conversation
+ *     description: Group details and retention are admin only; either participant of a direct conversation may change retention.
  *     tags: [Chat]
  *     security:
  *       - bearerAuth: []
@@ -234,13 +270,20 @@ router.get(
  *                 type: string
  *               avatar:
  *                 type: string
+ *               messageRetention:
+ *                 type: string
+ *                 enum: [off, 24h, 7d, 90d]
+ *                 description: Disappearing messages setting for new messages
+ *               linkPreviewsEnabled:
+ *                 type: boolean
+ *                 description: Fetch previews for links posted in this conversation
  *     responses:
  *       200:
  *         description: Conversation updated
  */
 router.patch(
   '/conversations/:id',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(updateConversationValidator),
   chatController.updateConversation.bind(chatController)
 );
@@ -265,7 +308,7 @@ router.patch(
  */
 router.delete(
   '/conversations/:id',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(conversationIdValidator),
   chatController.leaveConversation.bind(chatController)
 );
@@ -307,7 +350,7 @@ router.delete(
  */
 router.post(
   '/conversations/:id/participants',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(addParticipantsValidator),
   chatController.addParticipants.bind(chatController)
 );
@@ -337,7 +380,7 @@ router.post(
  */
 router.delete(
   '/conversations/:id/participants/:userId',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(removeParticipantValidator),
   chatController.removeParticipant.bind(chatController)
 );
@@ -380,7 +423,7 @@ router.delete(
  */
 router.get(
   '/conversations/:id/messages',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
   validate(getMessagesValidator),
   chatController.getMessages.bind(chatController)
 );
@@ -410,22 +453,55 @@ router.get(
  *                 type: string
  *               type:
  *                 type: string
- *                 enum: [text, image, video, file, audio, location]
+ *                 enum: [text, image, video, file, audio, location, poll]
  *               attachments:
  *                 type: array
+ *                 description: Uploaded files, described from their stored media records
+ *                 items:
+ *                   type: object
+ *                   required: [publicId]
+ *                   properties:
+ *                     publicId:
+ *                       type: string
  *               replyTo:
  *                 type: string
  *               mentions:
  *                 type: array
  *                 items:
  *                   type: string
+ *               threadRootId:
+ *                 type: string
+ *                 description: Post the message as a reply in this message's thread
+ *               scheduledAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Schedule the message instead of sending it now
+ *               poll:
+ *                 type: object
+ *                 description: Required when type is poll
+ *                 properties:
+ *                   question:
+ *                     type: string
+ *                   options:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   allowMultiple:
+ *                     type: boolean
+ *                   isAnonymous:
+ *                     type: boolean
+ *                   closesAt:
+ *                     type: string
+ *                     format: date-time
  *     responses:
  *       201:
  *         description: Message sent
+ *       202:
+ *         description: Message scheduled
  */
 router.post(
   '/conversations/:id/messages',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(sendMessageValidator),
   chatController.sendMessage.bind(chatController)
 );
@@ -461,11 +537,37 @@ router.post(
  */
 router.patch(
   '/messages/:id',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(editMessageValidator),
   chatController.editMessage.bind(chatController)
 );
 
+/**
+ * @swagger
+ * /api/chat/messages/{id}/history:
+ *   get:
+ *     summary: Get the edit history of a message
+ *     description: Participants see prior versions. Moderators read deleted content through the audited moderation API.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current content and prior revisions, oldest first
+ */
+router.get(
+  '/messages/:id/history',
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
+  validate(messageIdValidator),
+  chatController.getMessageHistory.bind(chatController)
+);
+
 /**
  * @swagger
  * /api/chat/messages/{id}:
@@ -494,11 +596,390 @@ router.patch(
  */
 router.delete(
   '/messages/:id',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(deleteMessageValidator),
   chatController.deleteMessage.bind(chatController)
 );
 
+/**
+ * @swagger
+ * /api/chat/messages/{id}/report:
+ *   post:
+ *     summary: Report a message to moderators
+ *     description: Files a report with a snapshot of the message as it is now. Each user can report a message once.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [spam, harassment, hate_speech, violence, sexual_content, self_harm, misinformation, other]
+ *               details:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       201:
+ *         description: Report submitted
+ *       400:
+ *         description: Own, deleted or system message
+ *       409:
+ *         description: Already reported
+ */
+router.post(
+  '/messages/:id/report',
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
+  validate(reportMessageValidator),
+  chatController.reportMessage.bind(chatController)
+);
+
+// =====================
+// SCHEDULED MESSAGE ROUTES
+// =====================
+
+/**
+ * @swagger
+ * /api/chat/scheduled:
+ *   get:
+ *     summary: List pending scheduled messages
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: conversationId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pending scheduled messages, soonest first
+ */
+router.get(
+  '/scheduled',
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
+  validate(getScheduledMessagesValidator),
+  chatController.getScheduledMessages.bind(chatController)
+);
+
+/**
+ * @swagger
+ * /api/chat/scheduled/{id}:
+ *   patch:
+ *     summary: Edit a pending scheduled message
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               content:
+ *                 type: string
+ *               attachments:
+ *                 type: array
+ *                 description: Uploaded files, described from their stored media records
+ *                 items:
+ *                   type: object
+ *                   required: [publicId]
+ *                   properties:
+ *                     publicId:
+ *                       type: string
+ *               mentions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               scheduledAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Scheduled message updated
+ */
+router.patch(
+  '/scheduled/:id',
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
+  validate(updateScheduledMessageValidator),
+  chatController.updateScheduledMessage.bind(chatController)
+);
+
+/**
+ * @swagger
+ * /api/chat/scheduled/{id}:
+ *   delete:
+ *     summary: Cancel a pending scheduled message
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Scheduled message cancelled
+ */
+router.delete(
+  '/scheduled/:id',
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
+  validate(scheduledMessageIdValidator),
+  chatController.cancelScheduledMessage.bind(chatController)
+);
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}/forward:
+ *   post:
+ *     summary: Forward a message to other conversations
+ *     description: Up to 5 targets at once, or 1 once the original has been forwarded frequently. The caller must be an active participant of the source and every target.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - conversationIds
+ *             properties:
+ *               conversationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Message forwarded; returns the new copies
+ */
+router.post(
+  '/messages/:id/forward',
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
+  validate(forwardMessageValidator),
+  chatController.forwardMessage.bind(chatController)
+);
+
+// =====================
+// POLL ROUTES
+// =====================
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}/poll:
+ *   get:
+ *     summary: Get poll results
+ *     description: Voters per option are included unless the poll is anonymous.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Poll tallies and the caller's votes
+ */
+router.get(
+  '/messages/:id/poll',
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
+  validate(messageIdValidator),
+  chatController.getPollResults.bind(chatController)
+);
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}/poll/vote:
+ *   post:
+ *     summary: Vote on a poll
+ *     description: On single-choice polls the vote replaces any previous choice.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - optionIds
+ *             properties:
+ *               optionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Vote recorded
+ */
+router.post(
+  '/messages/:id/poll/vote',
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
+  validate(pollVoteValidator),
+  chatController.votePoll.bind(chatController)
+);
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}/poll/vote:
+ *   delete:
+ *     summary: Remove votes from a poll
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               optionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Options to withdraw; omit to withdraw all votes
+ *     responses:
+ *       200:
+ *         description: Vote removed
+ */
+router.delete(
+  '/messages/:id/poll/vote',
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
+  validate(pollUnvoteValidator),
+  chatController.unvotePoll.bind(chatController)
+);
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}/poll/close:
+ *   post:
+ *     summary: Close a poll early (creator only)
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Poll closed
+ */
+router.post(
+  '/messages/:id/poll/close',
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
+  validate(messageIdValidator),
+  chatController.closePoll.bind(chatController)
+);
+
+// =====================
+// THREAD ROUTES
+// =====================
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}/thread:
+ *   get:
+ *     summary: Get replies in a message thread
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor from the previous page
+ *     responses:
+ *       200:
+ *         description: Thread root and replies
+ */
+router.get(
+  '/messages/:id/thread',
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
+  validate(getThreadValidator),
+  chatController.getThread.bind(chatController)
+);
+
+/**
+ * @swagger
+ * /api/chat/messages/{id}/thread/read:
+ *   post:
+ *     summary: Mark a thread as read
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Thread marked as read
+ */
+router.post(
+  '/messages/:id/thread/read',
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
+  validate(messageIdValidator),
+  chatController.markThreadAsRead.bind(chatController)
+);
+
 // =====================
 // REACTION ROUTES
 // =====================
@@ -534,7 +1015,7 @@ router.delete(
  */
 router.post(
   '/messages/:id/reactions',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(reactionValidator),
   chatController.addReaction.bind(chatController)
 );
@@ -564,7 +1045,7 @@ router.post(
  */
 router.delete(
   '/messages/:id/reactions/:emoji',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(removeReactionValidator),
   chatController.removeReaction.bind(chatController)
 );
@@ -602,7 +1083,7 @@ router.delete(
  */
 router.post(
   '/conversations/:id/mute',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(muteConversationValidator),
   chatController.muteConversation.bind(chatController)
 );
@@ -627,7 +1108,7 @@ router.post(
  */
 router.delete(
   '/conversations/:id/mute',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(conversationIdValidator),
   chatController.unmuteConversation.bind(chatController)
 );
@@ -660,7 +1141,7 @@ router.delete(
  */
 router.post(
   '/conversations/:id/read',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(markAsReadValidator),
   chatController.markAsRead.bind(chatController)
 );
@@ -685,7 +1166,7 @@ router.post(
  */
 router.post(
   '/conversations/:id/archive',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(conversationIdValidator),
   chatController.archiveConversation.bind(chatController)
 );
@@ -710,7 +1191,7 @@ router.post(
  */
 router.delete(
   '/conversations/:id/archive',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(conversationIdValidator),
   chatController.unarchiveConversation.bind(chatController)
 );
@@ -735,7 +1216,7 @@ router.delete(
  */
 router.post(
   '/conversations/:id/pin',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(conversationIdValidator),
   chatController.togglePinConversation.bind(chatController)
 );
@@ -764,7 +1245,7 @@ router.post(
  */
 router.get(
   '/conversations/:id/pinned',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
   validate(conversationIdValidator),
   chatController.getPinnedMessages.bind(chatController)
 );
@@ -789,7 +1270,7 @@ router.get(
  */
 router.post(
   '/messages/:id/pin',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(messageIdValidator),
   chatController.pinMessage.bind(chatController)
 );
@@ -814,11 +1295,73 @@ router.post(
  */
 router.delete(
   '/messages/:id/pin',
-  authenticate,
+  authenticateApiKey(ApiKeyScope.CHAT_WRITE),
   validate(messageIdValidator),
   chatController.unpinMessage.bind(chatController)
 );
 
+// =====================
+// SEARCH ROUTES
+// =====================
+
+/**
+ * @swagger
+ * /api/chat/search:
+ *   get:
+ *     summary: Search messages across the user's conversations
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Matches message content, attachment filenames and sender names
+ *       - in: query
+ *         name: conversationId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: senderId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [text, image, video, file, audio, location, system]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor from the previous page
+ *     responses:
+ *       200:
+ *         description: Matching messages with highlighted snippets
+ */
+router.get(
+  '/search',
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
+  validate(searchMessagesValidator),
+  chatController.searchMessages.bind(chatController)
+);
+
 // =====================
 // PRESENCE ROUTES
 // =====================
@@ -835,6 +1378,10 @@ router.delete(
  *       200:
  *         description: List of online user IDs
  */
-router.get('/presence/online', authenticate, chatController.getOnlineUsers.bind(chatController));
+router.get(
+  '/presence/online',
+  authenticateApiKey(ApiKeyScope.CHAT_READ),
+  chatController.getOnlineUsers.bind(chatController)
+);
 
 export default router;
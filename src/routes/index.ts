@@ -5,6 +5,7 @@ import userRoutes from './user.routes';
 import notificationRoutes from './notification.routes';
 import uploadRoutes from './upload.routes';
 import chatRoutes from './chat.routes';
+import moderationRoutes from './moderation.routes';
 
 const router: RouterType = Router();
 
@@ -26,4 +27,7 @@ router.use('/upload', uploadRoutes);
 // Chat routes
 router.use('/chat', chatRoutes);
 
+// Moderation routes
+router.use('/moderation', moderationRoutes);
+
 export default router;
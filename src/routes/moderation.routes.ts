@@ -0,0 +1,367 @@
+import { Router, type Router as RouterType } from 'express';
+import * as moderationController from '../controllers/moderation.controller';
+import { authenticate, authorize, extractDeviceInfo } from '../middlewares';
+import { validate } from '../middlewares/validate';
+import { UserRole } from '../models';
+import {
+  listReportsValidation,
+  reportIdValidation,
+  closeReportValidation,
+  messageContextValidation,
+  messageHistoryValidation,
+  removeMessageValidation,
+  warnUserValidation,
+  deactivateUserValidation,
+  listAuditLogValidation,
+} from '../validators/moderation.validators';
+
+const router: RouterType = Router();
+
+// Every moderation route requires a moderator or admin; the IP is kept for the audit log
+router.use(authenticate, authorize(UserRole.MODERATOR, UserRole.ADMIN), extractDeviceInfo);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Moderation
+ *   description: Report queue and audited moderator actions (moderators and admins)
+ */
+
+/**
+ * @swagger
+ * /moderation/reports:
+ *   get:
+ *     summary: List reports
+ *     description: Retrieve the report queue, newest first.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, resolved, dismissed]
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           enum: [spam, harassment, hate_speech, violence, sexual_content, self_harm, misinformation, other]
+ *       - in: query
+ *         name: reportedUserId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Paginated reports
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Moderators only
+ */
+router.get('/reports', validate(listReportsValidation), moderationController.listReports);
+
+/**
+ * @swagger
+ * /moderation/reports/{id}:
+ *   get:
+ *     summary: Get a report
+ *     description: Retrieve a report including the snapshot of the reported message.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report details
+ *       404:
+ *         description: Report not found
+ */
+router.get('/reports/:id', validate(reportIdValidation), moderationController.getReport);
+
+/**
+ * @swagger
+ * /moderation/reports/{id}/resolve:
+ *   post:
+ *     summary: Resolve or dismiss a report
+ *     description: Close an open report. The action is recorded in the audit log.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [resolved, dismissed]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Report closed
+ *       404:
+ *         description: Report not found
+ *       409:
+ *         description: Report already closed
+ */
+router.post(
+  '/reports/:id/resolve',
+  validate(closeReportValidation),
+  moderationController.closeReport
+);
+
+/**
+ * @swagger
+ * /moderation/messages/{id}/context:
+ *   get:
+ *     summary: View conversation context
+ *     description: >
+ *       Retrieve the messages before and after a message, including the original
+ *       content of deleted messages. Each view is recorded in the audit log.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: size
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *         description: Messages on each side
+ *       - in: query
+ *         name: reportId
+ *         schema:
+ *           type: string
+ *         description: Report being reviewed, linked in the audit log
+ *     responses:
+ *       200:
+ *         description: Message with surrounding messages
+ *       404:
+ *         description: Message not found
+ */
+router.get(
+  '/messages/:id/context',
+  validate(messageContextValidation),
+  moderationController.getMessageContext
+);
+
+/**
+ * @swagger
+ * /moderation/messages/{id}/history:
+ *   get:
+ *     summary: View a message's edit history
+ *     description: >
+ *       Retrieve every prior version of a message, including the original content of a
+ *       message deleted for everyone. Each view is recorded in the audit log.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: reportId
+ *         schema:
+ *           type: string
+ *         description: Report being reviewed, linked in the audit log
+ *     responses:
+ *       200:
+ *         description: Current content, prior revisions and deleted content
+ *       404:
+ *         description: Message not found
+ */
+router.get(
+  '/messages/:id/history',
+  validate(messageHistoryValidation),
+  moderationController.getMessageHistory
+);
+
+/**
+ * @swagger
+ * /moderation/messages/{id}/remove:
+ *   post:
+ *     summary: Remove a message for everyone
+ *     description: Blank a message for all participants. The original stays available to moderators.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reportId:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Message removed
+ *       404:
+ *         description: Message not found
+ */
+router.post(
+  '/messages/:id/remove',
+  validate(removeMessageValidation),
+  moderationController.removeMessage
+);
+
+/**
+ * @swagger
+ * /moderation/users/{id}/warn:
+ *   post:
+ *     summary: Warn a user
+ *     description: Send the user an in-app warning. Staff accounts cannot be warned.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - note
+ *             properties:
+ *               reportId:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *                 description: Warning text shown to the user
+ *     responses:
+ *       200:
+ *         description: User warned
+ *       403:
+ *         description: Target is a staff account
+ *       404:
+ *         description: User not found
+ */
+router.post('/users/:id/warn', validate(warnUserValidation), moderationController.warnUser);
+
+/**
+ * @swagger
+ * /moderation/users/{id}/deactivate:
+ *   post:
+ *     summary: Deactivate a user
+ *     description: Deactivate the account and revoke all of its sessions. Staff accounts cannot be deactivated here.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reportId:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: User deactivated
+ *       403:
+ *         description: Target is a staff account
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  '/users/:id/deactivate',
+  validate(deactivateUserValidation),
+  moderationController.deactivateUser
+);
+
+/**
+ * @swagger
+ * /moderation/audit-log:
+ *   get:
+ *     summary: List moderation audit log
+ *     description: Retrieve moderator actions, newest first.
+ *     tags: [Moderation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: moderatorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: targetUserId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Paginated audit log entries
+ */
+router.get('/audit-log', validate(listAuditLogValidation), moderationController.listAuditLog);
+
+export default router;
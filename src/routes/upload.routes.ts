@@ -7,22 +7,37 @@ import {
   singleDocument,
   uploadAny,
 } from '../middlewares/upload.middleware';
+import { authenticate, authenticateApiKey, requireVerifiedEmail } from '../middlewares';
 import { validate } from '../middlewares/validate';
+import { ApiKeyScope } from '../models';
+import { VerifiedEmailAction } from '../types/emailVerification.types';
 import {
   uploadImageValidation,
   uploadVideoValidation,
   deleteMediaValidation,
   getMediaInfoValidation,
   getUploadStatusValidation,
+  getSignedUploadUrlValidation,
+  completeSignedUploadValidation,
+  getMyMediaValidation,
 } from '../validators/upload.validators';
 
 const router: RouterType = Router();
 
+// Uploading requires a verified email; API keys need the upload:write scope
+const canUpload = [
+  authenticateApiKey(ApiKeyScope.UPLOAD_WRITE),
+  requireVerifiedEmail(VerifiedEmailAction.UPLOAD),
+];
+
 /**
  * @swagger
  * tags:
  *   name: Upload
- *   description: Media upload management
+ *   description: >
+ *     Media upload management. Uploads are quarantined until a malware scan passes:
+ *     their scanStatus starts as pending and becomes clean, infected (file deleted)
+ *     or failed. Only clean media can be attached to chat messages.
  */
 
 /**
@@ -31,6 +46,8 @@ const router: RouterType = Router();
  *   post:
  *     summary: Upload a single image with optional compression
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     consumes:
  *       - multipart/form-data
  *     requestBody:
@@ -51,8 +68,18 @@ const router: RouterType = Router();
  *     responses:
  *       200:
  *         description: Image uploaded successfully
+ *       413:
+ *         description: Storage quota exceeded
+ *       415:
+ *         description: File type not allowed, or its content does not match the declared type
  */
-router.post('/image', singleImage, validate(uploadImageValidation), uploadController.uploadImage);
+router.post(
+  '/image',
+  ...canUpload,
+  singleImage,
+  validate(uploadImageValidation),
+  uploadController.uploadImage
+);
 
 /**
  * @swagger
@@ -60,6 +87,8 @@ router.post('/image', singleImage, validate(uploadImageValidation), uploadContro
  *   post:
  *     summary: Upload multiple images
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     consumes:
  *       - multipart/form-data
  *     requestBody:
@@ -76,9 +105,14 @@ router.post('/image', singleImage, validate(uploadImageValidation), uploadContro
  *     responses:
  *       200:
  *         description: Images uploaded successfully
+ *       413:
+ *         description: Storage quota exceeded
+ *       415:
+ *         description: File type not allowed, or its content does not match the declared type
  */
 router.post(
   '/images',
+  ...canUpload,
   multipleImages,
   validate(uploadImageValidation),
   uploadController.uploadMultipleImages
@@ -90,6 +124,8 @@ router.post(
  *   post:
  *     summary: Upload a video file
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     consumes:
  *       - multipart/form-data
  *     requestBody:
@@ -104,8 +140,18 @@ router.post(
  *     responses:
  *       200:
  *         description: Video uploaded successfully
+ *       413:
+ *         description: Storage quota exceeded
+ *       415:
+ *         description: File type not allowed, or its content does not match the declared type
  */
-router.post('/video', singleVideo, validate(uploadVideoValidation), uploadController.uploadVideo);
+router.post(
+  '/video',
+  ...canUpload,
+  singleVideo,
+  validate(uploadVideoValidation),
+  uploadController.uploadVideo
+);
 
 /**
  * @swagger
@@ -113,6 +159,8 @@ router.post('/video', singleVideo, validate(uploadVideoValidation), uploadContro
  *   post:
  *     summary: Upload a document
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     consumes:
  *       - multipart/form-data
  *     requestBody:
@@ -127,8 +175,12 @@ router.post('/video', singleVideo, validate(uploadVideoValidation), uploadContro
  *     responses:
  *       200:
  *         description: Document uploaded successfully
+ *       413:
+ *         description: Storage quota exceeded
+ *       415:
+ *         description: File type not allowed, or its content does not match the declared type
  */
-router.post('/document', singleDocument, uploadController.uploadDocument);
+router.post('/document', ...canUpload, singleDocument, uploadController.uploadDocument);
 
 /**
  * @swagger
@@ -136,6 +188,8 @@ router.post('/document', singleDocument, uploadController.uploadDocument);
  *   post:
  *     summary: Upload a large file using chunked upload
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     consumes:
  *       - multipart/form-data
  *     requestBody:
@@ -150,8 +204,40 @@ router.post('/document', singleDocument, uploadController.uploadDocument);
  *     responses:
  *       200:
  *         description: Large file uploaded successfully
+ *       413:
+ *         description: Storage quota exceeded
+ *       415:
+ *         description: File type not allowed, or its content does not match the declared type
+ */
+router.post('/large', ...canUpload, uploadAny.single('file'), uploadController.uploadLargeFile);
+
+/**
+ * @swagger
+ * /upload/mine:
+ *   get:
+ *     summary: List media uploaded by the current user
+ *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Media retrieved successfully
+ *       401:
+ *         description: Not authenticated
  */
-router.post('/large', uploadAny.single('file'), uploadController.uploadLargeFile);
+router.get('/mine', authenticate, validate(getMyMediaValidation), uploadController.getMyMedia);
 
 /**
  * @swagger
@@ -159,11 +245,13 @@ router.post('/large', uploadAny.single('file'), uploadController.uploadLargeFile
  *   get:
  *     summary: Get resumable upload endpoint information
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Resumable upload info retrieved
  */
-router.get('/resumable/info', uploadController.getResumableUploadInfo);
+router.get('/resumable/info', authenticate, uploadController.getResumableUploadInfo);
 
 /**
  * @swagger
@@ -171,6 +259,8 @@ router.get('/resumable/info', uploadController.getResumableUploadInfo);
  *   get:
  *     summary: Get status of a resumable upload
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: uploadId
@@ -179,10 +269,11 @@ router.get('/resumable/info', uploadController.getResumableUploadInfo);
  *           type: string
  *     responses:
  *       200:
- *         description: Upload status retrieved
+ *         description: Upload status retrieved (pending, completed, or rejected with a reason)
  */
 router.get(
   '/resumable/status/:uploadId',
+  authenticateApiKey(ApiKeyScope.UPLOAD_WRITE),
   validate(getUploadStatusValidation),
   uploadController.getUploadStatus
 );
@@ -192,7 +283,12 @@ router.get(
  * /upload/signed-url:
  *   get:
  *     summary: Get signed URL for client-side upload
+ *     description: >
+ *       The file is uploaded into quarantine. Call POST /upload/signed-url/complete once it
+ *       is uploaded, so its content is checked and its malware scan is queued.
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: folder
@@ -203,11 +299,78 @@ router.get(
  *         schema:
  *           type: string
  *           enum: [image, video, raw, auto]
+ *       - in: query
+ *         name: contentType
+ *         required: true
+ *         description: MIME type of the file, signed into S3 upload URLs
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: size
+ *         required: true
+ *         description: Size of the file in bytes, reserved against the storage quota
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: filename
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Signed URL and public ID for the configured storage driver
+ *       400:
+ *         description: Storage driver does not support direct uploads
+ *       413:
+ *         description: File too large or over the storage quota
+ *       415:
+ *         description: File type not allowed
+ */
+router.get(
+  '/signed-url',
+  ...canUpload,
+  validate(getSignedUploadUrlValidation),
+  uploadController.getSignedUploadUrl
+);
+
+/**
+ * @swagger
+ * /upload/signed-url/complete:
+ *   post:
+ *     summary: Complete a direct upload
+ *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [publicId]
+ *             properties:
+ *               publicId:
+ *                 type: string
+ *                 description: Public ID returned with the signed URL
  *     responses:
  *       200:
- *         description: Signed URL generated
+ *         description: Upload recorded; its malware scan is queued
+ *       400:
+ *         description: Nothing has been uploaded to the signed URL yet
+ *       404:
+ *         description: No direct upload awaiting completion under this public ID
+ *       409:
+ *         description: Upload already completed
+ *       413:
+ *         description: File larger than the size it was signed for; the file is deleted
+ *       415:
+ *         description: File content refused; the file is deleted
  */
-router.get('/signed-url', uploadController.getSignedUploadUrl);
+router.post(
+  '/signed-url/complete',
+  ...canUpload,
+  validate(completeSignedUploadValidation),
+  uploadController.completeSignedUpload
+);
 
 /**
  * @swagger
@@ -215,6 +378,8 @@ router.get('/signed-url', uploadController.getSignedUploadUrl);
  *   delete:
  *     summary: Delete a media file
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: publicId
@@ -230,7 +395,12 @@ router.get('/signed-url', uploadController.getSignedUploadUrl);
  *       200:
  *         description: Media deleted successfully
  */
-router.delete('/:publicId', validate(deleteMediaValidation), uploadController.deleteMedia);
+router.delete(
+  '/:publicId',
+  authenticateApiKey(ApiKeyScope.UPLOAD_WRITE),
+  validate(deleteMediaValidation),
+  uploadController.deleteMedia
+);
 
 /**
  * @swagger
@@ -238,6 +408,8 @@ router.delete('/:publicId', validate(deleteMediaValidation), uploadController.de
  *   get:
  *     summary: Get media information
  *     tags: [Upload]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: publicId
@@ -251,8 +423,13 @@ router.delete('/:publicId', validate(deleteMediaValidation), uploadController.de
  *           enum: [image, video, raw]
  *     responses:
  *       200:
- *         description: Media info retrieved
+ *         description: Media info retrieved, including its malware scanStatus
  */
-router.get('/:publicId', validate(getMediaInfoValidation), uploadController.getMediaInfo);
+router.get(
+  '/:publicId',
+  authenticate,
+  validate(getMediaInfoValidation),
+  uploadController.getMediaInfo
+);
 
 export default router;
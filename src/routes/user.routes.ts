@@ -1,7 +1,19 @@
 import { Router, type Router as RouterType } from 'express';
 import * as userController from '../controllers/user.controller';
 import { authenticate, authorize } from '../middlewares';
+import { validate } from '../middlewares/validate';
 import { UserRole } from '../models';
+import {
+  blockUserValidation,
+  unblockUserValidation,
+  requestEmailChangeValidation,
+  confirmEmailChangeValidation,
+  changePasswordValidation,
+  createApiKeyValidation,
+  apiKeyIdValidation,
+  userIdValidation,
+  storageQuotaValidation,
+} from '../validators/user.validators';
 
 const router: RouterType = Router();
 
@@ -62,6 +74,327 @@ router.get('/me', authenticate, userController.getMe);
  */
 router.patch('/me', authenticate, userController.updateMe);
 
+/**
+ * @swagger
+ * /users/me/email:
+ *   post:
+ *     summary: Start an email change
+ *     description: >
+ *       Send a confirmation code to the new address and notify the current one.
+ *       The email only changes once the code is confirmed. Accounts with a password
+ *       must provide it.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newEmail
+ *             properties:
+ *               newEmail:
+ *                 type: string
+ *                 format: email
+ *               currentPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Confirmation code sent to the new address
+ *       400:
+ *         description: Validation error or unchanged email
+ *       401:
+ *         description: Unauthorized or incorrect password
+ *       409:
+ *         description: Email already in use or code requested too recently
+ */
+router.post(
+  '/me/email',
+  authenticate,
+  validate(requestEmailChangeValidation),
+  userController.requestEmailChange
+);
+
+/**
+ * @swagger
+ * /users/me/email/verify:
+ *   post:
+ *     summary: Confirm an email change
+ *     description: >
+ *       Confirm the change with the code sent to the new address. The email is marked
+ *       verified and all other sessions are revoked.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - otp
+ *             properties:
+ *               otp:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       400:
+ *         description: Invalid code or no pending change
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Email already in use
+ */
+router.post(
+  '/me/email/verify',
+  authenticate,
+  validate(confirmEmailChangeValidation),
+  userController.confirmEmailChange
+);
+
+/**
+ * @swagger
+ * /users/me/password:
+ *   post:
+ *     summary: Change password
+ *     description: >
+ *       Change the password of the authenticated user. The current password is required
+ *       unless the account was created through social login and has none yet. Recently
+ *       used and breached passwords are rejected. All other sessions are revoked.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *       400:
+ *         description: Validation error, reused or breached password
+ *       401:
+ *         description: Unauthorized or incorrect current password
+ */
+router.post(
+  '/me/password',
+  authenticate,
+  validate(changePasswordValidation),
+  userController.changePassword
+);
+
+/**
+ * @swagger
+ * /users/me/api-keys:
+ *   get:
+ *     summary: List API keys
+ *     description: List the authenticated user's API keys that have not been revoked.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys (without the secret)
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/me/api-keys', authenticate, userController.listApiKeys);
+
+/**
+ * @swagger
+ * /users/me/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: >
+ *       Create a named API key with explicit scopes for integrations. Send it in the
+ *       X-API-Key header. The key is only returned in this response.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApiKeyInput'
+ *     responses:
+ *       201:
+ *         description: API key created
+ *       400:
+ *         description: Validation error or key limit reached
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  '/me/api-keys',
+  authenticate,
+  validate(createApiKeyValidation),
+  userController.createApiKey
+);
+
+/**
+ * @swagger
+ * /users/me/api-keys/{keyId}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     description: Revoke one of the authenticated user's API keys. Takes effect immediately.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: API key not found
+ */
+router.delete(
+  '/me/api-keys/:keyId',
+  authenticate,
+  validate(apiKeyIdValidation),
+  userController.revokeApiKey
+);
+
+/**
+ * @swagger
+ * /users/me/storage:
+ *   get:
+ *     summary: Get media storage usage
+ *     description: Bytes and files the authenticated user has stored against their quota.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Storage usage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StorageUsage'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/me/storage', authenticate, userController.getStorageUsage);
+
+/**
+ * @swagger
+ * /users/me/blocks:
+ *   get:
+ *     summary: List blocked users
+ *     description: Retrieve the users the authenticated user has blocked, newest first.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Blocked users
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/me/blocks', authenticate, userController.listBlocks);
+
+/**
+ * @swagger
+ * /users/me/blocks:
+ *   post:
+ *     summary: Block a user
+ *     description: >
+ *       Block a user. Blocked users cannot start or continue direct conversations,
+ *       their presence is hidden, their mentions do not notify, and their messages
+ *       in shared groups are flagged.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 description: ID of the user to block
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       201:
+ *         description: User blocked
+ *       400:
+ *         description: Validation error or attempt to block yourself
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: User is already blocked
+ */
+router.post(
+  '/me/blocks',
+  authenticate,
+  validate(blockUserValidation),
+  userController.blockUser
+);
+
+/**
+ * @swagger
+ * /users/me/blocks/{userId}:
+ *   delete:
+ *     summary: Unblock a user
+ *     description: Remove a user from the authenticated user's block list.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the blocked user
+ *     responses:
+ *       200:
+ *         description: User unblocked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User is not blocked
+ */
+router.delete(
+  '/me/blocks/:userId',
+  authenticate,
+  validate(unblockUserValidation),
+  userController.unblockUser
+);
+
 /**
  * @swagger
  * /users:
@@ -214,6 +547,204 @@ router.patch(
   userController.updateUserRole
 );
 
+/**
+ * @swagger
+ * /users/{id}/api-keys:
+ *   get:
+ *     summary: List a user's API keys
+ *     description: List the API keys of any user that have not been revoked. Admin access required.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: API keys (without the secret)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ */
+router.get(
+  '/:id/api-keys',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validate(userIdValidation),
+  userController.listApiKeys
+);
+
+/**
+ * @swagger
+ * /users/{id}/api-keys:
+ *   post:
+ *     summary: Create an API key for a user
+ *     description: Issue an API key that acts as the given user. Admin access required.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApiKeyInput'
+ *     responses:
+ *       201:
+ *         description: API key created
+ *       400:
+ *         description: Validation error or key limit reached
+ *       403:
+ *         description: Forbidden - Admin only
+ *       404:
+ *         description: User not found
+ */
+router.post(
+  '/:id/api-keys',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validate(createApiKeyValidation),
+  userController.createApiKey
+);
+
+/**
+ * @swagger
+ * /users/{id}/api-keys/{keyId}:
+ *   delete:
+ *     summary: Revoke a user's API key
+ *     description: Revoke an API key of any user. Takes effect immediately. Admin access required.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       403:
+ *         description: Forbidden - Admin only
+ *       404:
+ *         description: API key not found
+ */
+router.delete(
+  '/:id/api-keys/:keyId',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validate(apiKeyIdValidation),
+  userController.revokeApiKey
+);
+
+/**
+ * @swagger
+ * /users/{id}/storage:
+ *   get:
+ *     summary: Get a user's media storage usage
+ *     description: Bytes and files any user has stored against their quota. Admin access required.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     responses:
+ *       200:
+ *         description: Storage usage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StorageUsage'
+ *       403:
+ *         description: Forbidden - Admin only
+ *       404:
+ *         description: User not found
+ */
+router.get(
+  '/:id/storage',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validate(userIdValidation),
+  userController.getStorageUsage
+);
+
+/**
+ * @swagger
+ * /users/{id}/storage:
+ *   patch:
+ *     summary: Override a user's storage quota
+ *     description: >
+ *       Set a per-user byte or file quota in place of the role's quota.
+ *       Send null to return a limit to the role default. Admin access required.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               maxBytes:
+ *                 type: integer
+ *                 nullable: true
+ *               maxFiles:
+ *                 type: integer
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Storage quota updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StorageUsage'
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Forbidden - Admin only
+ *       404:
+ *         description: User not found
+ */
+router.patch(
+  '/:id/storage',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  validate(storageQuotaValidation),
+  userController.setStorageQuota
+);
+
 /**
  * @swagger
  * /users/{id}/deactivate:
@@ -98,9 +98,34 @@ const startServer = async (): Promise<void> => {
       emailConcurrency: config.queue.concurrency,
       smsConcurrency: Math.ceil(config.queue.concurrency / 2),
       notificationConcurrency: config.queue.concurrency,
+      chatConcurrency: config.queue.concurrency,
+      // Scans stream whole files through the scanner, so fewer run at once
+      mediaConcurrency: Math.ceil(config.queue.concurrency / 2),
     });
     logger.info('Queue workers initialized');
 
+    // Schedule the recurring sweep for expired disappearing messages
+    await queueService.addJob({
+      queue: 'QUEUE__CHAT',
+      job: 'SWEEP_EXPIRED_MESSAGES',
+      data: { batchSize: config.chat.expiredMessageSweepBatchSize },
+      options: {
+        jobId: 'sweep-expired-messages',
+        repeat: { every: config.chat.expiredMessageSweepIntervalMs },
+      },
+    });
+
+    // Schedule the recurring sweep for signed direct uploads that were never completed
+    await queueService.addJob({
+      queue: 'QUEUE__MEDIA',
+      job: 'SWEEP_EXPIRED_DIRECT_UPLOADS',
+      data: { batchSize: config.upload.directUploadSweepBatchSize },
+      options: {
+        jobId: 'sweep-expired-direct-uploads',
+        repeat: { every: config.upload.directUploadSweepIntervalMs },
+      },
+    });
+
     // Start HTTP server
     server.listen(config.port, config.host, () => {
       logger.info(`
@@ -144,6 +169,6 @@ const startServer = async (): Promise<void> => {
   }
 };
 
-startServer();
+void startServer();
 
 export default server;
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { ApiKey, IApiKey, ApiKeyScope, IUser, User } from '../models';
+import config from '../config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+
+/**
+ * Prefix that marks a string as one of our API keys
+ */
+const KEY_PREFIX = 'ak_';
+
+/**
+ * Characters of the key kept in clear to identify it in listings
+ */
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+}
+
+/**
+ * API Key Service
+ * Personal API keys for integrations. Keys are stored as SHA-256 hashes and checked
+ * against the database on every request, so revocation takes effect immediately.
+ */
+class ApiKeyService {
+  private static instance: ApiKeyService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService();
+    }
+    return ApiKeyService.instance;
+  }
+
+  /**
+   * Hash a key for storage and lookup
+   */
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Create a key for a user. The plain key is only returned here.
+   */
+  public async create(
+    userId: string,
+    createdBy: string,
+    input: CreateApiKeyInput
+  ): Promise<{ apiKey: IApiKey; key: string }> {
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+
+    const activeKeys = await ApiKey.countDocuments({
+      userId,
+      revokedAt: { $exists: false },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+    });
+    if (activeKeys >= config.apiKeys.maxPerUser) {
+      throw ApiError.badRequest(MESSAGES.AUTH.API_KEY_LIMIT_REACHED);
+    }
+
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await ApiKey.create({
+      userId,
+      createdBy,
+      name: input.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      scopes: [...new Set(input.scopes)],
+      expiresAt: input.expiresAt,
+    });
+
+    logger.info(`API key ${apiKey._id} created for user ${userId} by ${createdBy}`);
+
+    return { apiKey, key };
+  }
+
+  /**
+   * List a user's keys that have not been revoked, newest first
+   */
+  public async list(userId: string): Promise<IApiKey[]> {
+    return ApiKey.find({ userId, revokedAt: { $exists: false } }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Revoke a user's key
+   */
+  public async revoke(userId: string, keyId: string): Promise<boolean> {
+    const result = await ApiKey.updateOne(
+      { _id: keyId, userId, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+
+    if (result.modifiedCount > 0) {
+      logger.info(`API key ${keyId} revoked for user ${userId}`);
+    }
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Resolve a presented key to its owner
+   */
+  public async authenticate(key: string, ip?: string): Promise<{ apiKey: IApiKey; user: IUser }> {
+    if (!key.startsWith(KEY_PREFIX)) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.API_KEY_INVALID);
+    }
+
+    const apiKey = await ApiKey.findOne({ keyHash: this.hashKey(key) });
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.API_KEY_INVALID);
+    }
+
+    const user = await User.findById(apiKey.userId);
+    if (!user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.API_KEY_INVALID);
+    }
+    if (!user.isActive) {
+      throw ApiError.forbidden(MESSAGES.AUTH.ACCOUNT_DEACTIVATED);
+    }
+
+    this.touch(apiKey, ip);
+
+    return { apiKey, user };
+  }
+
+  /**
+   * Record key usage, at most once per interval to avoid a write on every request
+   */
+  private touch(apiKey: IApiKey, ip?: string): void {
+    const interval = config.apiKeys.lastUsedUpdateIntervalSeconds * 1000;
+    if (apiKey.lastUsedAt && Date.now() - apiKey.lastUsedAt.getTime() < interval) {
+      return;
+    }
+
+    ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date(), lastUsedIp: ip }).catch(
+      (error) => logger.error('Failed to record API key usage:', error)
+    );
+  }
+}
+
+export const apiKeyService = ApiKeyService.getInstance();
+export default apiKeyService;
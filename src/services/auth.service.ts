@@ -1,5 +1,14 @@
 import crypto from 'crypto';
-import { User, Session, IUser, IDeviceInfo } from '../models';
+import * as argon2 from 'argon2';
+import {
+  User,
+  Session,
+  ISession,
+  IUser,
+  IDeviceInfo,
+  NotificationType,
+  LoginMethod,
+} from '../models';
 import {
   generateAccessToken,
   generateRefreshToken,
@@ -10,7 +19,18 @@ import { ApiError } from '../utils/ApiError';
 import logger from '../utils/logger';
 import { MESSAGES } from '../constants/messages';
 import otpService from './otp.service';
+import twoFactorService from './twoFactor.service';
+import passkeyService from './passkey.service';
+import oauthService from './oauth.service';
+import { notificationService } from './notification.service';
+import { sessionCacheService } from './sessionCache.service';
+import { socketService } from './socket.service';
+import { lockoutService } from './lockout.service';
+import { passwordService } from './password.service';
+import { loginAlertService } from './loginAlert.service';
 import { OtpPurpose } from '../types/otp.types';
+import { TwoFactorMethod, type TwoFactorChallengeResult } from '../types/twoFactor.types';
+import type { AuthenticationResponseJSON } from '../types/webauthn.types';
 
 /**
  * Authentication result interface
@@ -44,6 +64,23 @@ export interface LoginInput {
   password: string;
 }
 
+/**
+ * How many rotated refresh token hashes each session remembers
+ */
+const MAX_PREVIOUS_REFRESH_TOKENS = 100;
+
+/**
+ * Hash checked when the email is unknown, so a failed login takes as long either way
+ */
+let dummyPasswordHash: Promise<string> | null = null;
+const verifyDummyPassword = async (password: string): Promise<boolean> => {
+  dummyPasswordHash ??= argon2.hash(crypto.randomBytes(16).toString('hex'), {
+    type: argon2.argon2id,
+  });
+  await argon2.verify(await dummyPasswordHash, password);
+  return false;
+};
+
 /**
  * Hash refresh token for secure storage
  */
@@ -64,6 +101,8 @@ export const register = async (
     throw ApiError.conflict(MESSAGES.AUTH.EMAIL_EXISTS);
   }
 
+  passwordService.assertNotBreached(input.password);
+
   // Create user
   const user = await User.create({
     email: input.email.toLowerCase(),
@@ -98,6 +137,13 @@ export const register = async (
 
   logger.info(`User registered: ${user.email}`);
 
+  await loginAlertService.recordLogin(
+    user,
+    session._id.toString(),
+    deviceInfo,
+    LoginMethod.REGISTRATION
+  );
+
   await otpService.sendOtp(user.email, OtpPurpose.REGISTRATION, user.firstName);
 
   return {
@@ -112,23 +158,129 @@ export const register = async (
   };
 };
 
+/**
+ * Mark the account behind a verified email address as verified
+ */
+export const markEmailVerified = async (email: string): Promise<void> => {
+  const user = await User.findOneAndUpdate(
+    { email: email.toLowerCase(), isEmailVerified: false },
+    { isEmailVerified: true }
+  );
+
+  if (user) {
+    // Cached session checks carry the old verification state
+    await sessionCacheService.invalidateUser(user._id.toString());
+    logger.info(`Email verified: ${user.email}`);
+  }
+};
+
 /**
  * Login user
+ * Returns a challenge instead of a session when two-factor authentication is enabled.
+ * Unknown emails and wrong passwords are indistinguishable, including for lockouts.
  */
-export const login = async (input: LoginInput, deviceInfo: IDeviceInfo): Promise<AuthResult> => {
-  const user = await User.findOne({ email: input.email.toLowerCase() }).select('+password');
+export const login = async (
+  input: LoginInput,
+  deviceInfo: IDeviceInfo
+): Promise<AuthResult | TwoFactorChallengeResult> => {
+  const email = input.email.toLowerCase();
+  await lockoutService.assertCanAttempt(email, deviceInfo.ip);
 
-  if (!user) {
+  const user = await User.findOne({ email }).select('+password');
+
+  const isPasswordValid = user
+    ? await user.comparePassword(input.password)
+    : await verifyDummyPassword(input.password);
+
+  if (!user || !isPasswordValid) {
+    await lockoutService.recordFailure(email, deviceInfo.ip, user);
     throw ApiError.unauthorized(MESSAGES.AUTH.INVALID_CREDENTIALS);
   }
 
+  await lockoutService.recordSuccess(email);
+
   if (!user.isActive) {
     throw ApiError.forbidden(MESSAGES.AUTH.ACCOUNT_DEACTIVATED);
   }
 
-  const isPasswordValid = await user.comparePassword(input.password);
-  if (!isPasswordValid) {
-    throw ApiError.unauthorized(MESSAGES.AUTH.INVALID_CREDENTIALS);
+  if (user.passwordResetRequired) {
+    throw ApiError.forbidden(MESSAGES.AUTH.PASSWORD_RESET_REQUIRED);
+  }
+
+  if (user.twoFactorEnabled) {
+    logger.info(`Two-factor challenge issued for: ${user.email}`);
+    return twoFactorService.createChallenge(user._id.toString(), deviceInfo);
+  }
+
+  return startSession(user, deviceInfo, LoginMethod.PASSWORD);
+};
+
+/**
+ * Complete a two-factor login challenge and open the session
+ */
+export const verifyTwoFactorLogin = async (
+  challengeToken: string,
+  method: TwoFactorMethod,
+  code: string
+): Promise<AuthResult> => {
+  const challenge = await twoFactorService.completeChallenge(challengeToken, method, code);
+
+  const user = await User.findById(challenge.userId);
+  if (!user || !user.isActive) {
+    throw ApiError.unauthorized(MESSAGES.AUTH.USER_INACTIVE);
+  }
+
+  return startSession(user, challenge.deviceInfo, LoginMethod.TWO_FACTOR);
+};
+
+/**
+ * Login with a passkey
+ * A passkey with user verification is already multi-factor, so no 2FA challenge follows
+ */
+export const loginWithPasskey = async (
+  credential: AuthenticationResponseJSON,
+  deviceInfo: IDeviceInfo
+): Promise<AuthResult> => {
+  const user = await passkeyService.verifyAuthentication(credential);
+
+  return startSession(user, deviceInfo, LoginMethod.PASSKEY);
+};
+
+/**
+ * Login with an OAuth / OIDC provider
+ * Two-factor authentication still applies: the provider's own MFA is not visible to us
+ */
+export const loginWithOAuth = async (
+  providerId: string,
+  code: string,
+  state: string,
+  deviceInfo: IDeviceInfo
+): Promise<AuthResult | TwoFactorChallengeResult> => {
+  const user = await oauthService.authenticate(providerId, code, state);
+
+  if (user.passwordResetRequired) {
+    throw ApiError.forbidden(MESSAGES.AUTH.PASSWORD_RESET_REQUIRED);
+  }
+
+  if (user.twoFactorEnabled) {
+    logger.info(`Two-factor challenge issued for: ${user.email}`);
+    return twoFactorService.createChallenge(user._id.toString(), deviceInfo);
+  }
+
+  return startSession(user, deviceInfo, LoginMethod.OAUTH);
+};
+
+/**
+ * Open (or refresh) the session for a device once the user is fully authenticated
+ */
+const startSession = async (
+  user: IUser,
+  deviceInfo: IDeviceInfo,
+  method: LoginMethod
+): Promise<AuthResult> => {
+  // A "this wasn't me" report locks every sign-in method until the password is reset
+  if (user.passwordResetRequired) {
+    throw ApiError.forbidden(MESSAGES.AUTH.PASSWORD_RESET_REQUIRED);
   }
 
   // Check for existing active session for this device
@@ -169,6 +321,8 @@ export const login = async (input: LoginInput, deviceInfo: IDeviceInfo): Promise
   user.lastLoginAt = new Date();
   await user.save();
 
+  await loginAlertService.recordLogin(user, session._id.toString(), deviceInfo, method);
+
   logger.info(
     `User logged in: ${user.email} from ${deviceInfo.deviceName} (${session ? 'Session updated' : 'New session'})`
   );
@@ -185,18 +339,61 @@ export const login = async (input: LoginInput, deviceInfo: IDeviceInfo): Promise
   };
 };
 
+/**
+ * Drop cached session checks and disconnect the live sockets of revoked sessions
+ */
+const onSessionsRevoked = async (sessionIds: string[]): Promise<void> => {
+  await sessionCacheService.invalidate(sessionIds);
+  socketService.disconnectSessions(sessionIds);
+};
+
+/**
+ * Revoke a session whose rotated refresh token was presented again.
+ * Either the legitimate client or an attacker holds a stolen copy, and we cannot tell which.
+ */
+const handleRefreshTokenReuse = async (
+  session: ISession,
+  deviceInfo?: IDeviceInfo
+): Promise<void> => {
+  await Session.updateOne({ _id: session._id }, { isRevoked: true });
+  await onSessionsRevoked([session._id.toString()]);
+
+  logger.warn(
+    `Security event: refresh token reuse for user ${session.userId}, session ${session._id} ` +
+      `(device ${session.deviceInfo.deviceName}, presented from ${deviceInfo?.ip ?? 'unknown IP'}). Session revoked.`
+  );
+
+  try {
+    await notificationService.notifyUser(session.userId, {
+      title: MESSAGES.AUTH.TOKEN_REUSE_ALERT_TITLE,
+      body: MESSAGES.AUTH.TOKEN_REUSE_ALERT_BODY,
+      type: NotificationType.ALERT,
+      data: {
+        reason: 'refresh_token_reuse',
+        sessionId: session._id.toString(),
+        deviceName: session.deviceInfo.deviceName,
+        ip: deviceInfo?.ip,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to send token reuse alert:', error);
+  }
+};
+
 /**
  * Refresh access token
+ * Every use rotates the refresh token; presenting a rotated token again revokes the session.
  */
 export const refreshAccessToken = async (
-  refreshToken: string
+  refreshToken: string,
+  deviceInfo?: IDeviceInfo
 ): Promise<{ accessToken: string; refreshToken: string }> => {
   // Verify refresh token
   const payload = await verifyRefreshToken(refreshToken);
   const { userId, sessionId } = payload;
 
   // Find session
-  const session = await Session.findById(sessionId);
+  const session = await Session.findById(sessionId).select('+previousRefreshTokenHashes');
   if (!session || session.isRevoked) {
     throw ApiError.unauthorized(MESSAGES.AUTH.INVALID_SESSION);
   }
@@ -204,10 +401,11 @@ export const refreshAccessToken = async (
   // Verify token hash
   const tokenHash = hashToken(refreshToken);
   if (session.refreshTokenHash !== tokenHash) {
-    // Token reuse detected - revoke all sessions for security
-    await Session.updateMany({ userId }, { isRevoked: true });
-    logger.warn(`Token reuse detected for user: ${userId}`);
-    throw ApiError.unauthorized(MESSAGES.AUTH.TOKEN_REUSE);
+    if (session.previousRefreshTokenHashes.includes(tokenHash)) {
+      await handleRefreshTokenReuse(session, deviceInfo);
+      throw ApiError.unauthorized(MESSAGES.AUTH.TOKEN_REUSE);
+    }
+    throw ApiError.unauthorized(MESSAGES.AUTH.INVALID_SESSION);
   }
 
   // Check if session expired
@@ -231,10 +429,20 @@ export const refreshAccessToken = async (
   );
   const newRefreshToken = await generateRefreshToken(user._id.toString(), session._id.toString());
 
-  // Update session with new token hash
-  session.refreshTokenHash = hashToken(newRefreshToken);
-  session.lastActivityAt = new Date();
-  await session.save();
+  // Rotate atomically: if another request already used this token, it counts as reuse
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: tokenHash, isRevoked: false },
+    {
+      $set: { refreshTokenHash: hashToken(newRefreshToken), lastActivityAt: new Date() },
+      $push: {
+        previousRefreshTokenHashes: { $each: [tokenHash], $slice: -MAX_PREVIOUS_REFRESH_TOKENS },
+      },
+    }
+  );
+  if (!rotated) {
+    await handleRefreshTokenReuse(session, deviceInfo);
+    throw ApiError.unauthorized(MESSAGES.AUTH.TOKEN_REUSE);
+  }
 
   logger.debug(`Token refreshed for user: ${user.email}`);
 
@@ -252,6 +460,7 @@ export const logout = async (sessionId: string): Promise<void> => {
   if (session) {
     session.isRevoked = true;
     await session.save();
+    await onSessionsRevoked([sessionId]);
     logger.info(`Session logged out: ${sessionId}`);
   }
 };
@@ -269,7 +478,14 @@ export const logoutAllDevices = async (
     query._id = { $ne: exceptSessionId };
   }
 
-  const result = await Session.updateMany(query, { isRevoked: true });
+  const sessions = await Session.find(query).select('_id');
+  const sessionIds = sessions.map((session) => session._id.toString());
+
+  const result = await Session.updateMany(
+    { _id: { $in: sessionIds }, isRevoked: false },
+    { isRevoked: true }
+  );
+  await onSessionsRevoked(sessionIds);
   logger.info(`All sessions logged out for user: ${userId}`);
 
   return result.modifiedCount;
@@ -299,6 +515,9 @@ export const getActiveSessions = async (userId: string) => {
  */
 export const revokeSession = async (userId: string, sessionId: string): Promise<boolean> => {
   const result = await Session.updateOne({ _id: sessionId, userId }, { isRevoked: true });
+  if (result.modifiedCount > 0) {
+    await onSessionsRevoked([sessionId]);
+  }
 
   return result.modifiedCount > 0;
 };
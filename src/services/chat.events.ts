@@ -1,6 +1,8 @@
 import { Socket, Server } from 'socket.io';
-import { chatService } from './chat.service';
-import { MessageType, IAttachment } from '../models';
+import mongoose from 'mongoose';
+import { chatService, ExpiredMessageBatch } from './chat.service';
+import { scheduledMessageService } from './scheduledMessage.service';
+import { MessageType, IAttachment, IMessage, ConversationParticipant } from '../models';
 import logger from '../utils/logger';
 
 /**
@@ -20,6 +22,7 @@ export const CHAT_EVENTS_C2S = {
   SEND_MESSAGE: 'chat:message:send',
   EDIT_MESSAGE: 'chat:message:edit',
   DELETE_MESSAGE: 'chat:message:delete',
+  FORWARD_MESSAGE: 'chat:message:forward',
   TYPING_START: 'chat:typing:start',
   TYPING_STOP: 'chat:typing:stop',
   MARK_READ: 'chat:message:read',
@@ -30,6 +33,10 @@ export const CHAT_EVENTS_C2S = {
   GET_PRESENCE: 'chat:presence:get',
   PIN_MESSAGE: 'chat:message:pin',
   UNPIN_MESSAGE: 'chat:message:unpin',
+  MARK_THREAD_READ: 'chat:thread:read',
+  POLL_VOTE: 'chat:poll:vote',
+  POLL_UNVOTE: 'chat:poll:unvote',
+  POLL_CLOSE: 'chat:poll:close',
 } as const;
 
 /**
@@ -50,6 +57,9 @@ export const CHAT_EVENTS_S2C = {
   ERROR: 'chat:error',
   MESSAGE_PINNED: 'chat:message:pinned',
   MESSAGE_UNPINNED: 'chat:message:unpinned',
+  THREAD_REPLY_NEW: 'chat:thread:reply:new',
+  THREAD_UPDATED: 'chat:thread:updated',
+  THREAD_READ_RECEIPT: 'chat:thread:read:receipt',
 } as const;
 
 /**
@@ -62,6 +72,15 @@ interface SendMessagePayload {
   attachments?: IAttachment[];
   replyTo?: string;
   mentions?: string[];
+  threadRootId?: string;
+  scheduledAt?: string;
+  poll?: {
+    question: string;
+    options: string[];
+    allowMultiple?: boolean;
+    isAnonymous?: boolean;
+    closesAt?: string;
+  };
 }
 
 interface EditMessagePayload {
@@ -78,6 +97,11 @@ interface TypingPayload {
   conversationId: string;
 }
 
+interface ForwardMessagePayload {
+  messageId: string;
+  conversationIds: string[];
+}
+
 interface MarkReadPayload {
   conversationId: string;
   messageId?: string;
@@ -101,6 +125,19 @@ interface PinPayload {
   messageId: string;
 }
 
+interface MarkThreadReadPayload {
+  threadRootId: string;
+}
+
+interface PollVotePayload {
+  messageId: string;
+  optionIds?: string[];
+}
+
+interface PollClosePayload {
+  messageId: string;
+}
+
 /**
  * Callback response type
  */
@@ -149,7 +186,7 @@ export function registerChatEvents(socket: AuthenticatedSocket, io: Server): voi
 
         // Join the room
         const roomName = `conversation:${conversationId}`;
-        socket.join(roomName);
+        await socket.join(roomName);
 
         logger.debug(`User ${userId} joined room ${roomName}`);
 
@@ -192,7 +229,7 @@ export function registerChatEvents(socket: AuthenticatedSocket, io: Server): voi
     async (conversationId: string, callback?: (response: CallbackResponse) => void) => {
       try {
         const roomName = `conversation:${conversationId}`;
-        socket.leave(roomName);
+        await socket.leave(roomName);
 
         // Clear typing indicator
         await chatService.clearTyping(conversationId, userId);
@@ -224,21 +261,59 @@ export function registerChatEvents(socket: AuthenticatedSocket, io: Server): voi
     CHAT_EVENTS_C2S.SEND_MESSAGE,
     async (payload: SendMessagePayload, callback?: (response: CallbackResponse) => void) => {
       try {
-        const { conversationId, content, type, attachments, replyTo, mentions } = payload;
+        const {
+          conversationId,
+          content,
+          type,
+          attachments,
+          replyTo,
+          mentions,
+          threadRootId,
+          scheduledAt,
+          poll,
+        } = payload;
+
+        if (scheduledAt) {
+          const scheduledMessage = await scheduledMessageService.scheduleMessage(
+            conversationId,
+            userId,
+            content,
+            {
+              type,
+              attachments,
+              replyTo,
+              mentions,
+              threadRootId,
+              scheduledAt: new Date(scheduledAt),
+            }
+          );
+
+          callback?.({ success: true, data: { scheduledMessage } });
+          return;
+        }
 
         const message = await chatService.sendMessage(conversationId, userId, content, {
           type,
           attachments,
           replyTo,
           mentions,
+          threadRootId,
+          poll: poll && {
+            ...poll,
+            closesAt: poll.closesAt ? new Date(poll.closesAt) : undefined,
+          },
         });
 
-        // Broadcast to conversation room - all participants in the room will receive this
-        const roomName = `conversation:${conversationId}`;
-        io.to(roomName).emit(CHAT_EVENTS_S2C.MESSAGE_NEW, {
-          conversationId,
-          message,
-        });
+        if (message.threadRootId) {
+          await emitThreadReply(io, message);
+        } else {
+          // Broadcast to conversation room - all participants in the room will receive this
+          const roomName = `conversation:${conversationId}`;
+          io.to(roomName).emit(CHAT_EVENTS_S2C.MESSAGE_NEW, {
+            conversationId,
+            message,
+          });
+        }
 
         callback?.({ success: true, data: { message } });
       } catch (error) {
@@ -316,6 +391,30 @@ export function registerChatEvents(socket: AuthenticatedSocket, io: Server): voi
     }
   );
 
+  /**
+   * Forward a message to other conversations
+   */
+  socket.on(
+    CHAT_EVENTS_C2S.FORWARD_MESSAGE,
+    async (payload: ForwardMessagePayload, callback?: (response: CallbackResponse) => void) => {
+      try {
+        const { messageId, conversationIds = [] } = payload;
+
+        const messages = await chatService.forwardMessage(messageId, userId, conversationIds);
+
+        for (const message of messages) {
+          await emitNewMessage(io, message);
+        }
+
+        callback?.({ success: true, data: { messages } });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to forward message';
+        logger.error('Error forwarding message:', error);
+        callback?.({ success: false, error: errorMessage });
+      }
+    }
+  );
+
   // =====================
   // TYPING INDICATORS
   // =====================
@@ -530,7 +629,7 @@ export function registerChatEvents(socket: AuthenticatedSocket, io: Server): voi
       try {
         const { userIds } = payload;
 
-        const presence = await chatService.getUserPresence(userIds);
+        const presence = await chatService.getUserPresence(userIds, userId);
 
         // Convert Map to object for serialization
         const presenceObj: Record<string, { isOnline: boolean; lastSeen?: Date }> = {};
@@ -604,6 +703,102 @@ export function registerChatEvents(socket: AuthenticatedSocket, io: Server): voi
     }
   );
 
+  // =====================
+  // THREADS
+  // =====================
+
+  /**
+   * Mark a thread as read
+   */
+  socket.on(
+    CHAT_EVENTS_C2S.MARK_THREAD_READ,
+    async (payload: MarkThreadReadPayload, callback?: (response: CallbackResponse) => void) => {
+      try {
+        const { threadRootId } = payload;
+
+        const receipt = await chatService.markThreadAsRead(threadRootId, userId);
+
+        // Sync the user's other devices
+        io.to(`user:${userId}`).emit(CHAT_EVENTS_S2C.THREAD_READ_RECEIPT, {
+          ...receipt,
+          userId,
+        });
+
+        callback?.({ success: true, data: receipt });
+      } catch (error) {
+        logger.error('Error marking thread as read:', error);
+        callback?.({ success: false, error: 'Failed to mark thread as read' });
+      }
+    }
+  );
+
+  // =====================
+  // POLLS
+  // =====================
+
+  /**
+   * Vote on a poll
+   */
+  socket.on(
+    CHAT_EVENTS_C2S.POLL_VOTE,
+    async (payload: PollVotePayload, callback?: (response: CallbackResponse) => void) => {
+      try {
+        const { messageId, optionIds = [] } = payload;
+
+        const message = await chatService.votePoll(messageId, userId, optionIds);
+        emitMessageUpdated(io, message);
+
+        callback?.({ success: true, data: { message } });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to vote';
+        logger.error('Error voting on poll:', error);
+        callback?.({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  /**
+   * Remove votes from a poll
+   */
+  socket.on(
+    CHAT_EVENTS_C2S.POLL_UNVOTE,
+    async (payload: PollVotePayload, callback?: (response: CallbackResponse) => void) => {
+      try {
+        const { messageId, optionIds } = payload;
+
+        const message = await chatService.unvotePoll(messageId, userId, optionIds);
+        emitMessageUpdated(io, message);
+
+        callback?.({ success: true, data: { message } });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to remove vote';
+        logger.error('Error removing poll vote:', error);
+        callback?.({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  /**
+   * Close a poll early
+   */
+  socket.on(
+    CHAT_EVENTS_C2S.POLL_CLOSE,
+    async (payload: PollClosePayload, callback?: (response: CallbackResponse) => void) => {
+      try {
+        const { messageId } = payload;
+
+        const message = await chatService.closePoll(messageId, userId);
+        emitMessageUpdated(io, message);
+
+        callback?.({ success: true, data: { message } });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to close poll';
+        logger.error('Error closing poll:', error);
+        callback?.({ success: false, error: errorMessage });
+      }
+    }
+  );
+
   // =====================
   // DISCONNECT HANDLER
   // =====================
@@ -645,6 +840,85 @@ export async function emitToConversation(
   io.to(roomName).emit(event, data);
 }
 
+/**
+ * Emit a newly sent message to its conversation and to participants' personal rooms
+ */
+export async function emitNewMessage(io: Server, message: IMessage): Promise<void> {
+  if (message.threadRootId) {
+    await emitThreadReply(io, message);
+    return;
+  }
+
+  const conversationId = message.conversationId.toString();
+  const payload = { conversationId, message };
+
+  io.to(`conversation:${conversationId}`).emit(CHAT_EVENTS_S2C.MESSAGE_NEW, payload);
+
+  // Participants who have not joined the conversation room still get it on their user room
+  const participants = await ConversationParticipant.find({ conversationId, isActive: true })
+    .select('userId')
+    .lean();
+
+  const sender = message.senderId as unknown as
+    | mongoose.Types.ObjectId
+    | { _id: mongoose.Types.ObjectId };
+  const senderId =
+    sender instanceof mongoose.Types.ObjectId ? sender.toString() : sender._id.toString();
+  for (const participant of participants) {
+    const participantId = participant.userId.toString();
+    if (participantId !== senderId) {
+      io.to(`user:${participantId}`).emit(CHAT_EVENTS_S2C.MESSAGE_NEW, payload);
+    }
+  }
+}
+
+/**
+ * Emit an updated message (edits, poll tallies, link previews) to its conversation
+ */
+export function emitMessageUpdated(io: Server, message: IMessage): void {
+  io.to(`conversation:${message.conversationId}`).emit(CHAT_EVENTS_S2C.MESSAGE_UPDATED, {
+    conversationId: message.conversationId.toString(),
+    message,
+  });
+}
+
+/**
+ * Emit deletions of expired disappearing messages to their conversations
+ */
+export function emitExpiredMessages(io: Server, batches: ExpiredMessageBatch[]): void {
+  for (const { conversationId, messageIds } of batches) {
+    const roomName = `conversation:${conversationId}`;
+    for (const messageId of messageIds) {
+      io.to(roomName).emit(CHAT_EVENTS_S2C.MESSAGE_DELETED, {
+        conversationId,
+        messageId,
+        expired: true,
+      });
+    }
+  }
+}
+
+/**
+ * Emit a new thread reply and the updated root summary to a conversation
+ */
+export async function emitThreadReply(io: Server, message: IMessage): Promise<void> {
+  if (!message.threadRootId) {
+    return;
+  }
+
+  const conversationId = message.conversationId.toString();
+  const roomName = `conversation:${conversationId}`;
+  const thread = await chatService.getThreadSummary(message.threadRootId.toString());
+
+  io.to(roomName).emit(CHAT_EVENTS_S2C.THREAD_REPLY_NEW, {
+    conversationId,
+    threadRootId: thread.threadRootId,
+    message,
+  });
+
+  io.to(roomName).emit(CHAT_EVENTS_S2C.THREAD_UPDATED, thread);
+}
+
 /**
  * Emit presence update for a user to all their conversations
  */
@@ -672,6 +946,10 @@ export async function broadcastPresence(
 export default {
   registerChatEvents,
   emitToConversation,
+  emitNewMessage,
+  emitExpiredMessages,
+  emitMessageUpdated,
+  emitThreadReply,
   broadcastPresence,
   CHAT_EVENTS_C2S,
   CHAT_EVENTS_S2C,
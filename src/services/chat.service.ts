@@ -3,15 +3,27 @@ import {
   Conversation,
   IConversation,
   ConversationType,
+  MessageRetention,
   Message,
   IMessage,
   MessageType,
   IAttachment,
+  IMessageRevision,
+  IPoll,
+  IForwardedFrom,
+  ILocation,
   ConversationParticipant,
   IConversationParticipant,
   ParticipantRole,
+  User,
+  IMedia,
 } from '../models';
 import { redisService } from './redis.service';
+import storageService from './storage.service';
+import { mediaService } from './media.service';
+import { linkPreviewService } from './linkPreview.service';
+import { userBlockService } from './userBlock.service';
+import { queueService } from '../queues/queue.service';
 import logger from '../utils/logger';
 import { MESSAGES } from '../constants/messages';
 
@@ -25,6 +37,17 @@ export interface PaginationOptions {
   after?: Date;
 }
 
+/**
+ * Poll definition supplied when sending a poll message
+ */
+export interface PollInput {
+  question: string;
+  options: string[];
+  allowMultiple?: boolean;
+  isAnonymous?: boolean;
+  closesAt?: Date;
+}
+
 /**
  * Send message options
  */
@@ -33,6 +56,131 @@ export interface SendMessageOptions {
   attachments?: IAttachment[];
   replyTo?: string;
   mentions?: string[];
+  threadRootId?: string;
+  poll?: PollInput;
+  location?: ILocation;
+  forwardedFrom?: IForwardedFrom;
+}
+
+/**
+ * Poll tallies as seen by a participant
+ */
+export interface PollResults {
+  messageId: string;
+  conversationId: string;
+  question: string;
+  allowMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt?: Date;
+  closedAt?: Date;
+  isClosed: boolean;
+  totalVotes: number;
+  options: Array<{
+    optionId: string;
+    text: string;
+    voteCount: number;
+    voters?: mongoose.Types.ObjectId[]; // Omitted for anonymous polls
+  }>;
+  myVotes: string[];
+}
+
+/**
+ * Thread pagination options
+ */
+export interface ThreadPaginationOptions {
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Thread summary stored on the root message
+ */
+export interface ThreadSummary {
+  conversationId: string;
+  threadRootId: string;
+  replyCount: number;
+  lastReplyAt?: Date;
+  lastReplyBy?: mongoose.Types.ObjectId;
+  threadParticipants: mongoose.Types.ObjectId[];
+}
+
+/**
+ * Thread replies page
+ */
+export interface ThreadRepliesResult {
+  root: IMessage;
+  replies: IMessage[];
+  unreadCount: number;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * Edit history of a message
+ */
+export interface MessageHistoryResult {
+  messageId: string;
+  conversationId: string;
+  content: string;
+  editedAt?: Date;
+  revisions: IMessageRevision[];
+  isDeleted: boolean;
+  deletedAt?: Date;
+  deletedBy?: mongoose.Types.ObjectId;
+  // Only returned to moderators, through the moderation service
+  deletedContent?: string;
+  deletedAttachments?: IAttachment[];
+}
+
+/**
+ * Message search options
+ */
+export interface SearchMessagesOptions {
+  query: string;
+  conversationId?: string;
+  senderId?: string;
+  type?: MessageType;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Highlighted snippet for a search hit
+ */
+export interface SearchHighlight {
+  field: 'content' | 'attachment' | 'sender';
+  snippet: string;
+  matches: Array<{ start: number; length: number }>;
+}
+
+/**
+ * Message search result page
+ */
+export interface SearchMessagesResult {
+  results: Array<{ message: IMessage; highlights: SearchHighlight[] }>;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * Conversation updates
+ */
+export interface UpdateConversationOptions {
+  name?: string;
+  description?: string;
+  avatar?: string;
+  messageRetention?: MessageRetention;
+  linkPreviewsEnabled?: boolean;
+}
+
+/**
+ * Expired messages removed from a single conversation
+ */
+export interface ExpiredMessageBatch {
+  conversationId: string;
+  messageIds: string[];
 }
 
 /**
@@ -68,6 +216,8 @@ export interface ConversationWithDetails {
   lastMessage?: mongoose.Types.ObjectId;
   lastMessageAt?: Date;
   lastMessagePreview?: string;
+  messageRetention?: MessageRetention;
+  linkPreviewsEnabled?: boolean;
   metadata?: {
     totalMessages: number;
     pinnedMessages: mongoose.Types.ObjectId[];
@@ -94,6 +244,37 @@ const REDIS_KEYS = {
   UNREAD: (conversationId: string, userId: string) => `chat:unread:${conversationId}:${userId}`,
 };
 
+// Characters of context kept on each side of a search match
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * Escape user input for use inside a RegExp
+ */
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Message lifetime for each disappearing-message setting
+const RETENTION_MS: Record<MessageRetention, number | null> = {
+  [MessageRetention.OFF]: null,
+  [MessageRetention.ONE_DAY]: 24 * 60 * 60 * 1000,
+  [MessageRetention.SEVEN_DAYS]: 7 * 24 * 60 * 60 * 1000,
+  [MessageRetention.NINETY_DAYS]: 90 * 24 * 60 * 60 * 1000,
+};
+
+const RETENTION_LABELS: Record<MessageRetention, string> = {
+  [MessageRetention.OFF]: 'off',
+  [MessageRetention.ONE_DAY]: '24 hours',
+  [MessageRetention.SEVEN_DAYS]: '7 days',
+  [MessageRetention.NINETY_DAYS]: '90 days',
+};
+
+// Forwarding limits - messages forwarded often can only go to one conversation at a time
+const MAX_FORWARD_TARGETS = 5;
+const FREQUENTLY_FORWARDED_THRESHOLD = 5;
+
+// Poll limits
+const POLL_MIN_OPTIONS = 2;
+const POLL_MAX_OPTIONS = 10;
+
 // TTL values in seconds
 const TTL = {
   TYPING: 3,
@@ -127,6 +308,10 @@ class ChatService {
       throw new Error(MESSAGES.CHAT.CANNOT_MESSAGE_SELF);
     }
 
+    if (await userBlockService.isBlockedEitherWay(userId1, userId2)) {
+      throw new Error(MESSAGES.CHAT.USER_BLOCKED);
+    }
+
     const objectId1 = new mongoose.Types.ObjectId(userId1);
     const objectId2 = new mongoose.Types.ObjectId(userId2);
 
@@ -282,6 +467,8 @@ class ChatService {
       lastMessage: conversation.lastMessage,
       lastMessageAt: conversation.lastMessageAt,
       lastMessagePreview: conversation.lastMessagePreview,
+      messageRetention: conversation.messageRetention,
+      linkPreviewsEnabled: conversation.linkPreviewsEnabled,
       metadata: conversation.metadata,
       isActive: conversation.isActive,
       createdAt: conversation.createdAt,
@@ -352,6 +539,8 @@ class ChatService {
           lastMessage: conv.lastMessage,
           lastMessageAt: conv.lastMessageAt,
           lastMessagePreview: conv.lastMessagePreview,
+          messageRetention: conv.messageRetention,
+          linkPreviewsEnabled: conv.linkPreviewsEnabled,
           metadata: conv.metadata,
           isActive: conv.isActive,
           createdAt: conv.createdAt,
@@ -533,33 +722,47 @@ class ChatService {
   }
 
   /**
-   * Update conversation details (name, avatar, description)
+   * Update conversation details (name, avatar, description) and chat settings.
+   * Group changes are admin only; either participant may change settings in a direct chat.
    */
   async updateConversation(
     conversationId: string,
-    adminId: string,
-    updates: { name?: string; description?: string; avatar?: string }
+    userId: string,
+    updates: UpdateConversationOptions
   ): Promise<IConversation> {
-    const conversation = await this.getConversation(conversationId, adminId);
+    const conversation = await this.getConversation(conversationId, userId);
 
     if (!conversation) {
       throw new Error(MESSAGES.CHAT.CONVERSATION_NOT_FOUND);
     }
 
-    if (conversation.type === ConversationType.DIRECT) {
-      throw new Error('Cannot update direct conversation details');
-    }
+    const changesDetails =
+      updates.name !== undefined ||
+      updates.description !== undefined ||
+      updates.avatar !== undefined;
 
-    const adminObjectId = new mongoose.Types.ObjectId(adminId);
-    const isAdmin = conversation.admins?.some((a) => a.equals(adminObjectId));
-    if (!isAdmin) {
-      throw new Error(MESSAGES.CHAT.NOT_ADMIN);
+    if (conversation.type === ConversationType.DIRECT) {
+      if (changesDetails) {
+        throw new Error('Cannot update direct conversation details');
+      }
+    } else {
+      const userObjectId = new mongoose.Types.ObjectId(userId);
+      const isAdmin = conversation.admins?.some((a) => a.equals(userObjectId));
+      if (!isAdmin) {
+        throw new Error(MESSAGES.CHAT.NOT_ADMIN);
+      }
     }
 
     const updateData: Record<string, unknown> = {};
     if (updates.name !== undefined) updateData.name = updates.name.trim();
     if (updates.description !== undefined) updateData.description = updates.description.trim();
     if (updates.avatar !== undefined) updateData.avatar = updates.avatar;
+    if (updates.messageRetention !== undefined) {
+      updateData.messageRetention = updates.messageRetention;
+    }
+    if (updates.linkPreviewsEnabled !== undefined) {
+      updateData.linkPreviewsEnabled = updates.linkPreviewsEnabled;
+    }
 
     const updated = await Conversation.findByIdAndUpdate(
       conversationId,
@@ -567,6 +770,15 @@ class ChatService {
       { new: true }
     );
 
+    const previousRetention = conversation.messageRetention ?? MessageRetention.OFF;
+    if (updates.messageRetention !== undefined && updates.messageRetention !== previousRetention) {
+      const content =
+        updates.messageRetention === MessageRetention.OFF
+          ? 'Disappearing messages turned off'
+          : `Disappearing messages set to ${RETENTION_LABELS[updates.messageRetention]}`;
+      await this.sendSystemMessage(conversationId, userId, content);
+    }
+
     return updated!;
   }
 
@@ -583,7 +795,16 @@ class ChatService {
     content: string,
     options: SendMessageOptions = {}
   ): Promise<IMessage> {
-    const { type = MessageType.TEXT, attachments = [], replyTo, mentions = [] } = options;
+    const {
+      type = MessageType.TEXT,
+      attachments = [],
+      replyTo,
+      mentions = [],
+      threadRootId,
+      poll,
+      location,
+      forwardedFrom,
+    } = options;
 
     // Validate conversation access
     const conversation = await this.getConversation(conversationId, senderId);
@@ -591,11 +812,36 @@ class ChatService {
       throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
     }
 
+    // Direct messages are dropped while either side has blocked the other
+    if (conversation.type === ConversationType.DIRECT) {
+      const recipient = conversation.participants.find((id) => id.toString() !== senderId);
+      if (
+        recipient &&
+        (await userBlockService.isBlockedEitherWay(senderId, recipient.toString()))
+      ) {
+        throw new Error(MESSAGES.CHAT.USER_BLOCKED);
+      }
+    }
+
+    // Resolve thread root (replies to a reply land in the same thread)
+    const threadRoot = threadRootId
+      ? await this.resolveThreadRoot(threadRootId, conversationId)
+      : null;
+
     // Validate content
-    if (!content?.trim() && attachments.length === 0 && type !== MessageType.SYSTEM) {
+    if (
+      !content?.trim() &&
+      attachments.length === 0 &&
+      type !== MessageType.SYSTEM &&
+      type !== MessageType.POLL
+    ) {
       throw new Error(MESSAGES.CHAT.EMPTY_MESSAGE);
     }
 
+    const resolvedAttachments = await this.resolveAttachments(attachments, senderId, forwardedFrom);
+
+    const pollData = type === MessageType.POLL ? this.buildPoll(poll) : undefined;
+
     const senderObjectId = new mongoose.Types.ObjectId(senderId);
     const convObjectId = new mongoose.Types.ObjectId(conversationId);
 
@@ -603,20 +849,55 @@ class ChatService {
     const messageData: Partial<IMessage> = {
       conversationId: convObjectId,
       senderId: senderObjectId,
-      content: content?.trim() || '',
+      content: content?.trim() || pollData?.question || '',
       type,
-      attachments,
+      attachments: resolvedAttachments,
       mentions: mentions.map((id) => new mongoose.Types.ObjectId(id)),
     };
 
+    if (pollData) {
+      messageData.poll = pollData as IPoll;
+    }
+
+    if (location) {
+      messageData.location = location;
+    }
+
+    if (forwardedFrom) {
+      messageData.forwardedFrom = forwardedFrom;
+    }
+
+    const retentionMs = RETENTION_MS[conversation.messageRetention ?? MessageRetention.OFF];
+    if (retentionMs) {
+      messageData.expiresAt = new Date(Date.now() + retentionMs);
+    }
+
     if (replyTo) {
       messageData.replyTo = new mongoose.Types.ObjectId(replyTo);
     }
 
+    if (threadRoot) {
+      messageData.threadRootId = threadRoot._id;
+    }
+
     const message = await Message.create(messageData);
 
+    await this.queueLinkPreviews(message, conversation.linkPreviewsEnabled);
+    await this.queueMentionNotifications(message);
+
+    if (threadRoot) {
+      // Thread replies stay out of the main timeline: only the root and thread state change
+      await this.recordThreadReply(threadRoot, message);
+      await this.clearTyping(conversationId, senderId);
+      await message.populate('senderId', 'firstName lastName slug');
+      if (replyTo) {
+        await message.populate('replyTo', 'content senderId type');
+      }
+      return message;
+    }
+
     // Update conversation
-    const preview = this.generateMessagePreview(content, type, attachments);
+    const preview = this.generateMessagePreview(message.content, type, resolvedAttachments);
     await Conversation.findByIdAndUpdate(convObjectId, {
       lastMessage: message._id,
       lastMessageAt: message.createdAt,
@@ -647,6 +928,68 @@ class ChatService {
     return message;
   }
 
+  /**
+   * Resolve the root message of a thread within a conversation
+   */
+  private async resolveThreadRoot(messageId: string, conversationId: string): Promise<IMessage> {
+    const convObjectId = new mongoose.Types.ObjectId(conversationId);
+
+    let root = await Message.findById(new mongoose.Types.ObjectId(messageId));
+    if (root?.threadRootId) {
+      root = await Message.findById(root.threadRootId);
+    }
+
+    if (!root || root.isDeleted || !root.conversationId.equals(convObjectId)) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    if (root.type === MessageType.SYSTEM) {
+      throw new Error(MESSAGES.CHAT.INVALID_THREAD_ROOT);
+    }
+
+    return root;
+  }
+
+  /**
+   * Update the root summary and follower unread counts after a thread reply
+   */
+  private async recordThreadReply(root: IMessage, reply: IMessage): Promise<void> {
+    await Message.findByIdAndUpdate(root._id, {
+      $inc: { replyCount: 1 },
+      $set: { lastReplyAt: reply.createdAt, lastReplyBy: reply.senderId },
+      $addToSet: { threadParticipants: reply.senderId },
+    });
+
+    await Conversation.findByIdAndUpdate(root.conversationId, {
+      $inc: { 'metadata.totalMessages': 1 },
+    });
+
+    // Followers are the root author and everyone who has replied, minus the sender
+    const followers = [root.senderId, ...root.threadParticipants].filter(
+      (id) => !id.equals(reply.senderId)
+    );
+
+    if (followers.length === 0) {
+      return;
+    }
+
+    const baseFilter = {
+      conversationId: root.conversationId,
+      userId: { $in: followers },
+      isActive: true,
+    };
+
+    await ConversationParticipant.updateMany(
+      { ...baseFilter, 'threadReads.threadRootId': root._id },
+      { $inc: { 'threadReads.$.unreadCount': 1 } }
+    );
+
+    await ConversationParticipant.updateMany(
+      { ...baseFilter, 'threadReads.threadRootId': { $ne: root._id } },
+      { $push: { threadReads: { threadRootId: root._id, unreadCount: 1 } } }
+    );
+  }
+
   /**
    * Send a system message
    */
@@ -693,6 +1036,8 @@ class ChatService {
         return `📎 ${attachments[0]?.filename || 'File'}`;
       case MessageType.LOCATION:
         return '📍 Location';
+      case MessageType.POLL:
+        return `📊 ${content}`.substring(0, 100);
       case MessageType.SYSTEM:
         return content.substring(0, 100);
       default:
@@ -721,10 +1066,22 @@ class ChatService {
       throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
     }
 
-    message.content = newContent.trim();
-    message.isEdited = true;
-    message.editedAt = new Date();
-    await message.save();
+    const now = new Date();
+    const revision: IMessageRevision = {
+      content: message.content,
+      createdAt: message.editedAt ?? message.createdAt,
+      replacedAt: now,
+    };
+
+    // Store the superseded version alongside the edit in a single write
+    const updated = await Message.findByIdAndUpdate(
+      msgObjectId,
+      {
+        $set: { content: newContent.trim(), isEdited: true, editedAt: now, linkPreviews: [] },
+        $push: { editHistory: revision },
+      },
+      { new: true }
+    );
 
     // Update conversation preview if this was the last message
     const conversation = await Conversation.findById(message.conversationId);
@@ -738,7 +1095,9 @@ class ChatService {
       });
     }
 
-    return message;
+    await this.queueLinkPreviews(updated!, conversation?.linkPreviewsEnabled);
+
+    return updated!;
   }
 
   /**
@@ -764,11 +1123,7 @@ class ChatService {
         throw new Error(MESSAGES.CHAT.CANNOT_DELETE_OTHERS_MESSAGE);
       }
 
-      message.isDeleted = true;
-      message.deletedAt = new Date();
-      message.content = 'This message was deleted';
-      message.attachments = [];
-      await message.save();
+      await this.blankMessage(message, userObjectId);
     } else {
       // Delete only for this user
       await Message.findByIdAndUpdate(msgObjectId, {
@@ -778,116 +1133,703 @@ class ChatService {
   }
 
   /**
-   * Get messages in a conversation with pagination
+   * Remove a message for everyone on behalf of a moderator (no sender check)
    */
-  async getMessages(
-    conversationId: string,
-    userId: string,
-    options: PaginationOptions = {}
-  ): Promise<IMessage[]> {
-    const { limit = 50, before, after } = options;
+  async removeMessageAsModerator(messageId: string, moderatorId: string): Promise<IMessage> {
+    const message = await Message.findById(new mongoose.Types.ObjectId(messageId));
 
-    // Validate access
-    const conversation = await this.getConversation(conversationId, userId);
-    if (!conversation) {
-      throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
+    if (!message) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
     }
 
-    const userObjectId = new mongoose.Types.ObjectId(userId);
-    const convObjectId = new mongoose.Types.ObjectId(conversationId);
-
-    // Build query
-    const query: Record<string, unknown> = {
-      conversationId: convObjectId,
-      deletedFor: { $ne: userObjectId },
-    };
+    await this.blankMessage(message, new mongoose.Types.ObjectId(moderatorId));
+    return message;
+  }
 
-    if (before) {
-      query.createdAt = { $lt: before };
-    } else if (after) {
-      query.createdAt = { $gt: after };
+  /**
+   * Blank a message for everyone, keeping the original for moderation review
+   */
+  private async blankMessage(message: IMessage, deletedBy: mongoose.Types.ObjectId): Promise<void> {
+    if (!message.isDeleted) {
+      message.deletedContent = message.content;
+      message.deletedAttachments = message.attachments;
+      message.deletedBy = deletedBy;
     }
+    message.isDeleted = true;
+    message.deletedAt = new Date();
+    message.content = 'This message was deleted';
+    message.attachments = [];
+    await message.save();
+  }
 
-    const messages = await Message.find(query)
-      .sort({ createdAt: -1 })
+  /**
+   * Hard-delete a batch of expired disappearing messages (called by the chat queue sweeper)
+   */
+  async deleteExpiredMessages(limit: number = 500): Promise<ExpiredMessageBatch[]> {
+    const expired = await Message.find({ expiresAt: { $lte: new Date() } })
+      .sort({ expiresAt: 1 })
       .limit(limit)
-      .populate('senderId', 'firstName lastName slug')
-      .populate('replyTo', 'content senderId type')
-      .populate('mentions', 'firstName lastName slug')
+      .select('conversationId threadRootId attachments +deletedAttachments')
       .lean();
 
-    return messages.reverse();
-  }
+    if (expired.length === 0) {
+      return [];
+    }
 
-  // =====================
-  // REACTIONS
-  // =====================
+    await Message.deleteMany({ _id: { $in: expired.map((message) => message._id) } });
 
-  /**
-   * Add a reaction to a message
-   */
-  async addReaction(messageId: string, userId: string, emoji: string): Promise<IMessage> {
-    const msgObjectId = new mongoose.Types.ObjectId(messageId);
-    const userObjectId = new mongoose.Types.ObjectId(userId);
+    await this.deleteAttachmentMedia(
+      expired.flatMap((message) => [...message.attachments, ...(message.deletedAttachments ?? [])])
+    );
 
-    const message = await Message.findById(msgObjectId);
+    const byConversation = new Map<string, mongoose.Types.ObjectId[]>();
+    const repliesByRoot = new Map<string, number>();
 
-    if (!message) {
-      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
-    }
+    for (const message of expired) {
+      const key = message.conversationId.toString();
+      byConversation.set(key, [...(byConversation.get(key) ?? []), message._id]);
 
-    // Check if user already reacted with this emoji
-    const existingReaction = message.reactions.find(
-      (r) => r.emoji === emoji && r.userId.equals(userObjectId)
-    );
+      if (message.threadRootId) {
+        const rootKey = message.threadRootId.toString();
+        repliesByRoot.set(rootKey, (repliesByRoot.get(rootKey) ?? 0) + 1);
+      }
+    }
 
-    if (existingReaction) {
-      return message; // Already reacted
+    for (const [rootId, count] of repliesByRoot) {
+      await Message.updateOne(
+        { _id: new mongoose.Types.ObjectId(rootId) },
+        { $inc: { replyCount: -count } }
+      );
     }
 
-    // Add reaction
-    message.reactions.push({
-      emoji,
-      userId: userObjectId,
-      createdAt: new Date(),
-    });
-    await message.save();
+    const batches: ExpiredMessageBatch[] = [];
 
-    return message;
+    for (const [conversationId, messageIds] of byConversation) {
+      await Conversation.findByIdAndUpdate(conversationId, {
+        $inc: { 'metadata.totalMessages': -messageIds.length },
+        $pull: { 'metadata.pinnedMessages': { $in: messageIds } },
+      });
+
+      await this.refreshLastMessage(conversationId, messageIds);
+
+      batches.push({
+        conversationId,
+        messageIds: messageIds.map((id) => id.toString()),
+      });
+    }
+
+    return batches;
   }
 
   /**
-   * Remove a reaction from a message
+   * Point the conversation preview at its newest remaining message after deletions
    */
-  async removeReaction(messageId: string, userId: string, emoji: string): Promise<IMessage> {
-    const msgObjectId = new mongoose.Types.ObjectId(messageId);
-    const userObjectId = new mongoose.Types.ObjectId(userId);
+  private async refreshLastMessage(
+    conversationId: string,
+    removedIds: mongoose.Types.ObjectId[]
+  ): Promise<void> {
+    const conversation = await Conversation.findById(conversationId).select('lastMessage').lean();
+    const lastMessage = conversation?.lastMessage;
 
-    const message = await Message.findByIdAndUpdate(
-      msgObjectId,
-      {
-        $pull: {
-          reactions: { emoji, userId: userObjectId },
-        },
-      },
-      { new: true }
-    );
+    if (!lastMessage || !removedIds.some((id) => id.equals(lastMessage))) {
+      return;
+    }
 
-    if (!message) {
-      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    const latest = await Message.findOne({
+      conversationId: new mongoose.Types.ObjectId(conversationId),
+      threadRootId: null,
+    })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    if (!latest) {
+      await Conversation.findByIdAndUpdate(conversationId, {
+        $unset: { lastMessage: 1, lastMessageAt: 1, lastMessagePreview: 1 },
+      });
+      return;
     }
 
-    return message;
+    await Conversation.findByIdAndUpdate(conversationId, {
+      lastMessage: latest._id,
+      lastMessageAt: latest.createdAt,
+      lastMessagePreview: this.generateMessagePreview(
+        latest.content,
+        latest.type,
+        latest.attachments
+      ),
+    });
   }
 
   /**
-   * Toggle a reaction (add if not exists, remove if exists)
+   * Remove attachment media from Cloudinary, grouped by resource type
    */
-  async toggleReaction(
-    messageId: string,
-    userId: string,
-    emoji: string
-  ): Promise<{ message: IMessage; added: boolean }> {
+  private async deleteAttachmentMedia(attachments: IAttachment[]): Promise<void> {
+    // Forwarded copies share media, so keep anything another message still references
+    const candidateIds = [...new Set(attachments.map((a) => a.publicId).filter(Boolean))];
+    const stillReferenced = new Set<string>();
+    if (candidateIds.length > 0) {
+      for (const path of ['attachments.publicId', 'deletedAttachments.publicId']) {
+        const ids = await Message.distinct(path, { [path]: { $in: candidateIds } });
+        ids.forEach((id) => stillReferenced.add(String(id)));
+      }
+    }
+    attachments = attachments.filter((a) => !stillReferenced.has(a.publicId));
+
+    const publicIds: Record<'image' | 'video' | 'raw', string[]> = {
+      image: [],
+      video: [],
+      raw: [],
+    };
+
+    for (const attachment of attachments) {
+      if (!attachment.publicId) {
+        continue;
+      }
+
+      if (attachment.type === 'image') {
+        publicIds.image.push(attachment.publicId);
+      } else if (attachment.type === 'video' || attachment.type === 'audio') {
+        // Cloudinary stores audio under the video resource type
+        publicIds.video.push(attachment.publicId);
+      } else {
+        publicIds.raw.push(attachment.publicId);
+      }
+    }
+
+    for (const [resourceType, ids] of Object.entries(publicIds) as Array<
+      ['image' | 'video' | 'raw', string[]]
+    >) {
+      // Cloudinary accepts at most 100 public IDs per bulk delete
+      for (let i = 0; i < ids.length; i += 100) {
+        const chunk = ids.slice(i, i + 100);
+        try {
+          await storageService.deleteMultipleMedia(chunk, resourceType);
+        } catch (error) {
+          // Messages are still removed; orphaned media can be cleaned up out of band
+          logger.error(`Failed to delete ${chunk.length} ${resourceType} attachment(s):`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the edit history of a message for one of its participants
+   */
+  async getMessageHistory(messageId: string, userId: string): Promise<MessageHistoryResult> {
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const message = await this.findMessageWithHistory(messageId);
+
+    const conversation = await this.getConversation(message.conversationId.toString(), userId);
+    if (!conversation) {
+      throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
+    }
+
+    if (message.deletedFor?.some((id) => id.equals(userObjectId))) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    return this.toMessageHistory(message, false);
+  }
+
+  /**
+   * Get the edit history of any message, including deleted content, on behalf of a
+   * moderator (no participant check; the moderation service audits each view)
+   */
+  async getMessageHistoryAsModerator(messageId: string): Promise<MessageHistoryResult> {
+    const message = await this.findMessageWithHistory(messageId);
+    return this.toMessageHistory(message, true);
+  }
+
+  /**
+   * Load a message along with its hidden history fields
+   */
+  private async findMessageWithHistory(messageId: string): Promise<IMessage> {
+    const message = await Message.findById(new mongoose.Types.ObjectId(messageId))
+      .select('+editHistory +deletedContent +deletedAttachments')
+      .lean<IMessage>();
+
+    if (!message) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+    return message;
+  }
+
+  /**
+   * Shape a message's history, with deleted content only for moderators
+   */
+  private toMessageHistory(message: IMessage, isModerator: boolean): MessageHistoryResult {
+    const result: MessageHistoryResult = {
+      messageId: message._id.toString(),
+      conversationId: message.conversationId.toString(),
+      content: message.content,
+      editedAt: message.editedAt,
+      // Prior versions of a deleted message are withheld from participants too
+      revisions: message.isDeleted && !isModerator ? [] : message.editHistory || [],
+      isDeleted: message.isDeleted,
+      deletedAt: message.deletedAt,
+      deletedBy: message.deletedBy,
+    };
+
+    if (isModerator && message.isDeleted) {
+      result.deletedContent = message.deletedContent;
+      result.deletedAttachments = message.deletedAttachments;
+    }
+
+    return result;
+  }
+
+  /**
+   * Get messages in a conversation with pagination
+   */
+  async getMessages(
+    conversationId: string,
+    userId: string,
+    options: PaginationOptions = {}
+  ): Promise<IMessage[]> {
+    const { limit = 50, before, after } = options;
+
+    // Validate access
+    const conversation = await this.getConversation(conversationId, userId);
+    if (!conversation) {
+      throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
+    }
+
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const convObjectId = new mongoose.Types.ObjectId(conversationId);
+
+    // Build query
+    const query: Record<string, unknown> = {
+      conversationId: convObjectId,
+      threadRootId: null,
+      deletedFor: { $ne: userObjectId },
+    };
+
+    if (before) {
+      query.createdAt = { $lt: before };
+    } else if (after) {
+      query.createdAt = { $gt: after };
+    }
+
+    const messages = await Message.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .populate('senderId', 'firstName lastName slug')
+      .populate('replyTo', 'content senderId type')
+      .populate('mentions', 'firstName lastName slug')
+      .lean();
+
+    return this.flagBlockedSenders(messages.reverse(), userId);
+  }
+
+  /**
+   * Flag messages whose sender the viewer has blocked (they stay visible in shared groups)
+   */
+  private async flagBlockedSenders<T extends { senderId: unknown }>(
+    messages: T[],
+    viewerId: string
+  ): Promise<(T & { isFromBlockedUser?: boolean })[]> {
+    const blockedIds = new Set(await userBlockService.getBlockedIds(viewerId));
+    if (blockedIds.size === 0) {
+      return messages;
+    }
+
+    return messages.map((message) => {
+      const sender = message.senderId as
+        | mongoose.Types.ObjectId
+        | { _id: mongoose.Types.ObjectId }
+        | null;
+      const senderId =
+        sender instanceof mongoose.Types.ObjectId ? sender.toString() : sender?._id.toString();
+      return senderId && blockedIds.has(senderId)
+        ? { ...message, isFromBlockedUser: true }
+        : message;
+    });
+  }
+
+  // =====================
+  // THREADS
+  // =====================
+
+  /**
+   * Get replies in a thread with cursor pagination (oldest first)
+   */
+  async getThreadReplies(
+    messageId: string,
+    userId: string,
+    options: ThreadPaginationOptions = {}
+  ): Promise<ThreadRepliesResult> {
+    const { limit = 50, cursor } = options;
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    const message = await Message.findById(new mongoose.Types.ObjectId(messageId));
+    if (!message) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    const conversationId = message.conversationId.toString();
+    const conversation = await this.getConversation(conversationId, userId);
+    if (!conversation) {
+      throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
+    }
+
+    const rootId = message.threadRootId ?? message._id;
+    const root = await Message.findById(rootId)
+      .populate('senderId', 'firstName lastName slug')
+      .populate('mentions', 'firstName lastName slug')
+      .lean();
+
+    if (!root) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    const query: Record<string, unknown> = {
+      threadRootId: rootId,
+      deletedFor: { $ne: userObjectId },
+    };
+
+    if (cursor) {
+      query._id = { $gt: new mongoose.Types.ObjectId(cursor) };
+    }
+
+    // Fetch one extra to know whether another page exists
+    const replies = await Message.find(query)
+      .sort({ _id: 1 })
+      .limit(limit + 1)
+      .populate('senderId', 'firstName lastName slug')
+      .populate('replyTo', 'content senderId type')
+      .populate('mentions', 'firstName lastName slug')
+      .lean();
+
+    const hasMore = replies.length > limit;
+    const page = hasMore ? replies.slice(0, limit) : replies;
+
+    const threadRead = conversation.participantDetails?.threadReads?.find((t) =>
+      t.threadRootId.equals(rootId)
+    );
+
+    const [flaggedRoot] = await this.flagBlockedSenders([root], userId);
+    const flaggedReplies = await this.flagBlockedSenders(page, userId);
+
+    return {
+      root: flaggedRoot as IMessage,
+      replies: flaggedReplies as IMessage[],
+      unreadCount: threadRead?.unreadCount ?? 0,
+      hasMore,
+      nextCursor: hasMore ? page[page.length - 1]._id.toString() : undefined,
+    };
+  }
+
+  /**
+   * Get the reply summary of a thread root
+   */
+  async getThreadSummary(threadRootId: string): Promise<ThreadSummary> {
+    const root = await Message.findById(new mongoose.Types.ObjectId(threadRootId))
+      .select('conversationId replyCount lastReplyAt lastReplyBy threadParticipants')
+      .lean();
+
+    if (!root) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    return {
+      conversationId: root.conversationId.toString(),
+      threadRootId: root._id.toString(),
+      replyCount: root.replyCount ?? 0,
+      lastReplyAt: root.lastReplyAt,
+      lastReplyBy: root.lastReplyBy,
+      threadParticipants: root.threadParticipants ?? [],
+    };
+  }
+
+  /**
+   * Mark a thread as read for a participant
+   */
+  async markThreadAsRead(
+    threadRootId: string,
+    userId: string
+  ): Promise<{ conversationId: string; threadRootId: string; readAt: Date }> {
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    const message = await Message.findById(new mongoose.Types.ObjectId(threadRootId));
+    if (!message) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    const rootId = message.threadRootId ?? message._id;
+    const conversationId = message.conversationId.toString();
+
+    const conversation = await this.getConversation(conversationId, userId);
+    if (!conversation) {
+      throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
+    }
+
+    const readAt = new Date();
+    const baseFilter = { conversationId: message.conversationId, userId: userObjectId };
+
+    const updated = await ConversationParticipant.findOneAndUpdate(
+      { ...baseFilter, 'threadReads.threadRootId': rootId },
+      { $set: { 'threadReads.$.unreadCount': 0, 'threadReads.$.lastReadAt': readAt } }
+    );
+
+    if (!updated) {
+      await ConversationParticipant.findOneAndUpdate(baseFilter, {
+        $push: { threadReads: { threadRootId: rootId, unreadCount: 0, lastReadAt: readAt } },
+      });
+    }
+
+    return { conversationId, threadRootId: rootId.toString(), readAt };
+  }
+
+  // =====================
+  // SEARCH
+  // =====================
+
+  /**
+   * Search messages across the conversations a user actively participates in.
+   * Matches message content, attachment filenames and sender names.
+   */
+  async searchMessages(
+    userId: string,
+    options: SearchMessagesOptions
+  ): Promise<SearchMessagesResult> {
+    const { query, conversationId, senderId, type, from, to, limit = 20, cursor } = options;
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    const term = query.trim();
+    if (!term) {
+      return { results: [], hasMore: false };
+    }
+
+    // Restrict to conversations with an active participant row
+    const participantRecords = await ConversationParticipant.find({
+      userId: userObjectId,
+      isActive: true,
+    })
+      .select('conversationId')
+      .lean();
+
+    let conversationIds = participantRecords.map((p) => p.conversationId);
+
+    if (conversationId) {
+      conversationIds = conversationIds.filter((id) => id.toString() === conversationId);
+      if (conversationIds.length === 0) {
+        throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
+      }
+    }
+
+    if (conversationIds.length === 0) {
+      return { results: [], hasMore: false };
+    }
+
+    const pattern = new RegExp(escapeRegex(term), 'i');
+
+    // Resolve senders whose first, last or full name matches
+    const matchingSenders = await mongoose
+      .model('User')
+      .find({
+        $or: [
+          { firstName: pattern },
+          { lastName: pattern },
+          {
+            $expr: {
+              $regexMatch: {
+                input: { $concat: ['$firstName', ' ', '$lastName'] },
+                regex: escapeRegex(term),
+                options: 'i',
+              },
+            },
+          },
+        ],
+      })
+      .select('_id')
+      .limit(100)
+      .lean<Array<{ _id: mongoose.Types.ObjectId }>>();
+
+    const textMatch: Record<string, unknown>[] = [
+      { content: pattern },
+      { 'attachments.filename': pattern },
+    ];
+
+    if (matchingSenders.length > 0) {
+      textMatch.push({ senderId: { $in: matchingSenders.map((u) => u._id) } });
+    }
+
+    const filter: Record<string, unknown> = {
+      conversationId: { $in: conversationIds },
+      isDeleted: false,
+      deletedFor: { $ne: userObjectId },
+      $or: textMatch,
+    };
+
+    if (senderId) {
+      filter.senderId = new mongoose.Types.ObjectId(senderId);
+    }
+
+    if (type) {
+      filter.type = type;
+    }
+
+    if (from || to) {
+      const createdAt: Record<string, Date> = {};
+      if (from) {
+        createdAt.$gte = from;
+      }
+      if (to) {
+        createdAt.$lte = to;
+      }
+      filter.createdAt = createdAt;
+    }
+
+    // ObjectIds are time-ordered, so newest-first paging can use _id as cursor
+    if (cursor) {
+      filter._id = { $lt: new mongoose.Types.ObjectId(cursor) };
+    }
+
+    const messages = await Message.find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .populate('senderId', 'firstName lastName slug')
+      .populate('conversationId', 'type name avatar')
+      .lean();
+
+    const hasMore = messages.length > limit;
+    const page = hasMore ? messages.slice(0, limit) : messages;
+
+    const results = page.map((message) => ({
+      message: message as IMessage,
+      highlights: this.buildSearchHighlights(message as IMessage, pattern),
+    }));
+
+    return {
+      results,
+      hasMore,
+      nextCursor: hasMore ? page[page.length - 1]._id.toString() : undefined,
+    };
+  }
+
+  /**
+   * Build highlighted snippets for each field a search pattern matched
+   */
+  private buildSearchHighlights(message: IMessage, pattern: RegExp): SearchHighlight[] {
+    const highlights: SearchHighlight[] = [];
+
+    const contentHighlight = this.buildSnippet(message.content, pattern);
+    if (contentHighlight) {
+      highlights.push({ field: 'content', ...contentHighlight });
+    }
+
+    for (const attachment of message.attachments ?? []) {
+      const attachmentHighlight = attachment.filename
+        ? this.buildSnippet(attachment.filename, pattern)
+        : null;
+      if (attachmentHighlight) {
+        highlights.push({ field: 'attachment', ...attachmentHighlight });
+      }
+    }
+
+    const sender = message.senderId as unknown as { firstName?: string; lastName?: string };
+    const senderName = [sender?.firstName, sender?.lastName].filter(Boolean).join(' ');
+    const senderHighlight = senderName ? this.buildSnippet(senderName, pattern) : null;
+    if (senderHighlight) {
+      highlights.push({ field: 'sender', ...senderHighlight });
+    }
+
+    return highlights;
+  }
+
+  /**
+   * Cut a snippet around the first match and record match offsets within it
+   */
+  private buildSnippet(text: string, pattern: RegExp): Omit<SearchHighlight, 'field'> | null {
+    const first = pattern.exec(text);
+    if (!first) {
+      return null;
+    }
+
+    const start = Math.max(0, first.index - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, first.index + first[0].length + SNIPPET_CONTEXT);
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const snippet = `${prefix}${text.slice(start, end)}${suffix}`;
+
+    const globalPattern = new RegExp(pattern.source, 'gi');
+    const matches: Array<{ start: number; length: number }> = [];
+    for (const match of snippet.matchAll(globalPattern)) {
+      matches.push({ start: match.index ?? 0, length: match[0].length });
+    }
+
+    return { snippet, matches };
+  }
+
+  // =====================
+  // REACTIONS
+  // =====================
+
+  /**
+   * Add a reaction to a message
+   */
+  async addReaction(messageId: string, userId: string, emoji: string): Promise<IMessage> {
+    const msgObjectId = new mongoose.Types.ObjectId(messageId);
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    const message = await Message.findById(msgObjectId);
+
+    if (!message) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    // Check if user already reacted with this emoji
+    const existingReaction = message.reactions.find(
+      (r) => r.emoji === emoji && r.userId.equals(userObjectId)
+    );
+
+    if (existingReaction) {
+      return message; // Already reacted
+    }
+
+    // Add reaction
+    message.reactions.push({
+      emoji,
+      userId: userObjectId,
+      createdAt: new Date(),
+    });
+    await message.save();
+
+    return message;
+  }
+
+  /**
+   * Remove a reaction from a message
+   */
+  async removeReaction(messageId: string, userId: string, emoji: string): Promise<IMessage> {
+    const msgObjectId = new mongoose.Types.ObjectId(messageId);
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    const message = await Message.findByIdAndUpdate(
+      msgObjectId,
+      {
+        $pull: {
+          reactions: { emoji, userId: userObjectId },
+        },
+      },
+      { new: true }
+    );
+
+    if (!message) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    return message;
+  }
+
+  /**
+   * Toggle a reaction (add if not exists, remove if exists)
+   */
+  async toggleReaction(
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<{ message: IMessage; added: boolean }> {
     const msgObjectId = new mongoose.Types.ObjectId(messageId);
     const userObjectId = new mongoose.Types.ObjectId(userId);
 
@@ -1223,15 +2165,22 @@ class ChatService {
   }
 
   /**
-   * Get presence info for multiple users
+   * Get presence info for multiple users. When a viewer is given, users
+   * blocked in either direction are always reported offline.
    */
-  async getUserPresence(userIds: string[]): Promise<Map<string, PresenceInfo>> {
+  async getUserPresence(userIds: string[], viewerId?: string): Promise<Map<string, PresenceInfo>> {
     const result = new Map<string, PresenceInfo>();
 
     try {
       const redis = redisService.getClient();
+      const hidden = viewerId ? await this.getPresenceHiddenIds(viewerId) : new Set<string>();
 
       for (const userId of userIds) {
+        if (hidden.has(userId)) {
+          result.set(userId, { isOnline: false });
+          continue;
+        }
+
         const data = await redis.hgetall(REDIS_KEYS.PRESENCE(userId));
 
         if (data && Object.keys(data).length > 0) {
@@ -1253,16 +2202,554 @@ class ChatService {
   /**
    * Get all online users
    */
-  async getOnlineUsers(): Promise<string[]> {
+  async getOnlineUsers(viewerId?: string): Promise<string[]> {
     try {
       const redis = redisService.getClient();
-      return await redis.smembers(REDIS_KEYS.ONLINE);
+      const online = await redis.smembers(REDIS_KEYS.ONLINE);
+      if (!viewerId) {
+        return online;
+      }
+
+      const hidden = await this.getPresenceHiddenIds(viewerId);
+      return online.filter((userId) => !hidden.has(userId));
     } catch (error) {
       logger.warn('Failed to get online users:', error);
       return [];
     }
   }
 
+  /**
+   * Users whose presence is hidden from a viewer because of a block either way
+   */
+  private async getPresenceHiddenIds(viewerId: string): Promise<Set<string>> {
+    const [blockedIds, blockerIds] = await Promise.all([
+      userBlockService.getBlockedIds(viewerId),
+      userBlockService.getBlockerIds(viewerId),
+    ]);
+    return new Set([...blockedIds, ...blockerIds]);
+  }
+
+  // =====================
+  // MENTIONS
+  // =====================
+
+  /**
+   * Queue in-app notifications for users mentioned in a message. Mentions are
+   * skipped for users who are not active participants or who blocked the sender.
+   */
+  private async queueMentionNotifications(message: IMessage): Promise<void> {
+    const senderId = message.senderId.toString();
+    const mentionedIds = message.mentions.filter((id) => id.toString() !== senderId);
+    if (mentionedIds.length === 0) {
+      return;
+    }
+
+    try {
+      const [participants, blockerIds, sender] = await Promise.all([
+        ConversationParticipant.find({
+          conversationId: message.conversationId,
+          userId: { $in: mentionedIds },
+          isActive: true,
+        })
+          .select('userId')
+          .lean(),
+        userBlockService.getBlockerIds(senderId),
+        User.findById(message.senderId).select('firstName lastName').lean(),
+      ]);
+
+      const blockers = new Set(blockerIds);
+      const senderName = sender ? `${sender.firstName} ${sender.lastName}`.trim() : 'Someone';
+
+      for (const participant of participants) {
+        const userId = participant.userId.toString();
+        if (blockers.has(userId)) {
+          continue;
+        }
+
+        await queueService.addJob({
+          queue: 'QUEUE__NOTIFICATION',
+          job: 'SEND_IN_APP',
+          data: {
+            userId,
+            title: `${senderName} mentioned you`,
+            body: message.content.substring(0, 100),
+            type: 'social',
+            data: {
+              conversationId: message.conversationId.toString(),
+              messageId: message._id.toString(),
+            },
+          },
+        });
+      }
+    } catch (error) {
+      // Notifications are best effort and must never block sending
+      logger.warn(`Failed to queue mention notifications for message ${message._id}:`, error);
+    }
+  }
+
+  // =====================
+  // LINK PREVIEWS
+  // =====================
+
+  /**
+   * Queue preview fetching for URLs in a message (no-op when previews are off)
+   */
+  private async queueLinkPreviews(message: IMessage, enabled = true): Promise<void> {
+    if (!enabled || message.type !== MessageType.TEXT) {
+      return;
+    }
+
+    const urls = linkPreviewService.extractUrls(message.content);
+    if (urls.length === 0) {
+      return;
+    }
+
+    try {
+      await queueService.addJob({
+        queue: 'QUEUE__CHAT',
+        job: 'FETCH_LINK_PREVIEWS',
+        data: { messageId: message._id.toString(), urls },
+      });
+    } catch (error) {
+      // Previews are best effort and must never block sending
+      logger.warn(`Failed to queue link previews for message ${message._id}:`, error);
+    }
+  }
+
+  /**
+   * Fetch and store link previews for a message (called by the chat queue worker).
+   * Returns the updated message, or null when there is nothing to update.
+   */
+  async refreshLinkPreviews(messageId: string, urls: string[]): Promise<IMessage | null> {
+    const message = await Message.findById(new mongoose.Types.ObjectId(messageId));
+    if (!message || message.isDeleted) {
+      return null;
+    }
+
+    const conversation = await Conversation.findById(message.conversationId)
+      .select('linkPreviewsEnabled')
+      .lean();
+    if (conversation?.linkPreviewsEnabled === false) {
+      return null;
+    }
+
+    // Skip URLs that an edit has since removed
+    const currentUrls = linkPreviewService.extractUrls(message.content);
+    const targets = urls.filter((url) => currentUrls.includes(url));
+    if (targets.length === 0) {
+      return null;
+    }
+
+    const previews = await linkPreviewService.getPreviews(targets);
+    if (previews.length === 0) {
+      return null;
+    }
+
+    // Only apply if the content is unchanged since the previews were fetched
+    return Message.findOneAndUpdate(
+      { _id: message._id, content: message.content, isDeleted: false },
+      { $set: { linkPreviews: previews } },
+      { new: true }
+    ).populate('senderId', 'firstName lastName slug');
+  }
+
+  // =====================
+  // FORWARDING
+  // =====================
+
+  /**
+   * Forward a message into other conversations.
+   * Copies keep pointing at the original message so chains are attributed to the first sender.
+   */
+  async forwardMessage(
+    messageId: string,
+    userId: string,
+    targetConversationIds: string[]
+  ): Promise<IMessage[]> {
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    const source = await Message.findById(new mongoose.Types.ObjectId(messageId));
+
+    if (!source || source.isDeleted || source.deletedFor?.some((id) => id.equals(userObjectId))) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    if (source.type === MessageType.SYSTEM || source.type === MessageType.POLL) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_CANNOT_BE_FORWARDED);
+    }
+
+    const origin: Omit<IForwardedFrom, 'forwardedAt'> = source.forwardedFrom
+      ? {
+          messageId: source.forwardedFrom.messageId,
+          conversationId: source.forwardedFrom.conversationId,
+          senderId: source.forwardedFrom.senderId,
+        }
+      : {
+          messageId: source._id,
+          conversationId: source.conversationId,
+          senderId: source.senderId,
+        };
+
+    // Slow down chain spam once the original has been forwarded many times
+    const originForwardCount = origin.messageId.equals(source._id)
+      ? source.forwardCount
+      : ((await Message.findById(origin.messageId).select('forwardCount').lean())?.forwardCount ??
+        0);
+    const limit = originForwardCount >= FREQUENTLY_FORWARDED_THRESHOLD ? 1 : MAX_FORWARD_TARGETS;
+
+    const targets = [...new Set(targetConversationIds)];
+    if (targets.length === 0 || targets.length > limit) {
+      throw new Error(MESSAGES.CHAT.FORWARD_LIMIT_EXCEEDED.replace('{limit}', String(limit)));
+    }
+
+    // The caller must be an active participant of the source and every target
+    const conversationIds = [...new Set([source.conversationId.toString(), ...targets])];
+    const activeCount = await ConversationParticipant.countDocuments({
+      conversationId: { $in: conversationIds.map((id) => new mongoose.Types.ObjectId(id)) },
+      userId: userObjectId,
+      isActive: true,
+    });
+
+    if (activeCount !== conversationIds.length) {
+      throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
+    }
+
+    const forwarded: IMessage[] = [];
+
+    for (const conversationId of targets) {
+      const message = await this.sendMessage(conversationId, userId, source.content, {
+        type: source.type,
+        attachments: source.attachments,
+        location: source.location,
+        forwardedFrom: { ...origin, forwardedAt: new Date() },
+      });
+      forwarded.push(message);
+    }
+
+    await Message.updateOne(
+      { _id: origin.messageId },
+      { $inc: { forwardCount: forwarded.length } }
+    );
+
+    return forwarded;
+  }
+
+  /**
+   * Rebuild attachments from the media records they reference; only the public IDs sent by
+   * the client are used. Uploads stay quarantined until their malware scan passes, and only
+   * the sender's own uploads may be attached, though a forward may also carry the original
+   * message's attachments.
+   */
+  async resolveAttachments(
+    attachments: Pick<IAttachment, 'publicId'>[],
+    senderId: string,
+    forwardedFrom?: IForwardedFrom
+  ): Promise<IAttachment[]> {
+    if (attachments.length === 0) {
+      return [];
+    }
+
+    const publicIds = attachments.map((attachment) => attachment.publicId);
+    if (publicIds.some((publicId) => typeof publicId !== 'string' || !publicId)) {
+      throw new Error(MESSAGES.CHAT.ATTACHMENT_PUBLIC_ID_REQUIRED);
+    }
+
+    const clean = new Map(
+      (await mediaService.findClean(publicIds)).map((media) => [media.publicId, media])
+    );
+    if (publicIds.some((publicId) => !clean.has(publicId))) {
+      throw new Error(MESSAGES.CHAT.ATTACHMENT_NOT_SCANNED);
+    }
+
+    const foreign = publicIds.filter((publicId) => !clean.get(publicId)!.userId.equals(senderId));
+    if (foreign.length > 0 && !(await this.isForwardedAttachment(foreign, forwardedFrom))) {
+      throw new Error(MESSAGES.CHAT.ATTACHMENT_NOT_OWNED);
+    }
+
+    return publicIds.map((publicId) => this.toAttachment(clean.get(publicId)!));
+  }
+
+  /**
+   * Attachment describing a stored file
+   */
+  private toAttachment(media: IMedia): IAttachment {
+    let type: IAttachment['type'] = 'file';
+    if (media.mimeType.startsWith('image/')) {
+      type = 'image';
+    } else if (media.mimeType.startsWith('video/')) {
+      type = 'video';
+    } else if (media.mimeType.startsWith('audio/')) {
+      type = 'audio';
+    }
+
+    return {
+      type,
+      url: media.secureUrl,
+      publicId: media.publicId,
+      filename: media.originalFilename,
+      size: media.bytes,
+      mimeType: media.mimeType,
+      duration: media.duration,
+      dimensions:
+        media.width && media.height ? { width: media.width, height: media.height } : undefined,
+    };
+  }
+
+  /**
+   * Whether every public ID is attached to the original message a forward points at
+   */
+  private async isForwardedAttachment(
+    publicIds: string[],
+    forwardedFrom?: IForwardedFrom
+  ): Promise<boolean> {
+    if (!forwardedFrom) {
+      return false;
+    }
+
+    const origin = await Message.findById(forwardedFrom.messageId)
+      .select('attachments.publicId')
+      .lean();
+    const originIds = new Set(origin?.attachments.map((attachment) => attachment.publicId));
+    return publicIds.every((publicId) => originIds.has(publicId));
+  }
+
+  // =====================
+  // POLLS
+  // =====================
+
+  /**
+   * Validate and normalize a poll definition
+   */
+  private buildPoll(poll?: PollInput): Partial<IPoll> {
+    const question = poll?.question?.trim();
+    const optionTexts = (poll?.options ?? []).map((text) => text?.trim()).filter(Boolean);
+
+    if (!question || optionTexts.length < POLL_MIN_OPTIONS) {
+      throw new Error(MESSAGES.CHAT.POLL_REQUIRED);
+    }
+
+    if (optionTexts.length > POLL_MAX_OPTIONS) {
+      throw new Error(MESSAGES.CHAT.POLL_TOO_MANY_OPTIONS);
+    }
+
+    if (poll!.closesAt && poll!.closesAt.getTime() <= Date.now()) {
+      throw new Error(MESSAGES.CHAT.POLL_CLOSE_TIME_INVALID);
+    }
+
+    return {
+      question,
+      options: optionTexts.map((text) => ({ text, voteCount: 0 })) as IPoll['options'],
+      allowMultiple: !!poll!.allowMultiple,
+      isAnonymous: !!poll!.isAnonymous,
+      closesAt: poll!.closesAt,
+    };
+  }
+
+  /**
+   * Whether a poll no longer accepts votes
+   */
+  private isPollClosed(poll: IPoll): boolean {
+    return !!poll.closedAt || (!!poll.closesAt && poll.closesAt.getTime() <= Date.now());
+  }
+
+  /**
+   * Load a poll message (with ballots) the user can access
+   */
+  private async getPollMessage(messageId: string, userId: string): Promise<IMessage> {
+    const message = await Message.findById(new mongoose.Types.ObjectId(messageId)).select(
+      '+poll.votes'
+    );
+
+    if (!message || message.isDeleted) {
+      throw new Error(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    if (message.type !== MessageType.POLL || !message.poll) {
+      throw new Error(MESSAGES.CHAT.NOT_A_POLL);
+    }
+
+    const conversation = await this.getConversation(message.conversationId.toString(), userId);
+    if (!conversation) {
+      throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
+    }
+
+    return message;
+  }
+
+  /**
+   * Record a single ballot and bump the option tally atomically
+   */
+  private async addPollVote(
+    messageId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    optionId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    await Message.updateOne(
+      { _id: messageId, 'poll.votes': { $not: { $elemMatch: { userId, optionId } } } },
+      {
+        $push: { 'poll.votes': { userId, optionId, votedAt: new Date() } },
+        $inc: { 'poll.options.$[option].voteCount': 1 },
+      },
+      { arrayFilters: [{ 'option._id': optionId }] }
+    );
+  }
+
+  /**
+   * Remove a single ballot and decrement the option tally atomically
+   */
+  private async removePollVote(
+    messageId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId,
+    optionId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    await Message.updateOne(
+      { _id: messageId, 'poll.votes': { $elemMatch: { userId, optionId } } },
+      {
+        $pull: { 'poll.votes': { userId, optionId } },
+        $inc: { 'poll.options.$[option].voteCount': -1 },
+      },
+      { arrayFilters: [{ 'option._id': optionId }] }
+    );
+  }
+
+  /**
+   * Reload a poll message for broadcasting (ballots excluded)
+   */
+  private async getUpdatedPollMessage(messageId: mongoose.Types.ObjectId): Promise<IMessage> {
+    const message = await Message.findById(messageId).populate(
+      'senderId',
+      'firstName lastName slug'
+    );
+    return message!;
+  }
+
+  /**
+   * Vote on a poll. Single-choice polls move an existing vote to the new option.
+   */
+  async votePoll(messageId: string, userId: string, optionIds: string[]): Promise<IMessage> {
+    const message = await this.getPollMessage(messageId, userId);
+    const poll = message.poll!;
+
+    if (this.isPollClosed(poll)) {
+      throw new Error(MESSAGES.CHAT.POLL_CLOSED);
+    }
+
+    const requested = [...new Set(optionIds)];
+    if (
+      requested.length === 0 ||
+      requested.some((id) => !poll.options.some((option) => option._id.toString() === id))
+    ) {
+      throw new Error(MESSAGES.CHAT.POLL_INVALID_OPTION);
+    }
+
+    if (!poll.allowMultiple && requested.length > 1) {
+      throw new Error(MESSAGES.CHAT.POLL_SINGLE_CHOICE);
+    }
+
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const existing = poll.votes
+      .filter((vote) => vote.userId.equals(userObjectId))
+      .map((vote) => vote.optionId.toString());
+
+    if (!poll.allowMultiple) {
+      for (const optionId of existing.filter((id) => !requested.includes(id))) {
+        await this.removePollVote(message._id, userObjectId, new mongoose.Types.ObjectId(optionId));
+      }
+    }
+
+    for (const optionId of requested.filter((id) => !existing.includes(id))) {
+      await this.addPollVote(message._id, userObjectId, new mongoose.Types.ObjectId(optionId));
+    }
+
+    return this.getUpdatedPollMessage(message._id);
+  }
+
+  /**
+   * Remove the user's votes from a poll (all of them when no options are given)
+   */
+  async unvotePoll(messageId: string, userId: string, optionIds?: string[]): Promise<IMessage> {
+    const message = await this.getPollMessage(messageId, userId);
+    const poll = message.poll!;
+
+    if (this.isPollClosed(poll)) {
+      throw new Error(MESSAGES.CHAT.POLL_CLOSED);
+    }
+
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const existing = poll.votes
+      .filter((vote) => vote.userId.equals(userObjectId))
+      .map((vote) => vote.optionId.toString());
+
+    const toRemove = optionIds?.length ? existing.filter((id) => optionIds.includes(id)) : existing;
+
+    for (const optionId of toRemove) {
+      await this.removePollVote(message._id, userObjectId, new mongoose.Types.ObjectId(optionId));
+    }
+
+    return this.getUpdatedPollMessage(message._id);
+  }
+
+  /**
+   * Close a poll early (poll creator only)
+   */
+  async closePoll(messageId: string, userId: string): Promise<IMessage> {
+    const message = await this.getPollMessage(messageId, userId);
+
+    if (!message.senderId.equals(new mongoose.Types.ObjectId(userId))) {
+      throw new Error(MESSAGES.CHAT.CANNOT_CLOSE_OTHERS_POLL);
+    }
+
+    if (this.isPollClosed(message.poll!)) {
+      throw new Error(MESSAGES.CHAT.POLL_CLOSED);
+    }
+
+    await Message.updateOne(
+      { _id: message._id },
+      {
+        $set: {
+          'poll.closedAt': new Date(),
+          'poll.closedBy': new mongoose.Types.ObjectId(userId),
+        },
+      }
+    );
+
+    return this.getUpdatedPollMessage(message._id);
+  }
+
+  /**
+   * Get poll tallies, with voters unless the poll is anonymous
+   */
+  async getPollResults(messageId: string, userId: string): Promise<PollResults> {
+    const message = await this.getPollMessage(messageId, userId);
+    const poll = message.poll!;
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    return {
+      messageId: message._id.toString(),
+      conversationId: message.conversationId.toString(),
+      question: poll.question,
+      allowMultiple: poll.allowMultiple,
+      isAnonymous: poll.isAnonymous,
+      closesAt: poll.closesAt,
+      closedAt: poll.closedAt,
+      isClosed: this.isPollClosed(poll),
+      totalVotes: poll.options.reduce((total, option) => total + option.voteCount, 0),
+      options: poll.options.map((option) => ({
+        optionId: option._id.toString(),
+        text: option.text,
+        voteCount: option.voteCount,
+        voters: poll.isAnonymous
+          ? undefined
+          : poll.votes
+              .filter((vote) => vote.optionId.equals(option._id))
+              .map((vote) => vote.userId),
+      })),
+      myVotes: poll.votes
+        .filter((vote) => vote.userId.equals(userObjectId))
+        .map((vote) => vote.optionId.toString()),
+    };
+  }
+
   // =====================
   // PIN MESSAGES
   // =====================
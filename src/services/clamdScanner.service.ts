@@ -0,0 +1,130 @@
+import net from 'net';
+import type { Readable } from 'stream';
+import config from '../config';
+import {
+  MalwareScannerDriver,
+  type MalwareScanner,
+  type ScanVerdict,
+} from '../types/malwareScan.types';
+
+/**
+ * Clamd Scanner Service
+ * Streams files to a ClamAV daemon with the INSTREAM command, over a Unix socket
+ * or TCP. Files larger than clamd's StreamMaxLength come back as scan errors.
+ */
+class ClamdScannerService implements MalwareScanner {
+  readonly driver = MalwareScannerDriver.CLAMD;
+
+  /**
+   * Open a connection to clamd
+   */
+  private connect(): net.Socket {
+    const { socketPath, host, port, timeoutMs } = config.upload.malwareScan.clamd;
+    const socket = socketPath
+      ? net.createConnection({ path: socketPath })
+      : net.createConnection({ host, port });
+
+    socket.setTimeout(timeoutMs);
+    return socket;
+  }
+
+  /**
+   * Collect clamd's reply, which ends when it closes the connection
+   */
+  private readReply(socket: net.Socket): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let failure: Error | undefined;
+
+      socket.on('data', (chunk: Buffer) => chunks.push(chunk));
+      socket.on('timeout', () => socket.destroy(new Error('clamd did not reply in time')));
+      socket.on('error', (error) => {
+        failure = error;
+      });
+      // clamd may reply and hang up before the whole file is sent, e.g. when it is too large
+      socket.on('close', () => {
+        if (chunks.length > 0) {
+          resolve(Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim());
+        } else {
+          reject(failure ?? new Error('clamd closed the connection without a reply'));
+        }
+      });
+    });
+  }
+
+  /**
+   * Write to clamd, resolving once the data is flushed
+   */
+  private write(socket: net.Socket, data: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      socket.write(data, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Turn clamd's reply into a verdict
+   */
+  private parseReply(reply: string): ScanVerdict {
+    if (reply === 'stream: OK') {
+      return { infected: false };
+    }
+
+    const found = reply.match(/^stream: (.+) FOUND$/);
+    if (found) {
+      return { infected: true, threat: found[1] };
+    }
+
+    throw new Error(`clamd could not scan the file: ${reply}`);
+  }
+
+  async scan(stream: Readable): Promise<ScanVerdict> {
+    const socket = this.connect();
+    const reply = this.readReply(socket);
+    let writeFailed = false;
+
+    const send = async (data: Buffer): Promise<void> => {
+      try {
+        await this.write(socket, data);
+      } catch (error) {
+        writeFailed = true;
+        throw error;
+      }
+    };
+
+    try {
+      await send(Buffer.from('zINSTREAM\0'));
+
+      for await (const chunk of stream) {
+        if (socket.destroyed) {
+          break;
+        }
+        // Each chunk is prefixed with its length as a 32-bit big-endian integer
+        const data = Buffer.from(chunk);
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(data.length);
+        await send(Buffer.concat([length, data]));
+      }
+
+      // A zero-length chunk ends the stream
+      await send(Buffer.alloc(4));
+    } catch (error) {
+      stream.destroy();
+      socket.destroy();
+
+      // Reading the file failed: never trust a verdict on part of it
+      if (!writeFailed) {
+        await reply.catch(() => undefined);
+        throw error;
+      }
+
+      // clamd hung up or was unreachable; its reply or socket error says why
+      return this.parseReply(await reply);
+    }
+
+    return this.parseReply(await reply);
+  }
+}
+
+// Export singleton instance
+export const clamdScannerService = new ClamdScannerService();
+export default clamdScannerService;
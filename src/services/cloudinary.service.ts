@@ -3,34 +3,21 @@ import config from '../config';
 import { v4 as uuidv4 } from 'uuid';
 import { Readable } from 'stream';
 import logger from '../utils/logger';
-
-// Types for upload options and responses
-export interface UploadOptions {
-  folder?: string;
-  publicId?: string;
-  resourceType?: 'image' | 'video' | 'raw' | 'auto';
-  transformation?: object[];
-  eager?: object[];
-  tags?: string[];
-  context?: Record<string, string>;
-  overwrite?: boolean;
-  invalidate?: boolean;
-}
-
-export interface UploadResult {
-  publicId: string;
-  url: string;
-  secureUrl: string;
-  resourceType: string;
-  format: string;
-  width?: number;
-  height?: number;
-  bytes: number;
-  duration?: number;
-  createdAt: string;
-  etag: string;
-  originalFilename?: string;
-}
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import { resolveResourceType } from '../utils/storage';
+import {
+  StorageDriver,
+  type StorageAccess,
+  type StorageProvider,
+  type StorageResourceType,
+  type UploadOptions,
+  type UploadResult,
+  type SignedUpload,
+  type SignedUploadOptions,
+} from '../types/storage.types';
+
+export type { UploadOptions, UploadResult };
 
 export interface TransformationPreset {
   name: string;
@@ -65,13 +52,29 @@ const TRANSFORMATION_PRESETS: Record<string, TransformationPreset> = {
   },
 };
 
-class CloudinaryService {
+class CloudinaryService implements StorageProvider {
+  readonly driver = StorageDriver.CLOUDINARY;
   private defaultFolder: string;
 
   constructor() {
     this.defaultFolder = 'uploads';
   }
 
+  /**
+   * Upload a file with the image, video or raw pipeline for its resource type
+   */
+  async upload(file: Buffer | string, options: UploadOptions = {}): Promise<UploadResult> {
+    const resourceType = resolveResourceType(options, typeof file === 'string' ? file : undefined);
+
+    if (resourceType === 'image') {
+      return this.uploadImage(file, options);
+    }
+    if (resourceType === 'video') {
+      return this.uploadVideo(file, options);
+    }
+    return this.uploadRaw(file, options);
+  }
+
   /**
    * Upload an image to Cloudinary with optional compression
    */
@@ -84,6 +87,7 @@ class CloudinaryService {
         folder: options.folder || `${this.defaultFolder}/images`,
         public_id: options.publicId || uuidv4(),
         resource_type: 'image' as const,
+        type: this.getDeliveryType(options.access),
         overwrite: options.overwrite ?? true,
         invalidate: options.invalidate ?? true,
         transformation: options.transformation || [
@@ -110,7 +114,7 @@ class CloudinaryService {
         result = await this.uploadFromBuffer(file.buffer, uploadOptions);
       }
 
-      return this.formatUploadResult(result);
+      return this.formatNewUpload(result);
     } catch (error) {
       logger.error('Cloudinary image upload failed:', error);
       throw error;
@@ -129,6 +133,7 @@ class CloudinaryService {
         folder: options.folder || `${this.defaultFolder}/videos`,
         public_id: options.publicId || uuidv4(),
         resource_type: 'video' as const,
+        type: this.getDeliveryType(options.access),
         overwrite: options.overwrite ?? true,
         invalidate: options.invalidate ?? true,
         eager: options.eager || [
@@ -149,7 +154,7 @@ class CloudinaryService {
         result = await this.uploadFromBuffer(file.buffer, uploadOptions);
       }
 
-      return this.formatUploadResult(result);
+      return this.formatNewUpload(result);
     } catch (error) {
       logger.error('Cloudinary video upload failed:', error);
       throw error;
@@ -168,6 +173,7 @@ class CloudinaryService {
         folder: options.folder || `${this.defaultFolder}/files`,
         public_id: options.publicId || uuidv4(),
         resource_type: 'raw' as const,
+        type: this.getDeliveryType(options.access),
         overwrite: options.overwrite ?? true,
         invalidate: options.invalidate ?? true,
         tags: options.tags || [],
@@ -183,7 +189,7 @@ class CloudinaryService {
         result = await this.uploadFromBuffer(file.buffer, uploadOptions);
       }
 
-      return this.formatUploadResult(result);
+      return this.formatNewUpload(result);
     } catch (error) {
       logger.error('Cloudinary raw upload failed:', error);
       throw error;
@@ -203,6 +209,7 @@ class CloudinaryService {
         public_id: options.publicId || uuidv4(),
         resource_type: resourceType,
         chunk_size: chunkSize,
+        type: this.getDeliveryType(options.access),
         overwrite: options.overwrite ?? true,
         invalidate: options.invalidate ?? true,
         tags: options.tags || [],
@@ -215,7 +222,7 @@ class CloudinaryService {
       const uploadResult = result as unknown as Record<string, unknown>;
 
       logger.info(`Large file upload completed: ${uploadResult.public_id}`);
-      return this.formatUploadResult(uploadResult);
+      return this.formatNewUpload(uploadResult);
     } catch (error) {
       logger.error('Cloudinary large file upload failed:', error);
       throw error;
@@ -234,6 +241,7 @@ class CloudinaryService {
           folder: options.folder || this.defaultFolder,
           public_id: options.publicId || uuidv4(),
           resource_type: resourceType,
+          type: this.getDeliveryType(options.access),
           overwrite: options.overwrite ?? true,
           tags: options.tags || [],
           context: options.context,
@@ -243,7 +251,11 @@ class CloudinaryService {
             logger.error('Cloudinary stream upload failed:', error);
             reject(error);
           } else if (result) {
-            resolve(this.formatUploadResult(result));
+            try {
+              resolve(this.formatNewUpload(result));
+            } catch (existingError) {
+              reject(existingError);
+            }
           } else {
             reject(new Error('Upload failed: No result returned'));
           }
@@ -259,11 +271,13 @@ class CloudinaryService {
    */
   async deleteMedia(
     publicId: string,
-    resourceType: 'image' | 'video' | 'raw' = 'image'
+    resourceType: StorageResourceType = 'image',
+    access: StorageAccess = 'public'
   ): Promise<{ success: boolean; result: string }> {
     try {
       const result = await cloudinary.uploader.destroy(publicId, {
         resource_type: resourceType,
+        type: this.getDeliveryType(access),
         invalidate: true,
       });
 
@@ -282,7 +296,7 @@ class CloudinaryService {
    */
   async deleteMultipleMedia(
     publicIds: string[],
-    resourceType: 'image' | 'video' | 'raw' = 'image'
+    resourceType: StorageResourceType = 'image'
   ): Promise<{ deleted: Record<string, string>; partial: boolean }> {
     try {
       const result = await cloudinary.api.delete_resources(publicIds, {
@@ -305,11 +319,13 @@ class CloudinaryService {
    */
   async getMediaInfo(
     publicId: string,
-    resourceType: 'image' | 'video' | 'raw' = 'image'
+    resourceType: StorageResourceType = 'image',
+    access: StorageAccess = 'public'
   ): Promise<UploadResult> {
     try {
       const result = await cloudinary.api.resource(publicId, {
         resource_type: resourceType,
+        type: this.getDeliveryType(access),
       });
 
       return this.formatUploadResult(result);
@@ -320,35 +336,91 @@ class CloudinaryService {
   }
 
   /**
-   * Generate a signed upload URL for direct client-side uploads
+   * Download a stored asset from its delivery URL, signed for authenticated assets
    */
-  generateSignedUploadUrl(options: {
-    folder?: string;
-    resourceType?: 'image' | 'video' | 'raw' | 'auto';
-    maxFileSize?: number;
-    allowedFormats?: string[];
-  }): {
-    signature: string;
-    timestamp: number;
-    cloudName: string;
-    apiKey: string;
-    uploadPreset?: string;
-  } {
-    const timestamp = Math.round(Date.now() / 1000);
+  async downloadMedia(
+    publicId: string,
+    resourceType: StorageResourceType = 'image',
+    access: StorageAccess = 'public'
+  ): Promise<Readable> {
+    const type = this.getDeliveryType(access);
+    const { secure_url, format } = (await cloudinary.api.resource(publicId, {
+      resource_type: resourceType,
+      type,
+    })) as { secure_url: string; format?: string };
+
+    const url =
+      access === 'private'
+        ? cloudinary.url(publicId, {
+            resource_type: resourceType,
+            type,
+            format,
+            sign_url: true,
+            secure: true,
+          })
+        : secure_url;
+
+    const response = await fetch(url);
+    if (!response.ok || !response.body) {
+      throw new Error(`Cloudinary download failed with ${response.status}`);
+    }
 
-    const params = {
-      timestamp,
-      folder: options.folder || this.defaultFolder,
-      resource_type: options.resourceType || 'auto',
-    };
+    return Readable.fromWeb(response.body);
+  }
+
+  /**
+   * Switch an authenticated asset to public delivery, keeping its public ID
+   */
+  async publish(
+    publicId: string,
+    resourceType: StorageResourceType = 'image'
+  ): Promise<UploadResult> {
+    try {
+      const result = (await cloudinary.uploader.rename(publicId, publicId, {
+        resource_type: resourceType,
+        type: this.getDeliveryType('private'),
+        to_type: this.getDeliveryType('public'),
+        invalidate: true,
+      })) as Record<string, unknown>;
+
+      return this.formatUploadResult(result);
+    } catch (error) {
+      logger.error('Cloudinary publish failed:', error);
+      throw error;
+    }
+  }
 
-    const signature = cloudinary.utils.api_sign_request(params, config.cloudinary.apiSecret);
+  /**
+   * Generate a signed upload URL for direct client-side uploads
+   */
+  generateSignedUploadUrl(options: SignedUploadOptions): SignedUpload {
+    const timestamp = Math.round(Date.now() / 1000);
+    const resourceType = resolveResourceType(options);
+    const publicId = `${options.folder ?? this.defaultFolder}/${uuidv4()}`;
+    const type = this.getDeliveryType(options.access);
+
+    // Every field but the file and resource type is signed, so the client cannot pick
+    // another public ID or delivery type. The resource type is part of the upload URL.
+    // Cloudinary cannot sign a size limit; the size is checked when the upload completes.
+    const signature = cloudinary.utils.api_sign_request(
+      { timestamp, public_id: publicId, type },
+      config.cloudinary.apiSecret
+    );
 
     return {
-      signature,
-      timestamp,
-      cloudName: config.cloudinary.cloudName,
-      apiKey: config.cloudinary.apiKey,
+      driver: this.driver,
+      url: `https://api.cloudinary.com/v1_1/${config.cloudinary.cloudName}/${resourceType}/upload`,
+      method: 'POST',
+      fields: {
+        api_key: config.cloudinary.apiKey,
+        timestamp,
+        public_id: publicId,
+        type,
+        signature,
+      },
+      publicId,
+      // Cloudinary rejects signatures older than an hour
+      expiresAt: timestamp + 60 * 60,
     };
   }
 
@@ -393,6 +465,17 @@ class CloudinaryService {
     });
   }
 
+  /**
+   * Helper: Format an upload response, refusing one for an existing asset.
+   * With overwrite disabled Cloudinary returns the asset already stored under the public ID.
+   */
+  private formatNewUpload(result: Record<string, unknown>): UploadResult {
+    if (result.existing === true) {
+      throw ApiError.conflict(MESSAGES.MEDIA.ALREADY_EXISTS);
+    }
+    return this.formatUploadResult(result);
+  }
+
   /**
    * Helper: Format Cloudinary response to our standard format
    */
@@ -413,6 +496,13 @@ class CloudinaryService {
     };
   }
 
+  /**
+   * Helper: Delivery type for an access level. Authenticated assets need a signed URL.
+   */
+  private getDeliveryType(access: StorageAccess = 'public'): 'upload' | 'authenticated' {
+    return access === 'private' ? 'authenticated' : 'upload';
+  }
+
   /**
    * Helper: Detect resource type from file extension
    */
@@ -55,6 +55,12 @@ class CompressionService {
 
       let sharpInstance = sharp(inputBuffer);
 
+      // Metadata is dropped from sharp's output unless kept, so bake the EXIF
+      // orientation into the pixels first
+      sharpInstance = options.preserveMetadata
+        ? sharpInstance.keepMetadata()
+        : sharpInstance.rotate();
+
       // Resize if max dimensions are specified
       if (options.maxWidth || options.maxHeight) {
         sharpInstance = sharpInstance.resize({
@@ -99,11 +105,6 @@ class CompressionService {
           break;
       }
 
-      // Remove metadata unless explicitly preserved
-      if (!options.preserveMetadata) {
-        sharpInstance = sharpInstance.withMetadata({});
-      }
-
       const { data: compressedBuffer, info } = await sharpInstance.toBuffer({
         resolveWithObject: true,
       });
@@ -129,6 +130,34 @@ class CompressionService {
     }
   }
 
+  /**
+   * Strip EXIF (GPS location, camera details), XMP and IPTC metadata from an image,
+   * re-encoding it in the same format. The EXIF orientation is applied first so the
+   * image still displays the right way up.
+   */
+  async stripMetadata(input: Buffer | string): Promise<Buffer> {
+    try {
+      const inputBuffer = Buffer.isBuffer(input) ? input : await fs.promises.readFile(input);
+
+      const { orientation } = await sharp(inputBuffer).metadata();
+
+      // Keep every frame of animated GIF and WebP images
+      let sharpInstance = sharp(inputBuffer, { animated: true });
+      if (orientation && orientation > 1) {
+        sharpInstance = sharpInstance.rotate();
+      }
+
+      const stripped = await sharpInstance.toBuffer();
+
+      logger.info(`Image metadata stripped: ${inputBuffer.length} -> ${stripped.length} bytes`);
+
+      return stripped;
+    } catch (error) {
+      logger.error('Image metadata stripping failed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Resize an image while maintaining aspect ratio
    */
@@ -0,0 +1,147 @@
+import { IUser, User } from '../models';
+import { redisService } from './redis.service';
+import { otpService } from './otp.service';
+import { sessionCacheService } from './sessionCache.service';
+import { logoutAllDevices } from './auth.service';
+import { queueService } from '../queues/queue.service';
+import config from '../config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import { OtpPurpose, DEFAULT_OTP_CONFIG, type SendOtpResult } from '../types/otp.types';
+import type { PendingEmailChange } from '../types/emailVerification.types';
+
+/**
+ * Email Change Service
+ * Moves an account to a new address once the new address is proven with an OTP.
+ * The old address is told about the request, and other sessions are revoked on completion.
+ */
+class EmailChangeService {
+  private static instance: EmailChangeService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): EmailChangeService {
+    if (!EmailChangeService.instance) {
+      EmailChangeService.instance = new EmailChangeService();
+    }
+    return EmailChangeService.instance;
+  }
+
+  /**
+   * Get Redis key for a user's pending email change
+   */
+  private getPendingKey(userId: string): string {
+    return `email-change:${userId}`;
+  }
+
+  /**
+   * Start an email change: send an OTP to the new address and notify the old one
+   */
+  public async requestChange(
+    userId: string,
+    newEmail: string,
+    currentPassword?: string
+  ): Promise<SendOtpResult> {
+    const user = await User.findById(userId).select('+password');
+    if (!user) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+
+    // Social-only accounts have no password to confirm
+    if (user.hasPassword) {
+      const isPasswordValid = currentPassword ? await user.comparePassword(currentPassword) : false;
+      if (!isPasswordValid) {
+        throw ApiError.unauthorized(MESSAGES.AUTH.INVALID_PASSWORD);
+      }
+    }
+
+    const email = newEmail.toLowerCase();
+    if (email === user.email) {
+      throw ApiError.badRequest(MESSAGES.USER.EMAIL_UNCHANGED);
+    }
+    if (await User.exists({ email })) {
+      throw ApiError.conflict(MESSAGES.AUTH.EMAIL_EXISTS);
+    }
+
+    const result = await otpService.sendOtp(email, OtpPurpose.EMAIL_CHANGE, user.firstName);
+
+    const pending: PendingEmailChange = { newEmail: email, requestedAt: Date.now() };
+    await redisService.set(
+      this.getPendingKey(userId),
+      JSON.stringify(pending),
+      config.otp?.ttlSeconds || DEFAULT_OTP_CONFIG.ttlSeconds
+    );
+
+    await this.notifyOldAddress(user, email);
+    logger.info(`Email change requested for user: ${userId}`);
+
+    return result;
+  }
+
+  /**
+   * Finish an email change with the OTP sent to the new address.
+   * Every session except the current one is revoked.
+   */
+  public async confirmChange(
+    userId: string,
+    otp: string,
+    currentSessionId?: string
+  ): Promise<IUser> {
+    const key = this.getPendingKey(userId);
+    const data = await redisService.get(key);
+    if (!data) {
+      throw ApiError.badRequest(MESSAGES.USER.EMAIL_CHANGE_NOT_FOUND);
+    }
+
+    const pending: PendingEmailChange = JSON.parse(data);
+    await otpService.verifyOtp(pending.newEmail, otp, OtpPurpose.EMAIL_CHANGE);
+    await redisService.del(key);
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+
+    // The address may have been registered since the change was requested
+    if (await User.exists({ email: pending.newEmail, _id: { $ne: user._id } })) {
+      throw ApiError.conflict(MESSAGES.AUTH.EMAIL_EXISTS);
+    }
+
+    const oldEmail = user.email;
+    user.email = pending.newEmail;
+    user.isEmailVerified = true;
+    await user.save();
+
+    await logoutAllDevices(userId, currentSessionId);
+    await sessionCacheService.invalidateUser(userId);
+    logger.info(`Email changed for user ${userId}: ${oldEmail} -> ${user.email}`);
+
+    return user;
+  }
+
+  /**
+   * Tell the current address that a change was requested
+   */
+  private async notifyOldAddress(user: IUser, newEmail: string): Promise<void> {
+    try {
+      await queueService.addJob({
+        queue: 'QUEUE__EMAIL',
+        job: 'SEND_EMAIL_CHANGE_NOTICE',
+        data: {
+          to: user.email,
+          userName: user.firstName,
+          newEmail,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to queue email change notice:', error);
+    }
+  }
+}
+
+export const emailChangeService = EmailChangeService.getInstance();
+export default emailChangeService;
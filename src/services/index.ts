@@ -11,3 +11,14 @@ export { onesignalService } from './onesignal.service';
 export { notificationService } from './notification.service';
 export { emailService } from './email.service';
 export { chatService } from './chat.service';
+export { scheduledMessageService } from './scheduledMessage.service';
+export { userBlockService } from './userBlock.service';
+export { moderationService } from './moderation.service';
+export { sessionCacheService } from './sessionCache.service';
+export { lockoutService } from './lockout.service';
+export { emailChangeService } from './emailChange.service';
+export { passwordService } from './password.service';
+export { loginAlertService } from './loginAlert.service';
+export { apiKeyService } from './apiKey.service';
+export { mediaService } from './media.service';
+export { storageQuotaService } from './storageQuota.service';
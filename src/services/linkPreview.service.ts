@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { ILinkPreview } from '../models';
+import { redisService } from './redis.service';
+import logger from '../utils/logger';
+
+// Redis key patterns
+const REDIS_KEYS = {
+  PREVIEW: (url: string) =>
+    `chat:link-preview:${crypto.createHash('sha256').update(url).digest('hex')}`,
+};
+
+// TTL values in seconds
+const TTL = {
+  PREVIEW: 24 * 60 * 60,
+  MISS: 60 * 60, // Failed lookups are retried sooner
+};
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_BODY_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 3;
+const MAX_URLS_PER_MESSAGE = 3;
+const USER_AGENT = 'Mozilla/5.0 (compatible; LinkPreviewBot/1.0)';
+
+/**
+ * Address ranges a preview fetch must never reach (loopback, private, link-local, reserved)
+ */
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Check whether an IP address is private or otherwise not publicly routable
+ */
+export const isBlockedAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+
+  if (family === 6) {
+    // IPv4-mapped IPv6 (::ffff:a.b.c.d) is checked as IPv4
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) {
+      return blockedAddresses.check(mapped[1], 'ipv4');
+    }
+    return blockedAddresses.check(address, 'ipv6');
+  }
+
+  return blockedAddresses.check(address, 'ipv4');
+};
+
+/**
+ * DNS lookup that refuses private addresses. Used as the socket lookup so the
+ * checked address is the one actually connected to (no DNS rebinding window).
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  // Every address is resolved and checked, whichever form the caller asked for
+  const lookupOptions: dns.LookupAllOptions = { ...options, all: true };
+
+  dns.lookup(hostname, lookupOptions, (error, addresses: dns.LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find((entry) => isBlockedAddress(entry.address));
+    if (addresses.length === 0 || blocked) {
+      callback(new Error(`Refusing to connect to private address for ${hostname}`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Decode the HTML entities commonly found in meta tags
+ */
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+/**
+ * Parse the attributes of a single HTML tag
+ */
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const attrPattern = /([a-zA-Z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrPattern.exec(tag)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+/**
+ * Link Preview Service - Fetches OpenGraph/oEmbed metadata for URLs in messages
+ */
+class LinkPreviewService {
+  private static instance: LinkPreviewService;
+
+  private constructor() {}
+
+  public static getInstance(): LinkPreviewService {
+    if (!LinkPreviewService.instance) {
+      LinkPreviewService.instance = new LinkPreviewService();
+    }
+    return LinkPreviewService.instance;
+  }
+
+  /**
+   * Extract http(s) URLs from message content
+   */
+  extractUrls(content: string): string[] {
+    const matches = content.match(/https?:\/\/[^\s<>"']+/gi) ?? [];
+    const urls = matches
+      .map((url) => url.replace(/[.,;:!?)\]}]+$/, ''))
+      .filter((url) => {
+        try {
+          new URL(url);
+          return true;
+        } catch {
+          return false;
+        }
+      });
+
+    return [...new Set(urls)].slice(0, MAX_URLS_PER_MESSAGE);
+  }
+
+  /**
+   * Get previews for several URLs, skipping the ones that yield nothing
+   */
+  async getPreviews(urls: string[]): Promise<ILinkPreview[]> {
+    const previews: ILinkPreview[] = [];
+
+    for (const url of urls.slice(0, MAX_URLS_PER_MESSAGE)) {
+      const preview = await this.getPreview(url);
+      if (preview) {
+        previews.push(preview);
+      }
+    }
+
+    return previews;
+  }
+
+  /**
+   * Get the preview for a URL, served from Redis when cached
+   */
+  async getPreview(url: string): Promise<ILinkPreview | null> {
+    const cacheKey = REDIS_KEYS.PREVIEW(url);
+
+    const cached = await redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as ILinkPreview | null;
+    }
+
+    let preview: ILinkPreview | null = null;
+    try {
+      preview = await this.fetchPreview(url);
+    } catch (error) {
+      logger.debug(`Link preview fetch failed for ${url}:`, error);
+    }
+
+    await redisService.set(cacheKey, JSON.stringify(preview), preview ? TTL.PREVIEW : TTL.MISS);
+
+    return preview;
+  }
+
+  /**
+   * Fetch and parse OpenGraph metadata, falling back to oEmbed
+   */
+  private async fetchPreview(url: string): Promise<ILinkPreview | null> {
+    const page = await this.fetch(url, 'text/html');
+    if (!page || !page.contentType.includes('html')) {
+      return null;
+    }
+
+    const meta: Record<string, string> = {};
+    for (const tag of page.body.match(/<meta\s[^>]*>/gi) ?? []) {
+      const attributes = parseAttributes(tag);
+      const key = (attributes.property || attributes.name || '').toLowerCase();
+      if (key && attributes.content && !(key in meta)) {
+        meta[key] = attributes.content;
+      }
+    }
+
+    const titleTag = page.body.match(/<title[^>]*>([^<]*)<\/title>/i);
+
+    const preview: ILinkPreview = {
+      url,
+      title: meta['og:title'] || meta['twitter:title'] || decodeEntities(titleTag?.[1] ?? ''),
+      description: meta['og:description'] || meta['twitter:description'] || meta.description,
+      image: this.resolveUrl(meta['og:image'] || meta['twitter:image'], page.url),
+      siteName: meta['og:site_name'],
+      fetchedAt: new Date(),
+    };
+
+    // oEmbed fills in whatever OpenGraph did not provide
+    const oembedLink = (page.body.match(/<link\s[^>]*>/gi) ?? [])
+      .map(parseAttributes)
+      .find((attributes) => attributes.type?.toLowerCase() === 'application/json+oembed');
+
+    const oembedUrl = this.resolveUrl(oembedLink?.href, page.url);
+    if (oembedUrl && (!preview.title || !preview.image || !preview.siteName)) {
+      const oembed = await this.fetch(oembedUrl, 'application/json').catch(() => null);
+      if (oembed) {
+        try {
+          const data = JSON.parse(oembed.body) as Record<string, unknown>;
+          preview.title ||= typeof data.title === 'string' ? data.title : undefined;
+          preview.image ||=
+            typeof data.thumbnail_url === 'string'
+              ? this.resolveUrl(data.thumbnail_url, oembed.url)
+              : undefined;
+          preview.siteName ||=
+            typeof data.provider_name === 'string' ? data.provider_name : undefined;
+        } catch {
+          // Ignore malformed oEmbed responses
+        }
+      }
+    }
+
+    if (!preview.title && !preview.description && !preview.image) {
+      return null;
+    }
+
+    preview.title = preview.title?.substring(0, 300) || undefined;
+    preview.description = preview.description?.substring(0, 500) || undefined;
+
+    return preview;
+  }
+
+  /**
+   * Resolve a possibly relative URL against the page URL (http/https only)
+   */
+  private resolveUrl(value: string | undefined, base: string): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    try {
+      const resolved = new URL(value, base);
+      return ['http:', 'https:'].includes(resolved.protocol) ? resolved.toString() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * GET a URL through the SSRF-safe lookup, following a limited number of redirects
+   */
+  private async fetch(
+    url: string,
+    accept: string,
+    redirects = 0
+  ): Promise<{ url: string; contentType: string; body: string } | null> {
+    const target = new URL(url);
+    if (!['http:', 'https:'].includes(target.protocol)) {
+      return null;
+    }
+
+    // Literal IPs skip DNS, so check them up front
+    const hostname = target.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+      throw new Error(`Refusing to fetch private address ${hostname}`);
+    }
+
+    const client = target.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = client.get(
+        target,
+        {
+          lookup: safeLookup,
+          timeout: FETCH_TIMEOUT_MS,
+          headers: { 'User-Agent': USER_AGENT, Accept: accept },
+        },
+        (response) => {
+          const status = response.statusCode ?? 0;
+
+          if (status >= 300 && status < 400 && response.headers.location) {
+            response.resume();
+            if (redirects >= MAX_REDIRECTS) {
+              resolve(null);
+              return;
+            }
+            const next = new URL(response.headers.location, target).toString();
+            this.fetch(next, accept, redirects + 1).then(resolve, reject);
+            return;
+          }
+
+          if (status < 200 || status >= 300) {
+            response.resume();
+            resolve(null);
+            return;
+          }
+
+          const chunks: Buffer[] = [];
+          let received = 0;
+
+          response.on('data', (chunk: Buffer) => {
+            received += chunk.length;
+            // Metadata lives in <head>; stop reading large pages early
+            if (received > MAX_BODY_BYTES) {
+              response.destroy();
+              return;
+            }
+            chunks.push(chunk);
+          });
+
+          const finish = () =>
+            resolve({
+              url: target.toString(),
+              contentType: String(response.headers['content-type'] ?? '').toLowerCase(),
+              body: Buffer.concat(chunks).toString('utf8'),
+            });
+
+          response.on('end', finish);
+          response.on('close', finish);
+          response.on('error', reject);
+        }
+      );
+
+      request.on('timeout', () => request.destroy(new Error('Link preview request timed out')));
+      request.on('error', reject);
+    });
+  }
+}
+
+export const linkPreviewService = LinkPreviewService.getInstance();
+export default linkPreviewService;
@@ -0,0 +1,272 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import crypto from 'crypto';
+import config from '../config';
+import compressionService from './compression.service';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import {
+  buildObjectKey,
+  getExtension,
+  isSafeObjectKey,
+  resolveResourceType,
+} from '../utils/storage';
+import {
+  StorageDriver,
+  type StorageAccess,
+  type StorageProvider,
+  type StorageResourceType,
+  type UploadOptions,
+  type UploadResult,
+  type SignedUpload,
+} from '../types/storage.types';
+
+/**
+ * Local Storage Service
+ * Keeps media on the server's disk and serves it from config.storage.local.publicPath.
+ * Private files live in a separate directory that is never served.
+ * Meant for tests, development and air-gapped deployments with a single app instance.
+ */
+class LocalStorageService implements StorageProvider {
+  readonly driver = StorageDriver.LOCAL;
+  private defaultFolder = 'uploads';
+
+  /**
+   * Absolute path of an object, refusing keys that would leave the storage directory
+   */
+  private resolvePath(key: string, access: StorageAccess = 'public'): string {
+    if (!isSafeObjectKey(key)) {
+      throw ApiError.badRequest(MESSAGES.MEDIA.INVALID_PUBLIC_ID);
+    }
+    const { directory, privateDirectory } = config.storage.local;
+    return path.join(access === 'private' ? privateDirectory : directory, key);
+  }
+
+  /**
+   * Public URL of an object
+   */
+  private getUrl(key: string): string {
+    return `${config.storage.local.baseUrl.replace(/\/+$/, '')}/${key}`;
+  }
+
+  /**
+   * Describe a stored object in the shared result shape
+   */
+  private async describe(
+    key: string,
+    resourceType: StorageResourceType,
+    originalFilename?: string,
+    access: StorageAccess = 'public'
+  ): Promise<UploadResult> {
+    const filePath = this.resolvePath(key, access);
+    const stats = await fs.promises.stat(filePath);
+
+    let width: number | undefined;
+    let height: number | undefined;
+    if (resourceType === 'image') {
+      try {
+        ({ width, height } = await compressionService.getImageMetadata(filePath));
+      } catch {
+        // Formats sharp cannot read are stored without dimensions
+      }
+    }
+
+    // Private files report the URL they will be served from once published
+    const url = this.getUrl(key);
+    return {
+      publicId: key,
+      url,
+      secureUrl: url,
+      resourceType,
+      format: getExtension(key),
+      width,
+      height,
+      bytes: stats.size,
+      createdAt: stats.birthtime.toISOString(),
+      etag: crypto.createHash('md5').update(`${key}:${stats.size}:${stats.mtimeMs}`).digest('hex'),
+      originalFilename,
+    };
+  }
+
+  /**
+   * Create the object's directory and return its key and path
+   */
+  private async prepare(
+    options: UploadOptions,
+    filePath?: string
+  ): Promise<{ key: string; target: string; resourceType: StorageResourceType }> {
+    const key = buildObjectKey(options, this.defaultFolder, filePath);
+    const target = this.resolvePath(key, options.access);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    return { key, target, resourceType: resolveResourceType(options, filePath) };
+  }
+
+  /**
+   * Report a write refused because the object exists and overwriting was disabled
+   */
+  private rethrowIfExists(error: unknown): never {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw ApiError.conflict(MESSAGES.MEDIA.ALREADY_EXISTS);
+    }
+    throw error;
+  }
+
+  /**
+   * Write a file from memory or copy it from disk
+   */
+  async upload(file: Buffer | string, options: UploadOptions = {}): Promise<UploadResult> {
+    const filePath = typeof file === 'string' ? file : undefined;
+    const { key, target, resourceType } = await this.prepare(options, filePath);
+    const overwrite = options.overwrite ?? true;
+
+    try {
+      if (Buffer.isBuffer(file)) {
+        await fs.promises.writeFile(target, file, { flag: overwrite ? 'w' : 'wx' });
+      } else {
+        await fs.promises.copyFile(file, target, overwrite ? 0 : fs.constants.COPYFILE_EXCL);
+      }
+    } catch (error) {
+      this.rethrowIfExists(error);
+    }
+
+    logger.info(`Stored ${key} on local disk`);
+    return this.describe(key, resourceType, options.filename, options.access);
+  }
+
+  /**
+   * Copy a large file from disk; there is nothing to chunk locally
+   */
+  async uploadLargeFile(filePath: string, options: UploadOptions = {}): Promise<UploadResult> {
+    return this.upload(filePath, options);
+  }
+
+  /**
+   * Write a file from a stream
+   */
+  async uploadFromStream(stream: Readable, options: UploadOptions = {}): Promise<UploadResult> {
+    const { key, target, resourceType } = await this.prepare(options);
+    const flags = (options.overwrite ?? true) ? 'w' : 'wx';
+    try {
+      await pipeline(stream, fs.createWriteStream(target, { flags }));
+    } catch (error) {
+      this.rethrowIfExists(error);
+    }
+
+    logger.info(`Stored ${key} on local disk`);
+    return this.describe(key, resourceType, options.filename, options.access);
+  }
+
+  /**
+   * Delete a stored file
+   */
+  async deleteMedia(
+    publicId: string,
+    _resourceType?: StorageResourceType,
+    access: StorageAccess = 'public'
+  ): Promise<{ success: boolean; result: string }> {
+    const filePath = this.resolvePath(publicId, access);
+    try {
+      await fs.promises.unlink(filePath);
+      return { success: true, result: 'ok' };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { success: false, result: 'not found' };
+      }
+      logger.error('Local delete failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete several stored files
+   */
+  async deleteMultipleMedia(
+    publicIds: string[]
+  ): Promise<{ deleted: Record<string, string>; partial: boolean }> {
+    const deleted: Record<string, string> = {};
+    for (const publicId of publicIds) {
+      deleted[publicId] = (await this.deleteMedia(publicId)).result;
+    }
+    return { deleted, partial: false };
+  }
+
+  /**
+   * Get information about a stored file
+   */
+  async getMediaInfo(
+    publicId: string,
+    resourceType: StorageResourceType = 'image',
+    access: StorageAccess = 'public'
+  ): Promise<UploadResult> {
+    try {
+      return await this.describe(publicId, resourceType, undefined, access);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw ApiError.notFound(MESSAGES.MEDIA.NOT_FOUND);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Open a stored file for reading
+   */
+  async downloadMedia(
+    publicId: string,
+    _resourceType?: StorageResourceType,
+    access: StorageAccess = 'public'
+  ): Promise<Readable> {
+    const filePath = this.resolvePath(publicId, access);
+    try {
+      await fs.promises.access(filePath);
+    } catch {
+      throw ApiError.notFound(MESSAGES.MEDIA.NOT_FOUND);
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  /**
+   * Move a private file into the served directory
+   */
+  async publish(
+    publicId: string,
+    resourceType: StorageResourceType = 'image'
+  ): Promise<UploadResult> {
+    const source = this.resolvePath(publicId, 'private');
+    const target = this.resolvePath(publicId);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+    try {
+      await fs.promises.rename(source, target);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT') {
+        throw ApiError.notFound(MESSAGES.MEDIA.NOT_FOUND);
+      }
+      if (code !== 'EXDEV') {
+        throw error;
+      }
+      // The directories are on different filesystems
+      await fs.promises.copyFile(source, target);
+      await fs.promises.unlink(source);
+    }
+
+    logger.info(`Published ${publicId} on local disk`);
+    return this.describe(publicId, resourceType);
+  }
+
+  /**
+   * Direct uploads need a backend the client can reach; local disk only takes uploads
+   * through the API
+   */
+  generateSignedUploadUrl(): SignedUpload {
+    throw ApiError.badRequest(MESSAGES.MEDIA.SIGNED_UPLOAD_UNSUPPORTED);
+  }
+}
+
+// Export singleton instance
+export const localStorageService = new LocalStorageService();
+export default localStorageService;
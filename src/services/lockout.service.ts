@@ -0,0 +1,286 @@
+import { IUser, User } from '../models';
+import { redisService } from './redis.service';
+import { otpService } from './otp.service';
+import { queueService } from '../queues/queue.service';
+import config from '../config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import { OtpPurpose } from '../types/otp.types';
+import type { AccountLockout, IpBlock } from '../types/lockout.types';
+
+/**
+ * Lockout Service
+ * Failed-login counters per account and per IP, progressive delays, temporary lockouts
+ * and OTP unlock. Accounts are keyed by email whether or not a user exists,
+ * so lockout behaviour never reveals which accounts exist.
+ */
+class LockoutService {
+  private static instance: LockoutService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): LockoutService {
+    if (!LockoutService.instance) {
+      LockoutService.instance = new LockoutService();
+    }
+    return LockoutService.instance;
+  }
+
+  /**
+   * Normalize an email for use in keys
+   */
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * Get Redis key for an account's failure counter
+   */
+  private getAccountFailuresKey(email: string): string {
+    return `lockout:failures:account:${email}`;
+  }
+
+  /**
+   * Get Redis key for an IP's failure counter
+   */
+  private getIpFailuresKey(ip: string): string {
+    return `lockout:failures:ip:${ip}`;
+  }
+
+  /**
+   * Get Redis key for an account lock
+   */
+  private getAccountLockKey(email: string): string {
+    return `lockout:locked:account:${email}`;
+  }
+
+  /**
+   * Get Redis key for an IP block
+   */
+  private getIpBlockKey(ip: string): string {
+    return `lockout:locked:ip:${ip}`;
+  }
+
+  /**
+   * Read a JSON value from Redis
+   */
+  private async readJson<T>(key: string): Promise<T | null> {
+    const data = await redisService.get(key);
+    return data ? (JSON.parse(data) as T) : null;
+  }
+
+  /**
+   * Delay to add to a failed attempt: doubles with each failure past the free ones
+   */
+  private getDelayMs(failures: number): number {
+    const { delayAfterFailures, baseDelayMs, maxDelayMs } = config.lockout;
+    if (failures <= delayAfterFailures) {
+      return 0;
+    }
+    return Math.min(baseDelayMs * 2 ** (failures - delayAfterFailures - 1), maxDelayMs);
+  }
+
+  // =====================
+  // LOGIN ATTEMPTS
+  // =====================
+
+  /**
+   * Reject the attempt if the account is locked or the IP is blocked
+   */
+  public async assertCanAttempt(email: string, ip: string): Promise<void> {
+    const [lock, block] = await Promise.all([
+      redisService.get(this.getAccountLockKey(this.normalizeEmail(email))),
+      redisService.get(this.getIpBlockKey(ip)),
+    ]);
+
+    if (block) {
+      throw ApiError.tooManyRequests(MESSAGES.AUTH.LOGIN_IP_BLOCKED);
+    }
+    if (lock) {
+      throw ApiError.tooManyRequests(MESSAGES.AUTH.ACCOUNT_LOCKED);
+    }
+  }
+
+  /**
+   * Count a failed attempt, lock or block when a threshold is reached,
+   * and slow the response down progressively
+   */
+  public async recordFailure(email: string, ip: string, user: IUser | null): Promise<void> {
+    const normalized = this.normalizeEmail(email);
+    const { lockout } = config;
+
+    const [accountFailures, ipFailures] = await Promise.all([
+      redisService.incr(this.getAccountFailuresKey(normalized), lockout.accountWindowSeconds),
+      redisService.incr(this.getIpFailuresKey(ip), lockout.ipWindowSeconds),
+    ]);
+
+    if (accountFailures >= lockout.maxAccountFailures) {
+      await this.lockAccount(normalized, accountFailures, ip, user);
+    }
+
+    if (ipFailures >= lockout.maxIpFailures) {
+      const now = Date.now();
+      const block: IpBlock = {
+        ipAddress: ip,
+        failedAttempts: ipFailures,
+        blockedAt: now,
+        blockedUntil: now + lockout.ipBlockSeconds * 1000,
+      };
+      await redisService.set(this.getIpBlockKey(ip), JSON.stringify(block), lockout.ipBlockSeconds);
+      await redisService.del(this.getIpFailuresKey(ip));
+      logger.warn(`Security event: login blocked for IP ${ip} after ${ipFailures} failures`);
+    }
+
+    const delayMs = this.getDelayMs(accountFailures);
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  /**
+   * Reset the account's failure counter after a successful login
+   */
+  public async recordSuccess(email: string): Promise<void> {
+    await redisService.del(this.getAccountFailuresKey(this.normalizeEmail(email)));
+  }
+
+  /**
+   * Lock an account and email its owner, if there is one
+   */
+  private async lockAccount(
+    email: string,
+    failedAttempts: number,
+    ip: string,
+    user: IUser | null
+  ): Promise<void> {
+    const now = Date.now();
+    const lockSeconds = config.lockout.accountLockSeconds;
+    const lock: AccountLockout = {
+      email,
+      failedAttempts,
+      ipAddress: ip,
+      lockedAt: now,
+      lockedUntil: now + lockSeconds * 1000,
+    };
+
+    await redisService.set(this.getAccountLockKey(email), JSON.stringify(lock), lockSeconds);
+    await redisService.del(this.getAccountFailuresKey(email));
+    logger.warn(`Security event: account ${email} locked after ${failedAttempts} failed logins`);
+
+    if (!user) {
+      return;
+    }
+
+    try {
+      await queueService.addJob({
+        queue: 'QUEUE__EMAIL',
+        job: 'SEND_ACCOUNT_LOCKED_EMAIL',
+        data: {
+          to: user.email,
+          userName: user.firstName,
+          lockedUntil: new Date(lock.lockedUntil),
+          failedAttempts,
+          ipAddress: ip,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to queue account locked email:', error);
+    }
+  }
+
+  // =====================
+  // UNLOCK
+  // =====================
+
+  /**
+   * Send an unlock code if the account is locked.
+   * Always completes the same way so callers cannot probe for accounts or locks.
+   */
+  public async requestUnlock(email: string): Promise<void> {
+    const normalized = this.normalizeEmail(email);
+    const lock = await redisService.get(this.getAccountLockKey(normalized));
+    if (!lock) {
+      return;
+    }
+
+    const user = await User.findOne({ email: normalized });
+    if (!user) {
+      return;
+    }
+
+    try {
+      await otpService.sendOtp(normalized, OtpPurpose.ACCOUNT_UNLOCK, user.firstName);
+    } catch (error) {
+      // Cooldown errors would otherwise reveal that the account exists
+      logger.warn(`Unlock code not sent for ${normalized}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Unlock an account with the code from requestUnlock
+   */
+  public async unlockWithOtp(email: string, otp: string): Promise<void> {
+    const normalized = this.normalizeEmail(email);
+    await otpService.verifyOtp(normalized, otp, OtpPurpose.ACCOUNT_UNLOCK);
+    await this.clearAccountLockout(normalized);
+    logger.info(`Account ${normalized} unlocked by OTP`);
+  }
+
+  // =====================
+  // ADMIN
+  // =====================
+
+  /**
+   * List current account locks and IP blocks
+   */
+  public async listLockouts(): Promise<{ accounts: AccountLockout[]; ips: IpBlock[] }> {
+    const [accountKeys, ipKeys] = await Promise.all([
+      redisService.scanKeys(this.getAccountLockKey('*')),
+      redisService.scanKeys(this.getIpBlockKey('*')),
+    ]);
+
+    const [accounts, ips] = await Promise.all([
+      Promise.all(accountKeys.map((key) => this.readJson<AccountLockout>(key))),
+      Promise.all(ipKeys.map((key) => this.readJson<IpBlock>(key))),
+    ]);
+
+    return {
+      accounts: accounts
+        .filter((lock): lock is AccountLockout => lock !== null)
+        .sort((a, b) => b.lockedAt - a.lockedAt),
+      ips: ips
+        .filter((block): block is IpBlock => block !== null)
+        .sort((a, b) => b.blockedAt - a.blockedAt),
+    };
+  }
+
+  /**
+   * Clear an account lock and its failure counter
+   */
+  public async clearAccountLockout(email: string): Promise<boolean> {
+    const normalized = this.normalizeEmail(email);
+    const [removed] = await Promise.all([
+      redisService.del(this.getAccountLockKey(normalized)),
+      redisService.del(this.getAccountFailuresKey(normalized)),
+    ]);
+    return removed > 0;
+  }
+
+  /**
+   * Clear an IP block and its failure counter
+   */
+  public async clearIpBlock(ip: string): Promise<boolean> {
+    const [removed] = await Promise.all([
+      redisService.del(this.getIpBlockKey(ip)),
+      redisService.del(this.getIpFailuresKey(ip)),
+    ]);
+    return removed > 0;
+  }
+}
+
+export const lockoutService = LockoutService.getInstance();
+export default lockoutService;
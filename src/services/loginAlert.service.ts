@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import net from 'net';
+import { IUser, User, IDeviceInfo, LoginEvent, ILoginEvent, LoginMethod } from '../models';
+import { NotificationType } from '../models/Notification';
+import { notificationService } from './notification.service';
+import { logoutAllDevices } from './auth.service';
+import { queueService } from '../queues/queue.service';
+import config from '../config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+
+/**
+ * Login Alert Service
+ * Records login history and alerts users to sign-ins from unseen devices or unusual networks.
+ * Alerts carry a single-use "this wasn't me" token that signs out every session
+ * and requires a password reset.
+ */
+class LoginAlertService {
+  private static instance: LoginAlertService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): LoginAlertService {
+    if (!LoginAlertService.instance) {
+      LoginAlertService.instance = new LoginAlertService();
+    }
+    return LoginAlertService.instance;
+  }
+
+  /**
+   * Hash a report token for storage
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Network an IP belongs to: /24 for IPv4, /48 for IPv6
+   */
+  private getNetwork(ip: string): string {
+    const address = ip.replace(/^::ffff:/, '').split('%')[0];
+
+    if (net.isIPv4(address)) {
+      return address.split('.').slice(0, 3).join('.');
+    }
+
+    if (net.isIPv6(address)) {
+      const [head, tail = ''] = address.split('::');
+      const headGroups = head ? head.split(':') : [];
+      const tailGroups = tail ? tail.split(':') : [];
+      const groups = [
+        ...headGroups,
+        ...Array<string>(8 - headGroups.length - tailGroups.length).fill('0'),
+        ...tailGroups,
+      ];
+      return groups
+        .slice(0, 3)
+        .map((group) => parseInt(group, 16).toString(16))
+        .join(':');
+    }
+
+    return address;
+  }
+
+  /**
+   * Record a login and send an alert if it comes from an unseen device or unusual network.
+   * Never throws: history and alerts must not block a login.
+   */
+  public async recordLogin(
+    user: IUser,
+    sessionId: string,
+    deviceInfo: IDeviceInfo,
+    method: LoginMethod
+  ): Promise<void> {
+    try {
+      const [recentLogins, seenDevice] = await Promise.all([
+        LoginEvent.find({ userId: user._id })
+          .sort({ createdAt: -1 })
+          .limit(config.loginAlerts.recentLoginCount)
+          .select('deviceInfo.ip'),
+        LoginEvent.exists({ userId: user._id, 'deviceInfo.deviceId': deviceInfo.deviceId }),
+      ]);
+
+      const network = this.getNetwork(deviceInfo.ip);
+      const isNewDevice = !seenDevice;
+      const isUnusualIp =
+        recentLogins.length > 0 &&
+        !recentLogins.some((login) => this.getNetwork(login.deviceInfo.ip) === network);
+
+      // Without earlier logins there is no pattern to compare against
+      const shouldAlert =
+        method !== LoginMethod.REGISTRATION &&
+        recentLogins.length > 0 &&
+        (isNewDevice || isUnusualIp);
+
+      const reportToken = shouldAlert ? crypto.randomBytes(32).toString('base64url') : undefined;
+      const now = Date.now();
+
+      const event = await LoginEvent.create({
+        userId: user._id,
+        sessionId,
+        method,
+        deviceInfo,
+        isNewDevice,
+        isUnusualIp,
+        alertSent: shouldAlert,
+        reportTokenHash: reportToken ? this.hashToken(reportToken) : undefined,
+        reportTokenExpiresAt: reportToken
+          ? new Date(now + config.loginAlerts.reportTokenTtlSeconds * 1000)
+          : undefined,
+        expiresAt: new Date(now + config.loginAlerts.historyRetentionDays * 24 * 60 * 60 * 1000),
+      });
+
+      if (reportToken) {
+        await this.sendAlert(user, event, reportToken);
+      }
+    } catch (error) {
+      logger.error('Failed to record login event:', error);
+    }
+  }
+
+  /**
+   * Email and notify the user about a flagged login
+   */
+  private async sendAlert(user: IUser, event: ILoginEvent, reportToken: string): Promise<void> {
+    const { deviceInfo } = event;
+    const reportUrl = `${config.loginAlerts.reportUrl}?token=${reportToken}`;
+
+    const reasons: string[] = [];
+    if (event.isNewDevice) {
+      reasons.push('a new device');
+    }
+    if (event.isUnusualIp) {
+      reasons.push('an unfamiliar network');
+    }
+
+    logger.info(
+      `Login alert for user ${user._id}: ${reasons.join(', ')} (${deviceInfo.deviceName}, ${deviceInfo.ip})`
+    );
+
+    try {
+      await queueService.addJob({
+        queue: 'QUEUE__EMAIL',
+        job: 'SEND_LOGIN_ALERT_EMAIL',
+        data: {
+          to: user.email,
+          userName: user.firstName,
+          deviceName: deviceInfo.deviceName,
+          browser: deviceInfo.browser,
+          os: deviceInfo.os,
+          ipAddress: deviceInfo.ip,
+          loggedInAt: event.createdAt,
+          reasons,
+          reportUrl,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to queue login alert email:', error);
+    }
+
+    try {
+      await notificationService.notifyUser(user._id, {
+        title: MESSAGES.AUTH.NEW_LOGIN_ALERT_TITLE,
+        body: MESSAGES.AUTH.NEW_LOGIN_ALERT_BODY.replace(
+          '{device}',
+          `${deviceInfo.deviceName} (${deviceInfo.browser}, ${deviceInfo.os})`
+        ).replace('{ip}', deviceInfo.ip),
+        type: NotificationType.ALERT,
+        actionUrl: reportUrl,
+        data: {
+          reason: 'new_login',
+          loginEventId: event._id.toString(),
+          deviceName: deviceInfo.deviceName,
+          ip: deviceInfo.ip,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to send login alert notification:', error);
+    }
+  }
+
+  /**
+   * Report a login as not the user's: sign out every session and require a password reset
+   */
+  public async reportLogin(token: string): Promise<void> {
+    const event = await LoginEvent.findOneAndUpdate(
+      {
+        reportTokenHash: this.hashToken(token),
+        reportTokenExpiresAt: { $gt: new Date() },
+      },
+      {
+        $set: { reportedAt: new Date() },
+        $unset: { reportTokenHash: 1, reportTokenExpiresAt: 1 },
+      }
+    );
+
+    if (!event) {
+      throw ApiError.badRequest(MESSAGES.AUTH.LOGIN_REPORT_INVALID);
+    }
+
+    const userId = event.userId.toString();
+    await User.updateOne({ _id: userId }, { passwordResetRequired: true });
+    await logoutAllDevices(userId);
+
+    logger.warn(
+      `Security event: login ${event._id} reported by user ${userId} ` +
+        `(device ${event.deviceInfo.deviceName}, IP ${event.deviceInfo.ip}). All sessions revoked.`
+    );
+  }
+
+  /**
+   * Get a user's login history, newest first
+   */
+  public async getHistory(
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ logins: ILoginEvent[]; total: number }> {
+    const { page = 1, limit = 20 } = options;
+    const skip = (page - 1) * limit;
+
+    const [logins, total] = await Promise.all([
+      LoginEvent.find({ userId }).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      LoginEvent.countDocuments({ userId }),
+    ]);
+
+    return { logins, total };
+  }
+}
+
+export const loginAlertService = LoginAlertService.getInstance();
+export default loginAlertService;
@@ -0,0 +1,106 @@
+import config from '../config';
+import storageService from './storage.service';
+import { mediaService } from './media.service';
+import clamdScannerService from './clamdScanner.service';
+import stubScannerService from './stubScanner.service';
+import { queueService } from '../queues/queue.service';
+import logger from '../utils/logger';
+import { MESSAGES } from '../constants/messages';
+import { MalwareScannerDriver, type MalwareScanner } from '../types/malwareScan.types';
+import type { StorageResourceType } from '../types/storage.types';
+
+const scanners: Record<MalwareScannerDriver, MalwareScanner> = {
+  [MalwareScannerDriver.CLAMD]: clamdScannerService,
+  [MalwareScannerDriver.STUB]: stubScannerService,
+};
+
+export type ScanOutcome = 'clean' | 'infected' | 'skipped';
+
+/**
+ * Malware Scan Service
+ * Scans quarantined uploads with the scanner selected by MALWARE_SCANNER. Clean media is
+ * moved to public storage; infected files are deleted and the uploader is notified.
+ */
+class MalwareScanService {
+  private static instance: MalwareScanService;
+  private scanner: MalwareScanner;
+
+  private constructor() {
+    const scanner = scanners[config.upload.malwareScan.scanner];
+    if (!scanner) {
+      throw new Error(
+        `Unknown malware scanner "${config.upload.malwareScan.scanner}". ` +
+          `Use one of: ${Object.values(MalwareScannerDriver).join(', ')}`
+      );
+    }
+    this.scanner = scanner;
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): MalwareScanService {
+    if (!MalwareScanService.instance) {
+      MalwareScanService.instance = new MalwareScanService();
+    }
+    return MalwareScanService.instance;
+  }
+
+  /**
+   * Scan a stored file and act on the verdict.
+   * Rejects when the file cannot be read or the scanner gives no verdict, so the job retries.
+   */
+  public async scanMedia(publicId: string): Promise<ScanOutcome> {
+    const media = await mediaService.findPendingScan(publicId);
+    if (!media) {
+      // Deleted by its owner, or already scanned by an earlier attempt
+      return 'skipped';
+    }
+
+    const resourceType = media.resourceType as StorageResourceType;
+    const stream = await storageService.downloadMedia(publicId, resourceType, 'private');
+    const verdict = await this.scanner.scan(stream);
+
+    if (!verdict.infected) {
+      const published = await storageService.publish(publicId, resourceType);
+      await mediaService.markClean(publicId, published);
+      logger.info(`Media ${publicId} passed the malware scan`);
+      return 'clean';
+    }
+
+    logger.warn(`Malware found in media ${publicId}: ${verdict.threat ?? 'unknown threat'}`);
+
+    await storageService.deleteMedia(publicId, resourceType, 'private');
+    const infected = await mediaService.markInfected(publicId, verdict.threat);
+
+    if (infected) {
+      await queueService.addJob({
+        queue: 'QUEUE__NOTIFICATION',
+        job: 'SEND_IN_APP',
+        data: {
+          userId: infected.userId.toString(),
+          title: MESSAGES.MEDIA.MALWARE_FOUND_TITLE,
+          body: MESSAGES.MEDIA.MALWARE_FOUND.replace(
+            '{filename}',
+            infected.originalFilename ?? publicId
+          ).replace('{threat}', verdict.threat ?? 'unknown threat'),
+          type: 'error',
+          data: { publicId, threat: verdict.threat },
+        },
+      });
+    }
+
+    return 'infected';
+  }
+
+  /**
+   * Give up on a scan after its last attempt, leaving the media quarantined
+   */
+  public async markFailed(publicId: string, reason: string): Promise<void> {
+    await mediaService.markScanFailed(publicId, reason);
+    logger.error(`Malware scan of media ${publicId} failed: ${reason}`);
+  }
+}
+
+export const malwareScanService = MalwareScanService.getInstance();
+export default malwareScanService;
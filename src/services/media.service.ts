@@ -0,0 +1,344 @@
+import {
+  Media,
+  IMedia,
+  MediaResourceType,
+  MediaSource,
+  MediaScanStatus,
+  UserRole,
+} from '../models';
+import type { StorageAccess, StorageResourceType, UploadResult } from '../types/storage.types';
+import { storageQuotaService } from './storageQuota.service';
+import storageService from './storage.service';
+import { queueService } from '../queues/queue.service';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+
+export interface RecordMediaInput {
+  mimeType: string;
+  source: MediaSource;
+  originalFilename?: string;
+}
+
+export interface ReserveDirectUploadInput {
+  publicId: string;
+  resourceType: StorageResourceType;
+  mimeType: string;
+  bytes: number;
+  originalFilename?: string;
+  expiresAt: Date;
+}
+
+/**
+ * Upload details handed to clients; the URLs are only present once the file is clean
+ */
+export type ClientUploadResult = Omit<UploadResult, 'url' | 'secureUrl'> &
+  Partial<Pick<UploadResult, 'url' | 'secureUrl'>> & { scanStatus?: MediaScanStatus };
+
+/**
+ * Media Service
+ * Keeps a record of every upload and who made it, so media can be listed per owner
+ * and only the owner or an admin can inspect or delete it. Records drive the owner's
+ * storage usage counters and hold each file's malware scan state.
+ */
+class MediaService {
+  private static instance: MediaService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): MediaService {
+    if (!MediaService.instance) {
+      MediaService.instance = new MediaService();
+    }
+    return MediaService.instance;
+  }
+
+  /**
+   * Record an upload, count it against the owner's storage and queue its malware scan
+   */
+  public async record(
+    userId: string,
+    result: UploadResult,
+    input: RecordMediaInput
+  ): Promise<IMedia> {
+    const media = await Media.create({
+      userId,
+      publicId: result.publicId,
+      resourceType: result.resourceType as MediaResourceType,
+      format: result.format,
+      mimeType: input.mimeType,
+      bytes: result.bytes,
+      width: result.width,
+      height: result.height,
+      duration: result.duration,
+      url: result.url,
+      secureUrl: result.secureUrl,
+      originalFilename: input.originalFilename ?? result.originalFilename,
+      source: input.source,
+    });
+
+    await storageQuotaService.adjustUsage(userId, media.bytes, 1);
+    logger.info(`Media ${media.publicId} recorded for user ${userId}`);
+
+    await this.queueScan(media.publicId);
+    return media;
+  }
+
+  /**
+   * Record a direct upload the user has been given a signed URL for. Its declared size is
+   * reserved against the owner's quota until the upload is completed or swept.
+   */
+  public async reserveDirectUpload(
+    userId: string,
+    input: ReserveDirectUploadInput
+  ): Promise<IMedia> {
+    const media = await Media.create({
+      userId,
+      publicId: input.publicId,
+      resourceType: input.resourceType as MediaResourceType,
+      mimeType: input.mimeType,
+      bytes: input.bytes,
+      originalFilename: input.originalFilename,
+      source: MediaSource.DIRECT,
+      scanStatus: MediaScanStatus.AWAITING_UPLOAD,
+      uploadExpiresAt: input.expiresAt,
+    });
+
+    await storageQuotaService.adjustUsage(userId, media.bytes, 1);
+    return media;
+  }
+
+  /**
+   * Find a direct upload the user has not completed yet
+   */
+  public async findAwaitingUpload(publicId: string, userId: string): Promise<IMedia> {
+    const media = await Media.findOne({
+      publicId,
+      userId,
+      scanStatus: MediaScanStatus.AWAITING_UPLOAD,
+    });
+    if (!media) {
+      throw ApiError.notFound(MESSAGES.MEDIA.NOT_FOUND);
+    }
+    return media;
+  }
+
+  /**
+   * Complete a direct upload with what was stored, count its actual size in place of the
+   * reserved one and queue its scan. Only the first of concurrent completions succeeds.
+   */
+  public async completeDirectUpload(
+    reserved: IMedia,
+    result: UploadResult,
+    mimeType: string
+  ): Promise<IMedia> {
+    const { publicId } = reserved;
+    const media = await Media.findOneAndUpdate(
+      { publicId, scanStatus: MediaScanStatus.AWAITING_UPLOAD },
+      {
+        scanStatus: MediaScanStatus.PENDING,
+        format: result.format,
+        mimeType,
+        bytes: result.bytes,
+        width: result.width,
+        height: result.height,
+        duration: result.duration,
+        url: result.url,
+        secureUrl: result.secureUrl,
+        $unset: { uploadExpiresAt: 1 },
+      },
+      { new: true }
+    );
+    if (!media) {
+      throw ApiError.conflict(MESSAGES.MEDIA.DIRECT_UPLOAD_COMPLETED_ALREADY);
+    }
+
+    await storageQuotaService.adjustUsage(media.userId.toString(), media.bytes - reserved.bytes, 0);
+    logger.info(`Direct upload ${publicId} completed by user ${media.userId.toString()}`);
+
+    await this.queueScan(publicId);
+    return media;
+  }
+
+  /**
+   * Drop the record of a direct upload that was refused or never completed,
+   * releasing its reserved storage
+   */
+  public async discardDirectUpload(publicId: string): Promise<void> {
+    const media = await Media.findOneAndDelete({
+      publicId,
+      scanStatus: MediaScanStatus.AWAITING_UPLOAD,
+    });
+    if (media) {
+      await storageQuotaService.adjustUsage(media.userId.toString(), -media.bytes, -1);
+    }
+  }
+
+  /**
+   * Delete a batch of direct uploads whose completion window has passed, along with
+   * anything uploaded to their signed URLs (called by the media queue sweeper)
+   */
+  public async deleteExpiredDirectUploads(limit: number = 100): Promise<number> {
+    const expired = await Media.find({
+      scanStatus: MediaScanStatus.AWAITING_UPLOAD,
+      uploadExpiresAt: { $lte: new Date() },
+    })
+      .sort({ uploadExpiresAt: 1 })
+      .limit(limit);
+
+    for (const media of expired) {
+      await storageService.deleteMedia(
+        media.publicId,
+        media.resourceType as StorageResourceType,
+        'private'
+      );
+      await this.discardDirectUpload(media.publicId);
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Queue the malware scan of a stored file
+   */
+  private async queueScan(publicId: string): Promise<void> {
+    try {
+      await queueService.addJob({
+        queue: 'QUEUE__MEDIA',
+        job: 'SCAN_MEDIA',
+        data: { publicId },
+      });
+    } catch (error) {
+      // The file stays quarantined until it is scanned
+      logger.error(`Failed to queue malware scan for ${publicId}:`, error);
+    }
+  }
+
+  /**
+   * List a user's media, newest first
+   */
+  public async listByOwner(
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ media: IMedia[]; total: number }> {
+    const { page = 1, limit = 20 } = options;
+    const skip = (page - 1) * limit;
+    // Signed direct uploads are listed once the file has arrived
+    const filter = { userId, scanStatus: { $ne: MediaScanStatus.AWAITING_UPLOAD } };
+
+    const [media, total] = await Promise.all([
+      Media.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      Media.countDocuments(filter),
+    ]);
+
+    return { media, total };
+  }
+
+  /**
+   * Find media the user may manage: their own, or any for admins.
+   * Returns null for an admin asking about media uploaded before uploads were recorded.
+   */
+  public async findForUser(publicId: string, user: Express.User): Promise<IMedia | null> {
+    const media = await Media.findOne({ publicId });
+    const isAdmin = user.role === UserRole.ADMIN;
+
+    // Other users' media is reported as missing so its existence is not revealed
+    if (!isAdmin && (!media || !media.userId.equals(user.id))) {
+      throw ApiError.notFound(MESSAGES.MEDIA.NOT_FOUND);
+    }
+
+    return media;
+  }
+
+  /**
+   * Where a recorded file is stored: private until it passes its malware scan
+   */
+  public getAccess(media: IMedia | null): StorageAccess {
+    return media && media.scanStatus !== MediaScanStatus.CLEAN ? 'private' : 'public';
+  }
+
+  /**
+   * Describe an upload to its owner, withholding the URLs until the file is clean
+   */
+  public toClientResult(result: UploadResult, media?: IMedia | null): ClientUploadResult {
+    const { url, secureUrl, ...details } = result;
+    if (media?.scanStatus === MediaScanStatus.CLEAN) {
+      return { ...details, url, secureUrl, scanStatus: media.scanStatus };
+    }
+    return { ...details, scanStatus: media?.scanStatus };
+  }
+
+  /**
+   * Remove the record of deleted media and release the owner's storage
+   */
+  public async remove(publicId: string): Promise<void> {
+    const media = await Media.findOneAndDelete({ publicId });
+    // Infected media released its storage when the scan deleted it
+    if (media && media.scanStatus !== MediaScanStatus.INFECTED) {
+      await storageQuotaService.adjustUsage(media.userId.toString(), -media.bytes, -1);
+    }
+  }
+
+  /**
+   * Find media still waiting for its malware scan
+   */
+  public async findPendingScan(publicId: string): Promise<IMedia | null> {
+    return Media.findOne({ publicId, scanStatus: MediaScanStatus.PENDING });
+  }
+
+  /**
+   * Release media that passed its scan from quarantine, with the URLs it is now served from
+   */
+  public async markClean(publicId: string, published: UploadResult): Promise<void> {
+    await Media.updateOne(
+      { publicId },
+      {
+        scanStatus: MediaScanStatus.CLEAN,
+        url: published.url,
+        secureUrl: published.secureUrl,
+        scannedAt: new Date(),
+        $unset: { scanError: 1 },
+      }
+    );
+  }
+
+  /**
+   * Mark media whose file was deleted for containing malware, releasing the owner's storage
+   */
+  public async markInfected(publicId: string, threat?: string): Promise<IMedia | null> {
+    const media = await Media.findOneAndUpdate(
+      { publicId, scanStatus: { $ne: MediaScanStatus.INFECTED } },
+      { scanStatus: MediaScanStatus.INFECTED, scanThreat: threat, scannedAt: new Date() },
+      { new: true }
+    );
+
+    if (media) {
+      await storageQuotaService.adjustUsage(media.userId.toString(), -media.bytes, -1);
+    }
+    return media;
+  }
+
+  /**
+   * Record that the scanner could not give a verdict; the media stays quarantined
+   */
+  public async markScanFailed(publicId: string, reason: string): Promise<void> {
+    await Media.updateOne(
+      { publicId, scanStatus: MediaScanStatus.PENDING },
+      { scanStatus: MediaScanStatus.FAILED, scanError: reason, scannedAt: new Date() }
+    );
+  }
+
+  /**
+   * Records of the given media that passed their malware scan. Files that were never
+   * uploaded through the API have no record, so they are never among them.
+   */
+  public async findClean(publicIds: string[]): Promise<IMedia[]> {
+    return Media.find({ publicId: { $in: publicIds }, scanStatus: MediaScanStatus.CLEAN });
+  }
+}
+
+export const mediaService = MediaService.getInstance();
+export default mediaService;
@@ -0,0 +1,475 @@
+import mongoose from 'mongoose';
+import {
+  ConversationParticipant,
+  Message,
+  IMessage,
+  MessageType,
+  ModerationAction,
+  ModerationLog,
+  IModerationLog,
+  Report,
+  IReport,
+  ReportReason,
+  ReportStatus,
+  User,
+  UserRole,
+} from '../models';
+import { chatService, MessageHistoryResult } from './chat.service';
+import { logoutAllDevices } from './auth.service';
+import { queueService } from '../queues/queue.service';
+import { ApiError } from '../utils/ApiError';
+import logger from '../utils/logger';
+import { MESSAGES } from '../constants/messages';
+
+/**
+ * Moderator performing an action, recorded in the audit log
+ */
+export interface ModeratorContext {
+  moderatorId: string;
+  ipAddress?: string;
+}
+
+/**
+ * Filters for the report queue
+ */
+export interface ReportFilters {
+  status?: ReportStatus;
+  reason?: ReportReason;
+  reportedUserId?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Messages surrounding a reported message
+ */
+export interface MessageContext {
+  message: IMessage;
+  before: IMessage[];
+  after: IMessage[];
+}
+
+// Moderators see deleted content alongside what participants see
+const MODERATION_FIELDS = '+deletedContent +deletedAttachments +deletedBy';
+
+/**
+ * Moderation Service - Message reports and audited moderator actions
+ */
+class ModerationService {
+  private static instance: ModerationService;
+
+  private constructor() {}
+
+  public static getInstance(): ModerationService {
+    if (!ModerationService.instance) {
+      ModerationService.instance = new ModerationService();
+    }
+    return ModerationService.instance;
+  }
+
+  // =====================
+  // REPORTS
+  // =====================
+
+  /**
+   * Report a message, snapshotting its current content
+   */
+  async reportMessage(
+    messageId: string,
+    reporterId: string,
+    reason: ReportReason,
+    details?: string
+  ): Promise<IReport> {
+    const message = await Message.findById(new mongoose.Types.ObjectId(messageId));
+    if (!message) {
+      throw ApiError.notFound(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    const reporterObjectId = new mongoose.Types.ObjectId(reporterId);
+
+    const isParticipant = await ConversationParticipant.exists({
+      conversationId: message.conversationId,
+      userId: reporterObjectId,
+      isActive: true,
+    });
+    if (!isParticipant) {
+      throw ApiError.forbidden(MESSAGES.CHAT.NOT_PARTICIPANT);
+    }
+
+    if (message.senderId.equals(reporterObjectId)) {
+      throw ApiError.badRequest(MESSAGES.MODERATION.CANNOT_REPORT_OWN_MESSAGE);
+    }
+
+    if (message.isDeleted || message.type === MessageType.SYSTEM) {
+      throw ApiError.badRequest(MESSAGES.MODERATION.CANNOT_REPORT_MESSAGE);
+    }
+
+    const existing = await Report.exists({ messageId: message._id, reporterId: reporterObjectId });
+    if (existing) {
+      throw ApiError.conflict(MESSAGES.MODERATION.ALREADY_REPORTED);
+    }
+
+    const report = await Report.create({
+      messageId: message._id,
+      conversationId: message.conversationId,
+      reporterId: reporterObjectId,
+      reportedUserId: message.senderId,
+      reason,
+      details: details?.trim() || undefined,
+      snapshot: {
+        content: message.content,
+        type: message.type,
+        attachments: message.attachments,
+        sentAt: message.createdAt,
+        editedAt: message.editedAt,
+      },
+    });
+
+    logger.info(`Message ${messageId} reported by ${reporterId} (${reason})`);
+
+    return report;
+  }
+
+  /**
+   * List reports, newest first
+   */
+  async listReports(filters: ReportFilters = {}): Promise<{ reports: IReport[]; total: number }> {
+    const { status, reason, reportedUserId, page = 1, limit = 20 } = filters;
+
+    const query: Record<string, unknown> = {};
+    if (status) {
+      query.status = status;
+    }
+    if (reason) {
+      query.reason = reason;
+    }
+    if (reportedUserId) {
+      query.reportedUserId = new mongoose.Types.ObjectId(reportedUserId);
+    }
+
+    const [reports, total] = await Promise.all([
+      Report.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('reporterId', 'firstName lastName slug')
+        .populate('reportedUserId', 'firstName lastName slug isActive')
+        .populate('resolvedBy', 'firstName lastName slug')
+        .lean<IReport[]>(),
+      Report.countDocuments(query),
+    ]);
+
+    return { reports, total };
+  }
+
+  /**
+   * Get a single report
+   */
+  async getReport(reportId: string): Promise<IReport> {
+    const report = await Report.findById(new mongoose.Types.ObjectId(reportId))
+      .populate('reporterId', 'firstName lastName slug')
+      .populate('reportedUserId', 'firstName lastName slug isActive')
+      .populate('resolvedBy', 'firstName lastName slug')
+      .lean<IReport>();
+
+    if (!report) {
+      throw ApiError.notFound(MESSAGES.MODERATION.REPORT_NOT_FOUND);
+    }
+
+    return report;
+  }
+
+  /**
+   * Resolve or dismiss an open report
+   */
+  async closeReport(
+    reportId: string,
+    status: ReportStatus.RESOLVED | ReportStatus.DISMISSED,
+    moderator: ModeratorContext,
+    note?: string
+  ): Promise<IReport> {
+    const report = await Report.findOneAndUpdate(
+      { _id: new mongoose.Types.ObjectId(reportId), status: ReportStatus.OPEN },
+      {
+        $set: {
+          status,
+          resolvedBy: new mongoose.Types.ObjectId(moderator.moderatorId),
+          resolvedAt: new Date(),
+          resolutionNote: note?.trim() || undefined,
+        },
+      },
+      { new: true }
+    );
+
+    if (!report) {
+      const exists = await Report.exists({ _id: new mongoose.Types.ObjectId(reportId) });
+      throw exists
+        ? ApiError.conflict(MESSAGES.MODERATION.REPORT_CLOSED)
+        : ApiError.notFound(MESSAGES.MODERATION.REPORT_NOT_FOUND);
+    }
+
+    await this.audit(moderator, {
+      action:
+        status === ReportStatus.RESOLVED
+          ? ModerationAction.RESOLVE_REPORT
+          : ModerationAction.DISMISS_REPORT,
+      reportId,
+      messageId: report.messageId.toString(),
+      targetUserId: report.reportedUserId.toString(),
+      note,
+    });
+
+    return report;
+  }
+
+  // =====================
+  // MODERATOR ACTIONS
+  // =====================
+
+  /**
+   * Get the messages around a message, including deleted content
+   */
+  async getMessageContext(
+    messageId: string,
+    moderator: ModeratorContext,
+    size: number = 10,
+    reportId?: string
+  ): Promise<MessageContext> {
+    const message = await Message.findById(new mongoose.Types.ObjectId(messageId))
+      .select(MODERATION_FIELDS)
+      .populate('senderId', 'firstName lastName slug')
+      .lean<IMessage>();
+
+    if (!message) {
+      throw ApiError.notFound(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+    }
+
+    // Context follows the timeline the message lives in (main or thread)
+    const scope = {
+      conversationId: message.conversationId,
+      threadRootId: message.threadRootId ?? null,
+    };
+
+    const [before, after] = await Promise.all([
+      Message.find({ ...scope, _id: { $lt: message._id } })
+        .sort({ _id: -1 })
+        .limit(size)
+        .select(MODERATION_FIELDS)
+        .populate('senderId', 'firstName lastName slug')
+        .lean<IMessage[]>(),
+      Message.find({ ...scope, _id: { $gt: message._id } })
+        .sort({ _id: 1 })
+        .limit(size)
+        .select(MODERATION_FIELDS)
+        .populate('senderId', 'firstName lastName slug')
+        .lean<IMessage[]>(),
+    ]);
+
+    await this.audit(moderator, {
+      action: ModerationAction.VIEW_CONTEXT,
+      reportId,
+      messageId,
+    });
+
+    return { message, before: before.reverse(), after };
+  }
+
+  /**
+   * Get the edit history of a message, including deleted content
+   */
+  async getMessageHistory(
+    messageId: string,
+    moderator: ModeratorContext,
+    reportId?: string
+  ): Promise<MessageHistoryResult> {
+    let history: MessageHistoryResult;
+    try {
+      history = await chatService.getMessageHistoryAsModerator(messageId);
+    } catch (error) {
+      if (error instanceof Error && error.message === MESSAGES.CHAT.MESSAGE_NOT_FOUND) {
+        throw ApiError.notFound(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+      }
+      throw error;
+    }
+
+    await this.audit(moderator, {
+      action: ModerationAction.VIEW_HISTORY,
+      reportId,
+      messageId,
+    });
+
+    return history;
+  }
+
+  /**
+   * Remove a message for everyone
+   */
+  async removeMessage(
+    messageId: string,
+    moderator: ModeratorContext,
+    options: { reportId?: string; note?: string } = {}
+  ): Promise<IMessage> {
+    let message: IMessage;
+    try {
+      message = await chatService.removeMessageAsModerator(messageId, moderator.moderatorId);
+    } catch (error) {
+      if (error instanceof Error && error.message === MESSAGES.CHAT.MESSAGE_NOT_FOUND) {
+        throw ApiError.notFound(MESSAGES.CHAT.MESSAGE_NOT_FOUND);
+      }
+      throw error;
+    }
+
+    await this.audit(moderator, {
+      action: ModerationAction.REMOVE_MESSAGE,
+      reportId: options.reportId,
+      messageId,
+      targetUserId: message.senderId.toString(),
+      note: options.note,
+    });
+
+    return message;
+  }
+
+  /**
+   * Warn a user with an in-app notification
+   */
+  async warnUser(
+    userId: string,
+    moderator: ModeratorContext,
+    note: string,
+    reportId?: string
+  ): Promise<void> {
+    await this.getModeratableUser(userId);
+
+    await queueService.addJob({
+      queue: 'QUEUE__NOTIFICATION',
+      job: 'SEND_IN_APP',
+      data: {
+        userId,
+        title: MESSAGES.MODERATION.WARNING_TITLE,
+        body: note,
+        type: 'warning',
+        data: reportId ? { reportId } : undefined,
+      },
+    });
+
+    await this.audit(moderator, {
+      action: ModerationAction.WARN_USER,
+      reportId,
+      targetUserId: userId,
+      note,
+    });
+  }
+
+  /**
+   * Deactivate a user and revoke their sessions
+   */
+  async deactivateUser(
+    userId: string,
+    moderator: ModeratorContext,
+    options: { reportId?: string; note?: string } = {}
+  ): Promise<void> {
+    const user = await this.getModeratableUser(userId);
+
+    user.isActive = false;
+    await user.save();
+    await logoutAllDevices(userId);
+
+    await this.audit(moderator, {
+      action: ModerationAction.DEACTIVATE_USER,
+      reportId: options.reportId,
+      targetUserId: userId,
+      note: options.note,
+    });
+  }
+
+  // =====================
+  // AUDIT LOG
+  // =====================
+
+  /**
+   * List audit log entries, newest first
+   */
+  async listAuditLog(
+    filters: {
+      moderatorId?: string;
+      targetUserId?: string;
+      action?: ModerationAction;
+      page?: number;
+      limit?: number;
+    } = {}
+  ): Promise<{ entries: IModerationLog[]; total: number }> {
+    const { moderatorId, targetUserId, action, page = 1, limit = 50 } = filters;
+
+    const query: Record<string, unknown> = {};
+    if (moderatorId) {
+      query.moderatorId = new mongoose.Types.ObjectId(moderatorId);
+    }
+    if (targetUserId) {
+      query.targetUserId = new mongoose.Types.ObjectId(targetUserId);
+    }
+    if (action) {
+      query.action = action;
+    }
+
+    const [entries, total] = await Promise.all([
+      ModerationLog.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('moderatorId', 'firstName lastName slug')
+        .populate('targetUserId', 'firstName lastName slug')
+        .lean<IModerationLog[]>(),
+      ModerationLog.countDocuments(query),
+    ]);
+
+    return { entries, total };
+  }
+
+  /**
+   * Record a moderator action
+   */
+  private async audit(
+    moderator: ModeratorContext,
+    entry: {
+      action: ModerationAction;
+      reportId?: string;
+      messageId?: string;
+      targetUserId?: string;
+      note?: string;
+    }
+  ): Promise<void> {
+    const toObjectId = (id?: string) => (id ? new mongoose.Types.ObjectId(id) : undefined);
+
+    await ModerationLog.create({
+      moderatorId: new mongoose.Types.ObjectId(moderator.moderatorId),
+      action: entry.action,
+      reportId: toObjectId(entry.reportId),
+      messageId: toObjectId(entry.messageId),
+      targetUserId: toObjectId(entry.targetUserId),
+      note: entry.note?.trim() || undefined,
+      ipAddress: moderator.ipAddress,
+    });
+
+    logger.info(`Moderation: ${entry.action} by ${moderator.moderatorId}`);
+  }
+
+  /**
+   * Load a user that moderators are allowed to act on (regular users only)
+   */
+  private async getModeratableUser(userId: string) {
+    const user = await User.findById(new mongoose.Types.ObjectId(userId));
+    if (!user) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+
+    if (user.role !== UserRole.USER) {
+      throw ApiError.forbidden(MESSAGES.MODERATION.CANNOT_MODERATE_STAFF);
+    }
+
+    return user;
+  }
+}
+
+export const moderationService = ModerationService.getInstance();
+export default moderationService;
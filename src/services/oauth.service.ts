@@ -0,0 +1,551 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+import { User, IUser, Passkey, ExternalIdentity, IExternalIdentity } from '../models';
+import { redisService } from './redis.service';
+import { logoutAllDevices } from './auth.service';
+import config from '../config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import {
+  OAuthIntent,
+  OAuthProviderKind,
+  type OAuthAuthorizationResult,
+  type OAuthProfile,
+  type OAuthProviderConfig,
+  type StoredOAuthState,
+} from '../types/oauth.types';
+
+const GITHUB_API_URL = 'https://api.github.com';
+const GITHUB_USER_AGENT = 'express-ts-api';
+
+/**
+ * Provider endpoints, from discovery for OIDC or from config otherwise
+ */
+interface ProviderEndpoints {
+  issuer?: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userInfoEndpoint?: string;
+  jwks?: ReturnType<typeof createRemoteJWKSet>;
+}
+
+/**
+ * Token endpoint response
+ */
+interface TokenResponse {
+  access_token?: string;
+  id_token?: string;
+  error?: string;
+}
+
+/**
+ * OAuth Service
+ * Authorization code flow with PKCE against configured OAuth / OIDC providers,
+ * and linking of the resulting external identities to users
+ */
+class OAuthService {
+  private static instance: OAuthService;
+  private endpoints = new Map<string, ProviderEndpoints>();
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): OAuthService {
+    if (!OAuthService.instance) {
+      OAuthService.instance = new OAuthService();
+    }
+    return OAuthService.instance;
+  }
+
+  /**
+   * Get Redis key for a pending authorization
+   */
+  private getStateKey(state: string): string {
+    return `oauth:state:${state}`;
+  }
+
+  /**
+   * Get a configured provider or fail
+   */
+  private getProvider(providerId: string): OAuthProviderConfig {
+    const provider = config.oauth.providers[providerId];
+    if (!provider) {
+      throw ApiError.notFound(MESSAGES.AUTH.OAUTH_PROVIDER_NOT_FOUND);
+    }
+    return provider;
+  }
+
+  /**
+   * Fetch JSON, failing on non-2xx responses
+   */
+  private async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...init?.headers },
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      throw new Error(`${url} responded with ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Resolve provider endpoints, reading OIDC discovery once per provider
+   */
+  private async getEndpoints(
+    providerId: string,
+    provider: OAuthProviderConfig
+  ): Promise<ProviderEndpoints> {
+    const cached = this.endpoints.get(providerId);
+    if (cached) {
+      return cached;
+    }
+
+    let endpoints: ProviderEndpoints;
+    if (provider.kind === OAuthProviderKind.OIDC) {
+      const issuer = (provider.issuer ?? '').replace(/\/$/, '');
+      const discovery = await this.fetchJson<{
+        issuer: string;
+        authorization_endpoint: string;
+        token_endpoint: string;
+        userinfo_endpoint?: string;
+        jwks_uri: string;
+      }>(`${issuer}/.well-known/openid-configuration`);
+
+      if (discovery.issuer.replace(/\/$/, '') !== issuer) {
+        throw new Error(`Discovery issuer mismatch for provider ${providerId}`);
+      }
+
+      endpoints = {
+        issuer: discovery.issuer,
+        authorizationEndpoint: discovery.authorization_endpoint,
+        tokenEndpoint: discovery.token_endpoint,
+        userInfoEndpoint: discovery.userinfo_endpoint,
+        jwks: createRemoteJWKSet(new URL(discovery.jwks_uri)),
+      };
+    } else {
+      endpoints = {
+        authorizationEndpoint: provider.authorizationEndpoint ?? '',
+        tokenEndpoint: provider.tokenEndpoint ?? '',
+      };
+    }
+
+    this.endpoints.set(providerId, endpoints);
+    return endpoints;
+  }
+
+  /**
+   * List configured providers
+   */
+  public listProviders(): { id: string; name: string }[] {
+    return Object.entries(config.oauth.providers).map(([id, provider]) => ({
+      id,
+      name: provider.name,
+    }));
+  }
+
+  // =====================
+  // AUTHORIZATION CODE FLOW
+  // =====================
+
+  /**
+   * Start an authorization request. The client sends the user to authorizationUrl and
+   * posts the returned code and state back to the API.
+   */
+  public async createAuthorization(
+    providerId: string,
+    intent: OAuthIntent,
+    userId?: string
+  ): Promise<OAuthAuthorizationResult> {
+    const provider = this.getProvider(providerId);
+    const endpoints = await this.getEndpoints(providerId, provider);
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const stored: StoredOAuthState = {
+      provider: providerId,
+      intent,
+      codeVerifier: crypto.randomBytes(32).toString('base64url'),
+      nonce: crypto.randomBytes(16).toString('base64url'),
+      redirectUri: config.oauth.redirectUri,
+      userId,
+      createdAt: Date.now(),
+    };
+
+    await redisService.set(
+      this.getStateKey(state),
+      JSON.stringify(stored),
+      config.oauth.stateTtlSeconds
+    );
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: stored.redirectUri,
+      scope: provider.scopes.join(' '),
+      state,
+      code_challenge: crypto.createHash('sha256').update(stored.codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    });
+    if (provider.kind === OAuthProviderKind.OIDC) {
+      params.set('nonce', stored.nonce);
+    }
+
+    return {
+      authorizationUrl: `${endpoints.authorizationEndpoint}?${params.toString()}`,
+      state,
+      expiresIn: config.oauth.stateTtlSeconds,
+    };
+  }
+
+  /**
+   * Take a pending authorization out of Redis. Each state can be used once.
+   */
+  private async consumeState(
+    providerId: string,
+    state: string,
+    intent: OAuthIntent
+  ): Promise<StoredOAuthState> {
+    const key = this.getStateKey(state);
+    const data = await redisService.get(key);
+
+    if (!data || (await redisService.del(key)) === 0) {
+      throw ApiError.badRequest(MESSAGES.AUTH.OAUTH_STATE_INVALID);
+    }
+
+    const stored: StoredOAuthState = JSON.parse(data);
+    if (stored.provider !== providerId || stored.intent !== intent) {
+      throw ApiError.badRequest(MESSAGES.AUTH.OAUTH_STATE_INVALID);
+    }
+
+    return stored;
+  }
+
+  /**
+   * Exchange the authorization code and resolve the provider's view of the user
+   */
+  private async fetchProfile(
+    providerId: string,
+    code: string,
+    stored: StoredOAuthState
+  ): Promise<OAuthProfile> {
+    const provider = this.getProvider(providerId);
+    const endpoints = await this.getEndpoints(providerId, provider);
+
+    try {
+      const tokens = await this.fetchJson<TokenResponse>(endpoints.tokenEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: stored.redirectUri,
+          client_id: provider.clientId,
+          client_secret: provider.clientSecret,
+          code_verifier: stored.codeVerifier,
+        }),
+      });
+
+      if (tokens.error || !tokens.access_token) {
+        throw new Error(`Token endpoint returned ${tokens.error ?? 'no access token'}`);
+      }
+
+      return provider.kind === OAuthProviderKind.OIDC
+        ? await this.getOidcProfile(provider, endpoints, tokens, stored.nonce)
+        : await this.getGithubProfile(tokens.access_token);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      logger.warn(`OAuth exchange with ${providerId} failed: ${(error as Error).message}`);
+      throw ApiError.unauthorized(MESSAGES.AUTH.OAUTH_EXCHANGE_FAILED);
+    }
+  }
+
+  /**
+   * Read identity from a verified ID token, falling back to userinfo for missing email claims
+   */
+  private async getOidcProfile(
+    provider: OAuthProviderConfig,
+    endpoints: ProviderEndpoints,
+    tokens: TokenResponse,
+    nonce: string
+  ): Promise<OAuthProfile> {
+    if (!tokens.id_token || !endpoints.jwks) {
+      throw new Error('No ID token in token response');
+    }
+
+    const { payload } = await jwtVerify(tokens.id_token, endpoints.jwks, {
+      issuer: endpoints.issuer,
+      audience: provider.clientId,
+    });
+
+    if (payload.nonce !== nonce || !payload.sub) {
+      throw new Error('ID token nonce mismatch');
+    }
+
+    let claims: JWTPayload = payload;
+    if (!payload.email && endpoints.userInfoEndpoint) {
+      const userInfo = await this.fetchJson<JWTPayload>(endpoints.userInfoEndpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (userInfo.sub === payload.sub) {
+        claims = { ...userInfo, ...payload };
+      }
+    }
+
+    return {
+      subject: payload.sub,
+      email: typeof claims.email === 'string' ? claims.email.toLowerCase() : undefined,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      firstName: typeof claims.given_name === 'string' ? claims.given_name : undefined,
+      lastName: typeof claims.family_name === 'string' ? claims.family_name : undefined,
+      displayName: typeof claims.name === 'string' ? claims.name : undefined,
+      avatarUrl: typeof claims.picture === 'string' ? claims.picture : undefined,
+    };
+  }
+
+  /**
+   * Read identity from the GitHub REST API (GitHub OAuth apps issue no ID token)
+   */
+  private async getGithubProfile(accessToken: string): Promise<OAuthProfile> {
+    const headers = {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${accessToken}`,
+      'User-Agent': GITHUB_USER_AGENT,
+    };
+
+    const user = await this.fetchJson<{
+      id: number;
+      login: string;
+      name: string | null;
+      avatar_url?: string;
+    }>(`${GITHUB_API_URL}/user`, { headers });
+    const emails = await this.fetchJson<{ email: string; primary: boolean; verified: boolean }[]>(
+      `${GITHUB_API_URL}/user/emails`,
+      { headers }
+    );
+    const primary = emails.find((entry) => entry.primary);
+
+    return {
+      subject: String(user.id),
+      email: primary?.email.toLowerCase(),
+      emailVerified: primary?.verified === true,
+      displayName: user.name || user.login,
+      avatarUrl: user.avatar_url,
+    };
+  }
+
+  // =====================
+  // LOGIN
+  // =====================
+
+  /**
+   * Complete a login authorization and return the user it signs in.
+   * Unknown identities are linked to the user with the same verified email, or a new user is created.
+   */
+  public async authenticate(providerId: string, code: string, state: string): Promise<IUser> {
+    const stored = await this.consumeState(providerId, state, OAuthIntent.LOGIN);
+    const profile = await this.fetchProfile(providerId, code, stored);
+
+    let user: IUser | null;
+    const identity = await ExternalIdentity.findOne({
+      provider: providerId,
+      subject: profile.subject,
+    });
+
+    if (identity) {
+      user = await User.findById(identity.userId);
+      if (!user) {
+        throw ApiError.unauthorized(MESSAGES.AUTH.USER_INACTIVE);
+      }
+      this.applyProfile(identity, profile);
+      await identity.save();
+    } else {
+      if (!profile.email || !profile.emailVerified) {
+        throw ApiError.badRequest(MESSAGES.AUTH.OAUTH_EMAIL_NOT_VERIFIED);
+      }
+
+      user = await User.findOne({ email: profile.email });
+      if (user) {
+        await this.claimExistingAccount(user, providerId);
+      } else {
+        user = await this.createUserFromProfile(profile);
+      }
+
+      await this.createIdentity(user._id, providerId, profile);
+    }
+
+    if (!user.isActive) {
+      throw ApiError.forbidden(MESSAGES.AUTH.ACCOUNT_DEACTIVATED);
+    }
+
+    return user;
+  }
+
+  /**
+   * Prepare an existing account to be linked by email.
+   * If the address was never verified here, whoever registered it may not own it,
+   * so their password and sessions stop working.
+   */
+  private async claimExistingAccount(user: IUser, providerId: string): Promise<void> {
+    const linked = await ExternalIdentity.exists({ userId: user._id, provider: providerId });
+    if (linked) {
+      throw ApiError.conflict(MESSAGES.AUTH.OAUTH_PROVIDER_ALREADY_LINKED);
+    }
+
+    if (user.isEmailVerified) {
+      return;
+    }
+
+    user.isEmailVerified = true;
+    if (user.hasPassword) {
+      user.password = crypto.randomBytes(32).toString('hex');
+      user.hasPassword = false;
+    }
+    await user.save();
+    await logoutAllDevices(user._id.toString());
+
+    logger.warn(`Unverified account ${user.email} claimed through ${providerId} login`);
+  }
+
+  /**
+   * Create a user for a first-time social login
+   */
+  private async createUserFromProfile(profile: OAuthProfile): Promise<IUser> {
+    const email = profile.email as string;
+    const [first, ...rest] = (profile.displayName || email.split('@')[0]).trim().split(/\s+/);
+
+    const user = await User.create({
+      email,
+      // Unusable random password: these accounts sign in through their provider
+      password: crypto.randomBytes(32).toString('hex'),
+      hasPassword: false,
+      firstName: (profile.firstName || first).slice(0, 50),
+      lastName: (profile.lastName || rest.join(' ') || first).slice(0, 50),
+      isEmailVerified: true,
+    });
+
+    logger.info(`User registered through social login: ${user.email}`);
+    return user;
+  }
+
+  /**
+   * Store a new external identity
+   */
+  private async createIdentity(
+    userId: mongoose.Types.ObjectId,
+    providerId: string,
+    profile: OAuthProfile
+  ): Promise<IExternalIdentity> {
+    const identity = new ExternalIdentity({
+      userId,
+      provider: providerId,
+      subject: profile.subject,
+    });
+    this.applyProfile(identity, profile);
+    await identity.save();
+
+    logger.info(`External identity ${providerId} linked to user: ${userId}`);
+    return identity;
+  }
+
+  /**
+   * Copy the latest provider profile onto an identity
+   */
+  private applyProfile(identity: IExternalIdentity, profile: OAuthProfile): void {
+    identity.email = profile.email;
+    identity.emailVerified = profile.emailVerified;
+    identity.displayName = profile.displayName;
+    identity.avatarUrl = profile.avatarUrl;
+    identity.lastLoginAt = new Date();
+  }
+
+  // =====================
+  // LINKED IDENTITIES
+  // =====================
+
+  /**
+   * Complete a link authorization for a signed-in user
+   */
+  public async linkIdentity(
+    userId: string,
+    providerId: string,
+    code: string,
+    state: string
+  ): Promise<IExternalIdentity> {
+    const stored = await this.consumeState(providerId, state, OAuthIntent.LINK);
+    if (stored.userId !== userId) {
+      throw ApiError.badRequest(MESSAGES.AUTH.OAUTH_STATE_INVALID);
+    }
+
+    const profile = await this.fetchProfile(providerId, code, stored);
+
+    const existing = await ExternalIdentity.findOne({
+      provider: providerId,
+      subject: profile.subject,
+    });
+    if (existing) {
+      if (existing.userId.toString() !== userId) {
+        throw ApiError.conflict(MESSAGES.AUTH.OAUTH_IDENTITY_IN_USE);
+      }
+      return existing;
+    }
+
+    const objectId = new mongoose.Types.ObjectId(userId);
+    const linked = await ExternalIdentity.exists({ userId: objectId, provider: providerId });
+    if (linked) {
+      throw ApiError.conflict(MESSAGES.AUTH.OAUTH_PROVIDER_ALREADY_LINKED);
+    }
+
+    return this.createIdentity(objectId, providerId, profile);
+  }
+
+  /**
+   * List a user's linked identities
+   */
+  public async listIdentities(userId: string): Promise<IExternalIdentity[]> {
+    return ExternalIdentity.find({ userId: new mongoose.Types.ObjectId(userId) }).sort({
+      createdAt: 1,
+    });
+  }
+
+  /**
+   * Unlink an identity, keeping at least one way to sign in
+   */
+  public async unlinkIdentity(userId: string, identityId: string): Promise<void> {
+    const objectId = new mongoose.Types.ObjectId(userId);
+    const identity = await ExternalIdentity.findOne({
+      _id: new mongoose.Types.ObjectId(identityId),
+      userId: objectId,
+    });
+    if (!identity) {
+      throw ApiError.notFound(MESSAGES.AUTH.OAUTH_IDENTITY_NOT_FOUND);
+    }
+
+    const user = await User.findById(objectId);
+    if (!user) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+
+    if (!user.hasPassword) {
+      const [otherIdentities, passkeys] = await Promise.all([
+        ExternalIdentity.countDocuments({ userId: objectId, _id: { $ne: identity._id } }),
+        Passkey.countDocuments({ userId: objectId }),
+      ]);
+      if (otherIdentities + passkeys === 0) {
+        throw ApiError.badRequest(MESSAGES.AUTH.OAUTH_LAST_LOGIN_METHOD);
+      }
+    }
+
+    await identity.deleteOne();
+    logger.info(`External identity ${identity.provider} unlinked from user: ${userId}`);
+  }
+}
+
+export const oauthService = OAuthService.getInstance();
+export default oauthService;
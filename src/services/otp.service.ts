@@ -133,17 +133,27 @@ class OtpService {
       [OtpPurpose.PASSWORD_RESET]: 'Password Reset Code',
       [OtpPurpose.EMAIL_VERIFICATION]: 'Email Verification Code',
       [OtpPurpose.LOGIN_VERIFICATION]: 'Login Verification Code',
+      [OtpPurpose.ACCOUNT_UNLOCK]: 'Account Unlock Code',
+      [OtpPurpose.EMAIL_CHANGE]: 'Confirm Your New Email',
     };
 
     // Map OtpPurpose to DTO-compatible purpose
     const purposeMapping: Record<
       OtpPurpose,
-      'login' | 'password_reset' | 'email_verification' | 'transaction' | 'other'
+      | 'login'
+      | 'password_reset'
+      | 'email_verification'
+      | 'account_unlock'
+      | 'email_change'
+      | 'transaction'
+      | 'other'
     > = {
       [OtpPurpose.REGISTRATION]: 'other',
       [OtpPurpose.PASSWORD_RESET]: 'password_reset',
       [OtpPurpose.EMAIL_VERIFICATION]: 'email_verification',
       [OtpPurpose.LOGIN_VERIFICATION]: 'login',
+      [OtpPurpose.ACCOUNT_UNLOCK]: 'account_unlock',
+      [OtpPurpose.EMAIL_CHANGE]: 'email_change',
     };
 
     // Send email via queue for better reliability
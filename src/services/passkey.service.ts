@@ -0,0 +1,333 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { User, IUser, Passkey, IPasskey } from '../models';
+import { redisService } from './redis.service';
+import config from '../config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import {
+  SUPPORTED_ALGORITHMS,
+  WebAuthnError,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '../utils/webauthn';
+import type {
+  AuthenticationOptionsJSON,
+  AuthenticationResponseJSON,
+  RegistrationOptionsJSON,
+  RegistrationResponseJSON,
+  StoredAuthenticationChallenge,
+} from '../types/webauthn.types';
+
+const MAX_PASSKEYS_PER_USER = 10;
+
+/**
+ * Passkey Service
+ * Handles WebAuthn registration and authentication ceremonies and passkey management
+ */
+class PasskeyService {
+  private static instance: PasskeyService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): PasskeyService {
+    if (!PasskeyService.instance) {
+      PasskeyService.instance = new PasskeyService();
+    }
+    return PasskeyService.instance;
+  }
+
+  /**
+   * Get Redis key for a pending registration
+   */
+  private getRegistrationKey(userId: string): string {
+    return `webauthn:registration:${userId}`;
+  }
+
+  /**
+   * Get Redis key for a pending authentication
+   */
+  private getAuthenticationKey(challenge: string): string {
+    return `webauthn:authentication:${challenge}`;
+  }
+
+  /**
+   * Generate a random ceremony challenge
+   */
+  private generateChallenge(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * Read the challenge a client echoed back in its client data
+   */
+  private getEchoedChallenge(clientDataJSON: string): string {
+    try {
+      const clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8')) as {
+        challenge?: unknown;
+      };
+      return typeof clientData.challenge === 'string' ? clientData.challenge : '';
+    } catch {
+      return '';
+    }
+  }
+
+  // =====================
+  // REGISTRATION
+  // =====================
+
+  /**
+   * Start registering a passkey for a signed-in user
+   */
+  public async generateRegistrationOptions(userId: string): Promise<RegistrationOptionsJSON> {
+    const user = await User.findById(new mongoose.Types.ObjectId(userId));
+    if (!user) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+
+    const existing = await Passkey.find({ userId: user._id }).select('credentialId transports');
+    if (existing.length >= MAX_PASSKEYS_PER_USER) {
+      throw ApiError.badRequest(MESSAGES.AUTH.PASSKEY_LIMIT_REACHED);
+    }
+
+    const challenge = this.generateChallenge();
+    await redisService.set(
+      this.getRegistrationKey(userId),
+      challenge,
+      config.webauthn.challengeTtlSeconds
+    );
+
+    return {
+      challenge,
+      rp: { id: config.webauthn.rpId, name: config.webauthn.rpName },
+      user: {
+        // The user handle is the raw ObjectId, never the email
+        id: Buffer.from(user._id.toHexString(), 'hex').toString('base64url'),
+        name: user.email,
+        displayName: user.getFullName(),
+      },
+      pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+      timeout: config.webauthn.challengeTtlSeconds * 1000,
+      attestation: 'none',
+      excludeCredentials: existing.map((passkey) => ({
+        id: passkey.credentialId,
+        type: 'public-key',
+        transports: passkey.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'required',
+      },
+    };
+  }
+
+  /**
+   * Verify a registration response and store the passkey
+   */
+  public async verifyRegistration(
+    userId: string,
+    credential: RegistrationResponseJSON,
+    name?: string
+  ): Promise<IPasskey> {
+    const key = this.getRegistrationKey(userId);
+    const challenge = await redisService.get(key);
+    if (!challenge) {
+      throw ApiError.badRequest(MESSAGES.AUTH.PASSKEY_CHALLENGE_EXPIRED);
+    }
+    await redisService.del(key);
+
+    let verified;
+    try {
+      verified = verifyRegistrationResponse(credential, {
+        challenge,
+        origins: config.webauthn.origins,
+        rpId: config.webauthn.rpId,
+      });
+    } catch (error) {
+      if (error instanceof WebAuthnError) {
+        logger.warn(`Passkey registration rejected for user ${userId}: ${error.message}`);
+        throw ApiError.badRequest(MESSAGES.AUTH.PASSKEY_VERIFICATION_FAILED);
+      }
+      throw error;
+    }
+
+    const exists = await Passkey.exists({ credentialId: verified.credentialId });
+    if (exists) {
+      throw ApiError.conflict(MESSAGES.AUTH.PASSKEY_ALREADY_REGISTERED);
+    }
+
+    const count = await Passkey.countDocuments({ userId: new mongoose.Types.ObjectId(userId) });
+
+    const passkey = await Passkey.create({
+      userId: new mongoose.Types.ObjectId(userId),
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      transports: credential.response.transports ?? [],
+      aaguid: verified.aaguid,
+      backupEligible: verified.backupEligible,
+      backedUp: verified.backedUp,
+      name: name?.trim() || `Passkey ${count + 1}`,
+    });
+
+    logger.info(`Passkey registered for user: ${userId}`);
+
+    return passkey;
+  }
+
+  // =====================
+  // AUTHENTICATION
+  // =====================
+
+  /**
+   * Start a passkey login. Without an email the browser offers any discoverable passkey.
+   */
+  public async generateAuthenticationOptions(email?: string): Promise<AuthenticationOptionsJSON> {
+    const challenge = this.generateChallenge();
+    const stored: StoredAuthenticationChallenge = { createdAt: Date.now() };
+    let allowCredentials: AuthenticationOptionsJSON['allowCredentials'] = [];
+
+    if (email) {
+      const user = await User.findOne({ email: email.toLowerCase() });
+      // Unknown emails get the same response shape so accounts cannot be enumerated
+      if (user) {
+        stored.userId = user._id.toString();
+        const passkeys = await Passkey.find({ userId: user._id }).select('credentialId transports');
+        allowCredentials = passkeys.map((passkey) => ({
+          id: passkey.credentialId,
+          type: 'public-key',
+          transports: passkey.transports,
+        }));
+      }
+    }
+
+    await redisService.set(
+      this.getAuthenticationKey(challenge),
+      JSON.stringify(stored),
+      config.webauthn.challengeTtlSeconds
+    );
+
+    return {
+      challenge,
+      rpId: config.webauthn.rpId,
+      timeout: config.webauthn.challengeTtlSeconds * 1000,
+      allowCredentials,
+      userVerification: 'required',
+    };
+  }
+
+  /**
+   * Verify an authentication response and return the signed-in user
+   */
+  public async verifyAuthentication(credential: AuthenticationResponseJSON): Promise<IUser> {
+    const challenge = this.getEchoedChallenge(credential.response?.clientDataJSON ?? '');
+    const key = this.getAuthenticationKey(challenge);
+    const storedData = challenge ? await redisService.get(key) : null;
+
+    // Each challenge can be answered once
+    if (!storedData || (await redisService.del(key)) === 0) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.PASSKEY_CHALLENGE_EXPIRED);
+    }
+
+    const stored: StoredAuthenticationChallenge = JSON.parse(storedData);
+
+    const passkey = await Passkey.findOne({ credentialId: credential.id });
+    if (!passkey) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.PASSKEY_VERIFICATION_FAILED);
+    }
+
+    const ownerId = passkey.userId.toString();
+    const userHandle = credential.response.userHandle;
+    if (
+      (stored.userId && stored.userId !== ownerId) ||
+      (userHandle && Buffer.from(userHandle, 'base64url').toString('hex') !== ownerId)
+    ) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.PASSKEY_VERIFICATION_FAILED);
+    }
+
+    let verified;
+    try {
+      verified = verifyAuthenticationResponse(
+        credential,
+        { challenge, origins: config.webauthn.origins, rpId: config.webauthn.rpId },
+        { publicKey: passkey.publicKey, signCount: passkey.signCount }
+      );
+    } catch (error) {
+      if (error instanceof WebAuthnError) {
+        logger.warn(`Passkey login rejected for credential ${passkey._id}: ${error.message}`);
+        throw ApiError.unauthorized(MESSAGES.AUTH.PASSKEY_VERIFICATION_FAILED);
+      }
+      throw error;
+    }
+
+    passkey.signCount = verified.signCount;
+    passkey.backedUp = verified.backedUp;
+    passkey.lastUsedAt = new Date();
+    await passkey.save();
+
+    const user = await User.findById(passkey.userId);
+    if (!user) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.PASSKEY_VERIFICATION_FAILED);
+    }
+    if (!user.isActive) {
+      throw ApiError.forbidden(MESSAGES.AUTH.ACCOUNT_DEACTIVATED);
+    }
+
+    return user;
+  }
+
+  // =====================
+  // MANAGEMENT
+  // =====================
+
+  /**
+   * List a user's passkeys
+   */
+  public async listPasskeys(userId: string): Promise<IPasskey[]> {
+    return Passkey.find({ userId: new mongoose.Types.ObjectId(userId) }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Rename a passkey
+   */
+  public async renamePasskey(userId: string, passkeyId: string, name: string): Promise<IPasskey> {
+    const passkey = await Passkey.findOneAndUpdate(
+      {
+        _id: new mongoose.Types.ObjectId(passkeyId),
+        userId: new mongoose.Types.ObjectId(userId),
+      },
+      { $set: { name: name.trim() } },
+      { new: true, runValidators: true }
+    );
+
+    if (!passkey) {
+      throw ApiError.notFound(MESSAGES.AUTH.PASSKEY_NOT_FOUND);
+    }
+
+    return passkey;
+  }
+
+  /**
+   * Delete a passkey
+   */
+  public async deletePasskey(userId: string, passkeyId: string): Promise<void> {
+    const result = await Passkey.deleteOne({
+      _id: new mongoose.Types.ObjectId(passkeyId),
+      userId: new mongoose.Types.ObjectId(userId),
+    });
+
+    if (result.deletedCount === 0) {
+      throw ApiError.notFound(MESSAGES.AUTH.PASSKEY_NOT_FOUND);
+    }
+
+    logger.info(`Passkey ${passkeyId} deleted for user: ${userId}`);
+  }
+}
+
+export const passkeyService = PasskeyService.getInstance();
+export default passkeyService;
@@ -0,0 +1,111 @@
+import * as argon2 from 'argon2';
+import { IUser, User } from '../models';
+import { logoutAllDevices } from './auth.service';
+import config from '../config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import breachedPasswords from '../data/breached-passwords.json';
+
+/**
+ * Password Service
+ * Password changes with reuse prevention (last N hashes kept on the user)
+ * and a bundled offline list of breached passwords.
+ */
+class PasswordService {
+  private static instance: PasswordService;
+  private readonly breached = new Set<string>(breachedPasswords);
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): PasswordService {
+    if (!PasswordService.instance) {
+      PasswordService.instance = new PasswordService();
+    }
+    return PasswordService.instance;
+  }
+
+  /**
+   * Whether a password is on the breached list.
+   * Also catches list entries dressed up with trailing digits or symbols (e.g. Password123!).
+   */
+  public isBreached(password: string): boolean {
+    const normalized = password.toLowerCase();
+    const base = normalized.replace(/[^a-z]+$/, '');
+    return this.breached.has(normalized) || (base.length > 0 && this.breached.has(base));
+  }
+
+  /**
+   * Reject passwords on the breached list
+   */
+  public assertNotBreached(password: string): void {
+    if (this.isBreached(password)) {
+      throw ApiError.badRequest(MESSAGES.AUTH.PASSWORD_BREACHED);
+    }
+  }
+
+  /**
+   * The user's last N password hashes, newest (current) first.
+   * Requires password and passwordHistory to be selected.
+   */
+  private getRecentHashes(user: IUser): string[] {
+    const current = user.hasPassword && user.password ? [user.password] : [];
+    return [...current, ...(user.passwordHistory ?? [])].slice(0, config.password.historySize);
+  }
+
+  /**
+   * Set a new password after breach and reuse checks, keeping the old hash in history.
+   * Requires password and passwordHistory to be selected.
+   */
+  public async setPassword(user: IUser, newPassword: string): Promise<void> {
+    this.assertNotBreached(newPassword);
+
+    const recentHashes = this.getRecentHashes(user);
+    for (const hash of recentHashes) {
+      if (await argon2.verify(hash, newPassword).catch(() => false)) {
+        throw ApiError.badRequest(MESSAGES.AUTH.PASSWORD_REUSED);
+      }
+    }
+
+    // The new password becomes the newest of the last N
+    user.passwordHistory = recentHashes.slice(0, Math.max(config.password.historySize - 1, 0));
+    user.password = newPassword;
+    user.hasPassword = true;
+    user.passwordResetRequired = false;
+    await user.save();
+  }
+
+  /**
+   * Change the password of a signed-in user and revoke their other sessions.
+   * Accounts created through social login can set a first password without one.
+   */
+  public async changePassword(
+    userId: string,
+    currentPassword: string | undefined,
+    newPassword: string,
+    currentSessionId?: string
+  ): Promise<void> {
+    const user = await User.findById(userId).select('+password +passwordHistory');
+    if (!user) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+
+    if (user.hasPassword) {
+      const isPasswordValid = currentPassword ? await user.comparePassword(currentPassword) : false;
+      if (!isPasswordValid) {
+        throw ApiError.unauthorized(MESSAGES.AUTH.INVALID_PASSWORD);
+      }
+    }
+
+    await this.setPassword(user, newPassword);
+    await logoutAllDevices(userId, currentSessionId);
+
+    logger.info(`Password changed for user: ${user.email}`);
+  }
+}
+
+export const passwordService = PasswordService.getInstance();
+export default passwordService;
@@ -145,6 +145,33 @@ class RedisService {
     return client.del(key);
   }
 
+  /**
+   * Increment a counter, starting its expiry window on the first increment
+   */
+  public async incr(key: string, expirySeconds?: number): Promise<number> {
+    const client = this.getClient();
+    const value = await client.incr(key);
+    if (expirySeconds && value === 1) {
+      await client.expire(key, expirySeconds);
+    }
+    return value;
+  }
+
+  /**
+   * Find keys matching a pattern without blocking Redis (SCAN, not KEYS)
+   */
+  public async scanKeys(pattern: string): Promise<string[]> {
+    const client = this.getClient();
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await client.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+      cursor = next;
+      keys.push(...batch);
+    } while (cursor !== '0');
+    return keys;
+  }
+
   /**
    * Check if connected
    */
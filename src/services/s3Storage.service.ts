@@ -0,0 +1,392 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import config from '../config';
+import compressionService from './compression.service';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import {
+  encodeObjectKey,
+  presignUrl,
+  signRequest,
+  UNSIGNED_PAYLOAD,
+  type SigV4Credentials,
+} from '../utils/awsSigV4';
+import {
+  buildObjectKey,
+  getExtension,
+  isSafeObjectKey,
+  resolveContentType,
+  resolveResourceType,
+} from '../utils/storage';
+import {
+  StorageDriver,
+  type StorageAccess,
+  type StorageProvider,
+  type StorageResourceType,
+  type UploadOptions,
+  type UploadResult,
+  type SignedUpload,
+  type SignedUploadOptions,
+} from '../types/storage.types';
+
+/**
+ * S3 Storage Service
+ * Stores media in any S3-compatible bucket (AWS S3, MinIO, R2, ...) over the REST API
+ * with Signature Version 4. Resource type and image dimensions are kept as object
+ * metadata so info lookups return the same shape as uploads. Private objects are kept
+ * under config.storage.s3.quarantinePrefix, which must stay out of any public-read policy.
+ */
+class S3StorageService implements StorageProvider {
+  readonly driver = StorageDriver.S3;
+  private defaultFolder = 'uploads';
+
+  /**
+   * Signing credentials from config
+   */
+  private get credentials(): SigV4Credentials {
+    const { accessKeyId, secretAccessKey, region } = config.storage.s3;
+    return { accessKeyId, secretAccessKey, region, service: 's3' };
+  }
+
+  /**
+   * Request URL of an object, path-style or virtual-hosted
+   */
+  private getObjectUrl(key: string): URL {
+    if (!isSafeObjectKey(key)) {
+      throw ApiError.badRequest(MESSAGES.MEDIA.INVALID_PUBLIC_ID);
+    }
+
+    const { endpoint, region, bucket, forcePathStyle } = config.storage.s3;
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+
+    if (forcePathStyle) {
+      return new URL(`${base.origin}/${bucket}/${encodeObjectKey(key)}`);
+    }
+    return new URL(`${base.protocol}//${bucket}.${base.host}/${encodeObjectKey(key)}`);
+  }
+
+  /**
+   * Bucket key of a file, moving private files under the quarantine prefix
+   */
+  private getStorageKey(publicId: string, access: StorageAccess = 'public'): string {
+    if (access === 'private') {
+      return `${config.storage.s3.quarantinePrefix.replace(/\/+$/, '')}/${publicId}`;
+    }
+    return publicId;
+  }
+
+  /**
+   * Public URL objects are read from
+   */
+  private getPublicUrl(key: string): string {
+    const { publicUrl } = config.storage.s3;
+    if (publicUrl) {
+      return `${publicUrl.replace(/\/+$/, '')}/${encodeObjectKey(key)}`;
+    }
+    return this.getObjectUrl(key).toString();
+  }
+
+  /**
+   * Send a signed request to the bucket
+   */
+  private async send(
+    method: string,
+    key: string,
+    options: { headers?: Record<string, string>; body?: Buffer | Readable } = {}
+  ): Promise<Response> {
+    const url = this.getObjectUrl(key);
+    const headers = signRequest(this.credentials, {
+      method,
+      url,
+      headers: options.headers,
+      payloadHash: UNSIGNED_PAYLOAD,
+    });
+
+    const body = options.body instanceof Readable ? Readable.toWeb(options.body) : options.body;
+
+    return fetch(url, {
+      method,
+      headers,
+      body: body as RequestInit['body'],
+      // Required by fetch for streamed request bodies
+      ...(body && !Buffer.isBuffer(body) ? { duplex: 'half' } : {}),
+    });
+  }
+
+  /**
+   * Fail with the status and S3 error body
+   */
+  private async assertOk(response: Response, action: string): Promise<void> {
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`S3 ${action} failed with ${response.status}: ${detail.slice(0, 500)}`);
+    }
+  }
+
+  /**
+   * Read image dimensions to store alongside the object
+   */
+  private async getDimensions(
+    file: Buffer | string,
+    resourceType: StorageResourceType
+  ): Promise<{ width?: number; height?: number }> {
+    if (resourceType !== 'image') {
+      return {};
+    }
+    try {
+      const { width, height } = await compressionService.getImageMetadata(file);
+      return { width, height };
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Put an object and describe it
+   */
+  private async putObject(
+    body: Buffer | Readable,
+    contentLength: number,
+    options: UploadOptions,
+    filePath?: string,
+    dimensions: { width?: number; height?: number } = {}
+  ): Promise<UploadResult> {
+    const key = buildObjectKey(options, this.defaultFolder, filePath);
+    const resourceType = resolveResourceType(options, filePath);
+
+    const headers: Record<string, string> = {
+      'content-type': resolveContentType(options, key),
+      'content-length': contentLength.toString(),
+      'x-amz-meta-resource-type': resourceType,
+    };
+    if (dimensions.width && dimensions.height) {
+      headers['x-amz-meta-width'] = dimensions.width.toString();
+      headers['x-amz-meta-height'] = dimensions.height.toString();
+    }
+    // Conditional write: the bucket refuses the PUT if the key is taken
+    if (options.overwrite === false) {
+      headers['if-none-match'] = '*';
+    }
+
+    const response = await this.send('PUT', this.getStorageKey(key, options.access), {
+      headers,
+      body,
+    });
+    if (response.status === 412) {
+      throw ApiError.conflict(MESSAGES.MEDIA.ALREADY_EXISTS);
+    }
+    await this.assertOk(response, 'upload');
+
+    logger.info(`Stored ${key} in bucket ${config.storage.s3.bucket}`);
+
+    const url = this.getPublicUrl(key);
+    return {
+      publicId: key,
+      url,
+      secureUrl: url,
+      resourceType,
+      format: getExtension(key),
+      ...dimensions,
+      bytes: contentLength,
+      createdAt: new Date().toISOString(),
+      etag: (response.headers.get('etag') ?? '').replace(/"/g, ''),
+      originalFilename: options.filename,
+    };
+  }
+
+  /**
+   * Upload a file held in memory or on disk
+   */
+  async upload(file: Buffer | string, options: UploadOptions = {}): Promise<UploadResult> {
+    try {
+      const filePath = typeof file === 'string' ? file : undefined;
+      const dimensions = await this.getDimensions(file, resolveResourceType(options, filePath));
+
+      if (Buffer.isBuffer(file)) {
+        return await this.putObject(file, file.length, options, undefined, dimensions);
+      }
+
+      const { size } = await fs.promises.stat(file);
+      return await this.putObject(fs.createReadStream(file), size, options, file, dimensions);
+    } catch (error) {
+      logger.error('S3 upload failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a large file from disk, streamed in a single request
+   */
+  async uploadLargeFile(filePath: string, options: UploadOptions = {}): Promise<UploadResult> {
+    return this.upload(filePath, options);
+  }
+
+  /**
+   * Upload from a stream. S3 needs the length up front, so the stream is buffered.
+   */
+  async uploadFromStream(stream: Readable, options: UploadOptions = {}): Promise<UploadResult> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return this.upload(Buffer.concat(chunks), options);
+  }
+
+  /**
+   * Delete an object. S3 deletes succeed for missing keys, so existence is checked first.
+   */
+  async deleteMedia(
+    publicId: string,
+    _resourceType?: StorageResourceType,
+    access: StorageAccess = 'public'
+  ): Promise<{ success: boolean; result: string }> {
+    const key = this.getStorageKey(publicId, access);
+    try {
+      const head = await this.send('HEAD', key);
+      if (head.status === 404) {
+        return { success: false, result: 'not found' };
+      }
+      await this.assertOk(head, 'lookup');
+
+      const response = await this.send('DELETE', key);
+      await this.assertOk(response, 'delete');
+
+      return { success: true, result: 'ok' };
+    } catch (error) {
+      logger.error('S3 delete failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete several objects
+   */
+  async deleteMultipleMedia(
+    publicIds: string[]
+  ): Promise<{ deleted: Record<string, string>; partial: boolean }> {
+    const results = await Promise.allSettled(publicIds.map((id) => this.deleteMedia(id)));
+
+    const deleted: Record<string, string> = {};
+    results.forEach((outcome, index) => {
+      deleted[publicIds[index]] = outcome.status === 'fulfilled' ? outcome.value.result : 'error';
+    });
+
+    return { deleted, partial: results.some((outcome) => outcome.status === 'rejected') };
+  }
+
+  /**
+   * Get information about an object from its headers and metadata
+   */
+  async getMediaInfo(
+    publicId: string,
+    resourceType: StorageResourceType = 'image',
+    access: StorageAccess = 'public'
+  ): Promise<UploadResult> {
+    const response = await this.send('HEAD', this.getStorageKey(publicId, access));
+    if (response.status === 404) {
+      throw ApiError.notFound(MESSAGES.MEDIA.NOT_FOUND);
+    }
+    await this.assertOk(response, 'lookup');
+
+    const width = response.headers.get('x-amz-meta-width');
+    const height = response.headers.get('x-amz-meta-height');
+    const lastModified = response.headers.get('last-modified');
+    const url = this.getPublicUrl(publicId);
+
+    return {
+      publicId,
+      url,
+      secureUrl: url,
+      resourceType: response.headers.get('x-amz-meta-resource-type') ?? resourceType,
+      format: getExtension(publicId),
+      width: width ? parseInt(width, 10) : undefined,
+      height: height ? parseInt(height, 10) : undefined,
+      bytes: parseInt(response.headers.get('content-length') ?? '0', 10),
+      createdAt: (lastModified ? new Date(lastModified) : new Date()).toISOString(),
+      etag: (response.headers.get('etag') ?? '').replace(/"/g, ''),
+    };
+  }
+
+  /**
+   * Stream an object's contents
+   */
+  async downloadMedia(
+    publicId: string,
+    _resourceType?: StorageResourceType,
+    access: StorageAccess = 'public'
+  ): Promise<Readable> {
+    const response = await this.send('GET', this.getStorageKey(publicId, access));
+    if (response.status === 404) {
+      throw ApiError.notFound(MESSAGES.MEDIA.NOT_FOUND);
+    }
+    await this.assertOk(response, 'download');
+
+    if (!response.body) {
+      throw new Error('S3 download returned no body');
+    }
+    return Readable.fromWeb(response.body);
+  }
+
+  /**
+   * Copy a quarantined object to its public key, then remove the quarantined copy
+   */
+  async publish(
+    publicId: string,
+    resourceType: StorageResourceType = 'image'
+  ): Promise<UploadResult> {
+    const source = this.getStorageKey(publicId, 'private');
+    const { bucket } = config.storage.s3;
+
+    const response = await this.send('PUT', publicId, {
+      headers: { 'x-amz-copy-source': `/${bucket}/${encodeObjectKey(source)}` },
+    });
+    if (response.status === 404) {
+      throw ApiError.notFound(MESSAGES.MEDIA.NOT_FOUND);
+    }
+    await this.assertOk(response, 'copy');
+
+    const removed = await this.send('DELETE', source);
+    await this.assertOk(removed, 'delete');
+
+    logger.info(`Published ${publicId} in bucket ${bucket}`);
+    return this.getMediaInfo(publicId, resourceType);
+  }
+
+  /**
+   * Presign a PUT for the client to upload one object directly.
+   * The signed headers must be sent as-is, so neither the size nor the metadata can change.
+   */
+  generateSignedUploadUrl(options: SignedUploadOptions): SignedUpload {
+    const key = buildObjectKey(options, this.defaultFolder);
+    const ttl = config.storage.s3.signedUrlTtlSeconds;
+    const headers = {
+      'content-type': resolveContentType(options, key),
+      'x-amz-meta-resource-type': resolveResourceType(options),
+      ...(options.bytes ? { 'content-length': options.bytes.toString() } : {}),
+    };
+
+    const url = presignUrl(
+      this.credentials,
+      {
+        method: 'PUT',
+        url: this.getObjectUrl(this.getStorageKey(key, options.access)),
+        headers,
+      },
+      ttl
+    );
+
+    return {
+      driver: this.driver,
+      url: url.toString(),
+      method: 'PUT',
+      headers,
+      publicId: key,
+      expiresAt: Math.round(Date.now() / 1000) + ttl,
+    };
+  }
+}
+
+// Export singleton instance
+export const s3StorageService = new S3StorageService();
+export default s3StorageService;
@@ -0,0 +1,325 @@
+import mongoose from 'mongoose';
+import {
+  ConversationParticipant,
+  IAttachment,
+  IMessage,
+  IScheduledMessage,
+  MessageType,
+  ScheduledMessage,
+  ScheduledMessageStatus,
+} from '../models';
+import { chatService, SendMessageOptions } from './chat.service';
+import { queueService } from '../queues/queue.service';
+import logger from '../utils/logger';
+import { MESSAGES } from '../constants/messages';
+
+/**
+ * Schedule message options
+ */
+export interface ScheduleMessageOptions extends SendMessageOptions {
+  scheduledAt: Date;
+}
+
+/**
+ * Editable fields of a pending scheduled message
+ */
+export interface UpdateScheduledMessageOptions {
+  content?: string;
+  attachments?: IAttachment[];
+  mentions?: string[];
+  scheduledAt?: Date;
+}
+
+/**
+ * Outcome of a scheduled delivery attempt
+ */
+export interface ScheduledDeliveryResult {
+  status: ScheduledMessageStatus;
+  message?: IMessage;
+  reason?: string;
+}
+
+// Delivery jobs may fire slightly early; anything later than this was rescheduled
+const SCHEDULE_TOLERANCE_MS = 1000;
+
+/**
+ * Scheduled Message Service - Defers chat messages through the chat queue
+ */
+class ScheduledMessageService {
+  private static instance: ScheduledMessageService;
+
+  private constructor() {}
+
+  public static getInstance(): ScheduledMessageService {
+    if (!ScheduledMessageService.instance) {
+      ScheduledMessageService.instance = new ScheduledMessageService();
+    }
+    return ScheduledMessageService.instance;
+  }
+
+  /**
+   * Schedule a message to be sent later
+   */
+  async scheduleMessage(
+    conversationId: string,
+    senderId: string,
+    content: string,
+    options: ScheduleMessageOptions
+  ): Promise<IScheduledMessage> {
+    const {
+      scheduledAt,
+      type = MessageType.TEXT,
+      attachments = [],
+      replyTo,
+      mentions = [],
+      threadRootId,
+    } = options;
+
+    if (type === MessageType.POLL) {
+      throw new Error(MESSAGES.CHAT.POLL_CANNOT_BE_SCHEDULED);
+    }
+
+    this.assertFuture(scheduledAt);
+
+    const conversation = await chatService.getConversation(conversationId, senderId);
+    if (!conversation) {
+      throw new Error(MESSAGES.CHAT.NOT_PARTICIPANT);
+    }
+
+    if (!content?.trim() && attachments.length === 0) {
+      throw new Error(MESSAGES.CHAT.EMPTY_MESSAGE);
+    }
+
+    const scheduled = await ScheduledMessage.create({
+      conversationId: new mongoose.Types.ObjectId(conversationId),
+      senderId: new mongoose.Types.ObjectId(senderId),
+      content: content?.trim() || '',
+      type,
+      attachments: await chatService.resolveAttachments(attachments, senderId),
+      replyTo: replyTo ? new mongoose.Types.ObjectId(replyTo) : undefined,
+      mentions: mentions.map((id) => new mongoose.Types.ObjectId(id)),
+      threadRootId: threadRootId ? new mongoose.Types.ObjectId(threadRootId) : undefined,
+      scheduledAt,
+    });
+
+    scheduled.jobId = await this.enqueue(scheduled);
+    await scheduled.save();
+
+    return scheduled;
+  }
+
+  /**
+   * List a user's pending scheduled messages
+   */
+  async getScheduledMessages(
+    userId: string,
+    conversationId?: string
+  ): Promise<IScheduledMessage[]> {
+    const filter: Record<string, unknown> = {
+      senderId: new mongoose.Types.ObjectId(userId),
+      status: ScheduledMessageStatus.PENDING,
+    };
+
+    if (conversationId) {
+      filter.conversationId = new mongoose.Types.ObjectId(conversationId);
+    }
+
+    return ScheduledMessage.find(filter).sort({ scheduledAt: 1 }).lean<IScheduledMessage[]>();
+  }
+
+  /**
+   * Edit a pending scheduled message, re-queuing it if the send time changes
+   */
+  async updateScheduledMessage(
+    scheduledMessageId: string,
+    userId: string,
+    updates: UpdateScheduledMessageOptions
+  ): Promise<IScheduledMessage> {
+    const scheduled = await this.getOwnPending(scheduledMessageId, userId);
+
+    if (updates.content !== undefined) {
+      scheduled.content = updates.content.trim();
+    }
+    if (updates.attachments !== undefined) {
+      scheduled.attachments = await chatService.resolveAttachments(updates.attachments, userId);
+    }
+    if (updates.mentions !== undefined) {
+      scheduled.mentions = updates.mentions.map((id) => new mongoose.Types.ObjectId(id));
+    }
+
+    if (!scheduled.content && scheduled.attachments.length === 0) {
+      throw new Error(MESSAGES.CHAT.EMPTY_MESSAGE);
+    }
+
+    if (updates.scheduledAt && updates.scheduledAt.getTime() !== scheduled.scheduledAt.getTime()) {
+      this.assertFuture(updates.scheduledAt);
+      scheduled.scheduledAt = updates.scheduledAt;
+      await this.dequeue(scheduled);
+      scheduled.jobId = await this.enqueue(scheduled);
+    }
+
+    await scheduled.save();
+    return scheduled;
+  }
+
+  /**
+   * Cancel a pending scheduled message
+   */
+  async cancelScheduledMessage(scheduledMessageId: string, userId: string): Promise<void> {
+    const scheduled = await this.getOwnPending(scheduledMessageId, userId);
+
+    scheduled.status = ScheduledMessageStatus.CANCELLED;
+    scheduled.cancelledAt = new Date();
+    await scheduled.save();
+
+    await this.dequeue(scheduled);
+  }
+
+  /**
+   * Deliver a scheduled message (called by the chat queue worker)
+   */
+  async deliverScheduledMessage(scheduledMessageId: string): Promise<ScheduledDeliveryResult> {
+    const scheduled = await ScheduledMessage.findById(scheduledMessageId);
+
+    if (!scheduled || scheduled.status !== ScheduledMessageStatus.PENDING) {
+      return {
+        status: scheduled?.status ?? ScheduledMessageStatus.CANCELLED,
+        reason: 'Scheduled message is no longer pending',
+      };
+    }
+
+    // A stale job from before a reschedule - the replacement job will deliver it
+    if (scheduled.scheduledAt.getTime() > Date.now() + SCHEDULE_TOLERANCE_MS) {
+      return { status: ScheduledMessageStatus.PENDING, reason: 'Scheduled time has moved' };
+    }
+
+    // Claim the message so a concurrent edit/cancel cannot race the send
+    const claimed = await ScheduledMessage.findOneAndUpdate(
+      { _id: scheduled._id, status: ScheduledMessageStatus.PENDING },
+      { $set: { status: ScheduledMessageStatus.SENT, sentAt: new Date() } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      return { status: ScheduledMessageStatus.CANCELLED, reason: 'Scheduled message was claimed' };
+    }
+
+    const isActiveParticipant = await ConversationParticipant.exists({
+      conversationId: claimed.conversationId,
+      userId: claimed.senderId,
+      isActive: true,
+    });
+
+    if (!isActiveParticipant) {
+      return this.finish(claimed, ScheduledMessageStatus.SKIPPED, MESSAGES.CHAT.NOT_PARTICIPANT);
+    }
+
+    try {
+      const message = await chatService.sendMessage(
+        claimed.conversationId.toString(),
+        claimed.senderId.toString(),
+        claimed.content,
+        {
+          type: claimed.type,
+          attachments: claimed.attachments,
+          replyTo: claimed.replyTo?.toString(),
+          mentions: claimed.mentions.map((id) => id.toString()),
+          threadRootId: claimed.threadRootId?.toString(),
+        }
+      );
+
+      claimed.sentMessageId = message._id;
+      await claimed.save();
+
+      return { status: ScheduledMessageStatus.SENT, message };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to deliver scheduled message ${scheduledMessageId}:`, error);
+      return this.finish(claimed, ScheduledMessageStatus.FAILED, reason);
+    }
+  }
+
+  /**
+   * Record a terminal non-sent status
+   */
+  private async finish(
+    scheduled: IScheduledMessage,
+    status: ScheduledMessageStatus,
+    reason: string
+  ): Promise<ScheduledDeliveryResult> {
+    scheduled.status = status;
+    scheduled.sentAt = undefined;
+    scheduled.failureReason = reason;
+    await scheduled.save();
+
+    return { status, reason };
+  }
+
+  /**
+   * Load a pending scheduled message owned by the user
+   */
+  private async getOwnPending(
+    scheduledMessageId: string,
+    userId: string
+  ): Promise<IScheduledMessage> {
+    const scheduled = await ScheduledMessage.findOne({
+      _id: new mongoose.Types.ObjectId(scheduledMessageId),
+      senderId: new mongoose.Types.ObjectId(userId),
+    });
+
+    if (!scheduled) {
+      throw new Error(MESSAGES.CHAT.SCHEDULED_MESSAGE_NOT_FOUND);
+    }
+
+    if (scheduled.status !== ScheduledMessageStatus.PENDING) {
+      throw new Error(MESSAGES.CHAT.SCHEDULED_MESSAGE_NOT_PENDING);
+    }
+
+    return scheduled;
+  }
+
+  /**
+   * Reject send times that are not in the future
+   */
+  private assertFuture(scheduledAt: Date): void {
+    if (Number.isNaN(scheduledAt.getTime()) || scheduledAt.getTime() <= Date.now()) {
+      throw new Error(MESSAGES.CHAT.SCHEDULE_TIME_INVALID);
+    }
+  }
+
+  /**
+   * Add the delayed delivery job
+   */
+  private async enqueue(scheduled: IScheduledMessage): Promise<string | undefined> {
+    const job = await queueService.addJob({
+      queue: 'QUEUE__CHAT',
+      job: 'SEND_SCHEDULED_MESSAGE',
+      data: { scheduledMessageId: scheduled._id.toString() },
+      options: {
+        delay: Math.max(0, scheduled.scheduledAt.getTime() - Date.now()),
+        jobId: `scheduled-message-${scheduled._id.toString()}-${scheduled.scheduledAt.getTime()}`,
+      },
+    });
+
+    return job.id;
+  }
+
+  /**
+   * Remove the pending delivery job, if any
+   */
+  private async dequeue(scheduled: IScheduledMessage): Promise<void> {
+    if (!scheduled.jobId) {
+      return;
+    }
+
+    try {
+      await queueService.removeJob('QUEUE__CHAT', scheduled.jobId);
+    } catch (error) {
+      // The delivery job re-checks status, so a leftover job is harmless
+      logger.warn(`Failed to remove scheduled message job ${scheduled.jobId}:`, error);
+    }
+  }
+}
+
+export const scheduledMessageService = ScheduledMessageService.getInstance();
+export default scheduledMessageService;
@@ -0,0 +1,178 @@
+import mongoose from 'mongoose';
+import { User, IUser, Session, ISession } from '../models';
+import { redisService } from './redis.service';
+import config from '../config';
+import logger from '../utils/logger';
+
+/**
+ * Result of checking the session behind an access token
+ */
+export type SessionCheckResult =
+  | { valid: true; session: ISession; user: IUser }
+  | { valid: false; reason: string };
+
+/**
+ * Cached check result. Documents are stored lean and hydrated on read.
+ */
+type CachedSessionCheck =
+  | { valid: true; session: Record<string, unknown>; user: Record<string, unknown> }
+  | { valid: false; reason: string };
+
+/**
+ * Session Cache Service
+ * Shared session/user revocation check for HTTP (passport) and Socket.IO authentication.
+ * Results are cached in Redis and invalidated whenever a session is revoked.
+ */
+class SessionCacheService {
+  private static instance: SessionCacheService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): SessionCacheService {
+    if (!SessionCacheService.instance) {
+      SessionCacheService.instance = new SessionCacheService();
+    }
+    return SessionCacheService.instance;
+  }
+
+  /**
+   * Get Redis key for a session check
+   */
+  private getKey(sessionId: string): string {
+    return `auth:session:${sessionId}`;
+  }
+
+  /**
+   * Get Redis key for a session's invalidation counter
+   */
+  private getVersionKey(sessionId: string): string {
+    return `auth:session:${sessionId}:version`;
+  }
+
+  /**
+   * Read a session's invalidation counter (null when unset or Redis is down)
+   */
+  private async getVersion(sessionId: string): Promise<string | null> {
+    try {
+      return await redisService.get(this.getVersionKey(sessionId));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Cache a check result loaded at the given version.
+   * If the session was invalidated while it loaded, the result may be stale and is dropped.
+   */
+  private async store(
+    sessionId: string,
+    result: CachedSessionCheck,
+    version: string | null
+  ): Promise<void> {
+    const key = this.getKey(sessionId);
+    try {
+      await redisService.set(key, JSON.stringify(result), config.sessionCache.ttlSeconds);
+      if ((await redisService.get(this.getVersionKey(sessionId))) !== version) {
+        await redisService.del(key);
+      }
+    } catch (error) {
+      logger.warn('Failed to cache session check:', error);
+    }
+  }
+
+  /**
+   * Check that a session is live and belongs to an active user
+   */
+  public async check(sessionId: string, userId: string): Promise<SessionCheckResult> {
+    if (!mongoose.isValidObjectId(sessionId)) {
+      return { valid: false, reason: 'Invalid token: missing session ID' };
+    }
+
+    let cached: CachedSessionCheck | null = null;
+    try {
+      const data = await redisService.get(this.getKey(sessionId));
+      cached = data ? JSON.parse(data) : null;
+    } catch (error) {
+      logger.warn('Session cache unavailable, reading from database:', error);
+    }
+
+    if (!cached) {
+      const version = await this.getVersion(sessionId);
+      cached = await this.load(sessionId);
+      await this.store(sessionId, cached, version);
+    }
+
+    if (!cached.valid) {
+      return cached;
+    }
+
+    const session = Session.hydrate(cached.session);
+    const user = User.hydrate(cached.user);
+
+    // Cached results outlive neither the session nor a mismatched token
+    if (session.expiresAt < new Date()) {
+      return { valid: false, reason: 'Session expired or revoked' };
+    }
+    if (session.userId.toString() !== userId) {
+      return { valid: false, reason: 'Invalid session for user' };
+    }
+
+    return { valid: true, session, user };
+  }
+
+  /**
+   * Read a session check from the database
+   */
+  private async load(sessionId: string): Promise<CachedSessionCheck> {
+    const session = await Session.findById(sessionId).lean();
+    if (!session || session.isRevoked) {
+      return { valid: false, reason: 'Session expired or revoked' };
+    }
+
+    const user = await User.findById(session.userId).lean();
+    if (!user) {
+      return { valid: false, reason: 'User not found' };
+    }
+    if (!user.isActive) {
+      return { valid: false, reason: 'User account is deactivated' };
+    }
+
+    return {
+      valid: true,
+      session: session as unknown as Record<string, unknown>,
+      user: user as unknown as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Drop cached checks for all of a user's live sessions (e.g. after a role change)
+   */
+  public async invalidateUser(userId: string): Promise<void> {
+    const sessions = await Session.find({ userId, isRevoked: false }).select('_id');
+    await this.invalidate(sessions.map((session) => session._id.toString()));
+  }
+
+  /**
+   * Drop cached checks so the next request reads the revoked state.
+   * Bumping the version first stops a check that is loading concurrently from re-caching.
+   */
+  public async invalidate(sessionIds: string[]): Promise<void> {
+    const { ttlSeconds } = config.sessionCache;
+    try {
+      await Promise.all(
+        sessionIds.map(async (sessionId) => {
+          await redisService.incr(this.getVersionKey(sessionId), ttlSeconds);
+          await redisService.del(this.getKey(sessionId));
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to invalidate session cache:', error);
+    }
+  }
+}
+
+export const sessionCacheService = SessionCacheService.getInstance();
+export default sessionCacheService;
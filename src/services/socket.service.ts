@@ -5,6 +5,7 @@ import config from '../config';
 import logger from '../utils/logger';
 import { redisService } from './redis.service';
 import * as tokenService from './token.service';
+import { sessionCacheService } from './sessionCache.service';
 import { MESSAGES } from '../constants/messages';
 import { registerChatEvents } from './chat.events';
 
@@ -76,8 +77,15 @@ class SocketService {
         }
 
         const payload = await tokenService.verifyAccessToken(token);
+
+        // Same revocation check as HTTP requests
+        const session = await sessionCacheService.check(payload.sessionId, payload.userId);
+        if (!session.valid) {
+          return next(new Error(MESSAGES.AUTH.INVALID_SESSION));
+        }
+
         socket.userId = payload.userId;
-        // Note: sessionId is not in access token, we use userId for room management
+        socket.sessionId = payload.sessionId;
         next();
       } catch {
         next(new Error(MESSAGES.AUTH.INVALID_TOKEN));
@@ -90,7 +98,9 @@ class SocketService {
 
       if (userId) {
         // Join user's personal room for multi-device support
-        socket.join(`user:${userId}`);
+        void socket.join(`user:${userId}`);
+        // Session room lets a revoked session be disconnected on every node
+        void socket.join(`session:${socket.sessionId}`);
         logger.debug(`Socket connected: ${socket.id} for user: ${userId}`);
 
         // Register chat event handlers
@@ -168,6 +178,18 @@ class SocketService {
     this.io.to(room).emit(event, data);
   }
 
+  /**
+   * Disconnect the live sockets of revoked sessions
+   */
+  public disconnectSessions(sessionIds: string[]): void {
+    if (!this.io || sessionIds.length === 0) {
+      return;
+    }
+    const rooms = sessionIds.map((sessionId) => `session:${sessionId}`);
+    this.io.to(rooms).emit('session:revoked', { message: MESSAGES.AUTH.INVALID_SESSION });
+    this.io.in(rooms).disconnectSockets(true);
+  }
+
   /**
    * Get connected sockets count
    */
@@ -183,7 +205,7 @@ class SocketService {
   public close(): Promise<void> {
     return new Promise((resolve) => {
       if (this.io) {
-        this.io.close(() => {
+        void this.io.close(() => {
           this.io = null;
           logger.info('Socket.IO server closed');
           resolve();
@@ -0,0 +1,33 @@
+import config from '../config';
+import cloudinaryService from './cloudinary.service';
+import localStorageService from './localStorage.service';
+import s3StorageService from './s3Storage.service';
+import logger from '../utils/logger';
+import { StorageDriver, type StorageProvider } from '../types/storage.types';
+
+const providers: Record<StorageDriver, StorageProvider> = {
+  [StorageDriver.CLOUDINARY]: cloudinaryService,
+  [StorageDriver.LOCAL]: localStorageService,
+  [StorageDriver.S3]: s3StorageService,
+};
+
+/**
+ * Storage provider selected by STORAGE_DRIVER.
+ * Upload routes, TUS and chat attachment cleanup store and remove media through this.
+ */
+const getStorageProvider = (): StorageProvider => {
+  const provider = providers[config.storage.driver];
+  if (!provider) {
+    throw new Error(
+      `Unknown storage driver "${config.storage.driver}". ` +
+        `Use one of: ${Object.values(StorageDriver).join(', ')}`
+    );
+  }
+
+  logger.info(`Media storage driver: ${provider.driver}`);
+  return provider;
+};
+
+// Export selected provider
+export const storageService = getStorageProvider();
+export default storageService;
@@ -0,0 +1,121 @@
+import { StatusCodes } from 'http-status-codes';
+import { IUser, User } from '../models';
+import config from '../config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import type { StorageQuota, StorageUsage } from '../types/storage.types';
+
+/**
+ * Storage Quota Service
+ * Byte and file-count quotas per role, with per-user admin overrides.
+ * Usage counters live on the user and move with every recorded upload and delete.
+ */
+class StorageQuotaService {
+  private static instance: StorageQuotaService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): StorageQuotaService {
+    if (!StorageQuotaService.instance) {
+      StorageQuotaService.instance = new StorageQuotaService();
+    }
+    return StorageQuotaService.instance;
+  }
+
+  /**
+   * Effective quota for a user: the admin override where set, otherwise the role's quota
+   */
+  public getQuota(user: IUser): StorageQuota {
+    const roleQuota = config.storage.quotas[user.role] ?? config.storage.quotas.user;
+    return {
+      maxBytes: user.storageQuotaBytes ?? roleQuota.maxBytes,
+      maxFiles: user.storageQuotaFiles ?? roleQuota.maxFiles,
+    };
+  }
+
+  /**
+   * Describe a user's usage against their quota
+   */
+  private toUsage(user: IUser): StorageUsage {
+    const { maxBytes, maxFiles } = this.getQuota(user);
+    return {
+      usedBytes: user.storageUsedBytes,
+      fileCount: user.storageFileCount,
+      maxBytes,
+      maxFiles,
+      remainingBytes: Math.max(maxBytes - user.storageUsedBytes, 0),
+      remainingFiles: Math.max(maxFiles - user.storageFileCount, 0),
+      isOverridden: user.storageQuotaBytes !== undefined || user.storageQuotaFiles !== undefined,
+    };
+  }
+
+  /**
+   * Get a user's current storage usage
+   */
+  public async getUsage(userId: string): Promise<StorageUsage> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+    return this.toUsage(user);
+  }
+
+  /**
+   * Reject storing more media if it would take the user over their quota
+   */
+  public async assertCanStore(userId: string, bytes: number, files: number): Promise<void> {
+    const usage = await this.getUsage(userId);
+
+    if (files > usage.remainingFiles) {
+      throw new ApiError(StatusCodes.REQUEST_TOO_LONG, MESSAGES.MEDIA.FILE_QUOTA_EXCEEDED);
+    }
+    if (bytes > usage.remainingBytes) {
+      throw new ApiError(StatusCodes.REQUEST_TOO_LONG, MESSAGES.MEDIA.STORAGE_QUOTA_EXCEEDED);
+    }
+  }
+
+  /**
+   * Move a user's usage counters; negative values release storage
+   */
+  public async adjustUsage(userId: string, bytes: number, files: number): Promise<void> {
+    await User.updateOne(
+      { _id: userId },
+      { $inc: { storageUsedBytes: bytes, storageFileCount: files } }
+    );
+  }
+
+  /**
+   * Override a user's quota. Null clears an override back to the role's quota.
+   */
+  public async setOverride(
+    userId: string,
+    override: { maxBytes?: number | null; maxFiles?: number | null }
+  ): Promise<StorageUsage> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+
+    if (override.maxBytes !== undefined) {
+      user.storageQuotaBytes = override.maxBytes ?? undefined;
+    }
+    if (override.maxFiles !== undefined) {
+      user.storageQuotaFiles = override.maxFiles ?? undefined;
+    }
+    await user.save();
+
+    logger.info(
+      `Storage quota for user ${userId} set to ${user.storageQuotaBytes ?? 'role default'} bytes, ` +
+        `${user.storageQuotaFiles ?? 'role default'} files`
+    );
+
+    return this.toUsage(user);
+  }
+}
+
+export const storageQuotaService = StorageQuotaService.getInstance();
+export default storageQuotaService;
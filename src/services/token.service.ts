@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { SignJWT, jwtVerify, JWTPayload } from 'jose';
 import config from '../config';
 
@@ -91,6 +92,8 @@ export const generateRefreshToken = async (
     type: 'refresh',
   } as RefreshTokenPayload)
     .setProtectedHeader({ alg: 'HS256' })
+    // Unique per token, so a rotation within the same second still yields a new token
+    .setJti(crypto.randomUUID())
     .setIssuedAt()
     .setExpirationTime(config.jwt.refreshExpiresIn)
     .setSubject(userId)
@@ -2,10 +2,27 @@ import { Server, Upload } from '@tus/server';
 import { FileStore } from '@tus/file-store';
 import { Application, Request, Response } from 'express';
 import path from 'path';
+import { StatusCodes } from 'http-status-codes';
 import fs from 'fs';
 import config from '../config';
-import cloudinaryService from './cloudinary.service';
+import storageService from './storage.service';
+import mediaService from './media.service';
+import { storageQuotaService } from './storageQuota.service';
+import { uploadInspectionService } from './uploadInspection.service';
+import compressionService from './compression.service';
+import { authenticateApiKey, requireVerifiedEmail } from '../middlewares';
+import { ApiKeyScope, IMedia, MediaSource, UploadRejectionReason } from '../models';
+import { VerifiedEmailAction } from '../types/emailVerification.types';
+import { normalizeMimeType, readFileSample } from '../utils/fileType';
 import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+
+/**
+ * Request handed to TUS hooks. On Node it wraps the Express request,
+ * which the auth middleware has already populated.
+ */
+type TusHookRequest = globalThis.Request & { runtime?: { node?: { req: Request } } };
 
 class TusService {
   private server: Server | null = null;
@@ -28,6 +45,24 @@ class TusService {
     }
   }
 
+  /**
+   * Every type a resumable upload may contain
+   */
+  private get allowedTypes(): string[] {
+    return [
+      ...config.upload.allowedImageTypes,
+      ...config.upload.allowedVideoTypes,
+      ...config.upload.allowedDocumentTypes,
+    ];
+  }
+
+  /**
+   * ID of the user making a TUS request
+   */
+  private getRequestUserId(req: globalThis.Request): string | undefined {
+    return (req as TusHookRequest).runtime?.node?.req.user?.id;
+  }
+
   /**
    * Initialize TUS server and attach to Express app
    */
@@ -49,24 +84,56 @@ class TusService {
         const random = Math.random().toString(36).substring(7);
         return `${timestamp}-${random}`;
       },
-      onUploadCreate: async (_req, upload) => {
+      onIncomingRequest: async (req, uploadId) => {
+        // Creation requests name a new upload; every later request must come from its owner
+        if (req.method === 'POST') {
+          return;
+        }
+
+        const upload = await fileStore.getUpload(uploadId);
+        if (upload.metadata?.userId !== this.getRequestUserId(req)) {
+          throw ApiError.notFound('The file for this url was not found');
+        }
+      },
+      // Hooks throw ApiError; send its status and message instead of tus's generic 500
+      onResponseError: (_req, error) => {
+        if (error instanceof ApiError) {
+          return { status_code: error.statusCode, body: `${error.message}\n` };
+        }
+        return undefined;
+      },
+      onUploadCreate: async (req, upload) => {
         logger.info(`TUS upload created: ${upload.id}, size: ${upload.size}`);
 
-        // Validate file type from metadata if available
         const metadata = upload.metadata;
-        if (metadata?.filetype) {
-          const allowedTypes = [
-            ...config.upload.allowedImageTypes,
-            ...config.upload.allowedVideoTypes,
-            ...config.upload.allowedDocumentTypes,
-          ];
-
-          if (!allowedTypes.includes(metadata.filetype)) {
-            throw { status_code: 415, body: `File type not allowed: ${metadata.filetype}` };
-          }
+        const userId = this.getRequestUserId(req);
+
+        // Validate the declared file type if available; the content is checked on finish
+        if (
+          metadata?.filetype &&
+          !this.allowedTypes.includes(normalizeMimeType(metadata.filetype))
+        ) {
+          await uploadInspectionService.recordRejection({
+            userId,
+            reason: UploadRejectionReason.TYPE_NOT_ALLOWED,
+            filename: metadata.filename ?? undefined,
+            declaredType: metadata.filetype,
+            source: MediaSource.RESUMABLE,
+          });
+          throw new ApiError(
+            StatusCodes.UNSUPPORTED_MEDIA_TYPE,
+            MESSAGES.MEDIA.FILE_TYPE_NOT_ALLOWED.replace('{type}', metadata.filetype)
+          );
         }
 
-        return {};
+        // Uploads with a deferred length are checked against the file count only,
+        // and against the byte quota once they finish
+        if (userId) {
+          await storageQuotaService.assertCanStore(userId, upload.size ?? 0, 1);
+        }
+
+        // Record the owner server-side, overriding anything the client sent
+        return { metadata: { ...metadata, userId: userId ?? null } };
       },
       onUploadFinish: async (_req, upload) => {
         logger.info(`TUS upload finished: ${upload.id}`);
@@ -76,22 +143,32 @@ class TusService {
           await this.processCompletedUpload(upload);
         } catch (error) {
           logger.error('Failed to process completed upload:', error);
-          // Don't throw - we'll let the client know through other means
+          // Refused content is reported on the final request; other failures are left
+          // for the client to find through the status endpoint
+          if (error instanceof ApiError) {
+            throw error;
+          }
         }
 
         return {};
       },
     });
 
+    // Only authenticated users with a verified email may upload
+    const guards = [
+      authenticateApiKey(ApiKeyScope.UPLOAD_WRITE),
+      requireVerifiedEmail(VerifiedEmailAction.UPLOAD),
+    ];
+
     // Mount TUS server handler
-    app.all(`${this.tusPath}/*`, (req: Request, res: Response) => {
+    app.all(`${this.tusPath}/*`, ...guards, (req: Request, res: Response) => {
       if (!this.server) {
         return res.status(500).json({ error: 'TUS server not initialized' });
       }
       return this.server.handle(req, res);
     });
 
-    app.all(this.tusPath, (req: Request, res: Response) => {
+    app.all(this.tusPath, ...guards, (req: Request, res: Response) => {
       if (!this.server) {
         return res.status(500).json({ error: 'TUS server not initialized' });
       }
@@ -102,7 +179,7 @@ class TusService {
   }
 
   /**
-   * Process completed upload - transfer to Cloudinary
+   * Process completed upload - transfer to storage
    */
   private async processCompletedUpload(upload: Upload): Promise<void> {
     const filePath = path.join(this.uploadDir, upload.id);
@@ -112,58 +189,98 @@ class TusService {
       return;
     }
 
+    const resultPath = path.join(this.uploadDir, `${upload.id}.result.json`);
+
     try {
       const metadata = upload.metadata || {};
       const filename = metadata.filename || upload.id;
-      const filetype = metadata.filetype || 'application/octet-stream';
+      const userId = metadata.userId;
+
+      let filetype: string;
+      try {
+        // Uploads with a deferred length were only checked against the file count on creation
+        if (userId) {
+          const { size } = await fs.promises.stat(filePath);
+          await storageQuotaService.assertCanStore(userId, size, 1);
+        }
+
+        // Trust the content, not the declared type, now that all of it has arrived
+        filetype = await uploadInspectionService.inspectContent(await readFileSample(filePath), {
+          userId: userId ?? undefined,
+          filename,
+          declaredType: metadata.filetype ?? undefined,
+          source: MediaSource.RESUMABLE,
+          allowedTypes: this.allowedTypes,
+        });
+      } catch (error) {
+        await fs.promises.writeFile(
+          resultPath,
+          JSON.stringify({ userId, rejected: true, reason: (error as Error).message }, null, 2)
+        );
+        await this.cleanupFile(upload.id);
+        throw error;
+      }
 
       logger.info(`Processing TUS upload: ${filename}, type: ${filetype}`);
 
-      // Determine upload type based on file type
-      let result;
+      if (config.upload.stripImageMetadata && filetype.startsWith('image/')) {
+        await fs.promises.writeFile(filePath, await compressionService.stripMetadata(filePath));
+      }
+
+      // Determine folder based on file type; the driver picks the matching pipeline
+      let folder = 'resumable/files';
       if (filetype.startsWith('image/')) {
-        result = await cloudinaryService.uploadImage(filePath, {
-          folder: 'resumable/images',
-          tags: ['resumable', 'tus'],
-          context: { original_filename: filename },
-        });
+        folder = 'resumable/images';
       } else if (filetype.startsWith('video/')) {
-        // Use uploadVideo which handles videos properly
-        result = await cloudinaryService.uploadVideo(filePath, {
-          folder: 'resumable/videos',
-          tags: ['resumable', 'tus'],
-          context: { original_filename: filename },
+        folder = 'resumable/videos';
+      }
+
+      const result = await storageService.upload(filePath, {
+        folder,
+        contentType: filetype,
+        filename,
+        tags: ['resumable', 'tus'],
+        context: { original_filename: filename },
+        access: 'private',
+      });
+
+      logger.info(`Upload transferred to storage: ${result.publicId}`);
+
+      let media: IMedia | undefined;
+      if (userId) {
+        media = await mediaService.record(userId, result, {
+          mimeType: filetype,
+          source: MediaSource.RESUMABLE,
+          originalFilename: filename,
         });
       } else {
-        result = await cloudinaryService.uploadRaw(filePath, {
-          folder: 'resumable/files',
-          tags: ['resumable', 'tus'],
-          context: { original_filename: filename },
-        });
+        logger.warn(`TUS upload ${upload.id} has no owner; media not recorded`);
       }
 
-      logger.info(`Upload transferred to Cloudinary: ${result.publicId}, URL: ${result.secureUrl}`);
-
-      // Store the Cloudinary result for client retrieval
-      const resultPath = path.join(this.uploadDir, `${upload.id}.result.json`);
-      await fs.promises.writeFile(resultPath, JSON.stringify(result, null, 2));
+      // Store the upload result for client retrieval
+      await fs.promises.writeFile(
+        resultPath,
+        JSON.stringify({ ...mediaService.toClientResult(result, media), userId }, null, 2)
+      );
 
       // Clean up local file after successful upload
       await this.cleanupFile(upload.id);
     } catch (error) {
-      logger.error(`Failed to transfer upload to Cloudinary: ${upload.id}`, error);
+      logger.error(`Failed to transfer upload to storage: ${upload.id}`, error);
       throw error;
     }
   }
 
   /**
-   * Get upload status and result
+   * Get upload status and result.
+   * When ownerId is given, uploads belonging to anyone else are reported as not found.
    */
   async getUploadResult(
     uploadId: string,
-    shouldCleanup: boolean = false
+    shouldCleanup: boolean = false,
+    ownerId?: string
   ): Promise<{
-    status: 'pending' | 'completed' | 'not_found';
+    status: 'pending' | 'completed' | 'rejected' | 'not_found';
     result?: Record<string, unknown>;
     progress?: number;
   }> {
@@ -175,6 +292,10 @@ class TusService {
     if (fs.existsSync(resultPath)) {
       const result = JSON.parse(await fs.promises.readFile(resultPath, 'utf-8'));
 
+      if (ownerId && result.userId !== ownerId) {
+        return { status: 'not_found' };
+      }
+
       if (shouldCleanup) {
         try {
           await fs.promises.unlink(resultPath);
@@ -184,13 +305,16 @@ class TusService {
         }
       }
 
-      return { status: 'completed', result };
+      return { status: result.rejected ? 'rejected' : 'completed', result };
     }
 
     // Check if upload is in progress
     if (fs.existsSync(infoPath)) {
       try {
         const info = JSON.parse(await fs.promises.readFile(infoPath, 'utf-8'));
+        if (ownerId && info.metadata?.userId !== ownerId) {
+          return { status: 'not_found' };
+        }
         const stats = fs.statSync(filePath);
         const progress = info.size ? (stats.size / info.size) * 100 : 0;
         return { status: 'pending', progress };
@@ -0,0 +1,517 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { User, IUser, IDeviceInfo } from '../models';
+import { redisService } from './redis.service';
+import otpService from './otp.service';
+import { lockoutService } from './lockout.service';
+import config from '../config';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+import { OtpPurpose, type SendOtpResult } from '../types/otp.types';
+import {
+  TwoFactorMethod,
+  type StoredTwoFactorChallenge,
+  type TwoFactorChallengeResult,
+  type TwoFactorSetupResult,
+} from '../types/twoFactor.types';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// RFC 6238 parameters (the defaults every authenticator app supports)
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_WINDOW = 1; // Accept one step of clock drift either way
+const SECRET_BYTES = 20;
+
+const SECRET_FIELDS =
+  '+password +twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode RFC 4648 base32 (padding and case are ignored)
+ */
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Two-Factor Service
+ * Handles TOTP enrollment, recovery codes and pending login challenges
+ */
+class TwoFactorService {
+  private static instance: TwoFactorService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TwoFactorService {
+    if (!TwoFactorService.instance) {
+      TwoFactorService.instance = new TwoFactorService();
+    }
+    return TwoFactorService.instance;
+  }
+
+  // =====================
+  // TOTP
+  // =====================
+
+  /**
+   * Generate the TOTP code for a time step (RFC 6238, HMAC-SHA1)
+   */
+  private generateTotp(secret: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+    return binary.toString().padStart(TOTP_DIGITS, '0');
+  }
+
+  /**
+   * Find the time step a code belongs to within the drift window
+   */
+  private matchTotp(encryptedSecret: string, code: string): number | null {
+    const secret = base32Decode(this.decrypt(encryptedSecret));
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+    for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+      const step = currentStep + drift;
+      const expected = Buffer.from(this.generateTotp(secret, step));
+      const candidate = Buffer.from(code);
+      if (expected.length === candidate.length && crypto.timingSafeEqual(expected, candidate)) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the otpauth:// provisioning URI for authenticator apps
+   */
+  private buildOtpauthUrl(email: string, secret: string): string {
+    const issuer = config.twoFactor.issuer;
+    const label = encodeURIComponent(`${issuer}:${email}`);
+    // Encoded by hand: URLSearchParams turns spaces into '+', which authenticator apps show literally
+    const params = [
+      `secret=${secret}`,
+      `issuer=${encodeURIComponent(issuer)}`,
+      'algorithm=SHA1',
+      `digits=${TOTP_DIGITS}`,
+      `period=${TOTP_PERIOD_SECONDS}`,
+    ];
+    return `otpauth://totp/${label}?${params.join('&')}`;
+  }
+
+  // =====================
+  // SECRETS & RECOVERY CODES
+  // =====================
+
+  /**
+   * Encryption key derived from configuration
+   */
+  private getKey(): Buffer {
+    return crypto.createHash('sha256').update(config.twoFactor.encryptionKey).digest();
+  }
+
+  /**
+   * Encrypt a TOTP secret for storage (AES-256-GCM, iv:tag:ciphertext)
+   */
+  private encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join(':');
+  }
+
+  /**
+   * Decrypt a stored TOTP secret
+   */
+  private decrypt(payload: string): string {
+    const [iv, tag, encrypted] = payload.split(':').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Hash a recovery code for storage (case and separators are ignored)
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * Generate a fresh set of recovery codes (xxxxx-xxxxx)
+   */
+  private generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: config.twoFactor.recoveryCodeCount }, () => {
+      const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map((code) => this.hashRecoveryCode(code)) };
+  }
+
+  /**
+   * Load a user with their 2FA secrets selected
+   */
+  private async getUserWithSecrets(userId: string): Promise<IUser> {
+    const user = await User.findById(new mongoose.Types.ObjectId(userId)).select(SECRET_FIELDS);
+    if (!user) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+    return user;
+  }
+
+  /**
+   * Accept a TOTP code once (a code cannot be replayed within its window)
+   */
+  private async consumeTotp(user: IUser, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = this.matchTotp(user.twoFactorSecret, code);
+    if (step === null) {
+      return false;
+    }
+
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { twoFactorLastUsedStep: { $exists: false } },
+          { twoFactorLastUsedStep: { $lt: step } },
+        ],
+      },
+      { $set: { twoFactorLastUsedStep: step } }
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Accept a recovery code once, removing it from the account
+   */
+  private async consumeRecoveryCode(user: IUser, code: string): Promise<boolean> {
+    const hash = this.hashRecoveryCode(code);
+
+    const result = await User.updateOne(
+      { _id: user._id, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } }
+    );
+
+    if (result.modifiedCount === 1) {
+      logger.info(`Recovery code used for user: ${user.email}`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Re-authenticate with password plus a TOTP or recovery code
+   */
+  private async reauthenticate(user: IUser, password: string, code: string): Promise<void> {
+    const isPasswordValid = await user.comparePassword(password);
+    if (!isPasswordValid) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.INVALID_PASSWORD);
+    }
+
+    const isCodeValid =
+      (await this.consumeTotp(user, code)) || (await this.consumeRecoveryCode(user, code));
+    if (!isCodeValid) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE);
+    }
+  }
+
+  // =====================
+  // ENROLLMENT
+  // =====================
+
+  /**
+   * Start TOTP enrollment by generating a pending secret
+   */
+  public async setup(userId: string): Promise<TwoFactorSetupResult> {
+    const user = await this.getUserWithSecrets(userId);
+
+    if (user.twoFactorEnabled) {
+      throw ApiError.conflict(MESSAGES.AUTH.TWO_FACTOR_ALREADY_ENABLED);
+    }
+
+    const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+    user.twoFactorPendingSecret = this.encrypt(secret);
+    await user.save();
+
+    return { secret, otpauthUrl: this.buildOtpauthUrl(user.email, secret) };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the recovery codes, which are only ever shown here.
+   */
+  public async enable(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUserWithSecrets(userId);
+
+    if (user.twoFactorEnabled) {
+      throw ApiError.conflict(MESSAGES.AUTH.TWO_FACTOR_ALREADY_ENABLED);
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      throw ApiError.badRequest(MESSAGES.AUTH.TWO_FACTOR_SETUP_REQUIRED);
+    }
+
+    const step = this.matchTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw ApiError.badRequest(MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE);
+    }
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+
+    user.twoFactorEnabled = true;
+    user.twoFactorEnabledAt = new Date();
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = hashes;
+    user.twoFactorLastUsedStep = step;
+    await user.save();
+
+    logger.info(`Two-factor authentication enabled for user: ${user.email}`);
+
+    return codes;
+  }
+
+  /**
+   * Disable 2FA after re-authentication
+   */
+  public async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.getUserWithSecrets(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw ApiError.badRequest(MESSAGES.AUTH.TWO_FACTOR_NOT_ENABLED);
+    }
+
+    await this.reauthenticate(user, password, code);
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { twoFactorEnabled: false, twoFactorRecoveryCodes: [] },
+        $unset: {
+          twoFactorEnabledAt: 1,
+          twoFactorSecret: 1,
+          twoFactorPendingSecret: 1,
+          twoFactorLastUsedStep: 1,
+        },
+      }
+    );
+
+    logger.info(`Two-factor authentication disabled for user: ${user.email}`);
+  }
+
+  /**
+   * Replace all recovery codes after re-authentication
+   */
+  public async regenerateRecoveryCodes(
+    userId: string,
+    password: string,
+    code: string
+  ): Promise<string[]> {
+    const user = await this.getUserWithSecrets(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw ApiError.badRequest(MESSAGES.AUTH.TWO_FACTOR_NOT_ENABLED);
+    }
+
+    await this.reauthenticate(user, password, code);
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+    await User.updateOne({ _id: user._id }, { $set: { twoFactorRecoveryCodes: hashes } });
+
+    logger.info(`Recovery codes regenerated for user: ${user.email}`);
+
+    return codes;
+  }
+
+  // =====================
+  // LOGIN CHALLENGES
+  // =====================
+
+  /**
+   * Get Redis key for a login challenge
+   */
+  private getChallengeKey(token: string): string {
+    return `2fa:challenge:${crypto.createHash('sha256').update(token).digest('hex')}`;
+  }
+
+  /**
+   * Get Redis key for a login challenge's attempt counter
+   */
+  private getAttemptsKey(token: string): string {
+    return `${this.getChallengeKey(token)}:attempts`;
+  }
+
+  /**
+   * Create a short-lived challenge after a successful password check
+   */
+  public async createChallenge(
+    userId: string,
+    deviceInfo: IDeviceInfo
+  ): Promise<TwoFactorChallengeResult> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const ttlSeconds = config.twoFactor.challengeTtlSeconds;
+
+    const challenge: StoredTwoFactorChallenge = {
+      userId,
+      deviceInfo,
+      createdAt: Date.now(),
+    };
+
+    await redisService.set(this.getChallengeKey(token), JSON.stringify(challenge), ttlSeconds);
+
+    return {
+      twoFactorRequired: true,
+      challengeToken: token,
+      expiresIn: ttlSeconds,
+      methods: Object.values(TwoFactorMethod),
+    };
+  }
+
+  /**
+   * Load a pending challenge
+   */
+  private async getChallenge(token: string): Promise<StoredTwoFactorChallenge> {
+    const stored = await redisService.get(this.getChallengeKey(token));
+    if (!stored) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.TWO_FACTOR_CHALLENGE_INVALID);
+    }
+    return JSON.parse(stored) as StoredTwoFactorChallenge;
+  }
+
+  /**
+   * Email a login verification code for a pending challenge
+   */
+  public async sendChallengeEmail(token: string): Promise<SendOtpResult> {
+    const challenge = await this.getChallenge(token);
+
+    const user = await User.findById(challenge.userId);
+    if (!user || !user.isActive) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.USER_INACTIVE);
+    }
+
+    return otpService.sendOtp(user.email, OtpPurpose.LOGIN_VERIFICATION, user.firstName);
+  }
+
+  /**
+   * Verify the second factor for a challenge and consume it.
+   * Returns the challenge so the caller can open the session.
+   */
+  public async completeChallenge(
+    token: string,
+    method: TwoFactorMethod,
+    code: string
+  ): Promise<StoredTwoFactorChallenge> {
+    const key = this.getChallengeKey(token);
+    const attemptsKey = this.getAttemptsKey(token);
+    const challenge = await this.getChallenge(token);
+    const user = await this.getUserWithSecrets(challenge.userId);
+    await lockoutService.assertCanAttempt(user.email, challenge.deviceInfo.ip);
+
+    // Claim the attempt before checking the code so parallel guesses cannot exceed the limit
+    const maxAttempts = config.twoFactor.maxAttempts;
+    const attempts = await redisService.incr(attemptsKey, config.twoFactor.challengeTtlSeconds);
+    if (attempts > maxAttempts) {
+      await Promise.all([redisService.del(key), redisService.del(attemptsKey)]);
+      throw ApiError.unauthorized(MESSAGES.AUTH.TWO_FACTOR_TOO_MANY_ATTEMPTS);
+    }
+
+    let isValid = false;
+    switch (method) {
+      case TwoFactorMethod.TOTP:
+        isValid = await this.consumeTotp(user, code);
+        break;
+      case TwoFactorMethod.RECOVERY_CODE:
+        isValid = await this.consumeRecoveryCode(user, code);
+        break;
+      case TwoFactorMethod.EMAIL_OTP:
+        // otpService enforces its own attempt limit and throws on failure
+        try {
+          await otpService.verifyOtp(user.email, code, OtpPurpose.LOGIN_VERIFICATION);
+          isValid = true;
+        } catch (error) {
+          await lockoutService.recordFailure(user.email, challenge.deviceInfo.ip, user);
+          throw error;
+        }
+        break;
+    }
+
+    if (!isValid) {
+      await lockoutService.recordFailure(user.email, challenge.deviceInfo.ip, user);
+      if (attempts >= maxAttempts) {
+        await Promise.all([redisService.del(key), redisService.del(attemptsKey)]);
+        throw ApiError.unauthorized(MESSAGES.AUTH.TWO_FACTOR_TOO_MANY_ATTEMPTS);
+      }
+      throw ApiError.unauthorized(MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE);
+    }
+
+    // Only one request may turn a challenge into a session
+    const [deleted] = await Promise.all([redisService.del(key), redisService.del(attemptsKey)]);
+    if (deleted === 0) {
+      throw ApiError.unauthorized(MESSAGES.AUTH.TWO_FACTOR_CHALLENGE_INVALID);
+    }
+
+    await lockoutService.recordSuccess(user.email);
+
+    return challenge;
+  }
+}
+
+export const twoFactorService = TwoFactorService.getInstance();
+export default twoFactorService;
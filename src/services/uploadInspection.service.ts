@@ -0,0 +1,115 @@
+import { StatusCodes } from 'http-status-codes';
+import config from '../config';
+import { UploadRejection, UploadRejectionReason, MediaSource } from '../models';
+import { detectFileType, normalizeMimeType } from '../utils/fileType';
+import logger from '../utils/logger';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+
+export interface UploadInspectionInput {
+  userId?: string;
+  filename?: string;
+  /** MIME type the client sent, if any */
+  declaredType?: string;
+  source: MediaSource;
+  allowedTypes: string[];
+}
+
+export interface RecordRejectionInput {
+  userId?: string;
+  reason: UploadRejectionReason;
+  filename?: string;
+  declaredType?: string;
+  detectedType?: string;
+  source: MediaSource;
+}
+
+/**
+ * Upload Inspection Service
+ * Checks uploads by their content rather than the MIME type the client claims, and keeps
+ * a record of every refused upload and why it was refused.
+ */
+class UploadInspectionService {
+  private static instance: UploadInspectionService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): UploadInspectionService {
+    if (!UploadInspectionService.instance) {
+      UploadInspectionService.instance = new UploadInspectionService();
+    }
+    return UploadInspectionService.instance;
+  }
+
+  /**
+   * Detect a file's type from the start of its content and check it is allowed and
+   * matches the declared type. Returns the detected type.
+   */
+  public async inspectContent(sample: Buffer, input: UploadInspectionInput): Promise<string> {
+    const declaredType = input.declaredType ? normalizeMimeType(input.declaredType) : undefined;
+    const detectedType = detectFileType(sample);
+
+    let reason: UploadRejectionReason | undefined;
+    let message = '';
+
+    if (!detectedType) {
+      reason = UploadRejectionReason.UNRECOGNIZED_CONTENT;
+      message = MESSAGES.MEDIA.FILE_CONTENT_UNRECOGNIZED;
+    } else if (declaredType && detectedType !== declaredType) {
+      reason = UploadRejectionReason.CONTENT_MISMATCH;
+      message = MESSAGES.MEDIA.FILE_CONTENT_MISMATCH.replace('{detected}', detectedType).replace(
+        '{declared}',
+        declaredType
+      );
+    } else if (!input.allowedTypes.includes(detectedType)) {
+      reason = UploadRejectionReason.TYPE_NOT_ALLOWED;
+      message = MESSAGES.MEDIA.FILE_TYPE_NOT_ALLOWED.replace('{type}', detectedType);
+    }
+
+    if (reason) {
+      await this.recordRejection({
+        userId: input.userId,
+        reason,
+        filename: input.filename,
+        declaredType,
+        detectedType,
+        source: input.source,
+      });
+      throw new ApiError(StatusCodes.UNSUPPORTED_MEDIA_TYPE, message);
+    }
+
+    return detectedType as string;
+  }
+
+  /**
+   * Record a refused upload. Never throws, so it cannot mask the rejection itself.
+   */
+  public async recordRejection(input: RecordRejectionInput): Promise<void> {
+    logger.warn(
+      `Upload rejected (${input.reason}): ${input.filename ?? 'unnamed file'}, ` +
+        `declared ${input.declaredType ?? 'none'}, detected ${input.detectedType ?? 'none'}, ` +
+        `user ${input.userId ?? 'unknown'}`
+    );
+
+    if (!input.userId) {
+      return;
+    }
+
+    try {
+      await UploadRejection.create({
+        ...input,
+        expiresAt: new Date(
+          Date.now() + config.upload.rejectionRetentionDays * 24 * 60 * 60 * 1000
+        ),
+      });
+    } catch (error) {
+      logger.error('Failed to record upload rejection:', error);
+    }
+  }
+}
+
+export const uploadInspectionService = UploadInspectionService.getInstance();
+export default uploadInspectionService;
@@ -0,0 +1,124 @@
+import mongoose from 'mongoose';
+import { User, UserBlock, IUserBlock } from '../models';
+import { ApiError } from '../utils/ApiError';
+import { MESSAGES } from '../constants/messages';
+
+/**
+ * User Block Service - Manages per-user block lists
+ */
+class UserBlockService {
+  private static instance: UserBlockService;
+
+  private constructor() {}
+
+  public static getInstance(): UserBlockService {
+    if (!UserBlockService.instance) {
+      UserBlockService.instance = new UserBlockService();
+    }
+    return UserBlockService.instance;
+  }
+
+  /**
+   * Block a user
+   */
+  async blockUser(blockerId: string, blockedId: string, reason?: string): Promise<IUserBlock> {
+    if (blockerId === blockedId) {
+      throw ApiError.badRequest(MESSAGES.USER.CANNOT_BLOCK_SELF);
+    }
+
+    const blockedUser = await User.exists({ _id: new mongoose.Types.ObjectId(blockedId) });
+    if (!blockedUser) {
+      throw ApiError.notFound(MESSAGES.USER.NOT_FOUND);
+    }
+
+    const existing = await UserBlock.exists({
+      blockerId: new mongoose.Types.ObjectId(blockerId),
+      blockedId: new mongoose.Types.ObjectId(blockedId),
+    });
+    if (existing) {
+      throw ApiError.conflict(MESSAGES.USER.ALREADY_BLOCKED);
+    }
+
+    const block = await UserBlock.create({
+      blockerId: new mongoose.Types.ObjectId(blockerId),
+      blockedId: new mongoose.Types.ObjectId(blockedId),
+      reason: reason?.trim() || undefined,
+    });
+
+    return block.populate('blockedId', 'firstName lastName slug');
+  }
+
+  /**
+   * Unblock a user
+   */
+  async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    const result = await UserBlock.deleteOne({
+      blockerId: new mongoose.Types.ObjectId(blockerId),
+      blockedId: new mongoose.Types.ObjectId(blockedId),
+    });
+
+    if (result.deletedCount === 0) {
+      throw ApiError.notFound(MESSAGES.USER.BLOCK_NOT_FOUND);
+    }
+  }
+
+  /**
+   * List the users a user has blocked, newest first
+   */
+  async listBlocks(blockerId: string): Promise<IUserBlock[]> {
+    return UserBlock.find({ blockerId: new mongoose.Types.ObjectId(blockerId) })
+      .sort({ createdAt: -1 })
+      .populate('blockedId', 'firstName lastName slug')
+      .lean<IUserBlock[]>();
+  }
+
+  /**
+   * Check whether blockerId has blocked blockedId
+   */
+  async isBlocked(blockerId: string, blockedId: string): Promise<boolean> {
+    const block = await UserBlock.exists({
+      blockerId: new mongoose.Types.ObjectId(blockerId),
+      blockedId: new mongoose.Types.ObjectId(blockedId),
+    });
+    return !!block;
+  }
+
+  /**
+   * Check whether either user has blocked the other
+   */
+  async isBlockedEitherWay(userId1: string, userId2: string): Promise<boolean> {
+    const a = new mongoose.Types.ObjectId(userId1);
+    const b = new mongoose.Types.ObjectId(userId2);
+
+    const block = await UserBlock.exists({
+      $or: [
+        { blockerId: a, blockedId: b },
+        { blockerId: b, blockedId: a },
+      ],
+    });
+    return !!block;
+  }
+
+  /**
+   * IDs of users the given user has blocked
+   */
+  async getBlockedIds(blockerId: string): Promise<string[]> {
+    const blocks = await UserBlock.find({ blockerId: new mongoose.Types.ObjectId(blockerId) })
+      .select('blockedId')
+      .lean();
+    return blocks.map((block) => block.blockedId.toString());
+  }
+
+  /**
+   * IDs of users who have blocked the given user
+   */
+  async getBlockerIds(blockedId: string): Promise<string[]> {
+    const blocks = await UserBlock.find({ blockedId: new mongoose.Types.ObjectId(blockedId) })
+      .select('blockerId')
+      .lean();
+    return blocks.map((block) => block.blockerId.toString());
+  }
+}
+
+export const userBlockService = UserBlockService.getInstance();
+export default userBlockService;
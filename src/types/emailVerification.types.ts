@@ -0,0 +1,16 @@
+/**
+ * Actions that the email verification policy can restrict to verified accounts
+ */
+export enum VerifiedEmailAction {
+  CREATE_GROUP = 'create_group',
+  UPLOAD = 'upload',
+}
+
+/**
+ * Email change awaiting OTP confirmation, stored in Redis per user
+ */
+export interface PendingEmailChange {
+  /** Address the OTP was sent to */
+  newEmail: string;
+  requestedAt: number;
+}
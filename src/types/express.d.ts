@@ -1,5 +1,6 @@
 import { UserRole } from '../models/User';
 import { ISession } from '../models/Session';
+import { IApiKey } from '../models/ApiKey';
 
 declare global {
   namespace Express {
@@ -8,10 +9,12 @@ declare global {
       email: string;
       role: UserRole;
       isActive: boolean;
+      isEmailVerified: boolean;
     }
 
     interface Request {
       session?: ISession;
+      apiKey?: IApiKey; // Set when the request authenticated with an API key
     }
   }
 }
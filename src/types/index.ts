@@ -12,6 +12,7 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     role: UserRole;
     isActive: boolean;
+    isEmailVerified: boolean;
   };
   deviceInfo?: IDeviceInfo;
 }
@@ -0,0 +1,22 @@
+/**
+ * Account lock stored in Redis, keyed by normalized email
+ */
+export interface AccountLockout {
+  email: string;
+  /** Failed attempts within the window that triggered the lock */
+  failedAttempts: number;
+  /** IP address of the attempt that triggered the lock */
+  ipAddress?: string;
+  lockedAt: number;
+  lockedUntil: number;
+}
+
+/**
+ * IP block stored in Redis after too many failures across accounts
+ */
+export interface IpBlock {
+  ipAddress: string;
+  failedAttempts: number;
+  blockedAt: number;
+  blockedUntil: number;
+}
@@ -0,0 +1,27 @@
+import type { Readable } from 'stream';
+
+/**
+ * Scanner uploaded files are checked with
+ */
+export enum MalwareScannerDriver {
+  CLAMD = 'clamd',
+  STUB = 'stub',
+}
+
+/**
+ * Outcome of scanning one file
+ */
+export interface ScanVerdict {
+  infected: boolean;
+  /** Signature name reported for infected files */
+  threat?: string;
+}
+
+/**
+ * A malware scanner the scan queue can check files with
+ */
+export interface MalwareScanner {
+  readonly driver: MalwareScannerDriver;
+  /** Scan a file's contents; rejects when the scanner cannot give a verdict */
+  scan(stream: Readable): Promise<ScanVerdict>;
+}
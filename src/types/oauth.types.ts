@@ -0,0 +1,75 @@
+/**
+ * OAuth Provider Kind Enum
+ * How a provider exposes the signed-in user's identity
+ */
+export enum OAuthProviderKind {
+  /** OpenID Connect: endpoints come from discovery and identity from a signed ID token */
+  OIDC = 'oidc',
+  /** GitHub OAuth apps: no ID token, identity comes from the REST API */
+  GITHUB = 'github',
+}
+
+/**
+ * OAuth Intent Enum
+ * What the authorization code will be used for once it comes back
+ */
+export enum OAuthIntent {
+  LOGIN = 'login',
+  LINK = 'link',
+}
+
+/**
+ * Configured OAuth provider
+ */
+export interface OAuthProviderConfig {
+  kind: OAuthProviderKind;
+  /** Display name shown to users */
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  /** OIDC issuer URL; discovery is read from <issuer>/.well-known/openid-configuration */
+  issuer?: string;
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+}
+
+/**
+ * Pending authorization stored in Redis, keyed by state
+ */
+export interface StoredOAuthState {
+  provider: string;
+  intent: OAuthIntent;
+  /** PKCE code verifier (RFC 7636) */
+  codeVerifier: string;
+  /** OIDC nonce bound into the ID token */
+  nonce: string;
+  redirectUri: string;
+  /** Set for the link intent */
+  userId?: string;
+  createdAt: number;
+}
+
+/**
+ * Identity asserted by a provider
+ */
+export interface OAuthProfile {
+  /** Stable provider-side user ID */
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+/**
+ * Authorization request returned to the client
+ */
+export interface OAuthAuthorizationResult {
+  authorizationUrl: string;
+  state: string;
+  /** Seconds until the state expires */
+  expiresIn: number;
+}
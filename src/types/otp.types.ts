@@ -7,6 +7,8 @@ export enum OtpPurpose {
   PASSWORD_RESET = 'PASSWORD_RESET',
   EMAIL_VERIFICATION = 'EMAIL_VERIFICATION',
   LOGIN_VERIFICATION = 'LOGIN_VERIFICATION',
+  ACCOUNT_UNLOCK = 'ACCOUNT_UNLOCK',
+  EMAIL_CHANGE = 'EMAIL_CHANGE',
 }
 
 /**
@@ -0,0 +1,159 @@
+import type { Readable } from 'stream';
+
+/**
+ * Media storage limits for a user, from their role or an admin override
+ */
+export interface StorageQuota {
+  maxBytes: number;
+  maxFiles: number;
+}
+
+/**
+ * A user's current media storage against their quota
+ */
+export interface StorageUsage extends StorageQuota {
+  usedBytes: number;
+  fileCount: number;
+  remainingBytes: number;
+  remainingFiles: number;
+  /** Whether an admin has overridden the role's quota */
+  isOverridden: boolean;
+}
+
+/**
+ * Backend media is stored in
+ */
+export enum StorageDriver {
+  CLOUDINARY = 'cloudinary',
+  LOCAL = 'local',
+  S3 = 's3',
+}
+
+/**
+ * Kind of media, as Cloudinary classifies it
+ */
+export type StorageResourceType = 'image' | 'video' | 'raw';
+
+/**
+ * Who may fetch a stored file by URL. Uploads stay private until their malware scan passes.
+ */
+export type StorageAccess = 'public' | 'private';
+
+/**
+ * Options for storing a file
+ */
+export interface UploadOptions {
+  folder?: string;
+  publicId?: string;
+  resourceType?: StorageResourceType | 'auto';
+  /** MIME type of the file, used to pick a resource type and serve it back */
+  contentType?: string;
+  /** Original file name, used for the stored extension */
+  filename?: string;
+  /** Defaults to public */
+  access?: StorageAccess;
+  /** Cloudinary only */
+  transformation?: object[];
+  /** Cloudinary only */
+  eager?: object[];
+  tags?: string[];
+  context?: Record<string, string>;
+  /** Replace an existing file with the same public ID (default true); false fails instead */
+  overwrite?: boolean;
+  invalidate?: boolean;
+}
+
+/**
+ * A stored file, in the same shape whichever driver stored it
+ */
+export interface UploadResult {
+  publicId: string;
+  url: string;
+  secureUrl: string;
+  resourceType: string;
+  format: string;
+  width?: number;
+  height?: number;
+  bytes: number;
+  duration?: number;
+  createdAt: string;
+  etag: string;
+  originalFilename?: string;
+}
+
+/**
+ * Options for a direct client-side upload
+ */
+export interface SignedUploadOptions {
+  folder?: string;
+  resourceType?: StorageResourceType | 'auto';
+  contentType?: string;
+  filename?: string;
+  /** Exact size of the file in bytes */
+  bytes?: number;
+  /** Defaults to public */
+  access?: StorageAccess;
+}
+
+/**
+ * Everything a client needs to upload straight to the storage backend
+ */
+export interface SignedUpload {
+  driver: StorageDriver;
+  url: string;
+  method: 'POST' | 'PUT';
+  /** Form fields to send with a POST upload */
+  fields?: Record<string, string | number>;
+  /** Headers to send with a PUT upload */
+  headers?: Record<string, string>;
+  /** Public ID the file will be stored under */
+  publicId: string;
+  /** Unix time (seconds) the signature stops being accepted */
+  expiresAt?: number;
+}
+
+/**
+ * Storage driver contract. Upload routes, TUS and chat cleanup only talk to this.
+ */
+export interface StorageProvider {
+  readonly driver: StorageDriver;
+
+  /** Store a file held in memory or on disk */
+  upload(file: Buffer | string, options?: UploadOptions): Promise<UploadResult>;
+
+  /** Store a large file from disk, in chunks where the backend supports it */
+  uploadLargeFile(filePath: string, options?: UploadOptions): Promise<UploadResult>;
+
+  /** Store a file from a stream */
+  uploadFromStream(stream: Readable, options?: UploadOptions): Promise<UploadResult>;
+
+  deleteMedia(
+    publicId: string,
+    resourceType?: StorageResourceType,
+    access?: StorageAccess
+  ): Promise<{ success: boolean; result: string }>;
+
+  deleteMultipleMedia(
+    publicIds: string[],
+    resourceType?: StorageResourceType
+  ): Promise<{ deleted: Record<string, string>; partial: boolean }>;
+
+  getMediaInfo(
+    publicId: string,
+    resourceType?: StorageResourceType,
+    access?: StorageAccess
+  ): Promise<UploadResult>;
+
+  /** Read a stored file back, e.g. to scan it */
+  downloadMedia(
+    publicId: string,
+    resourceType?: StorageResourceType,
+    access?: StorageAccess
+  ): Promise<Readable>;
+
+  /** Make a private file public under the same public ID, returning its public URLs */
+  publish(publicId: string, resourceType?: StorageResourceType): Promise<UploadResult>;
+
+  /** Sign a direct upload from the client to the backend */
+  generateSignedUploadUrl(options: SignedUploadOptions): SignedUpload;
+}
@@ -0,0 +1,45 @@
+import { IDeviceInfo } from '../models/Session';
+
+/**
+ * Two-Factor Method Enum
+ * Ways a pending login challenge can be completed
+ */
+export enum TwoFactorMethod {
+  TOTP = 'totp',
+  RECOVERY_CODE = 'recovery_code',
+  EMAIL_OTP = 'email_otp',
+}
+
+/**
+ * Pending login challenge stored in Redis
+ */
+export interface StoredTwoFactorChallenge {
+  /** User who passed the password step */
+  userId: string;
+  /** Device info captured at the password step */
+  deviceInfo: IDeviceInfo;
+  /** Timestamp when the challenge was created */
+  createdAt: number;
+}
+
+/**
+ * Login result when a second factor is still required
+ */
+export interface TwoFactorChallengeResult {
+  twoFactorRequired: true;
+  /** Opaque token exchanged for a session at /auth/2fa/verify */
+  challengeToken: string;
+  /** Seconds until the challenge expires */
+  expiresIn: number;
+  methods: TwoFactorMethod[];
+}
+
+/**
+ * TOTP enrollment result
+ */
+export interface TwoFactorSetupResult {
+  /** Base32 secret for manual entry */
+  secret: string;
+  /** otpauth:// URI to render as a QR code */
+  otpauthUrl: string;
+}
@@ -0,0 +1,80 @@
+/**
+ * WebAuthn JSON types
+ * Binary fields are base64url strings, matching the browser's
+ * PublicKeyCredential.toJSON() output
+ */
+
+/**
+ * Credential returned by navigator.credentials.create()
+ */
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * Credential returned by navigator.credentials.get()
+ */
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+/**
+ * Descriptor of an existing credential
+ */
+export interface CredentialDescriptorJSON {
+  id: string;
+  type: 'public-key';
+  transports?: string[];
+}
+
+/**
+ * Options for navigator.credentials.create()
+ */
+export interface RegistrationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  excludeCredentials: CredentialDescriptorJSON[];
+  authenticatorSelection: {
+    residentKey: 'required' | 'preferred' | 'discouraged';
+    userVerification: 'required' | 'preferred' | 'discouraged';
+  };
+}
+
+/**
+ * Options for navigator.credentials.get()
+ */
+export interface AuthenticationOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  allowCredentials: CredentialDescriptorJSON[];
+  userVerification: 'required' | 'preferred' | 'discouraged';
+}
+
+/**
+ * Pending authentication ceremony stored in Redis
+ */
+export interface StoredAuthenticationChallenge {
+  /** Set when the ceremony was started for a specific account */
+  userId?: string;
+  createdAt: number;
+}
@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+
+/**
+ * AWS Signature Version 4 for S3-compatible APIs (AWS S3, MinIO, R2, ...)
+ * Pure functions: the S3 storage driver builds requests and sends them.
+ */
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service: string;
+}
+
+export interface SigV4Request {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  /** Hex SHA-256 of the body, or UNSIGNED-PAYLOAD */
+  payloadHash?: string;
+  date?: Date;
+}
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+const sha256Hex = (data: string | Buffer): string => {
+  return crypto.createHash('sha256').update(data).digest('hex');
+};
+
+const hmac = (key: string | Buffer, data: string): Buffer => {
+  return crypto.createHmac('sha256', key).update(data).digest();
+};
+
+/**
+ * Hex SHA-256 of a request body
+ */
+export const hashPayload = (body: string | Buffer): string => sha256Hex(body);
+
+/**
+ * RFC 3986 encoding, as SigV4 requires (encodeURIComponent leaves !'()* alone)
+ */
+export const encodeRfc3986 = (value: string): string => {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+};
+
+/**
+ * Encode an object key for use in a URL path, keeping the slashes
+ */
+export const encodeObjectKey = (key: string): string => {
+  return key.split('/').map(encodeRfc3986).join('/');
+};
+
+// 20240101T000000Z and 20240101
+const formatDate = (date: Date): { amzDate: string; dateStamp: string } => {
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  return { amzDate, dateStamp: amzDate.slice(0, 8) };
+};
+
+const canonicalQuery = (url: URL): string => {
+  return [...url.searchParams.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+};
+
+const signature = (
+  credentials: SigV4Credentials,
+  dateStamp: string,
+  stringToSign: string
+): string => {
+  const dateKey = hmac(`AWS4${credentials.secretAccessKey}`, dateStamp);
+  const regionKey = hmac(dateKey, credentials.region);
+  const serviceKey = hmac(regionKey, credentials.service);
+  const signingKey = hmac(serviceKey, 'aws4_request');
+  return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+};
+
+const sign = (
+  credentials: SigV4Credentials,
+  request: SigV4Request,
+  headers: Record<string, string>,
+  amzDate: string,
+  dateStamp: string
+): { signedHeaders: string; scope: string; signature: string } => {
+  const names = Object.keys(headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowerCased = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])
+  );
+  const signedHeaders = names.join(';');
+  const scope = `${dateStamp}/${credentials.region}/${credentials.service}/aws4_request`;
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    request.url.pathname,
+    canonicalQuery(request.url),
+    names.map((name) => `${name}:${lowerCased[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash ?? UNSIGNED_PAYLOAD,
+  ].join('\n');
+
+  const stringToSign = [ALGORITHM, amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  return { signedHeaders, scope, signature: signature(credentials, dateStamp, stringToSign) };
+};
+
+/**
+ * Sign a request with an Authorization header.
+ * Returns the headers to send, including the ones added for signing.
+ */
+export const signRequest = (
+  credentials: SigV4Credentials,
+  request: SigV4Request
+): Record<string, string> => {
+  const { amzDate, dateStamp } = formatDate(request.date ?? new Date());
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.url.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash ?? UNSIGNED_PAYLOAD,
+  };
+
+  const signed = sign(credentials, request, headers, amzDate, dateStamp);
+
+  return {
+    ...headers,
+    authorization:
+      `${ALGORITHM} Credential=${credentials.accessKeyId}/${signed.scope}, ` +
+      `SignedHeaders=${signed.signedHeaders}, Signature=${signed.signature}`,
+  };
+};
+
+/**
+ * Presign a URL so it can be used without credentials until it expires.
+ * Headers passed in are signed and must be sent as-is by whoever uses the URL.
+ */
+export const presignUrl = (
+  credentials: SigV4Credentials,
+  request: SigV4Request,
+  expiresInSeconds: number
+): URL => {
+  const { amzDate, dateStamp } = formatDate(request.date ?? new Date());
+  const url = new URL(request.url.toString());
+  const headers: Record<string, string> = { ...request.headers, host: url.host };
+  const scope = `${dateStamp}/${credentials.region}/${credentials.service}/aws4_request`;
+
+  url.searchParams.set('X-Amz-Algorithm', ALGORITHM);
+  url.searchParams.set('X-Amz-Credential', `${credentials.accessKeyId}/${scope}`);
+  url.searchParams.set('X-Amz-Date', amzDate);
+  url.searchParams.set('X-Amz-Expires', expiresInSeconds.toString());
+  url.searchParams.set(
+    'X-Amz-SignedHeaders',
+    Object.keys(headers)
+      .map((name) => name.toLowerCase())
+      .sort()
+      .join(';')
+  );
+
+  const signed = sign(
+    credentials,
+    { ...request, url, payloadHash: UNSIGNED_PAYLOAD },
+    headers,
+    amzDate,
+    dateStamp
+  );
+  url.searchParams.set('X-Amz-Signature', signed.signature);
+
+  return url;
+};
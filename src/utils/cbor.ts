@@ -0,0 +1,143 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder
+ * Covers the subset used by WebAuthn attestation objects and COSE keys:
+ * integers, byte/text strings, arrays, maps and simple values.
+ */
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+interface DecodeResult {
+  value: CborValue;
+  offset: number;
+}
+
+/**
+ * Read the argument that follows an initial byte
+ */
+const readArgument = (
+  buffer: Buffer,
+  offset: number,
+  info: number
+): { value: number; offset: number } => {
+  if (info < 24) {
+    return { value: info, offset };
+  }
+
+  switch (info) {
+    case 24:
+      return { value: buffer.readUInt8(offset), offset: offset + 1 };
+    case 25:
+      return { value: buffer.readUInt16BE(offset), offset: offset + 2 };
+    case 26:
+      return { value: buffer.readUInt32BE(offset), offset: offset + 4 };
+    case 27: {
+      const value = buffer.readBigUInt64BE(offset);
+      if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new Error('CBOR integer too large');
+      }
+      return { value: Number(value), offset: offset + 8 };
+    }
+    default:
+      throw new Error(`Unsupported CBOR additional info: ${info}`);
+  }
+};
+
+/**
+ * Decode one item starting at offset
+ */
+const decodeItem = (buffer: Buffer, start: number, depth: number): DecodeResult => {
+  if (depth > 16) {
+    throw new Error('CBOR nesting too deep');
+  }
+  if (start >= buffer.length) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+
+  const initial = buffer[start];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === 7) {
+    switch (info) {
+      case 20:
+        return { value: false, offset: start + 1 };
+      case 21:
+        return { value: true, offset: start + 1 };
+      case 22:
+        return { value: null, offset: start + 1 };
+      case 23:
+        return { value: undefined, offset: start + 1 };
+      case 26:
+        return { value: buffer.readFloatBE(start + 1), offset: start + 5 };
+      case 27:
+        return { value: buffer.readDoubleBE(start + 1), offset: start + 9 };
+      default:
+        throw new Error(`Unsupported CBOR simple value: ${info}`);
+    }
+  }
+
+  const { value: argument, offset } = readArgument(buffer, start + 1, info);
+
+  switch (major) {
+    case 0:
+      return { value: argument, offset };
+    case 1:
+      return { value: -1 - argument, offset };
+    case 2:
+    case 3: {
+      const end = offset + argument;
+      if (end > buffer.length) {
+        throw new Error('Unexpected end of CBOR data');
+      }
+      const bytes = buffer.subarray(offset, end);
+      return { value: major === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), offset: end };
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      let cursor = offset;
+      for (let i = 0; i < argument; i++) {
+        const item = decodeItem(buffer, cursor, depth + 1);
+        items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      let cursor = offset;
+      for (let i = 0; i < argument; i++) {
+        const key = decodeItem(buffer, cursor, depth + 1);
+        const entry = decodeItem(buffer, key.offset, depth + 1);
+        map.set(key.value, entry.value);
+        cursor = entry.offset;
+      }
+      return { value: map, offset: cursor };
+    }
+    default:
+      throw new Error(`Unsupported CBOR major type: ${major}`);
+  }
+};
+
+/**
+ * Decode the first CBOR item in a buffer, returning it with the number of bytes read
+ */
+export const decodeCborPrefix = (buffer: Buffer): DecodeResult => decodeItem(buffer, 0, 0);
+
+/**
+ * Decode a buffer holding exactly one CBOR item
+ */
+export const decodeCbor = (buffer: Buffer): CborValue => {
+  const { value, offset } = decodeItem(buffer, 0, 0);
+  if (offset !== buffer.length) {
+    throw new Error('Trailing bytes after CBOR item');
+  }
+  return value;
+};
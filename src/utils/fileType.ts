@@ -0,0 +1,211 @@
+import fs from 'fs';
+import type { Readable } from 'stream';
+
+/**
+ * Content-based file type detection from magic bytes, so uploads are checked against
+ * what they contain rather than the MIME type the client claims.
+ */
+
+// Enough to find the entry names that tell Office documents apart from other ZIPs
+export const FILE_SAMPLE_BYTES = 64 * 1024;
+
+// Client-reported names for the same type
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-png': 'image/png',
+  'video/x-msvideo': 'video/avi',
+  'video/msvideo': 'video/avi',
+};
+
+const startsWith = (sample: Buffer, signature: number[] | string, offset = 0): boolean => {
+  const bytes = typeof signature === 'string' ? Buffer.from(signature, 'latin1') : signature;
+  if (sample.length < offset + bytes.length) {
+    return false;
+  }
+  return bytes.every((byte, index) => sample[offset + index] === byte);
+};
+
+// Length of a UTF-8 BOM and whitespace at the start of a file
+const leadingPaddingLength = (sample: Buffer): number => {
+  let offset = startsWith(sample, [0xef, 0xbb, 0xbf]) ? 3 : 0;
+  while ([0x09, 0x0a, 0x0d, 0x20].includes(sample[offset])) {
+    offset += 1;
+  }
+  return offset;
+};
+
+// ISO base media files (MP4, MOV, AVIF, ...) are told apart by their ftyp brands
+const detectIsoMedia = (sample: Buffer): string | undefined => {
+  if (!startsWith(sample, 'ftyp', 4)) {
+    return undefined;
+  }
+
+  const boxSize = Math.min(sample.readUInt32BE(0), sample.length);
+  const brands: string[] = [];
+  for (let offset = 8; offset + 4 <= boxSize; offset += 4) {
+    // Skip the minor version between the major and compatible brands
+    if (offset !== 12) {
+      brands.push(sample.toString('latin1', offset, offset + 4));
+    }
+  }
+
+  if (brands.some((brand) => brand === 'avif' || brand === 'avis')) {
+    return 'image/avif';
+  }
+  if (brands.some((brand) => ['heic', 'heix', 'mif1'].includes(brand))) {
+    return 'image/heic';
+  }
+  if (brands[0] === 'qt  ') {
+    return 'video/quicktime';
+  }
+  if (brands[0]?.startsWith('3g')) {
+    return 'video/3gpp';
+  }
+  if (brands[0] === 'M4A ') {
+    return 'audio/mp4';
+  }
+  return 'video/mp4';
+};
+
+// Markup is what a disguised file most often is: HTML or SVG that runs script when opened
+const detectMarkup = (sample: Buffer): string | undefined => {
+  const text = sample
+    .toString('utf8', 0, Math.min(sample.length, 1024))
+    .replace(/^\uFEFF/, '')
+    .trimStart()
+    .toLowerCase();
+
+  if (!text.startsWith('<')) {
+    return undefined;
+  }
+  if (text.includes('<svg')) {
+    return 'image/svg+xml';
+  }
+  if (/<(!doctype html|html|head|body|script|iframe)\b/.test(text)) {
+    return 'text/html';
+  }
+  if (text.startsWith('<?xml')) {
+    return 'application/xml';
+  }
+  return undefined;
+};
+
+/**
+ * Detect a file's MIME type from the start of its content.
+ * Returns undefined when the content matches no known signature.
+ */
+export const detectFileType = (sample: Buffer): string | undefined => {
+  if (startsWith(sample, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith(sample, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith(sample, 'GIF87a') || startsWith(sample, 'GIF89a')) {
+    return 'image/gif';
+  }
+
+  if (startsWith(sample, 'RIFF')) {
+    if (startsWith(sample, 'WEBP', 8)) {
+      return 'image/webp';
+    }
+    if (startsWith(sample, 'AVI ', 8)) {
+      return 'video/avi';
+    }
+    if (startsWith(sample, 'WAVE', 8)) {
+      return 'audio/wav';
+    }
+  }
+
+  const isoMedia = detectIsoMedia(sample);
+  if (isoMedia) {
+    return isoMedia;
+  }
+
+  // Matroska container; WebM declares its doctype in the EBML header
+  if (startsWith(sample, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return sample.subarray(0, 64).includes('webm') ? 'video/webm' : 'video/x-matroska';
+  }
+
+  // Only a BOM or whitespace may come before the header, so markup cannot pass as a PDF
+  if (startsWith(sample, '%PDF-', leadingPaddingLength(sample))) {
+    return 'application/pdf';
+  }
+
+  // Legacy Office files share the OLE compound format; Word's is the one we accept
+  if (startsWith(sample, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return 'application/msword';
+  }
+
+  if (startsWith(sample, [0x50, 0x4b, 0x03, 0x04])) {
+    if (sample.includes('word/')) {
+      return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    }
+    if (sample.includes('xl/')) {
+      return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    }
+    if (sample.includes('ppt/')) {
+      return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    }
+    return 'application/zip';
+  }
+
+  if (startsWith(sample, 'MZ')) {
+    return 'application/x-msdownload';
+  }
+  if (startsWith(sample, [0x7f, 0x45, 0x4c, 0x46])) {
+    return 'application/x-executable';
+  }
+
+  return detectMarkup(sample);
+};
+
+/**
+ * Canonical form of a client-supplied MIME type
+ */
+export const normalizeMimeType = (mimeType: string): string => {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[type] ?? type;
+};
+
+/**
+ * Read the start of a file on disk for detection
+ */
+export const readFileSample = async (
+  filePath: string,
+  bytes = FILE_SAMPLE_BYTES
+): Promise<Buffer> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Read the start of a stream for detection, then stop reading it
+ */
+export const readStreamSample = async (
+  stream: Readable,
+  bytes = FILE_SAMPLE_BYTES
+): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  try {
+    for await (const chunk of stream) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string);
+      chunks.push(buffer);
+      length += buffer.length;
+      if (length >= bytes) {
+        break;
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+  return Buffer.concat(chunks).subarray(0, bytes);
+};
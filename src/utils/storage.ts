@@ -0,0 +1,104 @@
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { StorageResourceType, UploadOptions } from '../types/storage.types';
+
+/**
+ * Helpers shared by the storage drivers that keep files as plain objects (local disk, S3).
+ * Public IDs double as object keys: <folder>/<id><extension>.
+ */
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'bmp', 'tiff'];
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'mov', 'avi', 'mkv', 'flv', 'wmv'];
+
+// Content types for files stored without one
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  avi: 'video/avi',
+  mp3: 'audio/mpeg',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+/**
+ * Lowercase extension of a file name or path, without the dot
+ */
+export const getExtension = (fileName?: string): string => {
+  return fileName ? path.extname(fileName).slice(1).toLowerCase() : '';
+};
+
+/**
+ * Resource type from the explicit option, else the content type, else the extension.
+ * Audio is classed as video, as Cloudinary does.
+ */
+export const resolveResourceType = (
+  options: UploadOptions,
+  filePath?: string
+): StorageResourceType => {
+  if (options.resourceType && options.resourceType !== 'auto') {
+    return options.resourceType;
+  }
+
+  const contentType = options.contentType ?? '';
+  if (contentType.startsWith('image/')) {
+    return 'image';
+  }
+  if (contentType.startsWith('video/') || contentType.startsWith('audio/')) {
+    return 'video';
+  }
+
+  const ext = getExtension(options.filename ?? filePath);
+  if (IMAGE_EXTENSIONS.includes(ext)) {
+    return 'image';
+  }
+  if (VIDEO_EXTENSIONS.includes(ext)) {
+    return 'video';
+  }
+  return 'raw';
+};
+
+/**
+ * Content type for a stored object, falling back to its extension
+ */
+export const resolveContentType = (options: UploadOptions, key: string): string => {
+  return options.contentType ?? CONTENT_TYPES[getExtension(key)] ?? 'application/octet-stream';
+};
+
+/**
+ * Object key to store a file under, also used as its public ID.
+ * The extension follows the content type where known, since files may be converted
+ * (e.g. compressed to JPEG) before they are stored.
+ */
+export const buildObjectKey = (
+  options: UploadOptions,
+  defaultFolder: string,
+  filePath?: string
+): string => {
+  const typeExt = Object.keys(CONTENT_TYPES).find(
+    (ext) => CONTENT_TYPES[ext] === options.contentType
+  );
+  const ext = typeExt ?? getExtension(options.filename ?? filePath);
+  const folder = (options.folder || defaultFolder).replace(/^\/+|\/+$/g, '');
+  const id = options.publicId || uuidv4();
+  return `${folder}/${id}${ext ? `.${ext}` : ''}`;
+};
+
+/**
+ * Reject keys that could escape the storage root
+ */
+export const isSafeObjectKey = (key: string): boolean => {
+  return (
+    key.length > 0 &&
+    !key.startsWith('/') &&
+    !key.includes('\\') &&
+    key.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..')
+  );
+};
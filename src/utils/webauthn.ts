@@ -0,0 +1,330 @@
+import crypto from 'crypto';
+import { decodeCbor, decodeCborPrefix, type CborValue } from './cbor';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '../types/webauthn.types';
+
+/**
+ * WebAuthn ceremony verification (W3C Web Authentication Level 2, sections 7.1 and 7.2)
+ * Pure functions: challenge storage and credential persistence live in the passkey service.
+ */
+
+// COSE algorithm identifiers we accept
+export const COSE_ALG = {
+  ES256: -7,
+  EDDSA: -8,
+  RS256: -257,
+} as const;
+
+export const SUPPORTED_ALGORITHMS: number[] = [COSE_ALG.ES256, COSE_ALG.EDDSA, COSE_ALG.RS256];
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+/**
+ * Error raised when a ceremony response fails verification
+ */
+export class WebAuthnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+}
+
+/**
+ * Parsed authenticator data
+ */
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: {
+    userPresent: boolean;
+    userVerified: boolean;
+    backupEligible: boolean;
+    backedUp: boolean;
+  };
+  signCount: number;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Buffer;
+    publicKey: Buffer;
+  };
+}
+
+/**
+ * Expected values shared by both ceremonies
+ */
+export interface CeremonyExpectations {
+  challenge: string;
+  origins: string[];
+  rpId: string;
+  requireUserVerification?: boolean;
+}
+
+/**
+ * Result of a verified registration
+ */
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: Buffer;
+  algorithm: number;
+  signCount: number;
+  aaguid: string;
+  backupEligible: boolean;
+  backedUp: boolean;
+}
+
+/**
+ * Result of a verified authentication
+ */
+export interface VerifiedAuthentication {
+  signCount: number;
+  backedUp: boolean;
+}
+
+const fromBase64Url = (value: string): Buffer => Buffer.from(value, 'base64url');
+
+/**
+ * Parse the binary authenticator data structure
+ */
+export const parseAuthenticatorData = (data: Buffer): AuthenticatorData => {
+  if (data.length < 37) {
+    throw new WebAuthnError('Authenticator data is too short');
+  }
+
+  const flags = data[32];
+  const result: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: {
+      userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+      userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+      backupEligible: (flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+      backedUp: (flags & FLAG_BACKED_UP) !== 0,
+    },
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (data.length < 55) {
+      throw new WebAuthnError('Attested credential data is truncated');
+    }
+    const aaguid = data.subarray(37, 53).toString('hex');
+    const idLength = data.readUInt16BE(53);
+    const keyStart = 55 + idLength;
+    if (keyStart >= data.length) {
+      throw new WebAuthnError('Attested credential data is truncated');
+    }
+    const credentialId = data.subarray(55, keyStart);
+
+    let offset: number;
+    try {
+      ({ offset } = decodeCborPrefix(data.subarray(keyStart)));
+    } catch {
+      throw new WebAuthnError('Invalid credential public key');
+    }
+
+    result.attestedCredential = {
+      aaguid: `${aaguid.slice(0, 8)}-${aaguid.slice(8, 12)}-${aaguid.slice(12, 16)}-${aaguid.slice(16, 20)}-${aaguid.slice(20)}`,
+      credentialId: Buffer.from(credentialId),
+      publicKey: Buffer.from(data.subarray(keyStart, keyStart + offset)),
+    };
+  }
+
+  return result;
+};
+
+/**
+ * Convert a COSE public key into a Node.js KeyObject
+ */
+export const coseToPublicKey = (cose: Buffer): { key: crypto.KeyObject; algorithm: number } => {
+  let map: CborValue;
+  try {
+    map = decodeCbor(cose);
+  } catch {
+    throw new WebAuthnError('Invalid COSE key');
+  }
+  if (!(map instanceof Map)) {
+    throw new WebAuthnError('Invalid COSE key');
+  }
+
+  const get = (label: number): CborValue => map.get(label);
+  const bytes = (label: number): string => {
+    const value = get(label);
+    if (!Buffer.isBuffer(value)) {
+      throw new WebAuthnError('Invalid COSE key parameter');
+    }
+    return value.toString('base64url');
+  };
+
+  const kty = get(1);
+  const algorithm = get(3);
+
+  let jwk: crypto.JsonWebKey;
+  if (kty === 2 && algorithm === COSE_ALG.ES256 && get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: bytes(-2), y: bytes(-3) };
+  } else if (kty === 1 && algorithm === COSE_ALG.EDDSA && get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: bytes(-2) };
+  } else if (kty === 3 && algorithm === COSE_ALG.RS256) {
+    jwk = { kty: 'RSA', n: bytes(-1), e: bytes(-2) };
+  } else {
+    throw new WebAuthnError('Unsupported public key algorithm');
+  }
+
+  try {
+    return { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  } catch {
+    throw new WebAuthnError('Invalid public key');
+  }
+};
+
+/**
+ * Check the client data JSON against the expected ceremony
+ */
+const verifyClientData = (
+  clientDataJSON: Buffer,
+  type: 'webauthn.create' | 'webauthn.get',
+  expected: CeremonyExpectations
+): void => {
+  let clientData: { type?: string; challenge?: string; origin?: string; crossOrigin?: boolean };
+  try {
+    clientData = JSON.parse(clientDataJSON.toString('utf8'));
+  } catch {
+    throw new WebAuthnError('Invalid client data');
+  }
+
+  if (clientData.type !== type) {
+    throw new WebAuthnError('Unexpected ceremony type');
+  }
+  if (clientData.challenge !== expected.challenge) {
+    throw new WebAuthnError('Challenge mismatch');
+  }
+  if (!clientData.origin || !expected.origins.includes(clientData.origin)) {
+    throw new WebAuthnError('Origin not allowed');
+  }
+  if (clientData.crossOrigin) {
+    throw new WebAuthnError('Cross-origin ceremonies are not allowed');
+  }
+};
+
+/**
+ * Check the RP ID hash and user presence/verification flags
+ */
+const verifyAuthenticatorFlags = (
+  authData: AuthenticatorData,
+  expected: CeremonyExpectations
+): void => {
+  const rpIdHash = crypto.createHash('sha256').update(expected.rpId).digest();
+  if (!rpIdHash.equals(authData.rpIdHash)) {
+    throw new WebAuthnError('RP ID mismatch');
+  }
+  if (!authData.flags.userPresent) {
+    throw new WebAuthnError('User presence required');
+  }
+  if (expected.requireUserVerification !== false && !authData.flags.userVerified) {
+    throw new WebAuthnError('User verification required');
+  }
+};
+
+/**
+ * Verify a registration (navigator.credentials.create) response.
+ * Attestation statements are not checked: options request attestation 'none'.
+ */
+export const verifyRegistrationResponse = (
+  credential: RegistrationResponseJSON,
+  expected: CeremonyExpectations
+): VerifiedRegistration => {
+  if (credential.type !== 'public-key') {
+    throw new WebAuthnError('Unexpected credential type');
+  }
+
+  verifyClientData(fromBase64Url(credential.response.clientDataJSON), 'webauthn.create', expected);
+
+  let attestation: CborValue;
+  try {
+    attestation = decodeCbor(fromBase64Url(credential.response.attestationObject));
+  } catch {
+    throw new WebAuthnError('Invalid attestation object');
+  }
+
+  const authDataBytes = attestation instanceof Map ? attestation.get('authData') : undefined;
+  if (!Buffer.isBuffer(authDataBytes)) {
+    throw new WebAuthnError('Invalid attestation object');
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  verifyAuthenticatorFlags(authData, expected);
+
+  const attested = authData.attestedCredential;
+  if (!attested) {
+    throw new WebAuthnError('No credential in attestation');
+  }
+
+  const credentialId = attested.credentialId.toString('base64url');
+  if (credentialId !== credential.rawId || credentialId !== credential.id) {
+    throw new WebAuthnError('Credential ID mismatch');
+  }
+
+  const { algorithm } = coseToPublicKey(attested.publicKey);
+
+  return {
+    credentialId,
+    publicKey: attested.publicKey,
+    algorithm,
+    signCount: authData.signCount,
+    aaguid: attested.aaguid,
+    backupEligible: authData.flags.backupEligible,
+    backedUp: authData.flags.backedUp,
+  };
+};
+
+/**
+ * Verify an authentication (navigator.credentials.get) response against a stored credential
+ */
+export const verifyAuthenticationResponse = (
+  credential: AuthenticationResponseJSON,
+  expected: CeremonyExpectations,
+  stored: { publicKey: Buffer; signCount: number }
+): VerifiedAuthentication => {
+  if (credential.type !== 'public-key') {
+    throw new WebAuthnError('Unexpected credential type');
+  }
+
+  const clientDataJSON = fromBase64Url(credential.response.clientDataJSON);
+  verifyClientData(clientDataJSON, 'webauthn.get', expected);
+
+  const authDataBytes = fromBase64Url(credential.response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes);
+  verifyAuthenticatorFlags(authData, expected);
+
+  const { key, algorithm } = coseToPublicKey(stored.publicKey);
+  const signedData = Buffer.concat([
+    authDataBytes,
+    crypto.createHash('sha256').update(clientDataJSON).digest(),
+  ]);
+  const signature = fromBase64Url(credential.response.signature);
+
+  let isValid: boolean;
+  try {
+    isValid =
+      algorithm === COSE_ALG.EDDSA
+        ? crypto.verify(null, signedData, key, signature)
+        : crypto.verify('sha256', signedData, key, signature);
+  } catch {
+    throw new WebAuthnError('Invalid signature');
+  }
+
+  if (!isValid) {
+    throw new WebAuthnError('Invalid signature');
+  }
+
+  // A counter that does not advance suggests a cloned authenticator (0 means unsupported)
+  if (
+    (authData.signCount !== 0 || stored.signCount !== 0) &&
+    authData.signCount <= stored.signCount
+  ) {
+    throw new WebAuthnError('Signature counter did not increase');
+  }
+
+  return { signCount: authData.signCount, backedUp: authData.flags.backedUp };
+};
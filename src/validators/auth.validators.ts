@@ -1,4 +1,5 @@
-import { body } from 'express-validator';
+import { body, param, query } from 'express-validator';
+import { TwoFactorMethod } from '../types/twoFactor.types';
 
 /**
  * Registration validation rules
@@ -54,6 +55,218 @@ export const loginValidator = [
   body('password').notEmpty().withMessage('Password is required'),
 ];
 
+/**
+ * Two-factor login verification rules
+ */
+export const verifyTwoFactorValidator = [
+  body('challengeToken').notEmpty().withMessage('Challenge token is required'),
+
+  body('method')
+    .isIn(Object.values(TwoFactorMethod))
+    .withMessage(`Method must be one of: ${Object.values(TwoFactorMethod).join(', ')}`),
+
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Verification code is required')
+    .isLength({ max: 20 })
+    .withMessage('Verification code is too long'),
+];
+
+/**
+ * Two-factor challenge email rules
+ */
+export const twoFactorChallengeValidator = [
+  body('challengeToken').notEmpty().withMessage('Challenge token is required'),
+];
+
+/**
+ * Enable two-factor validation rules
+ */
+export const enableTwoFactorValidator = [
+  body('code')
+    .trim()
+    .isLength({ min: 6, max: 6 })
+    .withMessage('Code must be 6 digits')
+    .isNumeric()
+    .withMessage('Code must contain only numbers'),
+];
+
+/**
+ * Re-authentication rules for sensitive two-factor changes
+ */
+export const twoFactorReauthValidator = [
+  body('password').notEmpty().withMessage('Password is required'),
+
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Authenticator or recovery code is required')
+    .isLength({ max: 20 })
+    .withMessage('Verification code is too long'),
+];
+
+/**
+ * Passkey registration verification rules
+ */
+export const passkeyRegistrationValidator = [
+  body('credential').isObject().withMessage('Credential is required'),
+  body('credential.id').isString().notEmpty().withMessage('Credential ID is required'),
+  body('credential.rawId').isString().notEmpty().withMessage('Credential raw ID is required'),
+  body('credential.type').equals('public-key').withMessage('Credential type must be public-key'),
+  body('credential.response.clientDataJSON')
+    .isString()
+    .notEmpty()
+    .withMessage('clientDataJSON is required'),
+  body('credential.response.attestationObject')
+    .isString()
+    .notEmpty()
+    .withMessage('attestationObject is required'),
+  body('credential.response.transports')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Transports must be an array'),
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Passkey name must be between 1 and 100 characters'),
+];
+
+/**
+ * Passkey login options rules
+ */
+export const passkeyLoginOptionsValidator = [
+  body('email')
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+];
+
+/**
+ * Passkey login verification rules
+ */
+export const passkeyLoginValidator = [
+  body('credential').isObject().withMessage('Credential is required'),
+  body('credential.id').isString().notEmpty().withMessage('Credential ID is required'),
+  body('credential.type').equals('public-key').withMessage('Credential type must be public-key'),
+  body('credential.response.clientDataJSON')
+    .isString()
+    .notEmpty()
+    .withMessage('clientDataJSON is required'),
+  body('credential.response.authenticatorData')
+    .isString()
+    .notEmpty()
+    .withMessage('authenticatorData is required'),
+  body('credential.response.signature').isString().notEmpty().withMessage('signature is required'),
+];
+
+/**
+ * Rename passkey rules
+ */
+export const renamePasskeyValidator = [
+  param('passkeyId').isMongoId().withMessage('Invalid passkey ID'),
+
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Passkey name must be between 1 and 100 characters'),
+];
+
+/**
+ * Passkey ID parameter rules
+ */
+export const passkeyIdValidator = [
+  param('passkeyId').isMongoId().withMessage('Invalid passkey ID'),
+];
+
+/**
+ * OAuth provider parameter rules
+ */
+export const oauthProviderValidator = [
+  param('provider')
+    .isString()
+    .matches(/^[a-z0-9_-]{1,32}$/)
+    .withMessage('Invalid provider'),
+];
+
+/**
+ * OAuth callback rules
+ */
+export const oauthCallbackValidator = [
+  ...oauthProviderValidator,
+
+  body('code').isString().notEmpty().withMessage('Authorization code is required'),
+
+  body('state').isString().notEmpty().withMessage('State is required'),
+];
+
+/**
+ * OAuth identity ID parameter rules
+ */
+export const oauthIdentityIdValidator = [
+  param('identityId').isMongoId().withMessage('Invalid identity ID'),
+];
+
+/**
+ * Account unlock request rules
+ */
+export const requestUnlockValidator = [
+  body('email')
+    .trim()
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+];
+
+/**
+ * Account unlock verification rules
+ */
+export const unlockAccountValidator = [
+  ...requestUnlockValidator,
+
+  body('otp')
+    .trim()
+    .notEmpty()
+    .withMessage('OTP is required')
+    .isLength({ min: 4, max: 6 })
+    .withMessage('OTP must be 4-6 digits')
+    .isNumeric()
+    .withMessage('OTP must contain only numbers'),
+];
+
+/**
+ * Clear account lockout rules
+ */
+export const clearAccountLockoutValidator = [
+  param('email').trim().isEmail().withMessage('Invalid email address'),
+];
+
+/**
+ * Clear IP block rules
+ */
+export const clearIpBlockValidator = [param('ip').isIP().withMessage('Invalid IP address')];
+
+/**
+ * Login history query rules
+ */
+export const loginHistoryValidator = [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+];
+
+/**
+ * Report login ("this wasn't me") rules
+ */
+export const reportLoginValidator = [
+  body('token').isString().notEmpty().withMessage('Report token is required'),
+];
+
 /**
  * Refresh token validation rules
  */
@@ -1,4 +1,5 @@
 import { body, param, query } from 'express-validator';
+import { ReportReason } from '../models';
 
 /**
  * Validate create direct conversation
@@ -70,21 +71,135 @@ export const sendMessageValidator = [
     .withMessage('Message content cannot exceed 10000 characters'),
   body('type')
     .optional()
-    .isIn(['text', 'image', 'video', 'file', 'audio', 'location'])
+    .isIn(['text', 'image', 'video', 'file', 'audio', 'location', 'poll'])
     .withMessage('Invalid message type'),
   body('attachments').optional().isArray().withMessage('Attachments must be an array'),
-  body('attachments.*.type')
-    .optional()
-    .isIn(['image', 'video', 'file', 'audio'])
-    .withMessage('Invalid attachment type'),
-  body('attachments.*.url').optional().isURL().withMessage('Attachment URL must be valid'),
   body('attachments.*.publicId')
-    .optional()
     .isString()
-    .withMessage('Attachment publicId must be a string'),
+    .notEmpty()
+    .withMessage('Attachment publicId is required'),
   body('replyTo').optional().isMongoId().withMessage('Invalid reply message ID format'),
   body('mentions').optional().isArray().withMessage('Mentions must be an array'),
   body('mentions.*').optional().isMongoId().withMessage('Invalid mention user ID format'),
+  body('threadRootId').optional().isMongoId().withMessage('Invalid thread root message ID format'),
+  body('scheduledAt').optional().isISO8601().withMessage('scheduledAt must be a valid ISO date'),
+  body('poll')
+    .if(body('type').equals('poll'))
+    .isObject()
+    .withMessage('Poll definition is required for poll messages'),
+  body('poll.question')
+    .if(body('type').equals('poll'))
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 300 })
+    .withMessage('Poll question must be between 1 and 300 characters'),
+  body('poll.options')
+    .if(body('type').equals('poll'))
+    .isArray({ min: 2, max: 10 })
+    .withMessage('A poll must have between 2 and 10 options'),
+  body('poll.options.*')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Poll options must be between 1 and 200 characters'),
+  body('poll.allowMultiple').optional().isBoolean().withMessage('allowMultiple must be a boolean'),
+  body('poll.isAnonymous').optional().isBoolean().withMessage('isAnonymous must be a boolean'),
+  body('poll.closesAt').optional().isISO8601().withMessage('closesAt must be a valid ISO date'),
+];
+
+/**
+ * Validate scheduled message ID parameter
+ */
+export const scheduledMessageIdValidator = [
+  param('id')
+    .notEmpty()
+    .withMessage('Scheduled message ID is required')
+    .isMongoId()
+    .withMessage('Invalid scheduled message ID format'),
+];
+
+/**
+ * Validate list scheduled messages query
+ */
+export const getScheduledMessagesValidator = [
+  query('conversationId').optional().isMongoId().withMessage('Invalid conversation ID format'),
+];
+
+/**
+ * Validate update scheduled message
+ */
+export const updateScheduledMessageValidator = [
+  ...scheduledMessageIdValidator,
+  body('content')
+    .optional()
+    .isLength({ max: 10000 })
+    .withMessage('Message content cannot exceed 10000 characters'),
+  body('attachments').optional().isArray().withMessage('Attachments must be an array'),
+  body('attachments.*.publicId')
+    .isString()
+    .notEmpty()
+    .withMessage('Attachment publicId is required'),
+  body('mentions').optional().isArray().withMessage('Mentions must be an array'),
+  body('mentions.*').optional().isMongoId().withMessage('Invalid mention user ID format'),
+  body('scheduledAt').optional().isISO8601().withMessage('scheduledAt must be a valid ISO date'),
+];
+
+/**
+ * Validate forward message
+ */
+export const forwardMessageValidator = [
+  param('id')
+    .notEmpty()
+    .withMessage('Message ID is required')
+    .isMongoId()
+    .withMessage('Invalid message ID format'),
+  body('conversationIds')
+    .isArray({ min: 1, max: 5 })
+    .withMessage('Between 1 and 5 target conversations are required'),
+  body('conversationIds.*').isMongoId().withMessage('Invalid conversation ID format'),
+];
+
+/**
+ * Validate poll vote
+ */
+export const pollVoteValidator = [
+  param('id')
+    .notEmpty()
+    .withMessage('Message ID is required')
+    .isMongoId()
+    .withMessage('Invalid message ID format'),
+  body('optionIds').isArray({ min: 1 }).withMessage('At least one option ID is required'),
+  body('optionIds.*').isMongoId().withMessage('Invalid option ID format'),
+];
+
+/**
+ * Validate poll unvote
+ */
+export const pollUnvoteValidator = [
+  param('id')
+    .notEmpty()
+    .withMessage('Message ID is required')
+    .isMongoId()
+    .withMessage('Invalid message ID format'),
+  body('optionIds').optional().isArray().withMessage('optionIds must be an array'),
+  body('optionIds.*').isMongoId().withMessage('Invalid option ID format'),
+];
+
+/**
+ * Validate get thread query
+ */
+export const getThreadValidator = [
+  param('id')
+    .notEmpty()
+    .withMessage('Message ID is required')
+    .isMongoId()
+    .withMessage('Invalid message ID format'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  query('cursor').optional().isMongoId().withMessage('Invalid cursor format'),
 ];
 
 /**
@@ -115,6 +230,26 @@ export const deleteMessageValidator = [
   body('forEveryone').optional().isBoolean().withMessage('forEveryone must be a boolean'),
 ];
 
+/**
+ * Validate report message
+ */
+export const reportMessageValidator = [
+  param('id')
+    .notEmpty()
+    .withMessage('Message ID is required')
+    .isMongoId()
+    .withMessage('Invalid message ID format'),
+  body('reason')
+    .isIn(Object.values(ReportReason))
+    .withMessage(`Reason must be one of: ${Object.values(ReportReason).join(', ')}`),
+  body('details')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Details cannot exceed 1000 characters'),
+];
+
 /**
  * Validate get messages query
  */
@@ -181,6 +316,14 @@ export const updateConversationValidator = [
     .withMessage('Description cannot exceed 500 characters')
     .trim(),
   body('avatar').optional().isURL().withMessage('Avatar must be a valid URL'),
+  body('messageRetention')
+    .optional()
+    .isIn(['off', '24h', '7d', '90d'])
+    .withMessage('Message retention must be one of off, 24h, 7d or 90d'),
+  body('linkPreviewsEnabled')
+    .optional()
+    .isBoolean()
+    .withMessage('linkPreviewsEnabled must be a boolean'),
 ];
 
 /**
@@ -238,6 +381,31 @@ export const markAsReadValidator = [
   body('messageId').optional().isMongoId().withMessage('Invalid message ID format'),
 ];
 
+/**
+ * Validate message search query
+ */
+export const searchMessagesValidator = [
+  query('q')
+    .trim()
+    .notEmpty()
+    .withMessage('Search query is required')
+    .isLength({ min: 2, max: 200 })
+    .withMessage('Search query must be between 2 and 200 characters'),
+  query('conversationId').optional().isMongoId().withMessage('Invalid conversation ID format'),
+  query('senderId').optional().isMongoId().withMessage('Invalid sender ID format'),
+  query('type')
+    .optional()
+    .isIn(['text', 'image', 'video', 'file', 'audio', 'location', 'poll', 'system'])
+    .withMessage('Invalid message type'),
+  query('from').optional().isISO8601().withMessage('From must be a valid ISO date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid ISO date'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+  query('cursor').optional().isMongoId().withMessage('Invalid cursor format'),
+];
+
 /**
  * Validate get conversations query
  */
@@ -0,0 +1,88 @@
+import { body, param, query } from 'express-validator';
+import { ModerationAction, ReportReason, ReportStatus } from '../models';
+
+const paginationValidator = [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+];
+
+const noteValidator = body('note')
+  .optional()
+  .isString()
+  .trim()
+  .isLength({ max: 1000 })
+  .withMessage('Note cannot exceed 1000 characters');
+
+const reportIdBodyValidator = body('reportId')
+  .optional()
+  .isMongoId()
+  .withMessage('Invalid report ID format');
+
+export const listReportsValidation = [
+  ...paginationValidator,
+  query('status')
+    .optional()
+    .isIn(Object.values(ReportStatus))
+    .withMessage(`Status must be one of: ${Object.values(ReportStatus).join(', ')}`),
+  query('reason')
+    .optional()
+    .isIn(Object.values(ReportReason))
+    .withMessage(`Reason must be one of: ${Object.values(ReportReason).join(', ')}`),
+  query('reportedUserId').optional().isMongoId().withMessage('Invalid user ID format'),
+];
+
+export const reportIdValidation = [param('id').isMongoId().withMessage('Invalid report ID format')];
+
+export const closeReportValidation = [
+  param('id').isMongoId().withMessage('Invalid report ID format'),
+  body('status')
+    .isIn([ReportStatus.RESOLVED, ReportStatus.DISMISSED])
+    .withMessage(`Status must be one of: ${ReportStatus.RESOLVED}, ${ReportStatus.DISMISSED}`),
+  noteValidator,
+];
+
+export const messageContextValidation = [
+  param('id').isMongoId().withMessage('Invalid message ID format'),
+  query('size').optional().isInt({ min: 1, max: 50 }).withMessage('Size must be between 1 and 50'),
+  query('reportId').optional().isMongoId().withMessage('Invalid report ID format'),
+];
+
+export const messageHistoryValidation = [
+  param('id').isMongoId().withMessage('Invalid message ID format'),
+  query('reportId').optional().isMongoId().withMessage('Invalid report ID format'),
+];
+
+export const removeMessageValidation = [
+  param('id').isMongoId().withMessage('Invalid message ID format'),
+  reportIdBodyValidator,
+  noteValidator,
+];
+
+export const warnUserValidation = [
+  param('id').isMongoId().withMessage('Invalid user ID format'),
+  reportIdBodyValidator,
+  body('note')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Warning note is required and cannot exceed 1000 characters'),
+];
+
+export const deactivateUserValidation = [
+  param('id').isMongoId().withMessage('Invalid user ID format'),
+  reportIdBodyValidator,
+  noteValidator,
+];
+
+export const listAuditLogValidation = [
+  ...paginationValidator,
+  query('moderatorId').optional().isMongoId().withMessage('Invalid moderator ID format'),
+  query('targetUserId').optional().isMongoId().withMessage('Invalid user ID format'),
+  query('action')
+    .optional()
+    .isIn(Object.values(ModerationAction))
+    .withMessage(`Action must be one of: ${Object.values(ModerationAction).join(', ')}`),
+];
@@ -62,10 +62,56 @@ export const getUploadStatusValidation = [
   param('uploadId').notEmpty().withMessage('Upload ID is required').isString().trim(),
 ];
 
+export const getSignedUploadUrlValidation = [
+  query('contentType').notEmpty().withMessage('Content type is required').isString().trim(),
+  query('size')
+    .notEmpty()
+    .withMessage('File size is required')
+    .isInt({ min: 1 })
+    .withMessage('File size must be a positive number of bytes'),
+  query('resourceType')
+    .optional()
+    .isIn(['image', 'video', 'raw', 'auto'])
+    .withMessage('Resource type must be one of: image, video, raw, auto'),
+  query('folder')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Folder name must be between 1 and 100 characters'),
+  query('filename')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('File name must be between 1 and 255 characters'),
+];
+
+export const completeSignedUploadValidation = [
+  body('publicId')
+    .notEmpty()
+    .withMessage('Public ID is required')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Public ID must be between 1 and 255 characters'),
+];
+
+export const getMyMediaValidation = [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+];
+
 export default {
   uploadImageValidation,
   uploadVideoValidation,
   deleteMediaValidation,
   getMediaInfoValidation,
   getUploadStatusValidation,
+  getSignedUploadUrlValidation,
+  completeSignedUploadValidation,
+  getMyMediaValidation,
 };
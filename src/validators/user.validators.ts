@@ -0,0 +1,91 @@
+import { body, param } from 'express-validator';
+import { ApiKeyScope } from '../models';
+
+export const blockUserValidation = [
+  body('userId').isMongoId().withMessage('Valid user ID is required'),
+  body('reason')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+export const unblockUserValidation = [
+  param('userId').isMongoId().withMessage('Valid user ID is required'),
+];
+
+export const requestEmailChangeValidation = [
+  body('newEmail')
+    .trim()
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+  body('currentPassword').optional().isString().withMessage('Current password must be a string'),
+];
+
+export const changePasswordValidation = [
+  body('currentPassword').optional().isString().withMessage('Current password must be a string'),
+  body('newPassword')
+    .isLength({ min: 8 })
+    .withMessage('Password must be at least 8 characters long')
+    .matches(/[a-z]/)
+    .withMessage('Password must contain at least one lowercase letter')
+    .matches(/[A-Z]/)
+    .withMessage('Password must contain at least one uppercase letter')
+    .matches(/\d/)
+    .withMessage('Password must contain at least one number')
+    .matches(/[!@#$%^&*(),.?":{}|<>]/)
+    .withMessage('Password must contain at least one special character'),
+];
+
+export const confirmEmailChangeValidation = [
+  body('otp')
+    .trim()
+    .notEmpty()
+    .withMessage('OTP is required')
+    .isLength({ min: 4, max: 6 })
+    .withMessage('OTP must be 4-6 digits')
+    .isNumeric()
+    .withMessage('OTP must contain only numbers'),
+];
+
+export const createApiKeyValidation = [
+  param('id').optional().isMongoId().withMessage('Valid user ID is required'),
+  body('name')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+  body('scopes').isArray({ min: 1 }).withMessage('At least one scope is required'),
+  body('scopes.*')
+    .isIn(Object.values(ApiKeyScope))
+    .withMessage(`Scopes must be one of: ${Object.values(ApiKeyScope).join(', ')}`),
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Expiry must be a valid ISO date')
+    .custom((value: string) => new Date(value) > new Date())
+    .withMessage('Expiry must be in the future'),
+];
+
+export const apiKeyIdValidation = [
+  param('id').optional().isMongoId().withMessage('Valid user ID is required'),
+  param('keyId').isMongoId().withMessage('Valid API key ID is required'),
+];
+
+export const userIdValidation = [param('id').isMongoId().withMessage('Valid user ID is required')];
+
+export const storageQuotaValidation = [
+  param('id').isMongoId().withMessage('Valid user ID is required'),
+  body('maxBytes')
+    .optional()
+    .custom((value) => value === null || (Number.isInteger(value) && value >= 0))
+    .withMessage('Max bytes must be a non-negative integer, or null for the role default'),
+  body('maxFiles')
+    .optional()
+    .custom((value) => value === null || (Number.isInteger(value) && value >= 0))
+    .withMessage('Max files must be a non-negative integer, or null for the role default'),
+];
@@ -0,0 +1,143 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import type { NextFunction, Request, Response } from 'express';
+import { ApiKey, ApiKeyScope, User, type IApiKey } from '../src/models';
+import { apiKeyService } from '../src/services/apiKey.service';
+import { authenticateApiKey } from '../src/middlewares';
+import { MESSAGES } from '../src/constants/messages';
+import config from '../src/config';
+
+const user = new User({
+  email: 'ada@example.com',
+  password: 'Correct-horse-1',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+});
+
+const adminId = new mongoose.Types.ObjectId().toString();
+
+/**
+ * Create a key through the service and serve it back from the hash lookup
+ */
+const issueKey = async (scopes: ApiKeyScope[], overrides: Partial<IApiKey> = {}) => {
+  mock.method(User, 'findById', async () => user);
+  mock.method(ApiKey, 'countDocuments', async () => 0);
+  mock.method(ApiKey, 'create', async (data: Partial<IApiKey>) => new ApiKey(data));
+
+  const { apiKey, key } = await apiKeyService.create(user._id.toString(), adminId, {
+    name: 'CI bot',
+    scopes,
+  });
+  Object.assign(apiKey, overrides);
+  mock.method(ApiKey, 'findOne', async (filter: { keyHash: string }) =>
+    filter.keyHash === apiKey.keyHash ? apiKey : null
+  );
+  return { apiKey, key };
+};
+
+/**
+ * Run the API key middleware and return what it passed to next()
+ */
+const runMiddleware = async (key: string, ...scopes: ApiKeyScope[]) => {
+  const req = { headers: { 'x-api-key': key }, ip: '203.0.113.7' } as unknown as Request;
+  let passed: unknown = 'not called';
+  await authenticateApiKey(...scopes)(
+    req,
+    {} as Response,
+    ((error?: unknown) => {
+      passed = error;
+    }) as NextFunction
+  );
+  return { req, passed };
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('API keys', () => {
+  it('returns the key once and stores only its hash', async () => {
+    const { apiKey, key } = await issueKey([ApiKeyScope.CHAT_READ, ApiKeyScope.CHAT_READ]);
+
+    assert.match(key, /^ak_[A-Za-z0-9_-]{43}$/);
+    assert.equal(apiKey.prefix, key.slice(0, 11));
+    assert.equal(apiKey.keyHash, crypto.createHash('sha256').update(key).digest('hex'));
+    assert.deepEqual(apiKey.scopes, [ApiKeyScope.CHAT_READ]);
+  });
+
+  it('caps the number of active keys per user', async () => {
+    mock.method(User, 'findById', async () => user);
+    mock.method(ApiKey, 'countDocuments', async () => config.apiKeys.maxPerUser);
+    const create = mock.method(ApiKey, 'create', async () => ({}));
+
+    await assert.rejects(
+      apiKeyService.create(user._id.toString(), adminId, { name: 'One too many', scopes: [] }),
+      { statusCode: 400, message: MESSAGES.AUTH.API_KEY_LIMIT_REACHED }
+    );
+    assert.equal(create.mock.callCount(), 0);
+  });
+
+  it('signs requests in as the key owner when the scopes allow it', async () => {
+    const { apiKey, key } = await issueKey([ApiKeyScope.CHAT_READ, ApiKeyScope.CHAT_WRITE]);
+    const touch = mock.method(ApiKey, 'updateOne', async () => ({ modifiedCount: 1 }));
+
+    const { req, passed } = await runMiddleware(key, ApiKeyScope.CHAT_WRITE);
+
+    assert.equal(passed, undefined);
+    assert.equal(req.user, user);
+    assert.equal(req.apiKey, apiKey);
+    assert.deepEqual(touch.mock.calls[0].arguments[0], { _id: apiKey._id });
+  });
+
+  it('names the scopes a key is missing', async () => {
+    const { key } = await issueKey([ApiKeyScope.CHAT_READ]);
+    mock.method(ApiKey, 'updateOne', async () => ({ modifiedCount: 1 }));
+
+    const { req, passed } = await runMiddleware(
+      key,
+      ApiKeyScope.CHAT_WRITE,
+      ApiKeyScope.UPLOAD_WRITE
+    );
+
+    assert.equal((passed as { statusCode: number }).statusCode, 403);
+    assert.equal(
+      (passed as Error).message,
+      MESSAGES.AUTH.API_KEY_SCOPE_MISSING.replace('{scopes}', 'chat:write, upload:write')
+    );
+    assert.equal(req.user, undefined);
+  });
+
+  it('stops accepting revoked, expired and unknown keys', async () => {
+    const revoked = await issueKey([ApiKeyScope.CHAT_READ], { revokedAt: new Date() });
+    await assert.rejects(apiKeyService.authenticate(revoked.key), {
+      statusCode: 401,
+      message: MESSAGES.AUTH.API_KEY_INVALID,
+    });
+    mock.restoreAll();
+
+    const expired = await issueKey([ApiKeyScope.CHAT_READ], {
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    await assert.rejects(apiKeyService.authenticate(expired.key), {
+      message: MESSAGES.AUTH.API_KEY_INVALID,
+    });
+
+    await assert.rejects(apiKeyService.authenticate(`${expired.key}x`), {
+      message: MESSAGES.AUTH.API_KEY_INVALID,
+    });
+    await assert.rejects(apiKeyService.authenticate('not-a-key'), {
+      message: MESSAGES.AUTH.API_KEY_INVALID,
+    });
+  });
+
+  it('records usage at most once per interval', async () => {
+    const { key } = await issueKey([ApiKeyScope.CHAT_READ], { lastUsedAt: new Date() });
+    const touch = mock.method(ApiKey, 'updateOne', async () => ({ modifiedCount: 1 }));
+
+    await apiKeyService.authenticate(key, '203.0.113.7');
+
+    assert.equal(touch.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import {
+  Conversation,
+  ConversationParticipant,
+  ConversationType,
+  Message,
+  MessageRetention,
+  type IMessage,
+} from '../src/models';
+import { chatService, type ConversationWithDetails } from '../src/services/chat.service';
+import { redisService } from '../src/services/redis.service';
+import { storageService } from '../src/services/storage.service';
+import { queueService } from '../src/queues/queue.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const conversationId = new mongoose.Types.ObjectId();
+const userId = new mongoose.Types.ObjectId();
+
+const buildConversation = (messageRetention: MessageRetention) =>
+  ({
+    _id: conversationId,
+    type: ConversationType.GROUP,
+    participants: [userId],
+    admins: [userId],
+    messageRetention,
+  }) as unknown as ConversationWithDetails;
+
+/**
+ * Chainable stand-in for a Mongoose query resolving to the given documents
+ */
+const query = <T>(result: T) => {
+  const chain: Record<string, unknown> = {};
+  for (const step of ['select', 'sort', 'limit']) {
+    chain[step] = () => chain;
+  }
+  chain.lean = async () => result;
+  return chain;
+};
+
+const stubSend = (conversation: ConversationWithDetails) => {
+  mock.method(chatService, 'getConversation', async () => conversation);
+  mock.method(Message.prototype, 'populate', async function (this: IMessage) {
+    return this;
+  });
+  mock.method(redisService, 'getClient', () => ({ del: async () => 1 }));
+  mock.method(queueService, 'addJob', async () => ({}));
+  mock.method(Conversation, 'findByIdAndUpdate', async () => null);
+  mock.method(ConversationParticipant, 'updateMany', async () => ({}));
+  return mock.method(Message, 'create', async (data: Partial<IMessage>) => new Message(data));
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('disappearing messages', () => {
+  it('sets an expiry on messages sent while retention is on', async () => {
+    stubSend(buildConversation(MessageRetention.ONE_DAY));
+
+    const message = await chatService.sendMessage(
+      conversationId.toString(),
+      userId.toString(),
+      'Gone tomorrow'
+    );
+
+    const remaining = (message.expiresAt?.getTime() ?? 0) - Date.now();
+    assert.ok(remaining > DAY_MS - 60 * 1000 && remaining <= DAY_MS);
+  });
+
+  it('keeps messages indefinitely while retention is off', async () => {
+    stubSend(buildConversation(MessageRetention.OFF));
+
+    const message = await chatService.sendMessage(
+      conversationId.toString(),
+      userId.toString(),
+      'Here to stay'
+    );
+
+    assert.equal(message.expiresAt, undefined);
+  });
+
+  it('announces a retention change with a system message', async () => {
+    const create = stubSend(buildConversation(MessageRetention.OFF));
+
+    await chatService.updateConversation(conversationId.toString(), userId.toString(), {
+      messageRetention: MessageRetention.SEVEN_DAYS,
+    });
+
+    const [systemMessage] = create.mock.calls[0].arguments as unknown as [Partial<IMessage>];
+    assert.equal(systemMessage.content, 'Disappearing messages set to 7 days');
+  });
+
+  it('sweeps expired messages along with their attachments and thread counts', async () => {
+    const rootId = new mongoose.Types.ObjectId();
+    const expired = [
+      {
+        _id: new mongoose.Types.ObjectId(),
+        conversationId,
+        attachments: [{ type: 'image', publicId: 'chat/expired-photo' }],
+      },
+      {
+        _id: new mongoose.Types.ObjectId(),
+        conversationId,
+        threadRootId: rootId,
+        attachments: [{ type: 'file', publicId: 'chat/forwarded-elsewhere' }],
+      },
+    ];
+    const find = mock.method(Message, 'find', () => query(expired));
+    const deleteMany = mock.method(Message, 'deleteMany', async () => ({}));
+    // A forwarded copy elsewhere still uses one of the files
+    mock.method(Message, 'distinct', async (path: string) =>
+      path === 'attachments.publicId' ? ['chat/forwarded-elsewhere'] : []
+    );
+    const deleteMedia = mock.method(storageService, 'deleteMultipleMedia', async () => ({}));
+    const rootUpdate = mock.method(Message, 'updateOne', async () => ({}));
+    const conversationUpdate = mock.method(Conversation, 'findByIdAndUpdate', async () => null);
+    mock.method(Conversation, 'findById', () => query({ lastMessage: undefined }));
+
+    const batches = await chatService.deleteExpiredMessages(100);
+
+    const [filter] = find.mock.calls[0].arguments as unknown as [{ expiresAt: { $lte: Date } }];
+    assert.ok(filter.expiresAt.$lte.getTime() <= Date.now());
+    assert.deepEqual(deleteMany.mock.calls[0].arguments[0], {
+      _id: { $in: expired.map((message) => message._id) },
+    });
+    assert.deepEqual(
+      deleteMedia.mock.calls.map((call) => call.arguments),
+      [[['chat/expired-photo'], 'image']]
+    );
+    assert.deepEqual(rootUpdate.mock.calls[0].arguments, [
+      { _id: rootId },
+      { $inc: { replyCount: -1 } },
+    ]);
+    assert.deepEqual(
+      (conversationUpdate.mock.calls[0].arguments[1] as { $inc: Record<string, number> }).$inc,
+      { 'metadata.totalMessages': -2 }
+    );
+    assert.deepEqual(batches, [
+      {
+        conversationId: conversationId.toString(),
+        messageIds: expired.map((message) => message._id.toString()),
+      },
+    ]);
+  });
+});
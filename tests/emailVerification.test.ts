@@ -0,0 +1,219 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import type { NextFunction, Request, Response } from 'express';
+import { Session, User, UserRole, type IUser } from '../src/models';
+import { requireVerifiedEmail } from '../src/middlewares';
+import { emailChangeService } from '../src/services/emailChange.service';
+import { markEmailVerified } from '../src/services/auth.service';
+import { otpService } from '../src/services/otp.service';
+import { redisService } from '../src/services/redis.service';
+import { sessionCacheService } from '../src/services/sessionCache.service';
+import { queueService } from '../src/queues/queue.service';
+import { VerifiedEmailAction } from '../src/types/emailVerification.types';
+import { OtpPurpose } from '../src/types/otp.types';
+import { MESSAGES } from '../src/constants/messages';
+import config from '../src/config';
+
+const buildUser = (overrides: Partial<IUser> = {}) =>
+  new User({
+    email: 'ada@example.com',
+    password: 'Correct-horse-1',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    ...overrides,
+  });
+
+/**
+ * Run the middleware for a user and return what it passed to next()
+ */
+const runPolicy = (action: VerifiedEmailAction, isEmailVerified: boolean) => {
+  const req = {
+    user: {
+      id: new mongoose.Types.ObjectId().toString(),
+      email: 'ada@example.com',
+      role: UserRole.USER,
+      isActive: true,
+      isEmailVerified,
+    },
+  } as Request;
+  let passed: unknown = 'not called';
+  requireVerifiedEmail(action)(
+    req,
+    {} as Response,
+    ((error?: unknown) => {
+      passed = error;
+    }) as NextFunction
+  );
+  return passed;
+};
+
+/**
+ * In-memory stand-in for the Redis calls a pending change makes
+ */
+const stubRedis = () => {
+  const store = new Map<string, string>();
+  mock.method(redisService, 'set', async (key: string, value: string) => {
+    store.set(key, value);
+  });
+  mock.method(redisService, 'get', async (key: string) => store.get(key) ?? null);
+  mock.method(redisService, 'del', async (key: string) => (store.delete(key) ? 1 : 0));
+  return store;
+};
+
+/**
+ * Stub the lookups and side effects of an email change for the given user
+ */
+const stubChange = (user: IUser) => {
+  mock.method(User, 'findById', () => {
+    const found = Promise.resolve(user);
+    return Object.assign(found, { select: () => found });
+  });
+  mock.method(
+    user,
+    'comparePassword',
+    async (candidate: string) => candidate === 'Correct-horse-1'
+  );
+  mock.method(User.prototype, 'save', async function (this: IUser) {
+    return this;
+  });
+  stubRedis();
+  return {
+    exists: mock.method(
+      User,
+      'exists',
+      async (): Promise<{ _id: mongoose.Types.ObjectId } | null> => null
+    ),
+    sendOtp: mock.method(otpService, 'sendOtp', async () => ({})),
+    verifyOtp: mock.method(otpService, 'verifyOtp', async () => true),
+    addJob: mock.method(queueService, 'addJob', async () => ({})),
+  };
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('email verification policy', () => {
+  it('keeps unverified accounts out of restricted actions only', () => {
+    const blocked = runPolicy(VerifiedEmailAction.UPLOAD, false) as { statusCode: number };
+    assert.equal(blocked.statusCode, 403);
+    assert.equal((blocked as unknown as Error).message, MESSAGES.AUTH.EMAIL_NOT_VERIFIED);
+
+    assert.equal(runPolicy(VerifiedEmailAction.UPLOAD, true), undefined);
+
+    const { requiredFor } = config.emailVerification;
+    config.emailVerification.requiredFor = [VerifiedEmailAction.CREATE_GROUP];
+    try {
+      assert.equal(runPolicy(VerifiedEmailAction.UPLOAD, false), undefined);
+    } finally {
+      config.emailVerification.requiredFor = requiredFor;
+    }
+  });
+
+  it('refreshes cached session checks once an address is verified', async () => {
+    const user = buildUser();
+    const update = mock.method(User, 'findOneAndUpdate', async () => user);
+    const invalidate = mock.method(sessionCacheService, 'invalidateUser', async () => undefined);
+
+    await markEmailVerified('Ada@Example.com');
+
+    assert.deepEqual(update.mock.calls[0].arguments, [
+      { email: 'ada@example.com', isEmailVerified: false },
+      { isEmailVerified: true },
+    ]);
+    assert.deepEqual(invalidate.mock.calls[0].arguments, [user._id.toString()]);
+  });
+});
+
+describe('email change', () => {
+  it('proves the new address before moving the account and signs out other devices', async () => {
+    const user = buildUser({ isEmailVerified: true });
+    const { sendOtp, verifyOtp, addJob } = stubChange(user);
+    const currentSessionId = new mongoose.Types.ObjectId();
+    const otherSessionId = new mongoose.Types.ObjectId();
+    mock.method(Session, 'find', () => ({ select: async () => [{ _id: otherSessionId }] }));
+    const revoke = mock.method(Session, 'updateMany', async () => ({ modifiedCount: 1 }));
+    mock.method(sessionCacheService, 'invalidate', async () => undefined);
+    mock.method(sessionCacheService, 'invalidateUser', async () => undefined);
+
+    await emailChangeService.requestChange(
+      user._id.toString(),
+      'Ada@New.example',
+      'Correct-horse-1'
+    );
+
+    assert.deepEqual(sendOtp.mock.calls[0].arguments, [
+      'ada@new.example',
+      OtpPurpose.EMAIL_CHANGE,
+      'Ada',
+    ]);
+    const [notice] = addJob.mock.calls[0].arguments as unknown as [
+      { job: string; data: { to: string; newEmail: string } },
+    ];
+    assert.equal(notice.job, 'SEND_EMAIL_CHANGE_NOTICE');
+    assert.deepEqual(notice.data, {
+      to: 'ada@example.com',
+      userName: 'Ada',
+      newEmail: 'ada@new.example',
+    });
+    assert.equal(user.email, 'ada@example.com');
+
+    const changed = await emailChangeService.confirmChange(
+      user._id.toString(),
+      '123456',
+      currentSessionId.toString()
+    );
+
+    assert.deepEqual(verifyOtp.mock.calls[0].arguments, [
+      'ada@new.example',
+      '123456',
+      OtpPurpose.EMAIL_CHANGE,
+    ]);
+    assert.equal(changed.email, 'ada@new.example');
+    assert.equal(changed.isEmailVerified, true);
+    assert.deepEqual(revoke.mock.calls[0].arguments[0], {
+      _id: { $in: [otherSessionId.toString()] },
+      isRevoked: false,
+    });
+
+    // The pending change is used up
+    await assert.rejects(emailChangeService.confirmChange(user._id.toString(), '123456'), {
+      statusCode: 400,
+      message: MESSAGES.USER.EMAIL_CHANGE_NOT_FOUND,
+    });
+  });
+
+  it('requires the current password', async () => {
+    const user = buildUser();
+    const { sendOtp } = stubChange(user);
+
+    await assert.rejects(
+      emailChangeService.requestChange(user._id.toString(), 'ada@new.example', 'wrong'),
+      { statusCode: 401, message: MESSAGES.AUTH.INVALID_PASSWORD }
+    );
+    assert.equal(sendOtp.mock.callCount(), 0);
+  });
+
+  it('refuses an address another account took in the meantime', async () => {
+    const user = buildUser();
+    const { exists } = stubChange(user);
+    const save = mock.method(User.prototype, 'save', async function (this: IUser) {
+      return this;
+    });
+
+    await emailChangeService.requestChange(
+      user._id.toString(),
+      'ada@new.example',
+      'Correct-horse-1'
+    );
+    exists.mock.mockImplementation(async () => ({ _id: new mongoose.Types.ObjectId() }));
+
+    await assert.rejects(emailChangeService.confirmChange(user._id.toString(), '123456'), {
+      statusCode: 409,
+      message: MESSAGES.AUTH.EMAIL_EXISTS,
+    });
+    assert.equal(save.mock.callCount(), 0);
+    assert.equal(user.email, 'ada@example.com');
+  });
+});
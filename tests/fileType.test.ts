@@ -0,0 +1,165 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import mongoose from 'mongoose';
+import sharp from 'sharp';
+import {
+  MediaSource,
+  UploadRejection,
+  UploadRejectionReason,
+  type IUploadRejection,
+} from '../src/models';
+import { detectFileType, normalizeMimeType, readStreamSample } from '../src/utils/fileType';
+import { uploadInspectionService } from '../src/services/uploadInspection.service';
+import { compressionService } from '../src/services/compression.service';
+import { MESSAGES } from '../src/constants/messages';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+const IMAGES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// An ISO base media header with the given major and compatible brands
+const ftyp = (...brands: string[]) => {
+  const [major, ...compatible] = brands;
+  const body = Buffer.from(`ftyp${major}\0\0\0\0${compatible.join('')}`, 'latin1');
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(body.length + 4);
+  return Buffer.concat([size, body]);
+};
+
+const zipWith = (entry: string) =>
+  Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(26), Buffer.from(entry)]);
+
+// Record refused uploads without a database
+const stubRejections = () =>
+  mock.method(
+    UploadRejection,
+    'create',
+    async (data: Partial<IUploadRejection>) => new UploadRejection(data)
+  );
+
+const inspect = (sample: Buffer, declaredType?: string) =>
+  uploadInspectionService.inspectContent(sample, {
+    userId: new mongoose.Types.ObjectId().toString(),
+    filename: 'photo.png',
+    declaredType,
+    source: MediaSource.MULTIPART,
+    allowedTypes: IMAGES,
+  });
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('file type detection', () => {
+  it('recognises files by their content', () => {
+    assert.equal(detectFileType(PNG), 'image/png');
+    assert.equal(detectFileType(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), 'image/jpeg');
+    assert.equal(detectFileType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'latin1')), 'image/webp');
+    assert.equal(detectFileType(ftyp('isom', 'isom', 'mp42')), 'video/mp4');
+    assert.equal(detectFileType(ftyp('mif1', 'avif', 'mif1')), 'image/avif');
+    assert.equal(detectFileType(ftyp('qt  ', 'qt  ')), 'video/quicktime');
+    assert.equal(
+      detectFileType(zipWith('word/document.xml')),
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+    assert.equal(detectFileType(zipWith('payload.bin')), 'application/zip');
+    assert.equal(detectFileType(Buffer.from('﻿\n%PDF-1.7')), 'application/pdf');
+    assert.equal(detectFileType(Buffer.from('MZ\x90\0', 'latin1')), 'application/x-msdownload');
+    assert.equal(detectFileType(Buffer.from('just some notes')), undefined);
+  });
+
+  it('sees markup behind an image or PDF disguise', () => {
+    assert.equal(
+      detectFileType(Buffer.from('<?xml version="1.0"?><svg onload="alert(1)"/>')),
+      'image/svg+xml'
+    );
+    assert.equal(detectFileType(Buffer.from('  <!DOCTYPE html><p>%PDF-1.4')), 'text/html');
+    assert.equal(detectFileType(Buffer.from('<html>\n%PDF-1.4')), 'text/html');
+  });
+
+  it('treats client aliases of a type as that type', () => {
+    assert.equal(normalizeMimeType('Image/JPG; charset=binary'), 'image/jpeg');
+    assert.equal(normalizeMimeType('video/x-msvideo'), 'video/avi');
+  });
+
+  it('reads only the start of a stream', async () => {
+    const stream = Readable.from([Buffer.alloc(10, 1), Buffer.alloc(10, 2), Buffer.alloc(10, 3)]);
+
+    const sample = await readStreamSample(stream, 15);
+
+    assert.equal(sample.length, 15);
+    assert.equal(stream.destroyed, true);
+  });
+});
+
+describe('upload inspection', () => {
+  it('accepts allowed content under its own type or an alias', async () => {
+    const create = stubRejections();
+
+    assert.equal(await inspect(PNG, 'image/x-png'), 'image/png');
+    assert.equal(await inspect(PNG), 'image/png');
+    assert.equal(create.mock.callCount(), 0);
+  });
+
+  it('refuses and records content that is not what it claims to be', async () => {
+    const create = stubRejections();
+
+    await assert.rejects(inspect(Buffer.from('<svg onload="alert(1)"/>'), 'image/png'), {
+      statusCode: 415,
+      message: MESSAGES.MEDIA.FILE_CONTENT_MISMATCH.replace('{detected}', 'image/svg+xml').replace(
+        '{declared}',
+        'image/png'
+      ),
+    });
+
+    const [rejection] = create.mock.calls[0].arguments as unknown as [IUploadRejection];
+    assert.equal(rejection.reason, UploadRejectionReason.CONTENT_MISMATCH);
+    assert.equal(rejection.detectedType, 'image/svg+xml');
+    assert.ok(rejection.expiresAt.getTime() > Date.now());
+  });
+
+  it('refuses unrecognised and disallowed content', async () => {
+    const create = stubRejections();
+
+    await assert.rejects(inspect(Buffer.from('just some notes')), {
+      statusCode: 415,
+      message: MESSAGES.MEDIA.FILE_CONTENT_UNRECOGNIZED,
+    });
+    await assert.rejects(inspect(Buffer.from('%PDF-1.7'), 'application/pdf'), {
+      statusCode: 415,
+      message: MESSAGES.MEDIA.FILE_TYPE_NOT_ALLOWED.replace('{type}', 'application/pdf'),
+    });
+    const [unrecognized] = create.mock.calls[0].arguments as unknown as [IUploadRejection];
+    const [notAllowed] = create.mock.calls[1].arguments as unknown as [IUploadRejection];
+    assert.equal(unrecognized.reason, UploadRejectionReason.UNRECOGNIZED_CONTENT);
+    assert.equal(notAllowed.reason, UploadRejectionReason.TYPE_NOT_ALLOWED);
+  });
+
+  it('still refuses the upload when the rejection cannot be recorded', async () => {
+    mock.method(UploadRejection, 'create', async () => {
+      throw new Error('write failed');
+    });
+
+    await assert.rejects(inspect(PNG, 'application/pdf'), { statusCode: 415 });
+  });
+});
+
+describe('image metadata stripping', () => {
+  it('drops EXIF data but keeps the image upright', async () => {
+    const photo = await sharp({
+      create: { width: 4, height: 2, channels: 3, background: '#336699' },
+    })
+      .jpeg()
+      .withMetadata({ orientation: 6, exif: { IFD0: { Make: 'Example Camera' } } })
+      .toBuffer();
+    assert.ok((await sharp(photo).metadata()).exif);
+
+    const stripped = await compressionService.stripMetadata(photo);
+
+    const metadata = await sharp(stripped).metadata();
+    assert.equal(metadata.exif, undefined);
+    assert.equal(metadata.orientation, undefined);
+    // Orientation 6 is a quarter turn, which is now applied to the pixels
+    assert.deepEqual([metadata.width, metadata.height], [2, 4]);
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import {
+  ConversationParticipant,
+  Media,
+  MediaResourceType,
+  MediaScanStatus,
+  MediaSource,
+  Message,
+  MessageType,
+  type IForwardedFrom,
+  type IMessage,
+} from '../src/models';
+import { chatService, type SendMessageOptions } from '../src/services/chat.service';
+import { mediaService } from '../src/services/media.service';
+import { MESSAGES } from '../src/constants/messages';
+
+const userId = new mongoose.Types.ObjectId();
+const originalSenderId = new mongoose.Types.ObjectId();
+const sourceConversationId = new mongoose.Types.ObjectId();
+const targets = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()].map((id) =>
+  id.toString()
+);
+
+const buildSource = (overrides: Partial<IMessage> = {}) =>
+  new Message({
+    conversationId: sourceConversationId,
+    senderId: originalSenderId,
+    content: 'Worth sharing',
+    ...overrides,
+  });
+
+/**
+ * Stub the lookups around forwarding and capture each forwarded send
+ */
+const stubForward = (source: IMessage, activeConversations: number) => {
+  mock.method(Message, 'findById', (id: mongoose.Types.ObjectId) =>
+    id.equals(source._id)
+      ? Promise.resolve(source)
+      : { select: () => ({ lean: async () => ({ forwardCount: 0 }) }) }
+  );
+  mock.method(ConversationParticipant, 'countDocuments', async () => activeConversations);
+  const sendMessage = mock.method(
+    chatService,
+    'sendMessage',
+    async (conversationId: string, senderId: string, content: string) =>
+      new Message({ conversationId, senderId, content })
+  );
+  const updateOne = mock.method(Message, 'updateOne', async () => ({}));
+  return { sendMessage, updateOne };
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('message forwarding', () => {
+  it('sends a copy to each conversation, pointing back at the original', async () => {
+    const source = buildSource();
+    const { sendMessage, updateOne } = stubForward(source, 3);
+
+    const forwarded = await chatService.forwardMessage(
+      source._id.toString(),
+      userId.toString(),
+      targets
+    );
+
+    assert.equal(forwarded.length, 2);
+    assert.deepEqual(
+      sendMessage.mock.calls.map((call) => call.arguments[0]),
+      targets
+    );
+    const options = sendMessage.mock.calls[0].arguments[3] as SendMessageOptions;
+    assert.ok(options.forwardedFrom?.messageId.equals(source._id));
+    assert.ok(options.forwardedFrom?.senderId.equals(originalSenderId));
+    assert.deepEqual(updateOne.mock.calls[0].arguments, [
+      { _id: source._id },
+      { $inc: { forwardCount: 2 } },
+    ]);
+  });
+
+  it('keeps a forwarded forward attributed to the first sender', async () => {
+    const origin = {
+      messageId: new mongoose.Types.ObjectId(),
+      conversationId: new mongoose.Types.ObjectId(),
+      senderId: originalSenderId,
+      forwardedAt: new Date(),
+    };
+    const source = buildSource({ senderId: new mongoose.Types.ObjectId(), forwardedFrom: origin });
+    const { sendMessage, updateOne } = stubForward(source, 2);
+
+    await chatService.forwardMessage(source._id.toString(), userId.toString(), [targets[0]]);
+
+    const options = sendMessage.mock.calls[0].arguments[3] as SendMessageOptions;
+    assert.ok(options.forwardedFrom?.messageId.equals(origin.messageId));
+    assert.ok(options.forwardedFrom?.senderId.equals(originalSenderId));
+    assert.deepEqual(updateOne.mock.calls[0].arguments[0], { _id: origin.messageId });
+  });
+
+  it('limits frequently forwarded messages to one conversation at a time', async () => {
+    const source = buildSource({ forwardCount: 5 });
+    const { sendMessage } = stubForward(source, 3);
+
+    await assert.rejects(
+      chatService.forwardMessage(source._id.toString(), userId.toString(), targets),
+      { message: MESSAGES.CHAT.FORWARD_LIMIT_EXCEEDED.replace('{limit}', '1') }
+    );
+    assert.equal(sendMessage.mock.callCount(), 0);
+  });
+
+  it('requires the sender to be in every target conversation', async () => {
+    const source = buildSource();
+    const { sendMessage } = stubForward(source, 2);
+
+    await assert.rejects(
+      chatService.forwardMessage(source._id.toString(), userId.toString(), targets),
+      { message: MESSAGES.CHAT.NOT_PARTICIPANT }
+    );
+    assert.equal(sendMessage.mock.callCount(), 0);
+  });
+
+  it('refuses to forward polls', async () => {
+    const source = buildSource({ type: MessageType.POLL });
+    stubForward(source, 3);
+
+    await assert.rejects(
+      chatService.forwardMessage(source._id.toString(), userId.toString(), targets),
+      { message: MESSAGES.CHAT.MESSAGE_CANNOT_BE_FORWARDED }
+    );
+  });
+
+  it("carries the original message's attachments even though the forwarder did not upload them", async () => {
+    const media = new Media({
+      userId: originalSenderId,
+      publicId: 'chat/shared.pdf',
+      resourceType: MediaResourceType.RAW,
+      format: 'pdf',
+      mimeType: 'application/pdf',
+      bytes: 1024,
+      url: 'http://cdn.example.com/chat/shared.pdf',
+      secureUrl: 'https://cdn.example.com/chat/shared.pdf',
+      source: MediaSource.MULTIPART,
+      scanStatus: MediaScanStatus.CLEAN,
+    });
+    mock.method(mediaService, 'findClean', async () => [media]);
+    const forwardedFrom: IForwardedFrom = {
+      messageId: new mongoose.Types.ObjectId(),
+      conversationId: sourceConversationId,
+      senderId: originalSenderId,
+      forwardedAt: new Date(),
+    };
+    mock.method(Message, 'findById', () => ({
+      select: () => ({ lean: async () => ({ attachments: [{ publicId: 'chat/shared.pdf' }] }) }),
+    }));
+
+    const attachments = await chatService.resolveAttachments(
+      [{ publicId: 'chat/shared.pdf' }],
+      userId.toString(),
+      forwardedFrom
+    );
+    assert.equal(attachments[0].url, 'https://cdn.example.com/chat/shared.pdf');
+
+    // Without the forward the same file is someone else's upload
+    await assert.rejects(
+      chatService.resolveAttachments([{ publicId: 'chat/shared.pdf' }], userId.toString()),
+      { message: MESSAGES.CHAT.ATTACHMENT_NOT_OWNED }
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo, LookupFunction } from 'net';
+import mongoose from 'mongoose';
+import { Conversation, Message, MessageType } from '../src/models';
+import { isBlockedAddress, linkPreviewService } from '../src/services/linkPreview.service';
+import { redisService } from '../src/services/redis.service';
+import { chatService } from '../src/services/chat.service';
+
+// Stands in for a public site; every other hostname goes through the service's own lookup
+const PUBLIC_HOST = 'preview.test';
+
+const PAGE = `<html><head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Stub &amp; page">
+  <meta property="og:description" content="Served by the test server">
+</head><body></body></html>`;
+
+/**
+ * Resolves the stand-in public host to the local stub server
+ */
+const stubLookup: LookupFunction = (_hostname, options, callback) => {
+  if (options.all) {
+    callback(null, [{ address: '127.0.0.1', family: 4 }]);
+  } else {
+    callback(null, '127.0.0.1', 4);
+  }
+};
+
+describe('link previews', () => {
+  const requests: string[] = [];
+  let server: http.Server;
+  let port: number;
+
+  const publicUrl = (path: string) => `http://${PUBLIC_HOST}:${port}${path}`;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const path = req.url ?? '/';
+      requests.push(path);
+
+      const hop = path.match(/^\/hops\/(\d+)$/);
+      if (hop) {
+        const remaining = parseInt(hop[1], 10);
+        const location = remaining > 0 ? `/hops/${remaining - 1}` : '/page';
+        res.writeHead(302, { Location: location }).end();
+        return;
+      }
+
+      switch (path) {
+        case '/page':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(PAGE);
+          return;
+        case '/to-loopback-ip':
+          res.writeHead(302, { Location: `http://127.0.0.1:${port}/page` }).end();
+          return;
+        case '/to-localhost':
+          res.writeHead(302, { Location: `http://localhost:${port}/page` }).end();
+          return;
+        default:
+          res.writeHead(404).end();
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+
+    const get = http.get.bind(http) as (
+      url: URL,
+      options: http.RequestOptions,
+      callback: (response: http.IncomingMessage) => void
+    ) => http.ClientRequest;
+    mock.method(http, 'get', (url: URL, options: http.RequestOptions, callback: never) =>
+      get(
+        url,
+        url.hostname === PUBLIC_HOST ? { ...options, lookup: stubLookup } : options,
+        callback
+      )
+    );
+
+    // Nothing is cached between tests
+    mock.method(redisService, 'get', async () => null);
+    mock.method(redisService, 'set', async () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('builds a preview from OpenGraph tags', async () => {
+    const preview = await linkPreviewService.getPreview(publicUrl('/page'));
+
+    assert.equal(preview?.title, 'Stub & page');
+    assert.equal(preview?.description, 'Served by the test server');
+    assert.deepEqual(requests, ['/page']);
+  });
+
+  it('never connects to loopback or private addresses', async () => {
+    assert.equal(await linkPreviewService.getPreview(`http://127.0.0.1:${port}/page`), null);
+    assert.equal(await linkPreviewService.getPreview(`http://localhost:${port}/page`), null);
+    assert.equal(await linkPreviewService.getPreview(`http://[::1]:${port}/page`), null);
+    assert.deepEqual(requests, []);
+
+    for (const address of ['10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '::1']) {
+      assert.equal(isBlockedAddress(address), true, address);
+    }
+    assert.equal(isBlockedAddress('::ffff:127.0.0.1'), true);
+    assert.equal(isBlockedAddress('93.184.216.34'), false);
+  });
+
+  it('refuses redirects to private addresses', async () => {
+    assert.equal(await linkPreviewService.getPreview(publicUrl('/to-loopback-ip')), null);
+    assert.equal(await linkPreviewService.getPreview(publicUrl('/to-localhost')), null);
+    assert.deepEqual(requests, ['/to-loopback-ip', '/to-localhost']);
+  });
+
+  it('follows at most three redirects', async () => {
+    const followed = await linkPreviewService.getPreview(publicUrl('/hops/2'));
+    assert.equal(followed?.title, 'Stub & page');
+    assert.deepEqual(requests, ['/hops/2', '/hops/1', '/hops/0', '/page']);
+
+    requests.length = 0;
+    assert.equal(await linkPreviewService.getPreview(publicUrl('/hops/3')), null);
+    assert.deepEqual(requests, ['/hops/3', '/hops/2', '/hops/1', '/hops/0']);
+  });
+
+  describe('per-conversation setting', () => {
+    const stubConversation = (linkPreviewsEnabled: boolean) => {
+      const message = new Message({
+        conversationId: new mongoose.Types.ObjectId(),
+        senderId: new mongoose.Types.ObjectId(),
+        content: `Look at ${publicUrl('/page')}`,
+        type: MessageType.TEXT,
+      });
+
+      mock.method(Message, 'findById', async () => message);
+      mock.method(Conversation, 'findById', () => ({
+        select: () => ({ lean: async () => ({ linkPreviewsEnabled }) }),
+      }));
+      const update = mock.method(Message, 'findOneAndUpdate', () => ({
+        populate: async () => message,
+      }));
+
+      return { message, update };
+    };
+
+    it('skips fetching when the conversation has previews turned off', async () => {
+      const { message, update } = stubConversation(false);
+
+      const result = await chatService.refreshLinkPreviews(message._id.toString(), [
+        publicUrl('/page'),
+      ]);
+
+      assert.equal(result, null);
+      assert.equal(update.mock.callCount(), 0);
+      assert.deepEqual(requests, []);
+    });
+
+    it('stores previews when the conversation allows them', async () => {
+      const { message, update } = stubConversation(true);
+
+      await chatService.refreshLinkPreviews(message._id.toString(), [publicUrl('/page')]);
+
+      assert.deepEqual(requests, ['/page']);
+      const [, changes] = update.mock.calls[0].arguments as unknown as [
+        unknown,
+        { $set: { linkPreviews: { title: string }[] } },
+      ];
+      assert.equal(changes.$set.linkPreviews[0].title, 'Stub & page');
+    });
+  });
+});
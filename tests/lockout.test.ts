@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { User } from '../src/models';
+import { lockoutService } from '../src/services/lockout.service';
+import { redisService } from '../src/services/redis.service';
+import { otpService } from '../src/services/otp.service';
+import { queueService } from '../src/queues/queue.service';
+import { OtpPurpose } from '../src/types/otp.types';
+import { MESSAGES } from '../src/constants/messages';
+import config from '../src/config';
+
+const IP = '203.0.113.7';
+
+const user = new User({
+  email: 'ada@example.com',
+  password: 'Correct-horse-1',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+});
+
+/**
+ * In-memory stand-in for the Redis calls the lockout counters make
+ */
+const stubRedis = () => {
+  const store = new Map<string, string>();
+  mock.method(redisService, 'set', async (key: string, value: string) => {
+    store.set(key, value);
+  });
+  mock.method(redisService, 'get', async (key: string) => store.get(key) ?? null);
+  mock.method(redisService, 'del', async (key: string) => (store.delete(key) ? 1 : 0));
+  mock.method(redisService, 'incr', async (key: string) => {
+    const value = Number(store.get(key) ?? 0) + 1;
+    store.set(key, value.toString());
+    return value;
+  });
+  return store;
+};
+
+let delays: number[];
+
+beforeEach(() => {
+  // Record the progressive delays instead of waiting them out
+  delays = [];
+  mock.method(globalThis, 'setTimeout', (callback: () => void, ms: number) => {
+    delays.push(ms);
+    callback();
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('login lockout', () => {
+  it('locks the account after repeated failures and emails its owner', async () => {
+    stubRedis();
+    const addJob = mock.method(queueService, 'addJob', async () => ({}));
+
+    for (let attempt = 0; attempt < config.lockout.maxAccountFailures; attempt++) {
+      await lockoutService.assertCanAttempt('Ada@Example.com ', IP);
+      await lockoutService.recordFailure('Ada@Example.com ', IP, user);
+    }
+
+    await assert.rejects(lockoutService.assertCanAttempt('ada@example.com', IP), {
+      statusCode: 429,
+      message: MESSAGES.AUTH.ACCOUNT_LOCKED,
+    });
+    const [job] = addJob.mock.calls[0].arguments as unknown as [
+      { job: string; data: { to: string; failedAttempts: number } },
+    ];
+    assert.equal(job.job, 'SEND_ACCOUNT_LOCKED_EMAIL');
+    assert.equal(job.data.to, 'ada@example.com');
+    assert.equal(job.data.failedAttempts, config.lockout.maxAccountFailures);
+  });
+
+  it('locks unknown emails the same way without sending anything', async () => {
+    stubRedis();
+    const addJob = mock.method(queueService, 'addJob', async () => ({}));
+
+    for (let attempt = 0; attempt < config.lockout.maxAccountFailures; attempt++) {
+      await lockoutService.recordFailure('nobody@example.com', IP, null);
+    }
+
+    await assert.rejects(lockoutService.assertCanAttempt('nobody@example.com', IP), {
+      message: MESSAGES.AUTH.ACCOUNT_LOCKED,
+    });
+    assert.equal(addJob.mock.callCount(), 0);
+  });
+
+  it('slows failures down progressively after the free attempts', async () => {
+    stubRedis();
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await lockoutService.recordFailure('ada@example.com', IP, user);
+    }
+
+    const { baseDelayMs } = config.lockout;
+    assert.deepEqual(delays, [baseDelayMs, baseDelayMs * 2]);
+  });
+
+  it('forgets earlier failures after a successful login', async () => {
+    stubRedis();
+    mock.method(queueService, 'addJob', async () => ({}));
+
+    for (let attempt = 1; attempt < config.lockout.maxAccountFailures; attempt++) {
+      await lockoutService.recordFailure('ada@example.com', IP, user);
+    }
+    await lockoutService.recordSuccess('ada@example.com');
+    await lockoutService.recordFailure('ada@example.com', IP, user);
+
+    await lockoutService.assertCanAttempt('ada@example.com', IP);
+  });
+
+  it('blocks an IP that fails across many accounts', async () => {
+    stubRedis();
+
+    for (let attempt = 0; attempt < config.lockout.maxIpFailures; attempt++) {
+      await lockoutService.recordFailure(`user${attempt}@example.com`, IP, null);
+    }
+
+    await assert.rejects(lockoutService.assertCanAttempt('someone-new@example.com', IP), {
+      statusCode: 429,
+      message: MESSAGES.AUTH.LOGIN_IP_BLOCKED,
+    });
+    await lockoutService.assertCanAttempt('someone-new@example.com', '198.51.100.1');
+  });
+
+  it('unlocks the account with the emailed code', async () => {
+    stubRedis();
+    mock.method(queueService, 'addJob', async () => ({}));
+    mock.method(User, 'findOne', async () => user);
+    const sendOtp = mock.method(otpService, 'sendOtp', async () => ({}));
+    const verifyOtp = mock.method(otpService, 'verifyOtp', async () => true);
+    for (let attempt = 0; attempt < config.lockout.maxAccountFailures; attempt++) {
+      await lockoutService.recordFailure('ada@example.com', IP, user);
+    }
+
+    await lockoutService.requestUnlock('Ada@example.com');
+    await lockoutService.unlockWithOtp('Ada@example.com', '123456');
+
+    assert.deepEqual(sendOtp.mock.calls[0].arguments, [
+      'ada@example.com',
+      OtpPurpose.ACCOUNT_UNLOCK,
+      'Ada',
+    ]);
+    assert.deepEqual(verifyOtp.mock.calls[0].arguments, [
+      'ada@example.com',
+      '123456',
+      OtpPurpose.ACCOUNT_UNLOCK,
+    ]);
+    await lockoutService.assertCanAttempt('ada@example.com', IP);
+  });
+});
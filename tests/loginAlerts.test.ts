@@ -0,0 +1,181 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  LoginEvent,
+  LoginMethod,
+  Session,
+  User,
+  type IDeviceInfo,
+  type ILoginEvent,
+} from '../src/models';
+import { loginAlertService } from '../src/services/loginAlert.service';
+import { loginWithPasskey } from '../src/services/auth.service';
+import { passkeyService } from '../src/services/passkey.service';
+import { notificationService } from '../src/services/notification.service';
+import { sessionCacheService } from '../src/services/sessionCache.service';
+import { queueService } from '../src/queues/queue.service';
+import type { AuthenticationResponseJSON } from '../src/types/webauthn.types';
+import { MESSAGES } from '../src/constants/messages';
+import config from '../src/config';
+
+const user = new User({
+  email: 'ada@example.com',
+  password: 'Correct-horse-1',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+});
+
+const laptop: IDeviceInfo = {
+  deviceId: 'laptop',
+  deviceName: 'MacBook',
+  deviceType: 'desktop',
+  browser: 'Chrome',
+  os: 'macOS',
+  ip: '203.0.113.7',
+};
+
+/**
+ * Stub the login history lookups and capture what gets recorded and sent
+ */
+const stubHistory = (previousIps: string[], seenDevices: string[]) => {
+  mock.method(LoginEvent, 'find', () => {
+    const chain = {
+      sort: () => chain,
+      limit: () => chain,
+      select: async () => previousIps.map((ip) => ({ deviceInfo: { ip } })),
+    };
+    return chain;
+  });
+  mock.method(LoginEvent, 'exists', async (filter: { 'deviceInfo.deviceId': string }) =>
+    seenDevices.includes(filter['deviceInfo.deviceId'])
+      ? { _id: new mongoose.Types.ObjectId() }
+      : null
+  );
+  return {
+    create: mock.method(
+      LoginEvent,
+      'create',
+      async (data: Partial<ILoginEvent>) => new LoginEvent({ ...data, createdAt: new Date() })
+    ),
+    addJob: mock.method(queueService, 'addJob', async () => ({})),
+    notify: mock.method(notificationService, 'notifyUser', async () => undefined),
+  };
+};
+
+const recorded = (create: ReturnType<typeof stubHistory>['create']) =>
+  create.mock.calls[0].arguments[0] as unknown as Partial<ILoginEvent>;
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('login alerts', () => {
+  it('records the first login without alerting', async () => {
+    const { create, addJob } = stubHistory([], []);
+
+    await loginAlertService.recordLogin(user, 'session-1', laptop, LoginMethod.PASSWORD);
+
+    const event = recorded(create);
+    assert.equal(event.isNewDevice, true);
+    assert.equal(event.alertSent, false);
+    assert.equal(event.reportTokenHash, undefined);
+    assert.equal(addJob.mock.callCount(), 0);
+  });
+
+  it('alerts on a new device with a link that reports the login', async () => {
+    const { create, addJob, notify } = stubHistory(['203.0.113.50'], ['laptop']);
+    const phone = { ...laptop, deviceId: 'phone', deviceName: 'Pixel', ip: '203.0.113.80' };
+
+    await loginAlertService.recordLogin(user, 'session-2', phone, LoginMethod.PASSWORD);
+
+    const event = recorded(create);
+    assert.equal(event.isNewDevice, true);
+    assert.equal(event.isUnusualIp, false);
+    const [email] = addJob.mock.calls[0].arguments as unknown as [
+      { job: string; data: { reasons: string[]; reportUrl: string } },
+    ];
+    assert.equal(email.job, 'SEND_LOGIN_ALERT_EMAIL');
+    assert.deepEqual(email.data.reasons, ['a new device']);
+    const reportUrl = new URL(email.data.reportUrl);
+    assert.equal(`${reportUrl.origin}${reportUrl.pathname}`, config.loginAlerts.reportUrl);
+    // Only the token's hash is stored
+    const token = reportUrl.searchParams.get('token') ?? '';
+    assert.equal(event.reportTokenHash, crypto.createHash('sha256').update(token).digest('hex'));
+    assert.equal(notify.mock.callCount(), 1);
+  });
+
+  it('alerts on a known device signing in from an unfamiliar network', async () => {
+    const { create, addJob } = stubHistory(['203.0.113.50', '203.0.113.60'], ['laptop']);
+
+    await loginAlertService.recordLogin(
+      user,
+      'session-3',
+      { ...laptop, ip: '198.51.100.9' },
+      LoginMethod.PASSKEY
+    );
+
+    assert.equal(recorded(create).isUnusualIp, true);
+    const [email] = addJob.mock.calls[0].arguments as unknown as [{ data: { reasons: string[] } }];
+    assert.deepEqual(email.data.reasons, ['an unfamiliar network']);
+  });
+
+  it('stays quiet for a known device on a known network', async () => {
+    const { create, addJob } = stubHistory(['203.0.113.50'], ['laptop']);
+
+    await loginAlertService.recordLogin(user, 'session-4', laptop, LoginMethod.PASSWORD);
+
+    assert.equal(recorded(create).alertSent, false);
+    assert.equal(addJob.mock.callCount(), 0);
+  });
+
+  it('never fails the login when history cannot be written', async () => {
+    stubHistory([], []);
+    mock.method(LoginEvent, 'create', async () => {
+      throw new Error('write failed');
+    });
+
+    await loginAlertService.recordLogin(user, 'session-5', laptop, LoginMethod.PASSWORD);
+  });
+});
+
+describe('reporting a login', () => {
+  it('signs out everywhere and blocks sign-in until the password is reset', async () => {
+    const event = new LoginEvent({ userId: user._id, deviceInfo: laptop });
+    const claim = mock.method(LoginEvent, 'findOneAndUpdate', async () => event);
+    const flag = mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }));
+    mock.method(Session, 'find', () => ({ select: async () => [] }));
+    const revoke = mock.method(Session, 'updateMany', async () => ({ modifiedCount: 2 }));
+    mock.method(sessionCacheService, 'invalidate', async () => undefined);
+
+    await loginAlertService.reportLogin('report-token');
+
+    const [filter] = claim.mock.calls[0].arguments as unknown as [{ reportTokenHash: string }];
+    assert.equal(
+      filter.reportTokenHash,
+      crypto.createHash('sha256').update('report-token').digest('hex')
+    );
+    assert.deepEqual(flag.mock.calls[0].arguments, [
+      { _id: user._id.toString() },
+      { passwordResetRequired: true },
+    ]);
+    assert.equal(revoke.mock.callCount(), 1);
+
+    const flagged = new User({ ...user.toObject(), passwordResetRequired: true });
+    mock.method(passkeyService, 'verifyAuthentication', async () => flagged);
+    await assert.rejects(loginWithPasskey({} as AuthenticationResponseJSON, laptop), {
+      statusCode: 403,
+      message: MESSAGES.AUTH.PASSWORD_RESET_REQUIRED,
+    });
+  });
+
+  it('rejects used or expired report links', async () => {
+    mock.method(LoginEvent, 'findOneAndUpdate', async () => null);
+
+    await assert.rejects(loginAlertService.reportLogin('report-token'), {
+      statusCode: 400,
+      message: MESSAGES.AUTH.LOGIN_REPORT_INVALID,
+    });
+  });
+});
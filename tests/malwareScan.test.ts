@@ -0,0 +1,233 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'stream';
+import mongoose from 'mongoose';
+import { Media, MediaResourceType, MediaScanStatus, MediaSource, type IMedia } from '../src/models';
+import { stubScannerService } from '../src/services/stubScanner.service';
+import { malwareScanService } from '../src/services/malwareScan.service';
+import { mediaService } from '../src/services/media.service';
+import { storageQuotaService } from '../src/services/storageQuota.service';
+import { storageService } from '../src/services/storage.service';
+import { chatService } from '../src/services/chat.service';
+import { queueService } from '../src/queues/queue.service';
+import { MESSAGES } from '../src/constants/messages';
+import type { UploadResult } from '../src/types/storage.types';
+
+// Industry-standard test string every scanner reports as infected
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+const ownerId = new mongoose.Types.ObjectId();
+
+const buildMedia = (overrides: Partial<IMedia> = {}): IMedia =>
+  new Media({
+    userId: ownerId,
+    publicId: 'uploads/photo',
+    resourceType: MediaResourceType.IMAGE,
+    format: 'png',
+    mimeType: 'image/png',
+    bytes: 2048,
+    width: 640,
+    height: 480,
+    url: 'http://cdn.example.com/uploads/photo.png',
+    secureUrl: 'https://cdn.example.com/uploads/photo.png',
+    originalFilename: 'photo.png',
+    source: MediaSource.MULTIPART,
+    ...overrides,
+  });
+
+const uploadResult = (url: string): UploadResult => ({
+  publicId: 'uploads/photo',
+  url,
+  secureUrl: url,
+  format: 'png',
+  resourceType: 'image',
+  bytes: 2048,
+  createdAt: new Date().toISOString(),
+  etag: 'etag',
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('stub scanner', () => {
+  it('reports the EICAR test string as infected', async () => {
+    const verdict = await stubScannerService.scan(Readable.from([Buffer.from(EICAR)]));
+
+    assert.deepEqual(verdict, { infected: true, threat: 'Eicar-Test-Signature' });
+  });
+
+  it('finds the EICAR string when it spans chunks', async () => {
+    const chunks = [`header ${EICAR.slice(0, 20)}`, `${EICAR.slice(20)} trailer`];
+    const verdict = await stubScannerService.scan(Readable.from(chunks.map((c) => Buffer.from(c))));
+
+    assert.equal(verdict.infected, true);
+  });
+
+  it('reports other content as clean', async () => {
+    const verdict = await stubScannerService.scan(Readable.from([Buffer.from('just a photo')]));
+
+    assert.deepEqual(verdict, { infected: false });
+  });
+});
+
+describe('upload quarantine', () => {
+  it('queues a scan for every recorded upload', async () => {
+    mock.method(Media, 'create', async (data: Partial<IMedia>) => buildMedia(data));
+    mock.method(storageQuotaService, 'adjustUsage', async () => undefined);
+    const addJob = mock.method(queueService, 'addJob', async () => 'job-1');
+
+    const media = await mediaService.record(ownerId.toString(), uploadResult('https://x/y.png'), {
+      mimeType: 'image/png',
+      source: MediaSource.MULTIPART,
+    });
+
+    assert.equal(media.scanStatus, MediaScanStatus.PENDING);
+    assert.equal(addJob.mock.callCount(), 1);
+    assert.deepEqual(addJob.mock.calls[0].arguments[0], {
+      queue: 'QUEUE__MEDIA',
+      job: 'SCAN_MEDIA',
+      data: { publicId: 'uploads/photo' },
+    });
+  });
+
+  it('hides the URLs of media that has not passed its scan', () => {
+    const pending = buildMedia().toJSON();
+    const infected = buildMedia({ scanStatus: MediaScanStatus.INFECTED }).toJSON();
+    const clean = buildMedia({ scanStatus: MediaScanStatus.CLEAN }).toJSON();
+
+    assert.equal(pending.secureUrl, undefined);
+    assert.equal(infected.secureUrl, undefined);
+    assert.equal(clean.secureUrl, 'https://cdn.example.com/uploads/photo.png');
+  });
+});
+
+describe('malware scan', () => {
+  const stubStorage = (content: string) => {
+    mock.method(mediaService, 'findPendingScan', async () => buildMedia());
+    mock.method(storageService, 'downloadMedia', async () => Readable.from([Buffer.from(content)]));
+    return {
+      publish: mock.method(storageService, 'publish', async () =>
+        uploadResult('https://cdn.example.com/public/photo.png')
+      ),
+      deleteMedia: mock.method(storageService, 'deleteMedia', async () => true),
+    };
+  };
+
+  it('publishes clean files and releases them from quarantine', async () => {
+    const storage = stubStorage('just a photo');
+    const markClean = mock.method(mediaService, 'markClean', async () => undefined);
+    const markInfected = mock.method(mediaService, 'markInfected', async () => null);
+
+    const outcome = await malwareScanService.scanMedia('uploads/photo');
+
+    assert.equal(outcome, 'clean');
+    assert.equal(storage.publish.mock.callCount(), 1);
+    assert.equal(storage.deleteMedia.mock.callCount(), 0);
+    assert.equal(markInfected.mock.callCount(), 0);
+    const [publicId, published] = markClean.mock.calls[0].arguments;
+    assert.equal(publicId, 'uploads/photo');
+    assert.equal(published?.secureUrl, 'https://cdn.example.com/public/photo.png');
+  });
+
+  it('deletes infected files and notifies the uploader', async () => {
+    const storage = stubStorage(`MZ${EICAR}`);
+    const markClean = mock.method(mediaService, 'markClean', async () => undefined);
+    const markInfected = mock.method(mediaService, 'markInfected', async () =>
+      buildMedia({ scanStatus: MediaScanStatus.INFECTED })
+    );
+    const addJob = mock.method(queueService, 'addJob', async () => 'job-1');
+
+    const outcome = await malwareScanService.scanMedia('uploads/photo');
+
+    assert.equal(outcome, 'infected');
+    assert.equal(storage.publish.mock.callCount(), 0);
+    assert.equal(markClean.mock.callCount(), 0);
+    assert.deepEqual(storage.deleteMedia.mock.calls[0].arguments, [
+      'uploads/photo',
+      'image',
+      'private',
+    ]);
+    assert.deepEqual(markInfected.mock.calls[0].arguments, [
+      'uploads/photo',
+      'Eicar-Test-Signature',
+    ]);
+    const notification = addJob.mock.calls[0].arguments[0] as {
+      job: string;
+      data: { userId: string };
+    };
+    assert.equal(notification.job, 'SEND_IN_APP');
+    assert.equal(notification.data.userId, ownerId.toString());
+  });
+
+  it('skips media that is no longer awaiting a scan', async () => {
+    mock.method(mediaService, 'findPendingScan', async () => null);
+    const downloadMedia = mock.method(storageService, 'downloadMedia');
+
+    assert.equal(await malwareScanService.scanMedia('uploads/photo'), 'skipped');
+    assert.equal(downloadMedia.mock.callCount(), 0);
+  });
+});
+
+describe('chat attachments', () => {
+  const senderId = ownerId.toString();
+
+  it('refuses uploads that have not passed their scan', async () => {
+    mock.method(mediaService, 'findClean', async () => []);
+
+    await assert.rejects(
+      chatService.resolveAttachments([{ publicId: 'uploads/photo' }], senderId),
+      { message: MESSAGES.CHAT.ATTACHMENT_NOT_SCANNED }
+    );
+  });
+
+  it('refuses attachments without a publicId', async () => {
+    const findClean = mock.method(mediaService, 'findClean', async () => []);
+
+    await assert.rejects(
+      chatService.resolveAttachments([{ url: 'https://evil.example.com/x' } as never], senderId),
+      { message: MESSAGES.CHAT.ATTACHMENT_PUBLIC_ID_REQUIRED }
+    );
+    assert.equal(findClean.mock.callCount(), 0);
+  });
+
+  it("refuses another user's uploads", async () => {
+    mock.method(mediaService, 'findClean', async () => [
+      buildMedia({ scanStatus: MediaScanStatus.CLEAN, userId: new mongoose.Types.ObjectId() }),
+    ]);
+
+    await assert.rejects(
+      chatService.resolveAttachments([{ publicId: 'uploads/photo' }], senderId),
+      { message: MESSAGES.CHAT.ATTACHMENT_NOT_OWNED }
+    );
+  });
+
+  it('describes clean uploads from their media record', async () => {
+    mock.method(mediaService, 'findClean', async () => [
+      buildMedia({ scanStatus: MediaScanStatus.CLEAN }),
+    ]);
+
+    const [attachment] = await chatService.resolveAttachments(
+      [
+        {
+          publicId: 'uploads/photo',
+          url: 'https://evil.example.com/payload.exe',
+          type: 'file',
+          size: 1,
+        } as never,
+      ],
+      senderId
+    );
+
+    assert.deepEqual(attachment, {
+      type: 'image',
+      url: 'https://cdn.example.com/uploads/photo.png',
+      publicId: 'uploads/photo',
+      filename: 'photo.png',
+      size: 2048,
+      mimeType: 'image/png',
+      duration: undefined,
+      dimensions: { width: 640, height: 480 },
+    });
+  });
+});
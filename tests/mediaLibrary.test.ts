@@ -0,0 +1,189 @@
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import mongoose from 'mongoose';
+import {
+  Media,
+  MediaResourceType,
+  MediaScanStatus,
+  MediaSource,
+  User,
+  UserRole,
+  type IMedia,
+} from '../src/models';
+import { mediaService } from '../src/services/media.service';
+import { localStorageService } from '../src/services/localStorage.service';
+import { queueService } from '../src/queues/queue.service';
+import type { UploadResult } from '../src/types/storage.types';
+import { MESSAGES } from '../src/constants/messages';
+import config from '../src/config';
+
+const ownerId = new mongoose.Types.ObjectId();
+
+const upload: UploadResult = {
+  publicId: 'documents/report.pdf',
+  url: 'https://cdn.example.com/documents/report.pdf',
+  secureUrl: 'https://cdn.example.com/documents/report.pdf',
+  resourceType: 'raw',
+  format: 'pdf',
+  bytes: 2048,
+  createdAt: new Date().toISOString(),
+  etag: 'etag',
+};
+
+const buildMedia = (overrides: Partial<IMedia> = {}) =>
+  new Media({
+    userId: ownerId,
+    publicId: upload.publicId,
+    resourceType: MediaResourceType.RAW,
+    format: 'pdf',
+    mimeType: 'application/pdf',
+    bytes: upload.bytes,
+    source: MediaSource.MULTIPART,
+    ...overrides,
+  });
+
+const asUser = (id: mongoose.Types.ObjectId, role = UserRole.USER): Express.User => ({
+  id: id.toString(),
+  email: 'someone@example.com',
+  role,
+  isActive: true,
+  isEmailVerified: true,
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('media library', () => {
+  it('records each upload for its owner, counts its storage and quarantines it for scanning', async () => {
+    const create = mock.method(Media, 'create', async (data: Partial<IMedia>) => new Media(data));
+    const usage = mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }));
+    const addJob = mock.method(queueService, 'addJob', async () => ({}));
+
+    const media = await mediaService.record(ownerId.toString(), upload, {
+      mimeType: 'application/pdf',
+      source: MediaSource.MULTIPART,
+      originalFilename: 'Q3 report.pdf',
+    });
+
+    const [data] = create.mock.calls[0].arguments as unknown as [Partial<IMedia>];
+    assert.equal(data.userId, ownerId.toString());
+    assert.equal(data.originalFilename, 'Q3 report.pdf');
+    assert.deepEqual(usage.mock.calls[0].arguments, [
+      { _id: ownerId.toString() },
+      { $inc: { storageUsedBytes: 2048, storageFileCount: 1 } },
+    ]);
+    assert.deepEqual(addJob.mock.calls[0].arguments[0], {
+      queue: 'QUEUE__MEDIA',
+      job: 'SCAN_MEDIA',
+      data: { publicId: upload.publicId },
+    });
+
+    // Until the scan passes, the owner is not handed a URL
+    const pending = mediaService.toClientResult(upload, media);
+    assert.equal(pending.url, undefined);
+    assert.equal(pending.scanStatus, MediaScanStatus.PENDING);
+    media.scanStatus = MediaScanStatus.CLEAN;
+    assert.equal(mediaService.toClientResult(upload, media).secureUrl, upload.secureUrl);
+  });
+
+  it("hides other users' media but lets admins manage it", async () => {
+    const media = buildMedia();
+    mock.method(Media, 'findOne', async () => media);
+
+    assert.equal(await mediaService.findForUser(upload.publicId, asUser(ownerId)), media);
+    await assert.rejects(
+      mediaService.findForUser(upload.publicId, asUser(new mongoose.Types.ObjectId())),
+      { statusCode: 404, message: MESSAGES.MEDIA.NOT_FOUND }
+    );
+    assert.equal(
+      await mediaService.findForUser(
+        upload.publicId,
+        asUser(new mongoose.Types.ObjectId(), UserRole.ADMIN)
+      ),
+      media
+    );
+  });
+
+  it('lists only files that have actually arrived', async () => {
+    const find = mock.method(Media, 'find', () => {
+      const chain = { sort: () => chain, skip: () => chain, limit: async () => [buildMedia()] };
+      return chain;
+    });
+    mock.method(Media, 'countDocuments', async () => 1);
+
+    const { media, total } = await mediaService.listByOwner(ownerId.toString(), { page: 2 });
+
+    assert.equal(media.length, total);
+    assert.deepEqual(find.mock.calls[0].arguments[0], {
+      userId: ownerId.toString(),
+      scanStatus: { $ne: MediaScanStatus.AWAITING_UPLOAD },
+    });
+  });
+
+  it('releases the storage of deleted media, unless the scan already did', async () => {
+    const usage = mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }));
+    const removed = mock.method(Media, 'findOneAndDelete', async () => buildMedia());
+
+    await mediaService.remove(upload.publicId);
+    assert.deepEqual(usage.mock.calls[0].arguments[1], {
+      $inc: { storageUsedBytes: -2048, storageFileCount: -1 },
+    });
+
+    removed.mock.mockImplementation(async () =>
+      buildMedia({ scanStatus: MediaScanStatus.INFECTED })
+    );
+    await mediaService.remove(upload.publicId);
+    assert.equal(usage.mock.callCount(), 1);
+  });
+});
+
+describe('document storage keys', () => {
+  const { directory, privateDirectory } = config.storage.local;
+  let root: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'media-library-'));
+    config.storage.local.directory = path.join(root, 'public');
+    config.storage.local.privateDirectory = path.join(root, 'private');
+  });
+
+  after(async () => {
+    config.storage.local.directory = directory;
+    config.storage.local.privateDirectory = privateDirectory;
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('gives uploads of the same filename their own keys', async () => {
+    const options = {
+      folder: 'documents',
+      resourceType: 'raw' as const,
+      filename: 'report.pdf',
+      overwrite: false,
+      access: 'private' as const,
+    };
+
+    const first = await localStorageService.upload(Buffer.from('first'), options);
+    const second = await localStorageService.upload(Buffer.from('second'), options);
+
+    assert.notEqual(first.publicId, second.publicId);
+    assert.ok(first.publicId.startsWith('documents/'));
+  });
+
+  it('refuses to replace an existing file when overwriting is off', async () => {
+    const options = { folder: 'documents', publicId: 'fixed', resourceType: 'raw' as const };
+    const original = await localStorageService.upload(Buffer.from('original'), options);
+
+    await assert.rejects(
+      localStorageService.upload(Buffer.from('replacement'), { ...options, overwrite: false }),
+      { statusCode: 409, message: MESSAGES.MEDIA.ALREADY_EXISTS }
+    );
+    const stored = await fs.promises.readFile(
+      path.join(config.storage.local.directory, original.publicId)
+    );
+    assert.equal(stored.toString(), 'original');
+  });
+});
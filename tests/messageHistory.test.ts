@@ -0,0 +1,148 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import {
+  Conversation,
+  Message,
+  ModerationAction,
+  ModerationLog,
+  type IMessage,
+  type IMessageRevision,
+} from '../src/models';
+import { chatService, type ConversationWithDetails } from '../src/services/chat.service';
+import { moderationService } from '../src/services/moderation.service';
+import { queueService } from '../src/queues/queue.service';
+import { MESSAGES } from '../src/constants/messages';
+
+const senderId = new mongoose.Types.ObjectId();
+const conversationId = new mongoose.Types.ObjectId();
+const sentAt = new Date('2026-01-01T09:00:00Z');
+
+const buildMessage = (overrides: Partial<IMessage> = {}) =>
+  new Message({
+    conversationId,
+    senderId,
+    content: 'Meeting at 10',
+    createdAt: sentAt,
+    ...overrides,
+  });
+
+/**
+ * Stand-in for the history lookup, which selects the hidden fields and reads lean
+ */
+const stubHistoryLookup = (message: IMessage) =>
+  mock.method(Message, 'findById', () => ({
+    select: () => ({ lean: async () => message.toObject() }),
+  }));
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('message edit history', () => {
+  it('keeps the superseded version when a message is edited', async () => {
+    const message = buildMessage();
+    mock.method(Message, 'findById', async () => message);
+    const update = mock.method(Message, 'findByIdAndUpdate', async () => message);
+    mock.method(Conversation, 'findById', async () => null);
+    mock.method(queueService, 'addJob', async () => ({}));
+
+    await chatService.editMessage(message._id.toString(), senderId.toString(), ' Meeting at 11 ');
+
+    const [, changes] = update.mock.calls[0].arguments as unknown as [
+      unknown,
+      { $set: Record<string, unknown>; $push: { editHistory: IMessageRevision } },
+    ];
+    assert.equal(changes.$set.content, 'Meeting at 11');
+    assert.equal(changes.$set.isEdited, true);
+    assert.equal(changes.$push.editHistory.content, 'Meeting at 10');
+    assert.equal(changes.$push.editHistory.createdAt, sentAt);
+  });
+
+  it("refuses edits to another user's message", async () => {
+    const message = buildMessage();
+    mock.method(Message, 'findById', async () => message);
+    const update = mock.method(Message, 'findByIdAndUpdate', async () => message);
+
+    await assert.rejects(
+      chatService.editMessage(
+        message._id.toString(),
+        new mongoose.Types.ObjectId().toString(),
+        'x'
+      ),
+      { message: MESSAGES.CHAT.CANNOT_EDIT_OTHERS_MESSAGE }
+    );
+    assert.equal(update.mock.callCount(), 0);
+  });
+
+  it('shows participants every prior version', async () => {
+    const revision = { content: 'Meeting at 10', createdAt: sentAt, replacedAt: new Date() };
+    stubHistoryLookup(buildMessage({ content: 'Meeting at 11', editHistory: [revision] }));
+    mock.method(chatService, 'getConversation', async () => ({}) as ConversationWithDetails);
+
+    const history = await chatService.getMessageHistory(
+      new mongoose.Types.ObjectId().toString(),
+      senderId.toString()
+    );
+
+    assert.equal(history.content, 'Meeting at 11');
+    assert.deepEqual(
+      history.revisions.map((entry) => entry.content),
+      ['Meeting at 10']
+    );
+  });
+
+  it('withholds deleted content from participants', async () => {
+    stubHistoryLookup(
+      buildMessage({
+        content: 'This message was deleted',
+        isDeleted: true,
+        deletedContent: 'Something regrettable',
+        editHistory: [{ content: 'Draft', createdAt: sentAt, replacedAt: new Date() }],
+      })
+    );
+    mock.method(chatService, 'getConversation', async () => ({}) as ConversationWithDetails);
+
+    const history = await chatService.getMessageHistory(
+      new mongoose.Types.ObjectId().toString(),
+      senderId.toString()
+    );
+
+    assert.deepEqual(history.revisions, []);
+    assert.equal(history.deletedContent, undefined);
+  });
+
+  it('refuses users outside the conversation', async () => {
+    stubHistoryLookup(buildMessage());
+    mock.method(chatService, 'getConversation', async () => null);
+
+    await assert.rejects(
+      chatService.getMessageHistory(
+        new mongoose.Types.ObjectId().toString(),
+        new mongoose.Types.ObjectId().toString()
+      ),
+      { message: MESSAGES.CHAT.NOT_PARTICIPANT }
+    );
+  });
+
+  it('shows moderators deleted content and records each view', async () => {
+    const message = buildMessage({
+      isDeleted: true,
+      deletedContent: 'Something regrettable',
+    });
+    stubHistoryLookup(message);
+    const audit = mock.method(ModerationLog, 'create', async () => ({}));
+    const moderatorId = new mongoose.Types.ObjectId().toString();
+
+    const history = await moderationService.getMessageHistory(message._id.toString(), {
+      moderatorId,
+    });
+
+    assert.equal(history.deletedContent, 'Something regrettable');
+    const [entry] = audit.mock.calls[0].arguments as unknown as [
+      { action: ModerationAction; messageId: mongoose.Types.ObjectId },
+    ];
+    assert.equal(entry.action, ModerationAction.VIEW_HISTORY);
+    assert.ok(entry.messageId.equals(message._id));
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { ConversationParticipant, Message, User } from '../src/models';
+import { chatService } from '../src/services/chat.service';
+import { MESSAGES } from '../src/constants/messages';
+
+const userId = new mongoose.Types.ObjectId();
+const conversationId = new mongoose.Types.ObjectId();
+
+/**
+ * Chainable stand-in for a Mongoose query resolving to the given documents
+ */
+const query = <T>(result: T) => {
+  const chain: Record<string, unknown> = {};
+  for (const step of ['select', 'sort', 'limit', 'populate']) {
+    chain[step] = () => chain;
+  }
+  chain.lean = async () => result;
+  return chain;
+};
+
+const stubSearch = (messages: Record<string, unknown>[], senders: unknown[] = []) => {
+  mock.method(ConversationParticipant, 'find', () => query([{ conversationId }]));
+  mock.method(User, 'find', () => query(senders));
+  return mock.method(Message, 'find', () => query(messages));
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('message search', () => {
+  it("searches only the user's own conversations, skipping deleted messages", async () => {
+    const find = stubSearch([]);
+
+    await chatService.searchMessages(userId.toString(), { query: 'c++ (beta)' });
+
+    const filter = find.mock.calls[0].arguments[0] as unknown as Record<string, unknown>;
+    assert.deepEqual(filter.conversationId, { $in: [conversationId] });
+    assert.equal(filter.isDeleted, false);
+    assert.deepEqual(filter.deletedFor, { $ne: userId });
+
+    // The query is matched literally, not as a regular expression
+    const [content] = filter.$or as Array<{ content: RegExp }>;
+    assert.ok(content.content.test('Release notes for C++ (beta)'));
+    assert.ok(!content.content.test('c (beta)'));
+  });
+
+  it('matches senders by name as well as content and file names', async () => {
+    const senderId = new mongoose.Types.ObjectId();
+    const find = stubSearch([], [{ _id: senderId }]);
+
+    await chatService.searchMessages(userId.toString(), { query: 'ada lovelace' });
+
+    const filter = find.mock.calls[0].arguments[0] as unknown as { $or: Record<string, unknown>[] };
+    assert.deepEqual(Object.keys(filter.$or[1]), ['attachments.filename']);
+    assert.deepEqual(filter.$or[2], { senderId: { $in: [senderId] } });
+  });
+
+  it('highlights matches and pages newest first', async () => {
+    const messages = [3, 2, 1].map((n) => ({
+      _id: new mongoose.Types.ObjectId(),
+      content: `Notes ${n}: the quarterly Budget review moved to Friday`,
+      attachments: [{ filename: 'budget.xlsx' }],
+      senderId: { firstName: 'Ada', lastName: 'Lovelace' },
+    }));
+    stubSearch(messages);
+
+    const page = await chatService.searchMessages(userId.toString(), {
+      query: 'budget',
+      limit: 2,
+    });
+
+    assert.equal(page.results.length, 2);
+    assert.equal(page.hasMore, true);
+    assert.equal(page.nextCursor, messages[1]._id.toString());
+
+    const [content, attachment] = page.results[0].highlights;
+    assert.equal(content.field, 'content');
+    const [match] = content.matches;
+    assert.equal(content.snippet.slice(match.start, match.start + match.length), 'Budget');
+    assert.deepEqual(attachment, {
+      field: 'attachment',
+      snippet: 'budget.xlsx',
+      matches: [{ start: 0, length: 6 }],
+    });
+  });
+
+  it('refuses to search a conversation the user is not in', async () => {
+    stubSearch([]);
+
+    await assert.rejects(
+      chatService.searchMessages(userId.toString(), {
+        query: 'hello',
+        conversationId: new mongoose.Types.ObjectId().toString(),
+      }),
+      { message: MESSAGES.CHAT.NOT_PARTICIPANT }
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { ExternalIdentity, Session, User, type IExternalIdentity, type IUser } from '../src/models';
+import { oauthService } from '../src/services/oauth.service';
+import { redisService } from '../src/services/redis.service';
+import { sessionCacheService } from '../src/services/sessionCache.service';
+import { OAuthIntent, OAuthProviderKind } from '../src/types/oauth.types';
+import { MESSAGES } from '../src/constants/messages';
+import config from '../src/config';
+
+const PROVIDER = 'github';
+
+/**
+ * Fake GitHub: the token endpoint and the two REST calls a login makes
+ */
+const stubGithub = (emails: { email: string; primary: boolean; verified: boolean }[]) =>
+  mock.method(globalThis, 'fetch', async (input: string | URL) => {
+    const url = input.toString();
+    const body = url.endsWith('/access_token')
+      ? { access_token: 'gho_test' }
+      : url.endsWith('/user/emails')
+        ? emails
+        : { id: 4242, login: 'ada', name: 'Ada Lovelace', avatar_url: 'https://avatars.test/ada' };
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+
+/**
+ * In-memory stand-in for the Redis calls an authorization makes
+ */
+const stubRedis = () => {
+  const store = new Map<string, string>();
+  mock.method(redisService, 'set', async (key: string, value: string) => {
+    store.set(key, value);
+  });
+  mock.method(redisService, 'get', async (key: string) => store.get(key) ?? null);
+  mock.method(redisService, 'del', async (key: string) => (store.delete(key) ? 1 : 0));
+  return store;
+};
+
+const stubIdentities = () => {
+  mock.method(ExternalIdentity, 'findOne', async () => null);
+  mock.method(ExternalIdentity, 'exists', async () => null);
+  return mock.method(ExternalIdentity.prototype, 'save', async function (this: IExternalIdentity) {
+    return this;
+  });
+};
+
+beforeEach(() => {
+  config.oauth.providers[PROVIDER] = {
+    kind: OAuthProviderKind.GITHUB,
+    name: 'GitHub',
+    authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+    tokenEndpoint: 'https://github.com/login/oauth/access_token',
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    scopes: ['read:user', 'user:email'],
+  };
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  delete config.oauth.providers[PROVIDER];
+});
+
+describe('social login', () => {
+  it('signs up a new user with PKCE and a single-use state', async () => {
+    stubRedis();
+    const fetch = stubGithub([{ email: 'Ada@Example.com', primary: true, verified: true }]);
+    mock.method(User, 'findOne', async () => null);
+    const create = mock.method(User, 'create', async (data: Partial<IUser>) => new User(data));
+    const saveIdentity = stubIdentities();
+
+    const { authorizationUrl, state } = await oauthService.createAuthorization(
+      PROVIDER,
+      OAuthIntent.LOGIN
+    );
+    const params = new URL(authorizationUrl).searchParams;
+    assert.equal(params.get('state'), state);
+    assert.equal(params.get('code_challenge_method'), 'S256');
+
+    const user = await oauthService.authenticate(PROVIDER, 'auth-code', state);
+
+    // The token request proves possession of the verifier behind the challenge
+    const tokenRequest = fetch.mock.calls[0].arguments[1] as RequestInit;
+    const verifier = (tokenRequest.body as URLSearchParams).get('code_verifier') ?? '';
+    assert.equal(
+      crypto.createHash('sha256').update(verifier).digest('base64url'),
+      params.get('code_challenge')
+    );
+
+    const [created] = create.mock.calls[0].arguments as unknown as [Partial<IUser>];
+    assert.equal(created.email, 'ada@example.com');
+    assert.equal(created.hasPassword, false);
+    assert.equal(created.isEmailVerified, true);
+    assert.equal(user.firstName, 'Ada');
+    assert.equal(user.lastName, 'Lovelace');
+    const identity = saveIdentity.mock.calls[0].this as IExternalIdentity;
+    assert.equal(identity.subject, '4242');
+    assert.ok(identity.userId.equals(user._id));
+
+    await assert.rejects(oauthService.authenticate(PROVIDER, 'auth-code', state), {
+      statusCode: 400,
+      message: MESSAGES.AUTH.OAUTH_STATE_INVALID,
+    });
+  });
+
+  it('refuses to match accounts on an unverified provider email', async () => {
+    stubRedis();
+    stubGithub([{ email: 'ada@example.com', primary: true, verified: false }]);
+    stubIdentities();
+    const findOne = mock.method(User, 'findOne', async () => null);
+
+    const { state } = await oauthService.createAuthorization(PROVIDER, OAuthIntent.LOGIN);
+
+    await assert.rejects(oauthService.authenticate(PROVIDER, 'auth-code', state), {
+      statusCode: 400,
+      message: MESSAGES.AUTH.OAUTH_EMAIL_NOT_VERIFIED,
+    });
+    assert.equal(findOne.mock.callCount(), 0);
+  });
+
+  it('locks out the password of an unverified account it claims by email', async () => {
+    stubRedis();
+    stubGithub([{ email: 'ada@example.com', primary: true, verified: true }]);
+    stubIdentities();
+    const existing = new User({
+      email: 'ada@example.com',
+      password: 'Registered-by-someone-1',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+    });
+    mock.method(User, 'findOne', async () => existing);
+    mock.method(User.prototype, 'save', async function (this: IUser) {
+      return this;
+    });
+    const sessionId = new mongoose.Types.ObjectId();
+    mock.method(Session, 'find', () => ({ select: async () => [{ _id: sessionId }] }));
+    const revoke = mock.method(Session, 'updateMany', async () => ({ modifiedCount: 1 }));
+    mock.method(sessionCacheService, 'invalidate', async () => undefined);
+
+    const { state } = await oauthService.createAuthorization(PROVIDER, OAuthIntent.LOGIN);
+    const user = await oauthService.authenticate(PROVIDER, 'auth-code', state);
+
+    assert.equal(user, existing);
+    assert.equal(user.isEmailVerified, true);
+    assert.equal(user.hasPassword, false);
+    // Replaced with random bytes before the save hook hashes it
+    assert.match(user.password, /^[0-9a-f]{64}$/);
+    assert.deepEqual(revoke.mock.calls[0].arguments, [
+      { _id: { $in: [sessionId.toString()] }, isRevoked: false },
+      { isRevoked: true },
+    ]);
+  });
+
+  it('links a provider only for the user who started the request', async () => {
+    stubRedis();
+    stubGithub([{ email: 'ada@example.com', primary: true, verified: true }]);
+    stubIdentities();
+    const userId = new mongoose.Types.ObjectId().toString();
+
+    const { state } = await oauthService.createAuthorization(PROVIDER, OAuthIntent.LINK, userId);
+
+    await assert.rejects(
+      oauthService.linkIdentity(new mongoose.Types.ObjectId().toString(), PROVIDER, 'code', state),
+      { statusCode: 400, message: MESSAGES.AUTH.OAUTH_STATE_INVALID }
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as argon2 from 'argon2';
+import mongoose from 'mongoose';
+import { Session, User, type IDeviceInfo, type IUser } from '../src/models';
+import { passwordService } from '../src/services/password.service';
+import { register } from '../src/services/auth.service';
+import { sessionCacheService } from '../src/services/sessionCache.service';
+import { MESSAGES } from '../src/constants/messages';
+import config from '../src/config';
+
+const deviceInfo: IDeviceInfo = {
+  deviceId: 'device-1',
+  deviceName: 'Chrome on macOS',
+  deviceType: 'desktop',
+  browser: 'Chrome',
+  os: 'macOS',
+  ip: '203.0.113.7',
+};
+
+// Cheap parameters keep the tests fast; verification reads them from the hash
+const hash = (password: string) =>
+  argon2.hash(password, { type: argon2.argon2id, memoryCost: 1024, timeCost: 2 });
+
+/**
+ * A user whose current and previous passwords are stored as real hashes
+ */
+const buildUser = async (current: string, previous: string[] = []) =>
+  new User({
+    email: 'ada@example.com',
+    password: await hash(current),
+    passwordHistory: await Promise.all(previous.map(hash)),
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+  });
+
+const stubSave = () =>
+  mock.method(User.prototype, 'save', async function (this: IUser) {
+    return this;
+  });
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('password policy', () => {
+  it('recognises breached passwords behind trailing digits and symbols', () => {
+    assert.equal(passwordService.isBreached('Password123!'), true);
+    assert.equal(passwordService.isBreached('dragon'), true);
+    assert.equal(passwordService.isBreached('Tangerine-Bicycle-Quartz'), false);
+  });
+
+  it('refuses breached passwords at registration', async () => {
+    mock.method(User, 'findOne', async () => null);
+    const create = mock.method(User, 'create', async () => ({}));
+
+    await assert.rejects(
+      register(
+        { email: 'ada@example.com', password: 'Football1!', firstName: 'Ada', lastName: 'L' },
+        deviceInfo
+      ),
+      { statusCode: 400, message: MESSAGES.AUTH.PASSWORD_BREACHED }
+    );
+    assert.equal(create.mock.callCount(), 0);
+  });
+
+  it('refuses the current password and any recent one', async () => {
+    const user = await buildUser('Current-pass-3', ['Older-pass-2', 'Oldest-pass-1']);
+    const save = stubSave();
+
+    for (const password of ['Current-pass-3', 'Oldest-pass-1']) {
+      await assert.rejects(passwordService.setPassword(user, password), {
+        statusCode: 400,
+        message: MESSAGES.AUTH.PASSWORD_REUSED,
+      });
+    }
+    assert.equal(save.mock.callCount(), 0);
+  });
+
+  it('keeps only the configured number of passwords, newest first', async () => {
+    const previous = Array.from(
+      { length: config.password.historySize - 1 },
+      (_, index) => `Previous-pass-${index}`
+    );
+    const user = await buildUser('Current-pass', previous);
+    const [currentHash, ...previousHashes] = [user.password, ...user.passwordHistory];
+    user.passwordResetRequired = true;
+    stubSave();
+
+    await passwordService.setPassword(user, 'Brand-new-pass');
+
+    assert.equal(user.password, 'Brand-new-pass');
+    assert.equal(user.passwordResetRequired, false);
+    // With the new one, the current password and all but the oldest still count as recent
+    assert.deepEqual(user.passwordHistory, [currentHash, ...previousHashes.slice(0, -1)]);
+  });
+});
+
+describe('password change', () => {
+  const stubChange = (user: IUser) => {
+    mock.method(User, 'findById', () => ({ select: async () => user }));
+    stubSave();
+    mock.method(sessionCacheService, 'invalidate', async () => undefined);
+    mock.method(Session, 'updateMany', async () => ({ modifiedCount: 0 }));
+    return mock.method(Session, 'find', () => ({ select: async () => [] }));
+  };
+
+  it('checks the current password and signs out the other sessions', async () => {
+    const user = await buildUser('Current-pass-3');
+    const findSessions = stubChange(user);
+    const currentSessionId = new mongoose.Types.ObjectId().toString();
+
+    await assert.rejects(
+      passwordService.changePassword(user._id.toString(), 'Wrong-pass', 'Brand-new-pass'),
+      { statusCode: 401, message: MESSAGES.AUTH.INVALID_PASSWORD }
+    );
+    assert.equal(findSessions.mock.callCount(), 0);
+
+    await passwordService.changePassword(
+      user._id.toString(),
+      'Current-pass-3',
+      'Brand-new-pass',
+      currentSessionId
+    );
+
+    assert.equal(user.password, 'Brand-new-pass');
+    assert.deepEqual(findSessions.mock.calls[0].arguments[0], {
+      userId: user._id.toString(),
+      isRevoked: false,
+      _id: { $ne: currentSessionId },
+    });
+  });
+
+  it('lets a social-only account set its first password', async () => {
+    const user = await buildUser('random-unusable-secret');
+    user.hasPassword = false;
+    stubChange(user);
+
+    await passwordService.changePassword(user._id.toString(), undefined, 'Brand-new-pass');
+
+    assert.equal(user.hasPassword, true);
+    // The unusable placeholder is not kept as history
+    assert.deepEqual(user.passwordHistory, []);
+  });
+});
@@ -0,0 +1,189 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import {
+  Conversation,
+  ConversationParticipant,
+  ConversationType,
+  Message,
+  MessageType,
+  type IMessage,
+  type IPoll,
+} from '../src/models';
+import { chatService, type ConversationWithDetails } from '../src/services/chat.service';
+import { redisService } from '../src/services/redis.service';
+import { queueService } from '../src/queues/queue.service';
+import { MESSAGES } from '../src/constants/messages';
+
+const conversationId = new mongoose.Types.ObjectId();
+const creatorId = new mongoose.Types.ObjectId();
+const voterId = new mongoose.Types.ObjectId();
+
+const conversation = {
+  _id: conversationId,
+  type: ConversationType.GROUP,
+  participants: [creatorId, voterId],
+} as unknown as ConversationWithDetails;
+
+const buildPollMessage = (poll: Partial<IPoll> = {}) =>
+  new Message({
+    conversationId,
+    senderId: creatorId,
+    type: MessageType.POLL,
+    content: 'Lunch?',
+    poll: {
+      question: 'Lunch?',
+      options: [
+        { text: 'Pizza', voteCount: 0 },
+        { text: 'Sushi', voteCount: 0 },
+      ],
+      allowMultiple: false,
+      isAnonymous: false,
+      ...poll,
+    },
+  });
+
+/**
+ * Stub the poll lookups and collect the ballot updates
+ */
+const stubPoll = (message: IMessage) => {
+  mock.method(chatService, 'getConversation', async () => conversation);
+  mock.method(Message, 'findById', () => ({
+    select: async () => message,
+    populate: async () => message,
+  }));
+  return mock.method(Message, 'updateOne', async () => ({}));
+};
+
+const optionId = (message: IMessage, index: number) => message.poll!.options[index]._id;
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('polls', () => {
+  it('sends a poll with its question as the message content', async () => {
+    mock.method(chatService, 'getConversation', async () => conversation);
+    mock.method(Message, 'create', async (data: Partial<IMessage>) => new Message(data));
+    mock.method(Message.prototype, 'populate', async function (this: IMessage) {
+      return this;
+    });
+    mock.method(redisService, 'getClient', () => ({ del: async () => 1 }));
+    mock.method(queueService, 'addJob', async () => ({}));
+    mock.method(Conversation, 'findByIdAndUpdate', async () => null);
+    mock.method(ConversationParticipant, 'updateMany', async () => ({}));
+
+    const message = await chatService.sendMessage(
+      conversationId.toString(),
+      creatorId.toString(),
+      '',
+      {
+        type: MessageType.POLL,
+        poll: { question: ' Lunch? ', options: [' Pizza ', 'Sushi', ' '], allowMultiple: true },
+      }
+    );
+
+    assert.equal(message.content, 'Lunch?');
+    assert.deepEqual(
+      message.poll?.options.map(({ text, voteCount }) => ({ text, voteCount })),
+      [
+        { text: 'Pizza', voteCount: 0 },
+        { text: 'Sushi', voteCount: 0 },
+      ]
+    );
+    assert.equal(message.poll?.allowMultiple, true);
+  });
+
+  it('requires a question and at least two options', async () => {
+    mock.method(chatService, 'getConversation', async () => conversation);
+
+    await assert.rejects(
+      chatService.sendMessage(conversationId.toString(), creatorId.toString(), '', {
+        type: MessageType.POLL,
+        poll: { question: 'Lunch?', options: ['Pizza'] },
+      }),
+      { message: MESSAGES.CHAT.POLL_REQUIRED }
+    );
+  });
+
+  it('moves a single-choice vote to the newly chosen option', async () => {
+    const message = buildPollMessage();
+    message.poll!.votes = [
+      { userId: voterId, optionId: optionId(message, 0), votedAt: new Date() },
+    ] as IPoll['votes'];
+    const updateOne = stubPoll(message);
+
+    await chatService.votePoll(message._id.toString(), voterId.toString(), [
+      optionId(message, 1).toString(),
+    ]);
+
+    const [removed, added] = updateOne.mock.calls.map(
+      (call) => call.arguments[1] as unknown as Record<string, unknown>
+    );
+    assert.ok('$pull' in removed);
+    assert.deepEqual(updateOne.mock.calls[0].arguments[2], {
+      arrayFilters: [{ 'option._id': optionId(message, 0) }],
+    });
+    assert.ok('$push' in added);
+    assert.deepEqual(updateOne.mock.calls[1].arguments[2], {
+      arrayFilters: [{ 'option._id': optionId(message, 1) }],
+    });
+  });
+
+  it('refuses several choices on a single-choice poll', async () => {
+    const message = buildPollMessage();
+    stubPoll(message);
+
+    await assert.rejects(
+      chatService.votePoll(message._id.toString(), voterId.toString(), [
+        optionId(message, 0).toString(),
+        optionId(message, 1).toString(),
+      ]),
+      { message: MESSAGES.CHAT.POLL_SINGLE_CHOICE }
+    );
+  });
+
+  it('refuses votes once the poll has closed', async () => {
+    const message = buildPollMessage({ closesAt: new Date(Date.now() - 1000) });
+    const updateOne = stubPoll(message);
+
+    await assert.rejects(
+      chatService.votePoll(message._id.toString(), voterId.toString(), [
+        optionId(message, 0).toString(),
+      ]),
+      { message: MESSAGES.CHAT.POLL_CLOSED }
+    );
+    assert.equal(updateOne.mock.callCount(), 0);
+  });
+
+  it('lets only the creator close a poll early', async () => {
+    const message = buildPollMessage();
+    const updateOne = stubPoll(message);
+
+    await assert.rejects(chatService.closePoll(message._id.toString(), voterId.toString()), {
+      message: MESSAGES.CHAT.CANNOT_CLOSE_OTHERS_POLL,
+    });
+
+    await chatService.closePoll(message._id.toString(), creatorId.toString());
+    const [, changes] = updateOne.mock.calls[0].arguments as unknown as [
+      unknown,
+      { $set: Record<string, unknown> },
+    ];
+    assert.ok(changes.$set['poll.closedAt'] instanceof Date);
+  });
+
+  it("hides voters on anonymous polls but still reports the caller's own votes", async () => {
+    const message = buildPollMessage({ isAnonymous: true });
+    message.poll!.options[0].voteCount = 1;
+    message.poll!.votes = [
+      { userId: voterId, optionId: optionId(message, 0), votedAt: new Date() },
+    ] as IPoll['votes'];
+    stubPoll(message);
+
+    const results = await chatService.getPollResults(message._id.toString(), voterId.toString());
+
+    assert.equal(results.totalVotes, 1);
+    assert.ok(results.options.every((option) => option.voters === undefined));
+    assert.deepEqual(results.myVotes, [optionId(message, 0).toString()]);
+  });
+});
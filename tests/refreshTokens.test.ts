@@ -0,0 +1,129 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { Session, User, type IDeviceInfo } from '../src/models';
+import { refreshAccessToken } from '../src/services/auth.service';
+import { generateRefreshToken } from '../src/services/token.service';
+import { notificationService } from '../src/services/notification.service';
+import { sessionCacheService } from '../src/services/sessionCache.service';
+import { MESSAGES } from '../src/constants/messages';
+
+const deviceInfo: IDeviceInfo = {
+  deviceId: 'device-1',
+  deviceName: 'Chrome on macOS',
+  deviceType: 'desktop',
+  browser: 'Chrome',
+  os: 'macOS',
+  ip: '203.0.113.7',
+};
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const user = new User({
+  email: 'ada@example.com',
+  password: 'Correct-horse-1',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+});
+
+/**
+ * Issue a refresh token for a fresh session and stub the session lookups around it
+ */
+const startSession = async (rotatedAway = false) => {
+  const session = new Session({
+    userId: user._id,
+    deviceInfo,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    lastActivityAt: new Date(),
+  });
+  const token = await generateRefreshToken(user._id.toString(), session._id.toString());
+  if (rotatedAway) {
+    session.refreshTokenHash = hash('a-later-token');
+    session.previousRefreshTokenHashes = [hash(token)];
+  } else {
+    session.refreshTokenHash = hash(token);
+  }
+
+  mock.method(Session, 'findById', () => ({ select: async () => session }));
+  mock.method(User, 'findById', async () => user);
+  return { session, token };
+};
+
+/**
+ * Stub what revoking a session touches
+ */
+const stubRevocation = () => ({
+  revoke: mock.method(Session, 'updateOne', async () => ({ modifiedCount: 1 })),
+  invalidate: mock.method(sessionCacheService, 'invalidate', async () => undefined),
+  notify: mock.method(notificationService, 'notifyUser', async () => undefined),
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('refresh token rotation', () => {
+  it('swaps the refresh token on every use and remembers the old one', async () => {
+    const { session, token } = await startSession();
+    const rotate = mock.method(Session, 'findOneAndUpdate', async () => session);
+
+    const tokens = await refreshAccessToken(token, deviceInfo);
+
+    assert.notEqual(tokens.refreshToken, token);
+    const [filter, update] = rotate.mock.calls[0].arguments as unknown as [
+      Record<string, unknown>,
+      {
+        $set: { refreshTokenHash: string };
+        $push: { previousRefreshTokenHashes: { $each: string[] } };
+      },
+    ];
+    assert.deepEqual(filter, { _id: session._id, refreshTokenHash: hash(token), isRevoked: false });
+    assert.equal(update.$set.refreshTokenHash, hash(tokens.refreshToken));
+    assert.deepEqual(update.$push.previousRefreshTokenHashes.$each, [hash(token)]);
+  });
+
+  it('revokes the session and alerts the owner when a rotated token comes back', async () => {
+    const { session, token } = await startSession(true);
+    const { revoke, invalidate, notify } = stubRevocation();
+    const rotate = mock.method(Session, 'findOneAndUpdate', async () => session);
+
+    await assert.rejects(refreshAccessToken(token, deviceInfo), {
+      statusCode: 401,
+      message: MESSAGES.AUTH.TOKEN_REUSE,
+    });
+
+    assert.equal(rotate.mock.callCount(), 0);
+    assert.deepEqual(revoke.mock.calls[0].arguments, [{ _id: session._id }, { isRevoked: true }]);
+    assert.deepEqual(invalidate.mock.calls[0].arguments, [[session._id.toString()]]);
+    const [, alert] = notify.mock.calls[0].arguments as unknown as [
+      unknown,
+      { data: { reason: string; ip: string } },
+    ];
+    assert.equal(alert.data.reason, 'refresh_token_reuse');
+    assert.equal(alert.data.ip, deviceInfo.ip);
+  });
+
+  it('treats losing a concurrent rotation as reuse', async () => {
+    const { token } = await startSession();
+    const { revoke } = stubRevocation();
+    mock.method(Session, 'findOneAndUpdate', async () => null);
+
+    await assert.rejects(refreshAccessToken(token, deviceInfo), {
+      message: MESSAGES.AUTH.TOKEN_REUSE,
+    });
+    assert.equal(revoke.mock.callCount(), 1);
+  });
+
+  it('rejects an unknown token without revoking the session', async () => {
+    const { session } = await startSession();
+    const { revoke } = stubRevocation();
+    const stranger = await generateRefreshToken(user._id.toString(), session._id.toString());
+    session.refreshTokenHash = hash('the-current-token');
+
+    await assert.rejects(refreshAccessToken(stranger, deviceInfo), {
+      statusCode: 401,
+      message: MESSAGES.AUTH.INVALID_SESSION,
+    });
+    assert.equal(revoke.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import {
+  ConversationParticipant,
+  Message,
+  ScheduledMessage,
+  ScheduledMessageStatus,
+  type IScheduledMessage,
+} from '../src/models';
+import { scheduledMessageService } from '../src/services/scheduledMessage.service';
+import { chatService, type ConversationWithDetails } from '../src/services/chat.service';
+import { queueService } from '../src/queues/queue.service';
+import { MESSAGES } from '../src/constants/messages';
+
+const conversationId = new mongoose.Types.ObjectId();
+const senderId = new mongoose.Types.ObjectId();
+
+const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+const buildScheduled = (overrides: Partial<IScheduledMessage> = {}) =>
+  new ScheduledMessage({
+    conversationId,
+    senderId,
+    content: 'See you tomorrow',
+    scheduledAt: inMinutes(30),
+    jobId: 'job-original',
+    ...overrides,
+  });
+
+let addJob: ReturnType<typeof mock.method>;
+let removeJob: ReturnType<typeof mock.method>;
+
+beforeEach(() => {
+  mock.method(ScheduledMessage.prototype, 'save', async function (this: IScheduledMessage) {
+    return this;
+  });
+  addJob = mock.method(queueService, 'addJob', async () => ({ id: 'job-new' }));
+  removeJob = mock.method(queueService, 'removeJob', async () => true);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('scheduled messages', () => {
+  it('queues a delayed delivery job when a message is scheduled', async () => {
+    mock.method(chatService, 'getConversation', async () => ({}) as ConversationWithDetails);
+    mock.method(ScheduledMessage, 'create', async (data: Partial<IScheduledMessage>) =>
+      buildScheduled({ ...data, jobId: undefined })
+    );
+    const scheduledAt = inMinutes(60);
+
+    const scheduled = await scheduledMessageService.scheduleMessage(
+      conversationId.toString(),
+      senderId.toString(),
+      'Reminder',
+      { scheduledAt }
+    );
+
+    assert.equal(scheduled.jobId, 'job-new');
+    const { queue, job, data, options } = addJob.mock.calls[0].arguments[0] as {
+      queue: string;
+      job: string;
+      data: { scheduledMessageId: string };
+      options: { delay: number; jobId: string };
+    };
+    assert.equal(queue, 'QUEUE__CHAT');
+    assert.equal(job, 'SEND_SCHEDULED_MESSAGE');
+    assert.equal(data.scheduledMessageId, scheduled._id.toString());
+    assert.ok(options.delay > 59 * 60 * 1000 && options.delay <= 60 * 60 * 1000);
+    assert.ok(options.jobId.endsWith(`-${scheduledAt.getTime()}`));
+  });
+
+  it('rejects send times in the past', async () => {
+    await assert.rejects(
+      scheduledMessageService.scheduleMessage(
+        conversationId.toString(),
+        senderId.toString(),
+        'Hi',
+        {
+          scheduledAt: inMinutes(-1),
+        }
+      ),
+      { message: MESSAGES.CHAT.SCHEDULE_TIME_INVALID }
+    );
+    assert.equal(addJob.mock.callCount(), 0);
+  });
+
+  it('re-queues the delivery when the send time is edited', async () => {
+    const scheduled = buildScheduled();
+    mock.method(ScheduledMessage, 'findOne', async () => scheduled);
+    const scheduledAt = inMinutes(90);
+
+    await scheduledMessageService.updateScheduledMessage(
+      scheduled._id.toString(),
+      senderId.toString(),
+      { content: 'See you the day after', scheduledAt }
+    );
+
+    assert.equal(scheduled.content, 'See you the day after');
+    assert.equal(scheduled.scheduledAt, scheduledAt);
+    assert.deepEqual(removeJob.mock.calls[0].arguments, ['QUEUE__CHAT', 'job-original']);
+    assert.equal(scheduled.jobId, 'job-new');
+  });
+
+  it('cancels a pending message and removes its job', async () => {
+    const scheduled = buildScheduled();
+    mock.method(ScheduledMessage, 'findOne', async () => scheduled);
+
+    await scheduledMessageService.cancelScheduledMessage(
+      scheduled._id.toString(),
+      senderId.toString()
+    );
+
+    assert.equal(scheduled.status, ScheduledMessageStatus.CANCELLED);
+    assert.deepEqual(removeJob.mock.calls[0].arguments, ['QUEUE__CHAT', 'job-original']);
+
+    // Once cancelled it can no longer be edited
+    await assert.rejects(
+      scheduledMessageService.updateScheduledMessage(
+        scheduled._id.toString(),
+        senderId.toString(),
+        { content: 'Too late' }
+      ),
+      { message: MESSAGES.CHAT.SCHEDULED_MESSAGE_NOT_PENDING }
+    );
+  });
+
+  it('sends the message when its delivery job runs', async () => {
+    const scheduled = buildScheduled({ scheduledAt: new Date() });
+    mock.method(ScheduledMessage, 'findById', async () => scheduled);
+    mock.method(ScheduledMessage, 'findOneAndUpdate', async () => scheduled);
+    mock.method(ConversationParticipant, 'exists', async () => ({ _id: conversationId }));
+    const sent = new Message({ conversationId, senderId, content: scheduled.content });
+    const sendMessage = mock.method(chatService, 'sendMessage', async () => sent);
+
+    const result = await scheduledMessageService.deliverScheduledMessage(scheduled._id.toString());
+
+    assert.equal(result.status, ScheduledMessageStatus.SENT);
+    assert.deepEqual(sendMessage.mock.calls[0].arguments.slice(0, 3), [
+      conversationId.toString(),
+      senderId.toString(),
+      'See you tomorrow',
+    ]);
+    assert.ok(scheduled.sentMessageId?.equals(sent._id));
+  });
+
+  it('ignores a stale job left over from before a reschedule', async () => {
+    const scheduled = buildScheduled({ scheduledAt: inMinutes(30) });
+    mock.method(ScheduledMessage, 'findById', async () => scheduled);
+    const sendMessage = mock.method(chatService, 'sendMessage');
+
+    const result = await scheduledMessageService.deliverScheduledMessage(scheduled._id.toString());
+
+    assert.equal(result.status, ScheduledMessageStatus.PENDING);
+    assert.equal(sendMessage.mock.callCount(), 0);
+  });
+});
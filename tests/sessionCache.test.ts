@@ -0,0 +1,139 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { Session, User, type IDeviceInfo } from '../src/models';
+import { sessionCacheService } from '../src/services/sessionCache.service';
+import { redisService } from '../src/services/redis.service';
+
+const deviceInfo: IDeviceInfo = {
+  deviceId: 'device-1',
+  deviceName: 'Chrome on macOS',
+  deviceType: 'desktop',
+  browser: 'Chrome',
+  os: 'macOS',
+  ip: '203.0.113.7',
+};
+
+const user = new User({
+  email: 'ada@example.com',
+  password: 'Correct-horse-1',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+});
+
+const buildSession = () =>
+  new Session({
+    userId: user._id,
+    refreshTokenHash: 'hash',
+    deviceInfo,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+
+/**
+ * In-memory stand-in for the Redis calls the cache makes
+ */
+const stubRedis = () => {
+  const store = new Map<string, string>();
+  mock.method(redisService, 'set', async (key: string, value: string) => {
+    store.set(key, value);
+  });
+  mock.method(redisService, 'get', async (key: string) => store.get(key) ?? null);
+  mock.method(redisService, 'del', async (key: string) => (store.delete(key) ? 1 : 0));
+  mock.method(redisService, 'incr', async (key: string) => {
+    const value = Number(store.get(key) ?? 0) + 1;
+    store.set(key, value.toString());
+    return value;
+  });
+  return store;
+};
+
+/**
+ * Serve the session and user documents the way the lean lookups return them
+ */
+const stubDatabase = (session: ReturnType<typeof buildSession>) => {
+  mock.method(User, 'findById', () => ({ lean: async () => user.toObject() }));
+  return mock.method(Session, 'findById', () => ({ lean: async () => session.toObject() }));
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('session cache', () => {
+  it('reads the database once and serves later checks from Redis', async () => {
+    stubRedis();
+    const session = buildSession();
+    const findSession = stubDatabase(session);
+
+    const first = await sessionCacheService.check(session._id.toString(), user._id.toString());
+    const second = await sessionCacheService.check(session._id.toString(), user._id.toString());
+
+    assert.equal(first.valid, true);
+    assert.equal(second.valid && second.user.email, 'ada@example.com');
+    assert.equal(findSession.mock.callCount(), 1);
+  });
+
+  it('sees a revocation on the very next check', async () => {
+    stubRedis();
+    const session = buildSession();
+    stubDatabase(session);
+    await sessionCacheService.check(session._id.toString(), user._id.toString());
+
+    session.isRevoked = true;
+    await sessionCacheService.invalidate([session._id.toString()]);
+
+    assert.deepEqual(await sessionCacheService.check(session._id.toString(), user._id.toString()), {
+      valid: false,
+      reason: 'Session expired or revoked',
+    });
+  });
+
+  it('does not cache a check that was invalidated while it loaded', async () => {
+    const store = stubRedis();
+    const session = buildSession();
+    stubDatabase(session);
+    // The session is revoked between the database read and the cache write
+    mock.method(User, 'findById', () => ({
+      lean: async () => {
+        await sessionCacheService.invalidate([session._id.toString()]);
+        return user.toObject();
+      },
+    }));
+
+    await sessionCacheService.check(session._id.toString(), user._id.toString());
+
+    assert.equal(store.has(`auth:session:${session._id}`), false);
+  });
+
+  it('refuses a cached session presented for another user', async () => {
+    stubRedis();
+    const session = buildSession();
+    stubDatabase(session);
+    await sessionCacheService.check(session._id.toString(), user._id.toString());
+
+    const result = await sessionCacheService.check(
+      session._id.toString(),
+      new mongoose.Types.ObjectId().toString()
+    );
+
+    assert.deepEqual(result, { valid: false, reason: 'Invalid session for user' });
+  });
+
+  it('falls back to the database while Redis is down', async () => {
+    const down = async () => {
+      throw new Error('connect ECONNREFUSED');
+    };
+    mock.method(redisService, 'get', down);
+    mock.method(redisService, 'set', down);
+    const session = buildSession();
+    stubDatabase(session);
+    mock.method(User, 'findById', () => ({
+      lean: async () => ({ ...user.toObject(), isActive: false }),
+    }));
+
+    assert.deepEqual(await sessionCacheService.check(session._id.toString(), user._id.toString()), {
+      valid: false,
+      reason: 'User account is deactivated',
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Media, MediaScanStatus, User, UserRole, type IMedia, type IUser } from '../src/models';
+import { storageQuotaService } from '../src/services/storageQuota.service';
+import { mediaService } from '../src/services/media.service';
+import { queueService } from '../src/queues/queue.service';
+import type { UploadResult } from '../src/types/storage.types';
+import { MESSAGES } from '../src/constants/messages';
+import config from '../src/config';
+
+const MB = 1024 * 1024;
+
+const buildUser = (overrides: Partial<IUser> = {}) =>
+  new User({
+    email: 'ada@example.com',
+    password: 'Correct-horse-1',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    ...overrides,
+  });
+
+/**
+ * Serve the user from findById and record every usage counter change
+ */
+const stubUser = (user: IUser) => {
+  mock.method(User, 'findById', async () => user);
+  mock.method(User.prototype, 'save', async function (this: IUser) {
+    return this;
+  });
+  return mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }));
+};
+
+const usageChanges = (usage: ReturnType<typeof stubUser>) =>
+  usage.mock.calls.map((call) => (call.arguments as unknown as [unknown, unknown])[1]);
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('storage quotas', () => {
+  it("applies the role's quota unless an admin overrides it", async () => {
+    const moderator = buildUser({
+      role: UserRole.MODERATOR,
+      storageUsedBytes: 100 * MB,
+      storageFileCount: 4,
+    });
+    stubUser(moderator);
+
+    const usage = await storageQuotaService.getUsage(moderator._id.toString());
+    assert.equal(usage.maxBytes, config.storage.quotas.moderator.maxBytes);
+    assert.equal(usage.remainingBytes, config.storage.quotas.moderator.maxBytes - 100 * MB);
+    assert.equal(usage.remainingFiles, config.storage.quotas.moderator.maxFiles - 4);
+    assert.equal(usage.isOverridden, false);
+
+    const overridden = await storageQuotaService.setOverride(moderator._id.toString(), {
+      maxBytes: 50 * MB,
+    });
+    assert.equal(overridden.maxBytes, 50 * MB);
+    assert.equal(overridden.maxFiles, config.storage.quotas.moderator.maxFiles);
+    // Usage above an override leaves nothing, not a negative allowance
+    assert.equal(overridden.remainingBytes, 0);
+    assert.equal(overridden.isOverridden, true);
+
+    const cleared = await storageQuotaService.setOverride(moderator._id.toString(), {
+      maxBytes: null,
+    });
+    assert.equal(cleared.maxBytes, config.storage.quotas.moderator.maxBytes);
+    assert.equal(cleared.isOverridden, false);
+  });
+
+  it('refuses uploads past either the byte or the file quota', async () => {
+    const user = buildUser({
+      storageUsedBytes: 9 * MB,
+      storageFileCount: 2,
+      storageQuotaBytes: 10 * MB,
+      storageQuotaFiles: 3,
+    });
+    stubUser(user);
+    const userId = user._id.toString();
+
+    await storageQuotaService.assertCanStore(userId, MB, 1);
+    await assert.rejects(storageQuotaService.assertCanStore(userId, MB + 1, 1), {
+      statusCode: 413,
+      message: MESSAGES.MEDIA.STORAGE_QUOTA_EXCEEDED,
+    });
+    await assert.rejects(storageQuotaService.assertCanStore(userId, 1, 2), {
+      statusCode: 413,
+      message: MESSAGES.MEDIA.FILE_QUOTA_EXCEEDED,
+    });
+  });
+});
+
+describe('direct upload accounting', () => {
+  const user = buildUser();
+
+  const reserve = async () => {
+    mock.method(Media, 'create', async (data: Partial<IMedia>) => new Media(data));
+    return mediaService.reserveDirectUpload(user._id.toString(), {
+      publicId: 'uploads/direct.mp4',
+      resourceType: 'video',
+      mimeType: 'video/mp4',
+      bytes: 8 * MB,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+  };
+
+  it('reserves the declared size, then counts what was actually stored', async () => {
+    const usage = stubUser(user);
+    const addJob = mock.method(queueService, 'addJob', async () => ({}));
+    const reserved = await reserve();
+
+    const completed = new Media({
+      ...reserved.toObject(),
+      bytes: 6 * MB,
+      scanStatus: MediaScanStatus.PENDING,
+    });
+    const complete = mock.method(
+      Media,
+      'findOneAndUpdate',
+      async (): Promise<IMedia | null> => completed
+    );
+    const result = { publicId: reserved.publicId, bytes: 6 * MB } as UploadResult;
+
+    await mediaService.completeDirectUpload(reserved, result, 'video/mp4');
+
+    assert.deepEqual(usageChanges(usage), [
+      { $inc: { storageUsedBytes: 8 * MB, storageFileCount: 1 } },
+      { $inc: { storageUsedBytes: -2 * MB, storageFileCount: 0 } },
+    ]);
+    assert.equal(addJob.mock.callCount(), 1);
+
+    // A second completion of the same upload is refused and counts nothing
+    complete.mock.mockImplementation(async () => null);
+    await assert.rejects(mediaService.completeDirectUpload(reserved, result, 'video/mp4'), {
+      statusCode: 409,
+      message: MESSAGES.MEDIA.DIRECT_UPLOAD_COMPLETED_ALREADY,
+    });
+    assert.equal(usage.mock.callCount(), 2);
+  });
+
+  it('releases the reservation of an upload that is discarded', async () => {
+    const usage = stubUser(user);
+    const reserved = await reserve();
+    mock.method(Media, 'findOneAndDelete', async () => reserved);
+
+    await mediaService.discardDirectUpload(reserved.publicId);
+
+    assert.deepEqual(usageChanges(usage)[1], {
+      $inc: { storageUsedBytes: -8 * MB, storageFileCount: -1 },
+    });
+  });
+});
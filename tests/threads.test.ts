@@ -0,0 +1,148 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import {
+  Conversation,
+  ConversationParticipant,
+  ConversationType,
+  Message,
+  MessageType,
+  type IMessage,
+} from '../src/models';
+import { chatService, type ConversationWithDetails } from '../src/services/chat.service';
+import { redisService } from '../src/services/redis.service';
+import { queueService } from '../src/queues/queue.service';
+
+const conversationId = new mongoose.Types.ObjectId();
+const rootAuthorId = new mongoose.Types.ObjectId();
+const earlierReplierId = new mongoose.Types.ObjectId();
+const senderId = new mongoose.Types.ObjectId();
+
+const conversation = {
+  _id: conversationId,
+  type: ConversationType.GROUP,
+  participants: [rootAuthorId, earlierReplierId, senderId],
+} as unknown as ConversationWithDetails;
+
+const buildRoot = () =>
+  new Message({
+    conversationId,
+    senderId: rootAuthorId,
+    content: 'Root message',
+    type: MessageType.TEXT,
+    replyCount: 1,
+    threadParticipants: [earlierReplierId, senderId],
+  });
+
+/**
+ * Stub everything sendMessage touches outside the thread logic
+ */
+const stubSend = (messages: IMessage[]) => {
+  mock.method(chatService, 'getConversation', async () => conversation);
+  mock.method(Message, 'findById', async (id: mongoose.Types.ObjectId) =>
+    messages.find((message) => message._id.equals(id))
+  );
+  mock.method(Message, 'create', async (data: Partial<IMessage>) => new Message(data));
+  mock.method(Message.prototype, 'populate', async function (this: IMessage) {
+    return this;
+  });
+  mock.method(redisService, 'getClient', () => ({ del: async () => 1 }));
+  mock.method(queueService, 'addJob', async () => ({}));
+
+  return {
+    rootUpdate: mock.method(Message, 'findByIdAndUpdate', async () => null),
+    conversationUpdate: mock.method(Conversation, 'findByIdAndUpdate', async () => null),
+    participantUpdates: mock.method(ConversationParticipant, 'updateMany', async () => ({})),
+  };
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('threaded replies', () => {
+  it('posts a reply into the thread without touching the main timeline', async () => {
+    const root = buildRoot();
+    const stubs = stubSend([root]);
+
+    const reply = await chatService.sendMessage(
+      conversationId.toString(),
+      senderId.toString(),
+      'In the thread',
+      { threadRootId: root._id.toString() }
+    );
+
+    assert.ok(reply.threadRootId?.equals(root._id));
+
+    const [rootId, summary] = stubs.rootUpdate.mock.calls[0].arguments as [
+      mongoose.Types.ObjectId,
+      Record<string, Record<string, unknown>>,
+    ];
+    assert.ok(rootId.equals(root._id));
+    assert.deepEqual(summary.$inc, { replyCount: 1 });
+    assert.equal(summary.$addToSet.threadParticipants, reply.senderId);
+
+    // The conversation's last message stays the same; only its message total changes
+    for (const call of stubs.conversationUpdate.mock.calls) {
+      assert.equal((call.arguments[1] as Record<string, unknown>).lastMessage, undefined);
+    }
+  });
+
+  it("raises the thread's unread count for its other followers only", async () => {
+    const root = buildRoot();
+    const stubs = stubSend([root]);
+
+    await chatService.sendMessage(conversationId.toString(), senderId.toString(), 'Hello', {
+      threadRootId: root._id.toString(),
+    });
+
+    const [existing, added] = stubs.participantUpdates.mock.calls.map(
+      (call) => call.arguments as unknown as [Record<string, unknown>, Record<string, unknown>]
+    );
+    const followers = (existing[0].userId as { $in: mongoose.Types.ObjectId[] }).$in;
+    assert.deepEqual(
+      followers.map((id) => id.toString()),
+      [rootAuthorId.toString(), earlierReplierId.toString()]
+    );
+    assert.deepEqual(existing[1], { $inc: { 'threadReads.$.unreadCount': 1 } });
+    assert.deepEqual(added[1], {
+      $push: { threadReads: { threadRootId: root._id, unreadCount: 1 } },
+    });
+  });
+
+  it('keeps replies to a reply in the original thread', async () => {
+    const root = buildRoot();
+    const earlierReply = new Message({
+      conversationId,
+      senderId: earlierReplierId,
+      content: 'First reply',
+      threadRootId: root._id,
+    });
+    stubSend([root, earlierReply]);
+
+    const reply = await chatService.sendMessage(
+      conversationId.toString(),
+      senderId.toString(),
+      'Second reply',
+      { threadRootId: earlierReply._id.toString() }
+    );
+
+    assert.ok(reply.threadRootId?.equals(root._id));
+  });
+
+  it('resets the unread count when a thread is read', async () => {
+    const root = buildRoot();
+    stubSend([root]);
+    const readUpdate = mock.method(ConversationParticipant, 'findOneAndUpdate', async () => ({}));
+
+    const result = await chatService.markThreadAsRead(root._id.toString(), senderId.toString());
+
+    assert.equal(result.threadRootId, root._id.toString());
+    const [filter, update] = readUpdate.mock.calls[0].arguments as unknown as [
+      Record<string, unknown>,
+      { $set: Record<string, unknown> },
+    ];
+    assert.ok((filter['threadReads.threadRootId'] as mongoose.Types.ObjectId).equals(root._id));
+    assert.equal(update.$set['threadReads.$.unreadCount'], 0);
+  });
+});
@@ -0,0 +1,229 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { User, type IDeviceInfo, type IUser } from '../src/models';
+import { twoFactorService } from '../src/services/twoFactor.service';
+import { redisService } from '../src/services/redis.service';
+import { lockoutService } from '../src/services/lockout.service';
+import { TwoFactorMethod } from '../src/types/twoFactor.types';
+import { MESSAGES } from '../src/constants/messages';
+import config from '../src/config';
+
+const deviceInfo: IDeviceInfo = {
+  deviceId: 'device-1',
+  deviceName: 'Chrome on macOS',
+  deviceType: 'desktop',
+  browser: 'Chrome',
+  os: 'macOS',
+  ip: '203.0.113.7',
+};
+
+/**
+ * Authenticator-app side of RFC 6238: the code for a base32 secret right now
+ */
+const currentTotp = (secret: string): string => {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  let bits = '';
+  for (const char of secret) {
+    bits += alphabet.indexOf(char).toString(2).padStart(5, '0');
+  }
+  const key = Buffer.from(bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)));
+
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 30000)));
+  const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  return ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1e6).toString().padStart(6, '0');
+};
+
+const buildUser = (overrides: Partial<IUser> = {}) =>
+  new User({
+    email: 'ada@example.com',
+    password: 'Correct-horse-1',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    ...overrides,
+  });
+
+const stubUserLookup = (user: IUser) => {
+  mock.method(User, 'findById', () => ({ select: async () => user }));
+  return mock.method(User.prototype, 'save', async function (this: IUser) {
+    return this;
+  });
+};
+
+/**
+ * In-memory stand-in for the Redis calls a login challenge makes
+ */
+const stubRedis = () => {
+  const store = new Map<string, string>();
+  mock.method(redisService, 'set', async (key: string, value: string) => {
+    store.set(key, value);
+  });
+  mock.method(redisService, 'get', async (key: string) => store.get(key) ?? null);
+  mock.method(redisService, 'del', async (key: string) => (store.delete(key) ? 1 : 0));
+  mock.method(redisService, 'incr', async (key: string) => {
+    const value = Number(store.get(key) ?? 0) + 1;
+    store.set(key, value.toString());
+    return value;
+  });
+  return store;
+};
+
+const stubLockout = () => {
+  mock.method(lockoutService, 'assertCanAttempt', async () => undefined);
+  mock.method(lockoutService, 'recordSuccess', async () => undefined);
+  return mock.method(lockoutService, 'recordFailure', async () => undefined);
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('two-factor enrollment', () => {
+  it('enables TOTP once the app proves it holds the secret', async () => {
+    const user = buildUser();
+    stubUserLookup(user);
+
+    const { secret, otpauthUrl } = await twoFactorService.setup(user._id.toString());
+
+    assert.ok(otpauthUrl.startsWith('otpauth://totp/Chat%20App%3Aada%40example.com?'));
+    assert.ok(otpauthUrl.includes(`secret=${secret}`));
+    // Only the encrypted form is stored
+    assert.ok(user.twoFactorPendingSecret && !user.twoFactorPendingSecret.includes(secret));
+
+    const codes = await twoFactorService.enable(user._id.toString(), currentTotp(secret));
+
+    assert.equal(codes.length, config.twoFactor.recoveryCodeCount);
+    assert.ok(codes.every((code) => /^[a-z2-7]{5}-[a-z2-7]{5}$/.test(code)));
+    assert.equal(user.twoFactorEnabled, true);
+    assert.equal(user.twoFactorPendingSecret, undefined);
+    assert.equal(user.twoFactorRecoveryCodes.length, codes.length);
+    assert.ok(user.twoFactorRecoveryCodes.every((hash) => !codes.includes(hash)));
+  });
+
+  it('keeps 2FA off when the confirmation code is wrong', async () => {
+    const user = buildUser();
+    stubUserLookup(user);
+    const { secret } = await twoFactorService.setup(user._id.toString());
+    const wrong = ((Number(currentTotp(secret)) + 500000) % 1e6).toString().padStart(6, '0');
+
+    await assert.rejects(twoFactorService.enable(user._id.toString(), wrong), {
+      statusCode: 400,
+      message: MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE,
+    });
+    assert.equal(user.twoFactorEnabled, false);
+  });
+
+  it('refuses to start setup again while 2FA is on', async () => {
+    const user = buildUser({ twoFactorEnabled: true });
+    stubUserLookup(user);
+
+    await assert.rejects(twoFactorService.setup(user._id.toString()), {
+      statusCode: 409,
+      message: MESSAGES.AUTH.TWO_FACTOR_ALREADY_ENABLED,
+    });
+  });
+});
+
+describe('two-factor login challenges', () => {
+  it('exchanges a challenge and a recovery code for the login exactly once', async () => {
+    const user = buildUser({ twoFactorEnabled: true, twoFactorRecoveryCodes: [] });
+    stubUserLookup(user);
+    stubRedis();
+    stubLockout();
+    const updateOne = mock.method(User, 'updateOne', async () => ({ modifiedCount: 1 }));
+
+    const challenge = await twoFactorService.createChallenge(user._id.toString(), deviceInfo);
+    assert.deepEqual(challenge.methods, Object.values(TwoFactorMethod));
+
+    const completed = await twoFactorService.completeChallenge(
+      challenge.challengeToken,
+      TwoFactorMethod.RECOVERY_CODE,
+      'ABCDE-fghij'
+    );
+
+    assert.equal(completed.userId, user._id.toString());
+    assert.deepEqual(completed.deviceInfo, deviceInfo);
+    // Codes are matched by hash, ignoring case and separators
+    const hash = crypto.createHash('sha256').update('abcdefghij').digest('hex');
+    assert.deepEqual(updateOne.mock.calls[0].arguments, [
+      { _id: user._id, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } },
+    ]);
+
+    await assert.rejects(
+      twoFactorService.completeChallenge(
+        challenge.challengeToken,
+        TwoFactorMethod.RECOVERY_CODE,
+        'klmno-pqrst'
+      ),
+      { statusCode: 401, message: MESSAGES.AUTH.TWO_FACTOR_CHALLENGE_INVALID }
+    );
+  });
+
+  it('rejects a TOTP code that was already used and counts the failure', async () => {
+    const user = buildUser();
+    stubUserLookup(user);
+    const { secret } = await twoFactorService.setup(user._id.toString());
+    const code = currentTotp(secret);
+    await twoFactorService.enable(user._id.toString(), code);
+    stubRedis();
+    const recordFailure = stubLockout();
+    // Apply the replay guard's filter to the stored step
+    const updateOne = mock.method(
+      User,
+      'updateOne',
+      async (filter: { $or: [unknown, { twoFactorLastUsedStep: { $lt: number } }] }) => ({
+        modifiedCount:
+          user.twoFactorLastUsedStep! < filter.$or[1].twoFactorLastUsedStep.$lt ? 1 : 0,
+      })
+    );
+
+    const { challengeToken } = await twoFactorService.createChallenge(
+      user._id.toString(),
+      deviceInfo
+    );
+
+    // The code that confirmed enrollment cannot also log in
+    await assert.rejects(
+      twoFactorService.completeChallenge(challengeToken, TwoFactorMethod.TOTP, code),
+      { statusCode: 401, message: MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE }
+    );
+    assert.equal(updateOne.mock.callCount(), 1);
+    assert.equal(recordFailure.mock.callCount(), 1);
+  });
+
+  it('drops the challenge after too many wrong codes', async () => {
+    const user = buildUser({ twoFactorEnabled: true });
+    stubUserLookup(user);
+    const store = stubRedis();
+    stubLockout();
+    mock.method(User, 'updateOne', async () => ({ modifiedCount: 0 }));
+
+    const { challengeToken } = await twoFactorService.createChallenge(
+      user._id.toString(),
+      deviceInfo
+    );
+
+    for (let attempt = 1; attempt < config.twoFactor.maxAttempts; attempt++) {
+      await assert.rejects(
+        twoFactorService.completeChallenge(
+          challengeToken,
+          TwoFactorMethod.RECOVERY_CODE,
+          'wrong-guess'
+        ),
+        { message: MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE }
+      );
+    }
+    await assert.rejects(
+      twoFactorService.completeChallenge(
+        challengeToken,
+        TwoFactorMethod.RECOVERY_CODE,
+        'wrong-guess'
+      ),
+      { message: MESSAGES.AUTH.TWO_FACTOR_TOO_MANY_ATTEMPTS }
+    );
+    assert.equal(store.size, 0);
+  });
+});
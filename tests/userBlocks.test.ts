@@ -0,0 +1,117 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import {
+  Conversation,
+  ConversationParticipant,
+  ConversationType,
+  Message,
+  User,
+  UserBlock,
+  type IMessage,
+} from '../src/models';
+import { chatService, type ConversationWithDetails } from '../src/services/chat.service';
+import { userBlockService } from '../src/services/userBlock.service';
+import { redisService } from '../src/services/redis.service';
+import { queueService } from '../src/queues/queue.service';
+import { MESSAGES } from '../src/constants/messages';
+
+const userId = new mongoose.Types.ObjectId();
+const otherId = new mongoose.Types.ObjectId();
+const bystanderId = new mongoose.Types.ObjectId();
+
+/**
+ * Chainable stand-in for a Mongoose query resolving to the given documents
+ */
+const query = <T>(result: T) => {
+  const chain: Record<string, unknown> = {};
+  chain.select = () => chain;
+  chain.lean = async () => result;
+  return chain;
+};
+
+const stubSend = (type: ConversationType) => {
+  const conversation = {
+    _id: new mongoose.Types.ObjectId(),
+    type,
+    participants: [userId, otherId, bystanderId],
+  } as unknown as ConversationWithDetails;
+  mock.method(chatService, 'getConversation', async () => conversation);
+  mock.method(Message.prototype, 'populate', async function (this: IMessage) {
+    return this;
+  });
+  mock.method(redisService, 'getClient', () => ({ del: async () => 1 }));
+  mock.method(Conversation, 'findByIdAndUpdate', async () => null);
+  mock.method(ConversationParticipant, 'updateMany', async () => ({}));
+  return {
+    conversation,
+    create: mock.method(Message, 'create', async (data: Partial<IMessage>) => new Message(data)),
+    addJob: mock.method(queueService, 'addJob', async () => ({})),
+  };
+};
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('block list', () => {
+  it('refuses to block yourself or the same user twice', async () => {
+    await assert.rejects(userBlockService.blockUser(userId.toString(), userId.toString()), {
+      statusCode: 400,
+      message: MESSAGES.USER.CANNOT_BLOCK_SELF,
+    });
+
+    mock.method(User, 'exists', async () => ({ _id: otherId }));
+    mock.method(UserBlock, 'exists', async () => ({ _id: new mongoose.Types.ObjectId() }));
+    await assert.rejects(userBlockService.blockUser(userId.toString(), otherId.toString()), {
+      statusCode: 409,
+      message: MESSAGES.USER.ALREADY_BLOCKED,
+    });
+  });
+
+  it('drops direct messages while either side has blocked the other', async () => {
+    const { conversation, create } = stubSend(ConversationType.DIRECT);
+    const isBlocked = mock.method(userBlockService, 'isBlockedEitherWay', async () => true);
+
+    await assert.rejects(
+      chatService.sendMessage(conversation._id.toString(), userId.toString(), 'Hello?'),
+      { message: MESSAGES.CHAT.USER_BLOCKED }
+    );
+
+    assert.equal(create.mock.callCount(), 0);
+    assert.equal(isBlocked.mock.calls[0].arguments[1], otherId.toString());
+  });
+
+  it('skips mention notifications for users who blocked the sender', async () => {
+    const { conversation, addJob } = stubSend(ConversationType.GROUP);
+    mock.method(ConversationParticipant, 'find', () =>
+      query([{ userId: otherId }, { userId: bystanderId }])
+    );
+    mock.method(userBlockService, 'getBlockerIds', async () => [otherId.toString()]);
+    mock.method(User, 'findById', () => query({ firstName: 'Ada', lastName: 'Lovelace' }));
+
+    await chatService.sendMessage(conversation._id.toString(), userId.toString(), 'Ping', {
+      mentions: [otherId.toString(), bystanderId.toString()],
+    });
+
+    const notified = addJob.mock.calls
+      .map((call) => call.arguments[0] as { job: string; data: { userId: string; title: string } })
+      .filter((job) => job.job === 'SEND_IN_APP');
+    assert.deepEqual(
+      notified.map((job) => job.data.userId),
+      [bystanderId.toString()]
+    );
+    assert.equal(notified[0].data.title, 'Ada Lovelace mentioned you');
+  });
+
+  it('hides presence between users blocked in either direction', async () => {
+    const online = [otherId, bystanderId, userId].map((id) => id.toString());
+    mock.method(redisService, 'getClient', () => ({ smembers: async () => online }));
+    mock.method(userBlockService, 'getBlockedIds', async () => []);
+    mock.method(userBlockService, 'getBlockerIds', async () => [otherId.toString()]);
+
+    const visible = await chatService.getOnlineUsers(userId.toString());
+
+    assert.deepEqual(visible, [bystanderId.toString(), userId.toString()]);
+  });
+});
@@ -0,0 +1,373 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import {
+  COSE_ALG,
+  WebAuthnError,
+  coseToPublicKey,
+  parseAuthenticatorData,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type CeremonyExpectations,
+} from '../src/utils/webauthn';
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from '../src/types/webauthn.types';
+import { Passkey, User, type IPasskey } from '../src/models';
+import { passkeyService } from '../src/services/passkey.service';
+import { redisService } from '../src/services/redis.service';
+import { MESSAGES } from '../src/constants/messages';
+
+const RP_ID = 'localhost';
+const ORIGIN = 'http://localhost:3000';
+
+type CborInput = number | string | Buffer | Map<CborInput, CborInput>;
+
+/**
+ * Minimal CBOR encoder for the values a software authenticator emits
+ */
+const encodeCbor = (value: CborInput): Buffer => {
+  const head = (major: number, length: number): Buffer => {
+    if (length < 24) {
+      return Buffer.from([(major << 5) | length]);
+    }
+    if (length < 0x100) {
+      return Buffer.from([(major << 5) | 24, length]);
+    }
+    const buffer = Buffer.alloc(3);
+    buffer[0] = (major << 5) | 25;
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  };
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+
+  const entries = [...value.entries()].flatMap(([key, entry]) => [
+    encodeCbor(key),
+    encodeCbor(entry),
+  ]);
+  return Buffer.concat([head(5, value.size), ...entries]);
+};
+
+/**
+ * Software authenticator holding a single ES256 credential
+ */
+class SoftwareAuthenticator {
+  private readonly keyPair = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  readonly credentialId = crypto.randomBytes(16);
+  private signCount = 0;
+
+  private get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  private cosePublicKey(): Buffer {
+    const jwk = this.keyPair.publicKey.export({ format: 'jwk' });
+    return encodeCbor(
+      new Map<CborInput, CborInput>([
+        [1, 2],
+        [3, COSE_ALG.ES256],
+        [-1, 1],
+        [-2, Buffer.from(jwk.x as string, 'base64url')],
+        [-3, Buffer.from(jwk.y as string, 'base64url')],
+      ])
+    );
+  }
+
+  private authenticatorData(attested: boolean): Buffer {
+    const rpIdHash = crypto.createHash('sha256').update(RP_ID).digest();
+    // User present + user verified, plus attested credential data on registration
+    const flags = Buffer.from([0x01 | 0x04 | (attested ? 0x40 : 0)]);
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+
+    if (!attested) {
+      return Buffer.concat([rpIdHash, flags, counter]);
+    }
+
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    return Buffer.concat([
+      rpIdHash,
+      flags,
+      counter,
+      Buffer.alloc(16),
+      idLength,
+      this.credentialId,
+      this.cosePublicKey(),
+    ]);
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: ORIGIN, crossOrigin: false }));
+  }
+
+  create(challenge: string): RegistrationResponseJSON {
+    const attestationObject = encodeCbor(
+      new Map<CborInput, CborInput>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', this.authenticatorData(true)],
+      ])
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', challenge).toString('base64url'),
+        attestationObject: attestationObject.toString('base64url'),
+      },
+    };
+  }
+
+  get(challenge: string): AuthenticationResponseJSON {
+    this.signCount += 1;
+    const authenticatorData = this.authenticatorData(false);
+    const clientDataJSON = this.clientData('webauthn.get', challenge);
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.concat([
+        authenticatorData,
+        crypto.createHash('sha256').update(clientDataJSON).digest(),
+      ]),
+      this.keyPair.privateKey
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+    };
+  }
+}
+
+const expectationsFor = (challenge: string): CeremonyExpectations => ({
+  challenge,
+  origins: [ORIGIN],
+  rpId: RP_ID,
+});
+
+describe('webauthn', () => {
+  it('registers and authenticates a software authenticator', () => {
+    const authenticator = new SoftwareAuthenticator();
+
+    const registration = verifyRegistrationResponse(
+      authenticator.create('register-challenge'),
+      expectationsFor('register-challenge')
+    );
+    assert.equal(registration.credentialId, authenticator.credentialId.toString('base64url'));
+    assert.equal(registration.algorithm, COSE_ALG.ES256);
+
+    const stored = { publicKey: registration.publicKey, signCount: registration.signCount };
+    const first = verifyAuthenticationResponse(
+      authenticator.get('login-challenge'),
+      expectationsFor('login-challenge'),
+      stored
+    );
+    assert.equal(first.signCount, 1);
+
+    // An assertion whose counter does not advance is rejected
+    const replay = authenticator.get('second-challenge');
+    verifyAuthenticationResponse(replay, expectationsFor('second-challenge'), {
+      ...stored,
+      signCount: first.signCount,
+    });
+    assert.throws(
+      () =>
+        verifyAuthenticationResponse(replay, expectationsFor('second-challenge'), {
+          ...stored,
+          signCount: 2,
+        }),
+      WebAuthnError
+    );
+  });
+
+  it('rejects an assertion signed for another challenge', () => {
+    const authenticator = new SoftwareAuthenticator();
+    const { publicKey } = verifyRegistrationResponse(
+      authenticator.create('register-challenge'),
+      expectationsFor('register-challenge')
+    );
+
+    assert.throws(
+      () =>
+        verifyAuthenticationResponse(
+          authenticator.get('login-challenge'),
+          expectationsFor('other-challenge'),
+          { publicKey, signCount: 0 }
+        ),
+      WebAuthnError
+    );
+  });
+
+  it('raises WebAuthnError for malformed input', () => {
+    const authenticator = new SoftwareAuthenticator();
+    const response = authenticator.get('login-challenge');
+
+    assert.throws(() => coseToPublicKey(Buffer.from([0xff, 0x00])), WebAuthnError);
+    assert.throws(() => coseToPublicKey(Buffer.from([0x1b, 0x00])), WebAuthnError);
+
+    const truncated = Buffer.alloc(60);
+    truncated[32] = 0x40;
+    truncated.writeUInt16BE(10, 53);
+    assert.throws(() => parseAuthenticatorData(truncated), WebAuthnError);
+
+    const badKey = Buffer.alloc(60);
+    badKey[32] = 0x40;
+    badKey.writeUInt16BE(2, 53);
+    badKey[57] = 0x5f;
+    assert.throws(() => parseAuthenticatorData(badKey), WebAuthnError);
+
+    assert.throws(
+      () =>
+        verifyRegistrationResponse(
+          {
+            ...authenticator.create('register-challenge'),
+            response: {
+              clientDataJSON: Buffer.from(
+                JSON.stringify({ type: 'webauthn.create', challenge: 'c', origin: ORIGIN })
+              ).toString('base64url'),
+              attestationObject: Buffer.from([0xa1, 0x61]).toString('base64url'),
+            },
+          },
+          expectationsFor('c')
+        ),
+      WebAuthnError
+    );
+
+    assert.throws(
+      () =>
+        verifyAuthenticationResponse(
+          { ...response, response: { ...response.response, signature: 'AAAA' } },
+          expectationsFor('login-challenge'),
+          { publicKey: Buffer.from([0xa1, 0x01]), signCount: 0 }
+        ),
+      WebAuthnError
+    );
+  });
+});
+
+describe('passkey service', () => {
+  const user = new User({
+    email: 'ada@example.com',
+    password: 'Correct-horse-1',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+  });
+
+  /**
+   * In-memory stand-in for the Redis calls a ceremony makes
+   */
+  const stubRedis = () => {
+    const store = new Map<string, string>();
+    mock.method(redisService, 'set', async (key: string, value: string) => {
+      store.set(key, value);
+    });
+    mock.method(redisService, 'get', async (key: string) => store.get(key) ?? null);
+    mock.method(redisService, 'del', async (key: string) => (store.delete(key) ? 1 : 0));
+  };
+
+  /**
+   * Run a registration ceremony through the service and return the stored passkey
+   */
+  const register = async (authenticator: SoftwareAuthenticator): Promise<IPasskey> => {
+    mock.method(User, 'findById', async () => user);
+    mock.method(Passkey, 'find', () => ({ select: async () => [] }));
+    mock.method(Passkey, 'exists', async () => null);
+    mock.method(Passkey, 'countDocuments', async () => 0);
+    mock.method(Passkey, 'create', async (data: Partial<IPasskey>) => new Passkey(data));
+
+    const options = await passkeyService.generateRegistrationOptions(user._id.toString());
+    return passkeyService.verifyRegistration(
+      user._id.toString(),
+      authenticator.create(options.challenge)
+    );
+  };
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('registers a passkey against the challenge it issued', async () => {
+    stubRedis();
+    const authenticator = new SoftwareAuthenticator();
+
+    const passkey = await register(authenticator);
+
+    assert.equal(passkey.credentialId, authenticator.credentialId.toString('base64url'));
+    assert.ok(passkey.userId.equals(user._id));
+    assert.equal(passkey.name, 'Passkey 1');
+
+    // The registration challenge is single-use
+    await assert.rejects(
+      passkeyService.verifyRegistration(user._id.toString(), authenticator.create('stale')),
+      { statusCode: 400, message: MESSAGES.AUTH.PASSKEY_CHALLENGE_EXPIRED }
+    );
+  });
+
+  it('signs the owner in once per challenge and advances the counter', async () => {
+    stubRedis();
+    const authenticator = new SoftwareAuthenticator();
+    const passkey = await register(authenticator);
+    mock.method(Passkey, 'findOne', async () => passkey);
+    const save = mock.method(Passkey.prototype, 'save', async function (this: IPasskey) {
+      return this;
+    });
+
+    const options = await passkeyService.generateAuthenticationOptions();
+    const assertion = authenticator.get(options.challenge);
+    const signedIn = await passkeyService.verifyAuthentication(assertion);
+
+    assert.equal(signedIn, user);
+    assert.equal(passkey.signCount, 1);
+    assert.ok(passkey.lastUsedAt instanceof Date);
+    assert.equal(save.mock.callCount(), 1);
+
+    await assert.rejects(passkeyService.verifyAuthentication(assertion), {
+      statusCode: 401,
+      message: MESSAGES.AUTH.PASSKEY_CHALLENGE_EXPIRED,
+    });
+  });
+
+  it("refuses another account's passkey when an email was given", async () => {
+    stubRedis();
+    const authenticator = new SoftwareAuthenticator();
+    const passkey = await register(authenticator);
+    mock.method(Passkey, 'findOne', async () => passkey);
+    const other = new User({
+      email: 'grace@example.com',
+      password: 'Correct-horse-2',
+      firstName: 'Grace',
+      lastName: 'Hopper',
+    });
+    mock.method(User, 'findOne', async () => other);
+    mock.method(Passkey, 'find', () => ({ select: async () => [] }));
+
+    const options = await passkeyService.generateAuthenticationOptions(other.email);
+
+    await assert.rejects(
+      passkeyService.verifyAuthentication(authenticator.get(options.challenge)),
+      {
+        statusCode: 401,
+        message: MESSAGES.AUTH.PASSKEY_VERIFICATION_FAILED,
+      }
+    );
+  });
+});